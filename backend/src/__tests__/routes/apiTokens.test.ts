@@ -0,0 +1,45 @@
+import request from 'supertest';
+import app from '../../app';
+import { createApiToken } from '../../utils/apiTokens';
+import { createPlan, createUser } from './helpers';
+
+describe('API token authentication', () => {
+  it('should accept a valid token', async () => {
+    const { user } = await createUser();
+    const plan = await createPlan(user);
+    const { token } = await createApiToken({ userId: user._id, name: 'CI', scope: 'read', planIds: [] });
+
+    const res = await request(app)
+      .get(`/api/plans/${plan._id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should refuse a revoked token with a plain 401', async () => {
+    const { user, auth } = await createUser();
+    const plan = await createPlan(user);
+    const { apiToken, token } = await createApiToken({ userId: user._id, name: 'CI', scope: 'write', planIds: [] });
+    await request(app).delete(`/api/tokens/${apiToken._id}`).set('Authorization', auth);
+
+    const res = await request(app)
+      .get(`/api/plans/${plan._id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual({ error: 'Invalid or expired API token' });
+  });
+
+  it('should refuse writes with a read-only token', async () => {
+    const { user } = await createUser();
+    const plan = await createPlan(user);
+    const { token } = await createApiToken({ userId: user._id, name: 'CI', scope: 'read', planIds: [] });
+
+    const res = await request(app)
+      .patch(`/api/plans/${plan._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Renamed' });
+
+    expect(res.status).toBe(403);
+  });
+});
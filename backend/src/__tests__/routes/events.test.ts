@@ -0,0 +1,129 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../../app';
+import { createApiToken } from '../../utils/apiTokens';
+import { generateStreamTicket } from '../../utils/jwt';
+import { createPlan, createUser } from './helpers';
+
+// Open an event stream and resolve once the server has accepted it
+const openStream = (server: http.Server, path: string) =>
+  new Promise<{ res: http.IncomingMessage; ended: Promise<void> }>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    http.get(`http://127.0.0.1:${port}${path}`, res => {
+      const ended = new Promise<void>(done => res.on('end', () => done()).on('close', () => done()));
+      res.once('data', () => resolve({ res, ended }));
+      res.resume();
+    }).on('error', reject);
+  });
+
+describe('Event stream tickets', () => {
+  it('should issue a ticket to plan members', async () => {
+    const owner = await createUser();
+    const viewer = await createUser();
+    const plan = await createPlan(owner.user, [{ user: viewer.user, role: 'viewer' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/events/ticket`)
+      .set('Authorization', viewer.auth);
+
+    expect(res.status).toBe(200);
+    expect(typeof res.body.ticket).toBe('string');
+  });
+
+  it('should refuse a ticket to non-members', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/events/ticket`)
+      .set('Authorization', other.auth);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should refuse a ticket to API tokens', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+    const { token } = await createApiToken({ userId: owner.user._id, name: 'CI', scope: 'write', planIds: [] });
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/events/ticket`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should not accept a ticket as an access token', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+    const ticket = generateStreamTicket(owner.user._id.toString(), plan._id.toString());
+
+    const res = await request(app)
+      .get(`/api/plans/${plan._id}`)
+      .set('Authorization', `Bearer ${ticket}`);
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('Event stream', () => {
+  let server: http.Server;
+
+  beforeAll(done => {
+    server = app.listen(0, done);
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  it('should refuse access tokens in the URL', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+    const accessToken = owner.auth.replace('Bearer ', '');
+
+    const res = await request(app).get(`/api/plans/${plan._id}/events?access_token=${accessToken}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should refuse a ticket issued for another plan', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+    const otherPlan = await createPlan(owner.user);
+    const ticket = generateStreamTicket(owner.user._id.toString(), otherPlan._id.toString());
+
+    const res = await request(app).get(`/api/plans/${plan._id}/events?ticket=${ticket}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should stream events with a valid ticket', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+    const ticket = generateStreamTicket(owner.user._id.toString(), plan._id.toString());
+
+    const { res } = await openStream(server, `/api/plans/${plan._id}/events?ticket=${ticket}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toContain('text/event-stream');
+    res.destroy();
+  });
+
+  it('should close the stream of a member who is removed', async () => {
+    const owner = await createUser();
+    const member = await createUser();
+    const plan = await createPlan(owner.user, [{ user: member.user, role: 'editor' }]);
+    const ticket = generateStreamTicket(member.user._id.toString(), plan._id.toString());
+    const { ended } = await openStream(server, `/api/plans/${plan._id}/events?ticket=${ticket}`);
+
+    const res = await request(app)
+      .delete(`/api/plans/${plan._id}/members/${member.user._id}`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(200);
+    await ended;
+  });
+});
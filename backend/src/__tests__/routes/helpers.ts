@@ -0,0 +1,52 @@
+import bcrypt from 'bcryptjs';
+import { Types } from 'mongoose';
+import User, { IUser } from '../../models/User';
+import Plan, { IPlan, IPlanMember } from '../../models/Plan';
+import Task from '../../models/Task';
+import { generateAccessToken } from '../../utils/jwt';
+import { MailMessage, setMailTransport } from '../../utils/mailer';
+
+process.env.JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'test-access-secret';
+
+let userCount = 0;
+
+// A registered user and a bearer header for their requests
+export const createUser = async ({ password, ...fields }: Partial<Pick<IUser, 'email' | 'name' | 'is_placeholder'>> & { password?: string } = {}) => {
+  userCount += 1;
+  const user = await User.create({
+    email: `user${userCount}@example.com`,
+    password_hash: password ? await bcrypt.hash(password, 4) : 'hashedpassword',
+    name: `User ${userCount}`,
+    ...fields,
+  });
+  const token = generateAccessToken({ userId: user._id.toString(), email: user.email });
+  return { user, auth: `Bearer ${token}` };
+};
+
+export const createPlan = (owner: IUser, members: Array<{ user: IUser; role: IPlanMember['role'] }> = []) =>
+  Plan.create({
+    name: 'Test Plan',
+    owner_id: owner._id,
+    members: members.map(({ user, role }) => ({
+      user_id: new Types.ObjectId(user._id),
+      role,
+      joined_at: new Date(),
+    })),
+  });
+
+export const createTask = (plan: IPlan, creator: IUser, fields: { title?: string; parent_id?: string } = {}) =>
+  Task.create({
+    plan_id: plan._id,
+    title: 'Task',
+    status: 'todo',
+    created_by: creator._id,
+    updated_by: creator._id,
+    ...fields,
+  });
+
+// Collects outgoing email instead of printing it
+export const captureMail = () => {
+  const sent: MailMessage[] = [];
+  setMailTransport({ async send(message) { sent.push(message); } });
+  return sent;
+};
@@ -0,0 +1,77 @@
+import request from 'supertest';
+import app from '../../app';
+import Plan from '../../models/Plan';
+import Invitation from '../../models/Invitation';
+import { captureMail, createUser } from './helpers';
+
+const importPlan = (auth: string, plan: Record<string, unknown>, tasks: Array<Record<string, unknown>>) =>
+  request(app)
+    .post('/api/plans/import')
+    .set('Authorization', auth)
+    .send({ plan_data: { plan: { name: 'Imported', members: [], ...plan }, tasks } });
+
+// The token at the end of an invitation link
+const inviteToken = (text: string) => text.match(/invitations\/([\w-]+)/)![1];
+
+describe('Importing plans', () => {
+  it('should invite assignees without an account as viewers', async () => {
+    const sent = captureMail();
+    const owner = await createUser();
+
+    const res = await importPlan(owner.auth, {}, [
+      { title: 'Write docs', assignees: [{ name: 'Writer', email: 'writer@example.com' }] },
+    ]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.invited).toEqual(['writer@example.com']);
+    const invitation = await Invitation.findOne({ email: 'writer@example.com' });
+    expect(invitation!.role).toBe('viewer');
+    expect(invitation!.status).toBe('pending');
+    expect(sent.map(message => message.to)).toEqual(['writer@example.com']);
+    expect((await Plan.findById(res.body.plan._id))!.members).toHaveLength(0);
+  });
+
+  it('should not invite assignees who have an account or are members', async () => {
+    captureMail();
+    const owner = await createUser();
+    const registered = await createUser({ email: 'registered@example.com' });
+
+    const res = await importPlan(owner.auth, {
+      members: [{ name: 'Editor', email: 'editor@example.com', role: 'editor' }],
+    }, [
+      {
+        title: 'Review',
+        assignees: [
+          { name: 'Registered', email: registered.user.email },
+          { name: 'Editor', email: 'editor@example.com' },
+        ],
+      },
+    ]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.invited).toEqual(['editor@example.com']);
+    expect((await Invitation.findOne({ email: 'editor@example.com' }))!.role).toBe('editor');
+    expect(await Invitation.countDocuments({ email: registered.user.email })).toBe(0);
+  });
+
+  it('should add an invited assignee as a viewer once they accept', async () => {
+    const sent = captureMail();
+    const owner = await createUser();
+    const res = await importPlan(owner.auth, {}, [
+      { title: 'Write docs', assignees: [{ name: 'Writer', email: 'writer@example.com' }] },
+    ]);
+
+    const registered = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'writer@example.com',
+        password: 'correct horse battery',
+        name: 'Writer',
+        invite_token: inviteToken(sent[0].text),
+      });
+
+    expect(registered.status).toBe(201);
+    const plan = await Plan.findById(res.body.plan._id);
+    expect(plan!.members.map(m => [m.user_id.toString(), m.role])).toEqual([[registered.body.user._id, 'viewer']]);
+  });
+});
@@ -0,0 +1,123 @@
+import request from 'supertest';
+import app from '../../app';
+import Plan from '../../models/Plan';
+import Invitation from '../../models/Invitation';
+import { captureMail, createPlan, createUser } from './helpers';
+
+describe('Plan members', () => {
+  it('should add a registered user by email', async () => {
+    const owner = await createUser();
+    const other = await createUser({ email: 'teammate@example.com' });
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/members`)
+      .set('Authorization', owner.auth)
+      .send({ email: 'Teammate@Example.com', role: 'editor' });
+
+    expect(res.status).toBe(200);
+    const saved = await Plan.findById(plan._id);
+    expect(saved!.members.map(m => [m.user_id.toString(), m.role])).toEqual([[other.user._id.toString(), 'editor']]);
+  });
+
+  it('should refuse to add the owner as a member', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/members`)
+      .set('Authorization', owner.auth)
+      .send({ email: owner.user.email });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('User is already the owner');
+    expect((await Plan.findById(plan._id))!.members).toHaveLength(0);
+  });
+
+  it('should refuse to add an existing member twice', async () => {
+    const owner = await createUser();
+    const member = await createUser();
+    const plan = await createPlan(owner.user, [{ user: member.user, role: 'viewer' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/members`)
+      .set('Authorization', owner.auth)
+      .send({ email: member.user.email });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('User is already a member');
+  });
+
+  it('should report an unknown email', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/members`)
+      .set('Authorization', owner.auth)
+      .send({ email: 'nobody@example.com' });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should only let the owner add members', async () => {
+    const owner = await createUser();
+    const editor = await createUser();
+    const other = await createUser();
+    const plan = await createPlan(owner.user, [{ user: editor.user, role: 'editor' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/members`)
+      .set('Authorization', editor.auth)
+      .send({ email: other.user.email });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('Plan invitations', () => {
+  it('should email a single-use link without returning its token', async () => {
+    const sent = captureMail();
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/invitations`)
+      .set('Authorization', owner.auth)
+      .send({ email: 'New.Person@example.com', role: 'editor' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.email).toBe('new.person@example.com');
+    expect(res.body.token_hash).toBeUndefined();
+    expect(sent.map(message => message.to)).toEqual(['new.person@example.com']);
+    expect(await Invitation.countDocuments({ plan_id: plan._id, status: 'pending' })).toBe(1);
+  });
+
+  it('should refuse to invite the owner', async () => {
+    captureMail();
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/invitations`)
+      .set('Authorization', owner.auth)
+      .send({ email: owner.user.email });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('User is already a member');
+  });
+
+  it('should refuse to invite an existing member', async () => {
+    captureMail();
+    const owner = await createUser();
+    const member = await createUser();
+    const plan = await createPlan(owner.user, [{ user: member.user, role: 'viewer' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/invitations`)
+      .set('Authorization', owner.auth)
+      .send({ email: member.user.email });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,94 @@
+import request from 'supertest';
+import app from '../../app';
+import Plan from '../../models/Plan';
+import Task from '../../models/Task';
+import { SAMPLE_PLAN_NAME } from '../../utils/samplePlan';
+import { captureMail, createPlan, createUser } from './helpers';
+
+describe('Transferring ownership', () => {
+  it('should hand the plan to a member and keep the old owner as an editor', async () => {
+    const owner = await createUser();
+    const member = await createUser();
+    const plan = await createPlan(owner.user, [{ user: member.user, role: 'viewer' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/transfer-ownership`)
+      .set('Authorization', owner.auth)
+      .send({ user_id: member.user._id.toString() });
+
+    expect(res.status).toBe(200);
+    const saved = await Plan.findById(plan._id);
+    expect(saved!.owner_id.toString()).toBe(member.user._id.toString());
+    expect(saved!.members.map(m => [m.user_id.toString(), m.role])).toEqual([[owner.user._id.toString(), 'editor']]);
+  });
+
+  it('should refuse a new owner who is not a member', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/transfer-ownership`)
+      .set('Authorization', owner.auth)
+      .send({ user_id: other.user._id.toString() });
+
+    expect(res.status).toBe(400);
+    expect((await Plan.findById(plan._id))!.owner_id.toString()).toBe(owner.user._id.toString());
+  });
+
+  it('should only let the owner transfer the plan', async () => {
+    const owner = await createUser();
+    const editor = await createUser();
+    const plan = await createPlan(owner.user, [{ user: editor.user, role: 'editor' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/transfer-ownership`)
+      .set('Authorization', editor.auth)
+      .send({ user_id: editor.user._id.toString() });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('Leaving a plan', () => {
+  it('should remove the member', async () => {
+    const owner = await createUser();
+    const member = await createUser();
+    const plan = await createPlan(owner.user, [{ user: member.user, role: 'editor' }]);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/leave`)
+      .set('Authorization', member.auth);
+
+    expect(res.status).toBe(200);
+    expect((await Plan.findById(plan._id))!.members).toHaveLength(0);
+  });
+
+  it('should refuse the owner', async () => {
+    const owner = await createUser();
+    const plan = await createPlan(owner.user);
+
+    const res = await request(app)
+      .post(`/api/plans/${plan._id}/leave`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('Sample plans', () => {
+  it('should give every new account a sample plan of its own', async () => {
+    captureMail();
+    const register = (email: string) => request(app)
+      .post('/api/auth/register')
+      .send({ email, password: 'correct horse battery', name: 'New Person' });
+
+    const first = await register('first@example.com');
+    const second = await register('second@example.com');
+
+    const samplePlans = await Plan.find({ name: SAMPLE_PLAN_NAME });
+    expect(samplePlans.map(plan => plan.owner_id.toString()).sort())
+      .toEqual([first.body.user._id, second.body.user._id].sort());
+    expect(await Task.countDocuments({ plan_id: samplePlans[0]._id })).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,111 @@
+import request from 'supertest';
+import app from '../../app';
+import { createApiToken } from '../../utils/apiTokens';
+import { issueRefreshToken } from '../../utils/sessions';
+import { captureMail, createUser } from './helpers';
+
+const PASSWORD = 'correct horse battery';
+const NEW_PASSWORD = 'tr0ub4dor and more';
+
+const login = (email: string, password: string) =>
+  request(app).post('/api/auth/login').send({ email, password });
+
+const refresh = (token: string) => request(app).post('/api/auth/refresh').set('Cookie', `refreshToken=${token}`);
+
+// The token in an emailed reset link
+const resetToken = (text: string) => text.match(/reset-password\?token=([\w-]+)/)![1];
+
+describe('Forgotten passwords', () => {
+  it('should email a reset link to an existing account', async () => {
+    const sent = captureMail();
+    const { user } = await createUser({ password: PASSWORD });
+
+    const res = await request(app).post('/api/auth/password/forgot').send({ email: user.email });
+
+    expect(res.status).toBe(200);
+    expect(sent.map(message => message.to)).toEqual([user.email]);
+  });
+
+  it('should answer the same for unknown emails without sending anything', async () => {
+    const sent = captureMail();
+    const { user } = await createUser({ password: PASSWORD });
+    const known = await request(app).post('/api/auth/password/forgot').send({ email: user.email });
+    sent.length = 0;
+
+    const unknown = await request(app).post('/api/auth/password/forgot').send({ email: 'nobody@example.com' });
+
+    expect(unknown.status).toBe(200);
+    expect(unknown.body).toEqual(known.body);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should not email a reset link to a placeholder account', async () => {
+    const sent = captureMail();
+    const { user } = await createUser({ is_placeholder: true });
+
+    const res = await request(app).post('/api/auth/password/forgot').send({ email: user.email });
+
+    expect(res.status).toBe(200);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should reset the password once and sign out every session', async () => {
+    const sent = captureMail();
+    const { user } = await createUser({ password: PASSWORD });
+    const session = await issueRefreshToken(user._id, {});
+    await request(app).post('/api/auth/password/forgot').send({ email: user.email });
+    const token = resetToken(sent[0].text);
+
+    const res = await request(app).post('/api/auth/password/reset').send({ token, password: NEW_PASSWORD });
+    const reused = await request(app).post('/api/auth/password/reset').send({ token, password: PASSWORD });
+
+    expect(res.status).toBe(200);
+    expect(reused.status).toBe(400);
+    expect((await login(user.email, NEW_PASSWORD)).status).toBe(200);
+    expect((await login(user.email, PASSWORD)).status).toBe(401);
+    expect((await refresh(session)).status).toBe(401);
+  });
+});
+
+describe('Changing passwords', () => {
+  it('should require the current password', async () => {
+    const { auth } = await createUser({ password: PASSWORD });
+
+    const res = await request(app)
+      .post('/api/auth/password/change')
+      .set('Authorization', auth)
+      .send({ current_password: 'wrong password', new_password: NEW_PASSWORD });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should keep this session and sign out the others', async () => {
+    const { user, auth } = await createUser({ password: PASSWORD });
+    const current = await issueRefreshToken(user._id, {});
+    const other = await issueRefreshToken(user._id, {});
+
+    const res = await request(app)
+      .post('/api/auth/password/change')
+      .set('Authorization', auth)
+      .set('Cookie', `refreshToken=${current}`)
+      .send({ current_password: PASSWORD, new_password: NEW_PASSWORD });
+
+    expect(res.status).toBe(200);
+    expect(res.body.revoked_sessions).toBe(1);
+    expect((await refresh(other)).status).toBe(401);
+    expect((await refresh(current)).status).toBe(200);
+    expect((await login(user.email, NEW_PASSWORD)).status).toBe(200);
+  });
+
+  it('should refuse API tokens', async () => {
+    const { user } = await createUser({ password: PASSWORD });
+    const { token } = await createApiToken({ userId: user._id, name: 'CI', scope: 'write', planIds: [] });
+
+    const res = await request(app)
+      .post('/api/auth/password/change')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ current_password: PASSWORD, new_password: NEW_PASSWORD });
+
+    expect(res.status).toBe(403);
+  });
+});
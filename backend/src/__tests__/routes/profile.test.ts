@@ -0,0 +1,136 @@
+import request from 'supertest';
+import app from '../../app';
+import User from '../../models/User';
+import Plan from '../../models/Plan';
+import Task from '../../models/Task';
+import { captureMail, createPlan, createTask, createUser } from './helpers';
+
+const PASSWORD = 'correct horse battery';
+
+// The token in an emailed confirmation link
+const verifyToken = (text: string) => text.match(/verify-email\?token=([\w-]+)/)![1];
+
+describe('Updating the profile', () => {
+  it('should change the name and avatar', async () => {
+    const { user, auth } = await createUser();
+
+    const res = await request(app)
+      .patch('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ name: 'Renamed', avatar: '#3366ff' });
+
+    expect(res.status).toBe(200);
+    const saved = await User.findById(user._id);
+    expect(saved!.name).toBe('Renamed');
+    expect(saved!.avatar).toBe('#3366ff');
+  });
+
+  it('should refuse an avatar that is not a color', async () => {
+    const { auth } = await createUser();
+
+    const res = await request(app)
+      .patch('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ avatar: 'url(evil)' });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('Changing the email address', () => {
+  it('should require the current password', async () => {
+    const sent = captureMail();
+    const { user, auth } = await createUser({ password: PASSWORD });
+
+    const res = await request(app)
+      .patch('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ email: 'new@example.com', current_password: 'wrong password' });
+
+    expect(res.status).toBe(400);
+    expect(sent).toHaveLength(0);
+    expect((await User.findById(user._id))!.pending_email).toBeUndefined();
+  });
+
+  it('should switch the address once the emailed link is confirmed', async () => {
+    const sent = captureMail();
+    const { user, auth } = await createUser({ password: PASSWORD });
+
+    const res = await request(app)
+      .patch('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ email: 'new@example.com', current_password: PASSWORD });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe(user.email);
+    expect(res.body.user.pending_email).toBe('new@example.com');
+    expect(sent.map(message => message.to)).toContain('new@example.com');
+
+    const confirm = sent.find(message => message.to === 'new@example.com')!;
+    const verify = await request(app).post('/api/auth/email/verify').send({ token: verifyToken(confirm.text) });
+
+    expect(verify.status).toBe(200);
+    expect(verify.body.email).toBe('new@example.com');
+    expect((await User.findById(user._id))!.email).toBe('new@example.com');
+  });
+
+  it('should refuse an email that already has an account', async () => {
+    const sent = captureMail();
+    await createUser({ email: 'taken@example.com' });
+    const { auth } = await createUser({ password: PASSWORD });
+
+    const res = await request(app)
+      .patch('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ email: 'taken@example.com', current_password: PASSWORD });
+
+    expect(res.status).toBe(400);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('Deleting the account', () => {
+  it('should require the password', async () => {
+    const { user, auth } = await createUser({ password: PASSWORD });
+
+    const res = await request(app)
+      .delete('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ password: 'wrong password' });
+
+    expect(res.status).toBe(400);
+    expect(await User.findById(user._id)).not.toBeNull();
+  });
+
+  it('should refuse while the user still owns plans', async () => {
+    const { user, auth } = await createUser({ password: PASSWORD });
+    const plan = await createPlan(user);
+
+    const res = await request(app)
+      .delete('/api/auth/me')
+      .set('Authorization', auth)
+      .send({ password: PASSWORD });
+
+    expect(res.status).toBe(409);
+    expect(res.body.plans.map((owned: { _id: string }) => owned._id)).toEqual([plan._id.toString()]);
+    expect(await User.findById(user._id)).not.toBeNull();
+  });
+
+  it('should remove memberships and assignments', async () => {
+    const owner = await createUser();
+    const member = await createUser({ password: PASSWORD });
+    const plan = await createPlan(owner.user, [{ user: member.user, role: 'editor' }]);
+    const task = await createTask(plan, owner.user);
+    await Task.updateOne({ _id: task._id }, { $set: { assignee_ids: [member.user._id] } });
+
+    const res = await request(app)
+      .delete('/api/auth/me')
+      .set('Authorization', member.auth)
+      .send({ password: PASSWORD });
+
+    expect(res.status).toBe(200);
+    expect(await User.findById(member.user._id)).toBeNull();
+    expect((await Plan.findById(plan._id))!.members).toHaveLength(0);
+    expect((await Task.findById(task._id))!.assignee_ids).toHaveLength(0);
+  });
+});
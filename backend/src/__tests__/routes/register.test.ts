@@ -0,0 +1,148 @@
+import request from 'supertest';
+import app from '../../app';
+import User from '../../models/User';
+import Plan from '../../models/Plan';
+import Invitation from '../../models/Invitation';
+import { captureMail, createPlan, createUser } from './helpers';
+
+const registration = (email: string, fields: Record<string, string> = {}) => ({
+  email,
+  password: 'correct horse battery',
+  name: 'New Person',
+  ...fields,
+});
+
+// The token at the end of the link in an email
+const linkToken = (text: string) => text.match(/(?:invitations\/|token=)([\w-]+)/)![1];
+
+describe('Registering', () => {
+  it('should create a new account', async () => {
+    captureMail();
+
+    const res = await request(app).post('/api/auth/register').send(registration('new@example.com'));
+
+    expect(res.status).toBe(201);
+    expect(res.body.accessToken).toBeDefined();
+  });
+
+  it('should refuse an email that already has an account', async () => {
+    await createUser({ email: 'taken@example.com' });
+
+    const res = await request(app).post('/api/auth/register').send(registration('taken@example.com'));
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('User already exists');
+  });
+});
+
+describe('Claiming placeholder accounts', () => {
+  it('should not register a placeholder without an invitation and email a claim link instead', async () => {
+    const sent = captureMail();
+    const { user } = await createUser({ email: 'placeholder@example.com', is_placeholder: true });
+
+    const res = await request(app).post('/api/auth/register').send(registration('placeholder@example.com'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.accessToken).toBeUndefined();
+    expect((await User.findById(user._id))!.is_placeholder).toBe(true);
+    expect(sent.map(message => message.to)).toEqual(['placeholder@example.com']);
+    expect(sent[0].text).toContain('/reset-password?token=');
+  });
+
+  it('should answer like forgot-password, so the response does not reveal the placeholder', async () => {
+    captureMail();
+    await createUser({ email: 'placeholder@example.com', is_placeholder: true });
+
+    const registered = await request(app).post('/api/auth/register').send(registration('placeholder@example.com'));
+    const forgot = await request(app).post('/api/auth/password/forgot').send({ email: 'nobody@example.com' });
+
+    expect(registered.status).toBe(forgot.status);
+    expect(registered.body).toEqual(forgot.body);
+  });
+
+  it('should not send another claim link while the last one is fresh', async () => {
+    const sent = captureMail();
+    await createUser({ email: 'placeholder@example.com', is_placeholder: true });
+
+    await request(app).post('/api/auth/register').send(registration('placeholder@example.com'));
+    await request(app).post('/api/auth/register').send(registration('placeholder@example.com'));
+
+    expect(sent).toHaveLength(1);
+  });
+
+  it('should claim the placeholder through the emailed link', async () => {
+    const sent = captureMail();
+    const { user } = await createUser({ email: 'placeholder@example.com', is_placeholder: true });
+    await request(app).post('/api/auth/register').send(registration('placeholder@example.com'));
+
+    const reset = await request(app)
+      .post('/api/auth/password/reset')
+      .send({ token: linkToken(sent[0].text), password: 'correct horse battery' });
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'placeholder@example.com', password: 'correct horse battery' });
+
+    expect(reset.status).toBe(200);
+    expect((await User.findById(user._id))!.is_placeholder).toBe(false);
+    expect(login.status).toBe(200);
+  });
+
+  it('should claim the placeholder with an invitation to its email', async () => {
+    const sent = captureMail();
+    const owner = await createUser();
+    const { user } = await createUser({ email: 'placeholder@example.com', is_placeholder: true });
+    const plan = await createPlan(owner.user);
+    await request(app)
+      .post(`/api/plans/${plan._id}/invitations`)
+      .set('Authorization', owner.auth)
+      .send({ email: 'placeholder@example.com', role: 'editor' });
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send(registration('placeholder@example.com', { invite_token: linkToken(sent[0].text) }));
+
+    expect(res.status).toBe(201);
+    expect(res.body.user._id).toBe(user._id.toString());
+    expect((await User.findById(user._id))!.is_placeholder).toBe(false);
+    const joined = await Plan.findById(plan._id);
+    expect(joined!.members.map(m => m.user_id.toString())).toContain(user._id.toString());
+  });
+
+  it('should refuse an invitation sent to another email', async () => {
+    const sent = captureMail();
+    const owner = await createUser();
+    await createUser({ email: 'placeholder@example.com', is_placeholder: true });
+    const plan = await createPlan(owner.user);
+    await request(app)
+      .post(`/api/plans/${plan._id}/invitations`)
+      .set('Authorization', owner.auth)
+      .send({ email: 'someone.else@example.com' });
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send(registration('placeholder@example.com', { invite_token: linkToken(sent[0].text) }));
+
+    expect(res.status).toBe(400);
+    expect((await User.findOne({ email: 'placeholder@example.com' }))!.is_placeholder).toBe(true);
+  });
+
+  it('should invite imported assignees who have no account', async () => {
+    const sent = captureMail();
+    const owner = await createUser();
+
+    const res = await request(app)
+      .post('/api/plans/import')
+      .set('Authorization', owner.auth)
+      .send({
+        plan_data: {
+          plan: { name: 'Imported', members: [] },
+          tasks: [{ title: 'Write docs', assignees: [{ name: 'Writer', email: 'writer@example.com' }] }],
+        },
+      });
+
+    expect(res.status).toBe(201);
+    expect((await User.findOne({ email: 'writer@example.com' }))!.is_placeholder).toBe(true);
+    expect(await Invitation.countDocuments({ email: 'writer@example.com', status: 'pending' })).toBe(1);
+    expect(sent.map(message => message.to)).toContain('writer@example.com');
+  });
+});
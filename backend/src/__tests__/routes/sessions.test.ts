@@ -0,0 +1,131 @@
+import request from 'supertest';
+import app from '../../app';
+import RefreshToken from '../../models/RefreshToken';
+import { ROTATION_GRACE_MS, issueRefreshToken } from '../../utils/sessions';
+import { hashToken } from '../../utils/tokens';
+import { createUser } from './helpers';
+
+const refresh = (token: string) => request(app).post('/api/auth/refresh').set('Cookie', `refreshToken=${token}`);
+
+// The refresh token a response set in its cookie
+const cookieToken = (res: request.Response) => {
+  const cookies = ([] as string[]).concat(res.headers['set-cookie'] || []);
+  const cookie = cookies.find(value => value.startsWith('refreshToken=') && !value.startsWith('refreshToken=;'));
+  return cookie ? cookie.split(';')[0].slice('refreshToken='.length) : undefined;
+};
+
+const signIn = async () => {
+  const { user, auth } = await createUser();
+  const token = await issueRefreshToken(user._id, { user_agent: 'test' });
+  return { user, auth, token };
+};
+
+// Pretend a token was rotated longer ago than the grace window
+const ageRotation = (token: string) =>
+  RefreshToken.updateOne({ token_hash: hashToken(token) }, { $set: { used_at: new Date(Date.now() - ROTATION_GRACE_MS - 1000) } });
+
+describe('Refresh token rotation', () => {
+  it('should swap the refresh token for a new one in the same session', async () => {
+    const { token } = await signIn();
+
+    const res = await refresh(token);
+
+    expect(res.status).toBe(200);
+    expect(res.body.accessToken).toBeDefined();
+    const next = cookieToken(res);
+    expect(next).toBeDefined();
+    expect(next).not.toBe(token);
+    const [used, issued] = await Promise.all([
+      RefreshToken.findOne({ token_hash: hashToken(token) }),
+      RefreshToken.findOne({ token_hash: hashToken(next!) }),
+    ]);
+    expect(used!.used_at).toBeDefined();
+    expect(issued!.family_id).toBe(used!.family_id);
+  });
+
+  it('should let a concurrent refresh with the just-rotated token through', async () => {
+    const { token } = await signIn();
+    const first = await refresh(token);
+
+    const second = await refresh(token);
+
+    expect(second.status).toBe(200);
+    expect(second.body.accessToken).toBeDefined();
+    expect(cookieToken(second)).toBeUndefined();
+    expect((await refresh(cookieToken(first)!)).status).toBe(200);
+  });
+
+  it('should revoke the whole session when an old token is reused', async () => {
+    const { token } = await signIn();
+    const first = await refresh(token);
+    await ageRotation(token);
+
+    const reused = await refresh(token);
+
+    expect(reused.status).toBe(401);
+    expect((await refresh(cookieToken(first)!)).status).toBe(401);
+  });
+
+  it('should refuse unknown tokens', async () => {
+    expect((await refresh('not-a-token')).status).toBe(401);
+  });
+});
+
+describe('Sessions', () => {
+  it('should list the active sessions and mark the current one', async () => {
+    const { user, auth, token } = await signIn();
+    await issueRefreshToken(user._id, { user_agent: 'other device' });
+
+    const res = await request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', auth)
+      .set('Cookie', `refreshToken=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sessions).toHaveLength(2);
+    expect(res.body.sessions.filter((session: { current: boolean }) => session.current)).toHaveLength(1);
+  });
+
+  it('should sign out one session', async () => {
+    const { user, auth, token } = await signIn();
+    const other = await issueRefreshToken(user._id, { user_agent: 'other device' });
+    const otherSession = await RefreshToken.findOne({ token_hash: hashToken(other) });
+
+    const res = await request(app)
+      .delete(`/api/auth/sessions/${otherSession!.family_id}`)
+      .set('Authorization', auth)
+      .set('Cookie', `refreshToken=${token}`);
+
+    expect(res.status).toBe(200);
+    expect((await refresh(other)).status).toBe(401);
+    expect((await refresh(token)).status).toBe(200);
+  });
+
+  it('should sign out every other session', async () => {
+    const { user, auth, token } = await signIn();
+    const others = await Promise.all([
+      issueRefreshToken(user._id, { user_agent: 'phone' }),
+      issueRefreshToken(user._id, { user_agent: 'laptop' }),
+    ]);
+
+    const res = await request(app)
+      .delete('/api/auth/sessions')
+      .set('Authorization', auth)
+      .set('Cookie', `refreshToken=${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.revoked).toBe(2);
+    for (const other of others) {
+      expect((await refresh(other)).status).toBe(401);
+    }
+    expect((await refresh(token)).status).toBe(200);
+  });
+
+  it('should end the session on logout', async () => {
+    const { token } = await signIn();
+
+    await request(app).post('/api/auth/logout').set('Cookie', `refreshToken=${token}`);
+
+    expect((await refresh(token)).status).toBe(401);
+  });
+});
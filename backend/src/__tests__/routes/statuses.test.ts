@@ -0,0 +1,64 @@
+import request from 'supertest';
+import app from '../../app';
+import Plan from '../../models/Plan';
+import Task from '../../models/Task';
+import Webhook from '../../models/Webhook';
+import WebhookDelivery from '../../models/WebhookDelivery';
+import { DEFAULT_PLAN_STATUSES } from '../../utils/statuses';
+import { createPlan, createTask, createUser } from './helpers';
+
+// Webhook events are queued after the response is sent
+const waitForDeliveries = async (filter: Record<string, unknown>, count: number) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const deliveries = await WebhookDelivery.find(filter);
+    if (deliveries.length >= count) return deliveries;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return WebhookDelivery.find(filter);
+};
+
+const withoutInProgress = DEFAULT_PLAN_STATUSES.filter(status => status.key !== 'in_progress');
+
+describe('Replacing plan statuses', () => {
+  it('should move tasks out of a removed status and notify webhooks per task', async () => {
+    const { user, auth } = await createUser();
+    const plan = await createPlan(user);
+    const task = await createTask(plan, user);
+    await Task.updateOne({ _id: task._id }, { $set: { status: 'in_progress' } });
+    const webhook = await Webhook.create({
+      plan_id: plan._id,
+      url: 'https://example.com/hook',
+      secret: 'secret',
+      events: ['task.updated'],
+      created_by: user._id,
+    });
+
+    const res = await request(app)
+      .put(`/api/plans/${plan._id}/statuses`)
+      .set('Authorization', auth)
+      .send({ statuses: withoutInProgress, remap: { in_progress: 'done' } });
+
+    expect(res.status).toBe(200);
+    expect((await Task.findById(task._id))!.status).toBe('done');
+    const deliveries = await waitForDeliveries({ webhook_id: webhook._id, event: 'task.updated' }, 1);
+    expect(deliveries).toHaveLength(1);
+  });
+
+  it('should refuse to drop a status that still has tasks without a remap', async () => {
+    const { user, auth } = await createUser();
+    const plan = await createPlan(user);
+    const task = await createTask(plan, user);
+    await Task.updateOne({ _id: task._id }, { $set: { status: 'in_progress' } });
+
+    const res = await request(app)
+      .put(`/api/plans/${plan._id}/statuses`)
+      .set('Authorization', auth)
+      .send({ statuses: withoutInProgress });
+
+    expect(res.status).toBe(409);
+    expect((await Task.findById(task._id))!.status).toBe('in_progress');
+    expect((await Plan.findById(plan._id))!.statuses.map(status => status.key)).not.toEqual(
+      withoutInProgress.map(status => status.key)
+    );
+  });
+});
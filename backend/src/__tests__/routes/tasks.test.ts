@@ -0,0 +1,119 @@
+import request from 'supertest';
+import app from '../../app';
+import Task from '../../models/Task';
+import Comment from '../../models/Comment';
+import TaskActivity from '../../models/TaskActivity';
+import { createPlan, createTask, createUser } from './helpers';
+
+// root > child > grandchild, plus an unrelated task
+const createTree = async () => {
+  const owner = await createUser();
+  const plan = await createPlan(owner.user);
+  const root = await createTask(plan, owner.user, { title: 'Root' });
+  const child = await createTask(plan, owner.user, { title: 'Child', parent_id: root._id });
+  const grandchild = await createTask(plan, owner.user, { title: 'Grandchild', parent_id: child._id });
+  const other = await createTask(plan, owner.user, { title: 'Other' });
+  return { owner, plan, root, child, grandchild, other };
+};
+
+describe('Deleting tasks with subtasks', () => {
+  it('should refuse by default', async () => {
+    const { owner, plan, root } = await createTree();
+
+    const res = await request(app)
+      .delete(`/api/tasks/${root._id}?plan_id=${plan._id}`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(400);
+    expect(await Task.countDocuments({ plan_id: plan._id })).toBe(4);
+  });
+
+  it('should delete the whole subtree and its comments when cascading, keeping the history', async () => {
+    const { owner, plan, root, grandchild, other } = await createTree();
+    await Comment.create({ plan_id: plan._id, task_id: grandchild._id, author_id: owner.user._id, body: 'Note' });
+
+    const res = await request(app)
+      .delete(`/api/tasks/${root._id}?plan_id=${plan._id}&strategy=cascade`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(200);
+    const remaining = await Task.find({ plan_id: plan._id });
+    expect(remaining.map(task => task._id.toString())).toEqual([other._id.toString()]);
+    expect(await Comment.countDocuments({ task_id: grandchild._id })).toBe(0);
+    expect(await TaskActivity.countDocuments({ task_id: grandchild._id, action: 'delete' })).toBe(1);
+  });
+
+  it('should finish cascading through a parent cycle', async () => {
+    const { owner, plan, root, child } = await createTree();
+    // Saved before cycles were rejected
+    await Task.updateOne({ _id: root._id }, { $set: { parent_id: child._id } });
+
+    const res = await request(app)
+      .delete(`/api/tasks/${root._id}?plan_id=${plan._id}&strategy=cascade`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(200);
+    expect(await Task.countDocuments({ plan_id: plan._id })).toBe(1);
+  });
+
+  it('should move the children up a level when promoting', async () => {
+    const { owner, plan, root, child, grandchild } = await createTree();
+
+    const res = await request(app)
+      .delete(`/api/tasks/${child._id}?plan_id=${plan._id}&strategy=promote`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(200);
+    expect(await Task.findById(child._id)).toBeNull();
+    expect((await Task.findById(grandchild._id))!.parent_id!.toString()).toBe(root._id.toString());
+  });
+
+  it('should make promoted children top-level tasks when deleting a root', async () => {
+    const { owner, plan, root, child } = await createTree();
+
+    const res = await request(app)
+      .delete(`/api/tasks/${root._id}?plan_id=${plan._id}&strategy=promote`)
+      .set('Authorization', owner.auth);
+
+    expect(res.status).toBe(200);
+    expect((await Task.findById(child._id))!.parent_id).toBeUndefined();
+  });
+});
+
+describe('Moving tasks under another task', () => {
+  it('should refuse to make a task its own parent', async () => {
+    const { owner, plan, root } = await createTree();
+
+    const res = await request(app)
+      .patch(`/api/tasks/${root._id}?plan_id=${plan._id}`)
+      .set('Authorization', owner.auth)
+      .send({ parent_id: root._id.toString() });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("A task can't be its own parent");
+  });
+
+  it('should refuse to move a task under its own subtask', async () => {
+    const { owner, plan, root, grandchild } = await createTree();
+
+    const res = await request(app)
+      .patch(`/api/tasks/${root._id}?plan_id=${plan._id}`)
+      .set('Authorization', owner.auth)
+      .send({ parent_id: grandchild._id.toString() });
+
+    expect(res.status).toBe(400);
+    expect((await Task.findById(root._id))!.parent_id).toBeUndefined();
+  });
+
+  it('should move a task under an unrelated task', async () => {
+    const { owner, plan, child, other } = await createTree();
+
+    const res = await request(app)
+      .patch(`/api/tasks/${child._id}?plan_id=${plan._id}`)
+      .set('Authorization', owner.auth)
+      .send({ parent_id: other._id.toString() });
+
+    expect(res.status).toBe(200);
+    expect((await Task.findById(child._id))!.parent_id!.toString()).toBe(other._id.toString());
+  });
+});
@@ -0,0 +1,47 @@
+import { Types } from 'mongoose';
+import { snapshotTask, diffSnapshots, getActivityPage, MAX_ACTIVITY_PAGE_SIZE } from '../../utils/activity';
+
+describe('Task activity diffs', () => {
+  it('should normalize ObjectIds and skip unset fields in snapshots', () => {
+    const assigneeId = new Types.ObjectId();
+    const snapshot = snapshotTask({
+      title: 'Write docs',
+      status: 'todo',
+      assignee_ids: [assigneeId],
+      description: undefined,
+    });
+
+    expect(snapshot).toEqual({
+      title: 'Write docs',
+      status: 'todo',
+      assignee_ids: [assigneeId.toString()],
+    });
+  });
+
+  it('should report only changed fields with before and after values', () => {
+    const before = snapshotTask({ title: 'Write docs', status: 'todo', due_date: '2024-01-10' });
+    const after = snapshotTask({ title: 'Write docs', status: 'done', due_date: '2024-01-12' });
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { field: 'status', before: 'todo', after: 'done' },
+      { field: 'due_date', before: '2024-01-10', after: '2024-01-12' },
+    ]);
+  });
+
+  it('should treat reordered arrays as a change', () => {
+    const before = snapshotTask({ tags: ['a', 'b'] });
+    const after = snapshotTask({ tags: ['b', 'a'] });
+
+    expect(diffSnapshots(before, after)).toHaveLength(1);
+  });
+});
+
+describe('Activity paging', () => {
+  it('should default and clamp the page and page size', () => {
+    expect(getActivityPage(undefined, undefined)).toEqual({ page: 1, limit: 50, skip: 0 });
+    expect(getActivityPage('3', '20')).toEqual({ page: 3, limit: 20, skip: 40 });
+    expect(getActivityPage('0', 'abc')).toEqual({ page: 1, limit: 50, skip: 0 });
+    expect(getActivityPage('-2', '-5')).toEqual({ page: 1, limit: 1, skip: 0 });
+    expect(getActivityPage('1', '100000')).toEqual({ page: 1, limit: MAX_ACTIVITY_PAGE_SIZE, skip: 0 });
+  });
+});
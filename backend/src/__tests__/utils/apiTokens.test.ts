@@ -0,0 +1,27 @@
+import { Types } from 'mongoose';
+import { API_TOKEN_PREFIX, apiTokenAllowsPlan, isApiToken } from '../../utils/apiTokens';
+
+describe('API token detection', () => {
+  it('should recognise personal access tokens by their prefix', () => {
+    expect(isApiToken(`${API_TOKEN_PREFIX}abc123`)).toBe(true);
+  });
+
+  it('should not mistake a JWT for an API token', () => {
+    expect(isApiToken('eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.e30.sig')).toBe(false);
+  });
+});
+
+describe('API token plan limits', () => {
+  const planA = new Types.ObjectId();
+  const planB = new Types.ObjectId();
+
+  it('should allow every plan when the token is not limited', () => {
+    expect(apiTokenAllowsPlan({ plan_ids: [] }, planA.toString())).toBe(true);
+  });
+
+  it('should only allow the selected plans', () => {
+    const apiToken = { plan_ids: [planA] };
+    expect(apiTokenAllowsPlan(apiToken, planA.toString())).toBe(true);
+    expect(apiTokenAllowsPlan(apiToken, planB.toString())).toBe(false);
+  });
+});
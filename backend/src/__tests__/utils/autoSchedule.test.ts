@@ -0,0 +1,52 @@
+import { cascadeSchedule } from '../../utils/autoSchedule';
+
+describe('Auto-schedule', () => {
+  it('should push successors after a slipped predecessor and keep their duration', () => {
+    const moved = cascadeSchedule([
+      { _id: 'design', title: 'Design', start_date: '2026-03-02', due_date: '2026-03-10', dependency_ids: [] },
+      { _id: 'build', title: 'Build', start_date: '2026-03-05', due_date: '2026-03-09', dependency_ids: ['design'] },
+      { _id: 'release', title: 'Release', start_date: '2026-03-10', due_date: '2026-03-10', dependency_ids: ['build'] },
+    ], 'design');
+
+    expect(moved).toEqual([
+      {
+        task_id: 'build',
+        title: 'Build',
+        previous_start_date: '2026-03-05',
+        previous_due_date: '2026-03-09',
+        start_date: '2026-03-11',
+        due_date: '2026-03-15',
+      },
+      {
+        task_id: 'release',
+        title: 'Release',
+        previous_start_date: '2026-03-10',
+        previous_due_date: '2026-03-10',
+        start_date: '2026-03-16',
+        due_date: '2026-03-16',
+      },
+    ]);
+  });
+
+  it('should wait for the latest predecessor', () => {
+    const moved = cascadeSchedule([
+      { _id: 'a', title: 'A', start_date: '2026-03-02', due_date: '2026-03-04', dependency_ids: [] },
+      { _id: 'b', title: 'B', start_date: '2026-03-02', due_date: '2026-03-08', dependency_ids: [] },
+      { _id: 'c', title: 'C', start_date: '2026-03-05', due_date: '2026-03-06', dependency_ids: ['a', 'b'] },
+    ], 'a');
+
+    expect(moved.map(task => [task.task_id, task.start_date, task.due_date])).toEqual([
+      ['c', '2026-03-09', '2026-03-10'],
+    ]);
+  });
+
+  it('should not pull successors earlier or touch unrelated tasks', () => {
+    const moved = cascadeSchedule([
+      { _id: 'a', title: 'A', start_date: '2026-03-02', due_date: '2026-03-03', dependency_ids: [] },
+      { _id: 'b', title: 'B', start_date: '2026-03-10', due_date: '2026-03-12', dependency_ids: ['a'] },
+      { _id: 'other', title: 'Other', start_date: '2026-03-01', due_date: '2026-03-01', dependency_ids: [] },
+    ], 'a');
+
+    expect(moved).toEqual([]);
+  });
+});
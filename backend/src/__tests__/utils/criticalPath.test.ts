@@ -0,0 +1,45 @@
+import { computeCriticalPath } from '../../utils/criticalPath';
+
+describe('Critical path', () => {
+  it('should mark the longest dependency chain as critical', () => {
+    const result = computeCriticalPath([
+      { _id: 'design', start_date: '2026-03-02', due_date: '2026-03-04', dependency_ids: [] },
+      { _id: 'build', start_date: '2026-03-05', due_date: '2026-03-10', dependency_ids: ['design'] },
+      { _id: 'docs', start_date: '2026-03-05', due_date: '2026-03-06', dependency_ids: ['design'] },
+      { _id: 'release', start_date: '2026-03-11', due_date: '2026-03-11', dependency_ids: ['build', 'docs'] },
+    ]);
+
+    expect(result.critical_path).toEqual(['design', 'build', 'release']);
+    expect(result.project_start).toBe('2026-03-02');
+    expect(result.project_finish).toBe('2026-03-11');
+
+    const docs = result.schedule.find(entry => entry.task_id === 'docs')!;
+    expect(docs.slack_days).toBe(4);
+    expect(docs.earliest_start).toBe('2026-03-05');
+    expect(docs.latest_start).toBe('2026-03-09');
+    expect(docs.latest_finish).toBe('2026-03-10');
+  });
+
+  it('should push tasks after their predecessors finish', () => {
+    const result = computeCriticalPath([
+      { _id: 'a', start_date: '2026-03-02', due_date: '2026-03-06', dependency_ids: [] },
+      { _id: 'b', estimate_hours: 16, dependency_ids: ['a'] },
+    ]);
+
+    const b = result.schedule.find(entry => entry.task_id === 'b')!;
+    expect(b.duration_days).toBe(2);
+    expect(b.earliest_start).toBe('2026-03-07');
+    expect(b.earliest_finish).toBe('2026-03-08');
+    expect(result.critical_path).toEqual(['a', 'b']);
+  });
+
+  it('should leave out tasks in a dependency cycle', () => {
+    const result = computeCriticalPath([
+      { _id: 'a', dependency_ids: ['b'] },
+      { _id: 'b', dependency_ids: ['a'] },
+    ]);
+
+    expect(result.schedule).toEqual([]);
+    expect(result.project_start).toBeNull();
+  });
+});
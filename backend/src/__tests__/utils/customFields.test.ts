@@ -0,0 +1,111 @@
+import {
+  CustomFieldDefinition,
+  applyCustomFieldValues,
+  buildCustomFieldFilters,
+  getCustomFieldDefinitionError,
+  getPlanMemberIds,
+  validateCustomFieldValues,
+} from '../../utils/customFields';
+
+const fields: CustomFieldDefinition[] = [
+  { _id: 'f-points', name: 'Points', type: 'number', options: [] },
+  { _id: 'f-release', name: 'Release', type: 'date', options: [] },
+  { _id: 'f-team', name: 'Team', type: 'single_select', options: ['Web', 'API'] },
+  { _id: 'f-platforms', name: 'Platforms', type: 'multi_select', options: ['iOS', 'Android'] },
+  { _id: 'f-reviewer', name: 'Reviewer', type: 'user', options: [] },
+  { _id: 'f-billable', name: 'Billable', type: 'checkbox', options: [] },
+  { _id: 'f-notes', name: 'Client notes', type: 'text', options: [] },
+];
+
+const members = new Set(['user-1', 'user-2']);
+
+describe('Custom fields', () => {
+  it('should reject duplicate names and select fields without valid options', () => {
+    expect(getCustomFieldDefinitionError({ name: 'Size', type: 'text', options: [] }, fields)).toBeNull();
+    expect(getCustomFieldDefinitionError({ name: 'points', type: 'text', options: [] }, fields))
+      .toBe('A field named "points" already exists');
+    expect(getCustomFieldDefinitionError({ name: 'Size', type: 'single_select', options: [] }, fields))
+      .toBe('Select fields need at least one option');
+    expect(getCustomFieldDefinitionError({ name: 'Size', type: 'multi_select', options: ['S', 'S'] }, fields))
+      .toBe('Options must be unique');
+  });
+
+  it('should accept values that match their field types', () => {
+    expect(validateCustomFieldValues(fields, {
+      'f-points': 3,
+      'f-release': '2026-11-01',
+      'f-team': 'API',
+      'f-platforms': ['iOS', 'iOS', 'Android'],
+      'f-reviewer': 'user-2',
+      'f-billable': false,
+      'f-notes': '',
+    }, members)).toEqual({
+      values: {
+        'f-points': 3,
+        'f-release': '2026-11-01',
+        'f-team': 'API',
+        'f-platforms': ['iOS', 'Android'],
+        'f-reviewer': 'user-2',
+        'f-billable': false,
+        'f-notes': null,
+      },
+    });
+  });
+
+  it('should name the field of an invalid value', () => {
+    expect(validateCustomFieldValues(fields, { 'f-points': '3' }, members))
+      .toEqual({ error: 'Points: must be a number' });
+    expect(validateCustomFieldValues(fields, { 'f-release': '2026-13-45' }, members))
+      .toEqual({ error: 'Release: must be a date (YYYY-MM-DD)' });
+    expect(validateCustomFieldValues(fields, { 'f-release': '2026-02-30' }, members))
+      .toEqual({ error: 'Release: must be a date (YYYY-MM-DD)' });
+    expect(validateCustomFieldValues(fields, { 'f-team': 'Mobile' }, members))
+      .toEqual({ error: 'Team: must be one of Web, API' });
+    expect(validateCustomFieldValues(fields, { 'f-reviewer': 'user-3' }, members))
+      .toEqual({ error: 'Reviewer: must be a member of the plan' });
+    expect(validateCustomFieldValues(fields, { 'f-missing': 1 }, members))
+      .toEqual({ error: 'Unknown custom field "f-missing"' });
+  });
+
+  it('should set and clear values on top of the current ones', () => {
+    const current = new Map<string, unknown>([['f-points', 3], ['f-team', 'Web']]);
+    const next = applyCustomFieldValues(current, { 'f-points': null, 'f-billable': true });
+
+    expect(Object.fromEntries(next)).toEqual({ 'f-team': 'Web', 'f-billable': true });
+    expect(current.get('f-points')).toBe(3);
+  });
+
+  it('should include the owner and members, populated or not', () => {
+    const ids = getPlanMemberIds({ owner_id: { _id: 'owner' }, members: [{ user_id: 'user-1' }] });
+    expect(Array.from(ids)).toEqual(['owner', 'user-1']);
+  });
+
+  it('should build filters for each field type', () => {
+    expect(buildCustomFieldFilters(fields, {
+      'f-team': ['Web', 'API'],
+      'f-points': { gte: '2', lt: '8' },
+      'f-reviewer': 'me',
+      'f-billable': 'false',
+      'f-notes': 'acme (beta)',
+    }, 'user-1')).toEqual({
+      conditions: {
+        'custom_fields.f-team': { $in: ['Web', 'API'] },
+        'custom_fields.f-points': { $gte: 2, $lt: 8 },
+        'custom_fields.f-reviewer': { $in: ['user-1'] },
+        'custom_fields.f-billable': { $ne: true },
+        'custom_fields.f-notes': { $regex: 'acme \\(beta\\)', $options: 'i' },
+      },
+    });
+  });
+
+  it('should explain invalid filters', () => {
+    expect(buildCustomFieldFilters(fields, 'Web', 'user-1'))
+      .toEqual({ error: 'Custom field filters must look like cf[<field id>]=value' });
+    expect(buildCustomFieldFilters(fields, { 'f-points': 'many' }, 'user-1'))
+      .toEqual({ error: 'Points: "many" is not a number' });
+    expect(buildCustomFieldFilters(fields, { 'f-team': { gte: 'Web' } }, 'user-1'))
+      .toEqual({ error: 'Team: ranges only work on number and date fields' });
+    expect(buildCustomFieldFilters(fields, { 'f-release': { after: '2026-01-01' } }, 'user-1'))
+      .toEqual({ error: 'Release: unknown operator "after"' });
+  });
+});
@@ -0,0 +1,51 @@
+import { buildDependencyMap, findCycleThrough, findAnyCycle, topologicalOrder } from '../../utils/dependencyGraph';
+
+describe('Dependency graph', () => {
+  it('should ignore dependencies on unknown tasks', () => {
+    const graph = buildDependencyMap([
+      { _id: 'a', dependency_ids: ['missing'] },
+      { _id: 'b', dependency_ids: ['a'] },
+    ]);
+
+    expect(graph.get('a')).toEqual([]);
+    expect(graph.get('b')).toEqual(['a']);
+  });
+
+  it('should detect a task depending on itself', () => {
+    const graph = buildDependencyMap([{ _id: 'a', dependency_ids: ['a'] }]);
+
+    expect(findCycleThrough(graph, 'a')).toEqual(['a', 'a']);
+  });
+
+  it('should return the cycle path through a task', () => {
+    const graph = buildDependencyMap([
+      { _id: 'a', dependency_ids: ['b'] },
+      { _id: 'b', dependency_ids: ['c'] },
+      { _id: 'c', dependency_ids: ['a'] },
+    ]);
+
+    expect(findCycleThrough(graph, 'a')).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('should not report cycles that do not involve the task', () => {
+    const graph = buildDependencyMap([
+      { _id: 'a', dependency_ids: ['b'] },
+      { _id: 'b', dependency_ids: ['c'] },
+      { _id: 'c', dependency_ids: ['b'] },
+    ]);
+
+    expect(findCycleThrough(graph, 'a')).toBeNull();
+    expect(findAnyCycle(graph)).toEqual(['b', 'c', 'b']);
+  });
+
+  it('should order predecessors before dependents', () => {
+    const graph = buildDependencyMap([
+      { _id: 'deploy', dependency_ids: ['build', 'test'] },
+      { _id: 'test', dependency_ids: ['build'] },
+      { _id: 'build', dependency_ids: [] },
+    ]);
+
+    expect(findAnyCycle(graph)).toBeNull();
+    expect(topologicalOrder(graph)).toEqual(['build', 'test', 'deploy']);
+  });
+});
@@ -0,0 +1,36 @@
+import { generateInvitationToken, getInvitationError, hashInvitationToken } from '../../utils/invitations';
+
+describe('Invitation tokens', () => {
+  it('should generate a random token and store only its hash', () => {
+    const first = generateInvitationToken();
+    const second = generateInvitationToken();
+
+    expect(first.token).not.toEqual(second.token);
+    expect(first.token_hash).toEqual(hashInvitationToken(first.token));
+    expect(first.token_hash).not.toContain(first.token);
+  });
+});
+
+describe('Invitation validity', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const tomorrow = new Date('2026-10-20T12:00:00Z');
+
+  it('should accept an open invitation', () => {
+    expect(getInvitationError({ status: 'pending', expires_at: tomorrow }, now)).toBeNull();
+  });
+
+  it('should reject a missing invitation', () => {
+    expect(getInvitationError(null, now)).toBe('Invitation not found');
+  });
+
+  it('should reject an invitation that was already used', () => {
+    expect(getInvitationError({ status: 'accepted', expires_at: tomorrow }, now))
+      .toBe('This invitation has already been accepted');
+    expect(getInvitationError({ status: 'revoked', expires_at: tomorrow }, now))
+      .toBe('This invitation has already been revoked');
+  });
+
+  it('should reject an expired invitation', () => {
+    expect(getInvitationError({ status: 'pending', expires_at: now }, now)).toBe('This invitation has expired');
+  });
+});
@@ -0,0 +1,15 @@
+import { redactUrl } from '../../utils/logging';
+
+describe('Access log URLs', () => {
+  it('should redact credentials in the query string', () => {
+    expect(redactUrl('/api/plans/p1/events?ticket=eyJhbGciOi.abc.def'))
+      .toBe('/api/plans/p1/events?ticket=%5Bredacted%5D');
+    expect(redactUrl('/api/plans/p1/events?access_token=pdz_secret&x=1'))
+      .toBe('/api/plans/p1/events?access_token=%5Bredacted%5D&x=1');
+  });
+
+  it('should leave other URLs alone', () => {
+    expect(redactUrl('/api/tasks?plan_id=p1&sort=due_date')).toBe('/api/tasks?plan_id=p1&sort=due_date');
+    expect(redactUrl('/health')).toBe('/health');
+  });
+});
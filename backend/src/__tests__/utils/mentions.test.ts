@@ -0,0 +1,25 @@
+import { resolveMentions } from '../../utils/mentions';
+
+describe('Mention resolution', () => {
+  const members = [
+    { _id: 'u1', name: 'Jane' },
+    { _id: 'u2', name: 'Jane Doe' },
+    { _id: 'u3', name: 'Bob' },
+  ];
+
+  it('should resolve mentions case-insensitively', () => {
+    expect(resolveMentions('Thanks @bob!', members)).toEqual(['u3']);
+  });
+
+  it('should prefer the longest matching name', () => {
+    expect(resolveMentions('@Jane Doe can you review?', members)).toEqual(['u2']);
+  });
+
+  it('should ignore partial words and email addresses', () => {
+    expect(resolveMentions('@Bobby and bob@example.com', members)).toEqual([]);
+  });
+
+  it('should return each mentioned user once', () => {
+    expect(resolveMentions('@Bob @Bob @Jane', members)).toEqual(['u3', 'u1']);
+  });
+});
@@ -0,0 +1,20 @@
+import { Types } from 'mongoose';
+import { populatedRef, refId } from '../../utils/refs';
+
+describe('refId', () => {
+  const id = new Types.ObjectId();
+
+  it('should return the id of plain and populated references', () => {
+    expect(refId(id)).toBe(id.toString());
+    expect(refId(id.toString())).toBe(id.toString());
+    const user = { _id: id, name: 'Ada', email: 'ada@example.com' };
+    expect(refId(user)).toBe(id.toString());
+  });
+
+  it('should only return populated documents', () => {
+    const user = { _id: id, email: 'ada@example.com' };
+
+    expect(populatedRef<{ email: string }>(user)?.email).toBe('ada@example.com');
+    expect(populatedRef<{ email: string }>(id)).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  DEFAULT_PLAN_STATUSES,
+  PlanStatus,
+  findUnknownStatus,
+  getDefaultStatus,
+  getPlanStatuses,
+  planStatusesSchema,
+} from '../../utils/statuses';
+
+const workflow: PlanStatus[] = [
+  { key: 'backlog', label: 'Backlog', color: '#9ca3af', category: 'todo' },
+  { key: 'review', label: 'In Review', color: '#a855f7', category: 'active' },
+  { key: 'shipped', label: 'Shipped', color: '#22c55e', category: 'done' },
+];
+
+describe('Plan statuses', () => {
+  it('should fall back to the defaults for plans without statuses', () => {
+    expect(getPlanStatuses({})).toBe(DEFAULT_PLAN_STATUSES);
+    expect(getPlanStatuses({ statuses: [] })).toBe(DEFAULT_PLAN_STATUSES);
+    expect(getPlanStatuses({ statuses: workflow })).toBe(workflow);
+  });
+
+  it('should default new tasks to the first not-started status', () => {
+    expect(getDefaultStatus(DEFAULT_PLAN_STATUSES)).toBe('todo');
+    expect(getDefaultStatus([workflow[1], workflow[0]])).toBe('backlog');
+    expect(getDefaultStatus([workflow[2]])).toBe('shipped');
+  });
+
+  it('should name the first unknown status and list the valid ones', () => {
+    expect(findUnknownStatus(workflow, ['backlog', undefined, 'shipped'])).toBeNull();
+    expect(findUnknownStatus(workflow, ['backlog', 'todo', 'done'])).toEqual({
+      error: 'Unknown status "todo". Valid statuses: backlog, review, shipped',
+    });
+  });
+
+  it('should validate status lists', () => {
+    expect(planStatusesSchema.safeParse(workflow).success).toBe(true);
+    expect(planStatusesSchema.safeParse([]).success).toBe(false);
+    expect(planStatusesSchema.safeParse([workflow[0], workflow[0]]).success).toBe(false);
+    expect(planStatusesSchema.safeParse([{ ...workflow[0], key: 'In Review' }]).success).toBe(false);
+    expect(planStatusesSchema.safeParse([{ ...workflow[0], color: 'purple' }]).success).toBe(false);
+    expect(planStatusesSchema.safeParse([{ ...workflow[0], category: 'blocked' }]).success).toBe(false);
+  });
+});
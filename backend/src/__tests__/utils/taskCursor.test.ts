@@ -0,0 +1,81 @@
+import { Types } from 'mongoose';
+import { buildCursorCondition, decodeTaskCursor, encodeTaskCursor, getTaskSort } from '../../utils/taskCursor';
+
+const id = new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718');
+
+const keysFor = (sort: string, order = 'asc') => {
+  const result = getTaskSort(sort, order);
+  if ('error' in result) throw new Error(result.error);
+  return result.keys;
+};
+
+describe('Task cursors', () => {
+  it('should sort on the requested field with _id as a tie breaker', () => {
+    expect(keysFor('due_date', 'desc')).toEqual([['due_date', -1], ['_id', -1]]);
+    expect(keysFor('order_index')).toEqual([['status', 1], ['order_index', 1], ['_id', 1]]);
+    expect(getTaskSort('assignee_ids', 'asc')).toEqual({
+      error: expect.stringContaining("Can't sort by \"assignee_ids\""),
+    });
+  });
+
+  it('should round-trip the sort values of a task', () => {
+    const keys = keysFor('created_at', 'desc');
+    const createdAt = new Date('2026-10-19T08:30:00Z');
+    const cursor = encodeTaskCursor({ _id: id, created_at: createdAt, title: 'Ignored' }, keys);
+
+    expect(decodeTaskCursor(cursor, keys)).toEqual({ values: [createdAt, id] });
+  });
+
+  it('should keep missing values as null', () => {
+    const keys = keysFor('due_date');
+    const cursor = encodeTaskCursor({ _id: id }, keys);
+    expect(decodeTaskCursor(cursor, keys)).toEqual({ values: [null, id] });
+  });
+
+  it('should reject cursors that do not fit the sort', () => {
+    const error = { error: 'Invalid cursor; start again without one' };
+    const dueCursor = encodeTaskCursor({ _id: id, due_date: '2026-11-01' }, keysFor('due_date'));
+
+    expect(decodeTaskCursor('not a cursor', keysFor('due_date'))).toEqual(error);
+    expect(decodeTaskCursor(dueCursor, keysFor('order_index'))).toEqual(error);
+    expect(decodeTaskCursor(dueCursor, keysFor('progress_pct'))).toEqual(error);
+  });
+
+  it('should continue after the cursor in ascending order', () => {
+    expect(buildCursorCondition(keysFor('due_date'), ['2026-11-01', id])).toEqual({
+      $or: [
+        { due_date: { $gt: '2026-11-01' } },
+        { $and: [{ due_date: '2026-11-01' }, { _id: { $gt: id } }] },
+      ],
+    });
+    // Tasks without a due date come first, so everything with one is after them
+    expect(buildCursorCondition(keysFor('due_date'), [null, id])).toEqual({
+      $or: [
+        { due_date: { $ne: null } },
+        { $and: [{ due_date: null }, { _id: { $gt: id } }] },
+      ],
+    });
+  });
+
+  it('should put missing values last in descending order', () => {
+    expect(buildCursorCondition(keysFor('due_date', 'desc'), ['2026-11-01', id])).toEqual({
+      $or: [
+        { $or: [{ due_date: { $lt: '2026-11-01' } }, { due_date: null }] },
+        { $and: [{ due_date: '2026-11-01' }, { _id: { $lt: id } }] },
+      ],
+    });
+    expect(buildCursorCondition(keysFor('due_date', 'desc'), [null, id])).toEqual({
+      $or: [{ $and: [{ due_date: null }, { _id: { $lt: id } }] }],
+    });
+  });
+
+  it('should page through the board order one status at a time', () => {
+    expect(buildCursorCondition(keysFor('order_index'), ['todo', 4, id])).toEqual({
+      $or: [
+        { status: { $gt: 'todo' } },
+        { $and: [{ status: 'todo' }, { order_index: { $gt: 4 } }] },
+        { $and: [{ status: 'todo' }, { order_index: 4 }, { _id: { $gt: id } }] },
+      ],
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { buildTaskFilters, needsOpenTaskIds } from '../../utils/taskFilters';
+
+const context = {
+  currentUserId: 'user-me',
+  today: '2026-10-19',
+  doneStatuses: ['done', 'shipped'],
+  openTaskIds: ['task-1', 'task-2'],
+};
+
+describe('Task filters', () => {
+  it('should build inclusive date ranges that leave out tasks without the date', () => {
+    expect(buildTaskFilters({ due_from: '2026-10-01', due_to: '2026-10-31', start_to: '2026-10-15' }, context)).toEqual({
+      conditions: [
+        { due_date: { $gte: '2026-10-01', $lte: '2026-10-31' } },
+        { start_date: { $gt: '', $lte: '2026-10-15' } },
+      ],
+    });
+  });
+
+  it('should reject malformed dates, flags and reversed ranges', () => {
+    expect(buildTaskFilters({ due_from: '10/01/2026' }, context)).toEqual({ error: 'due_from must be a date (YYYY-MM-DD)' });
+    expect(buildTaskFilters({ start_to: '2026-02-30' }, context)).toEqual({ error: 'start_to must be a date (YYYY-MM-DD)' });
+    expect(buildTaskFilters({ overdue: 'yes' }, context)).toEqual({ error: 'overdue must be true or false' });
+    expect(buildTaskFilters({ due_from: '2026-11-01', due_to: '2026-10-01' }, context))
+      .toEqual({ error: 'due_from must not be after due_to' });
+    expect(buildTaskFilters({ created_by: 'nobody' }, context)).toEqual({ error: 'created_by must be a user id or "me"' });
+  });
+
+  it('should find overdue tasks that are not done', () => {
+    const overdue = { due_date: { $gt: '', $lt: '2026-10-19' }, status: { $nin: ['done', 'shipped'] } };
+    expect(buildTaskFilters({ overdue: 'true' }, context)).toEqual({ conditions: [overdue] });
+    expect(buildTaskFilters({ overdue: 'false' }, context)).toEqual({ conditions: [{ $nor: [overdue] }] });
+  });
+
+  it('should filter on assignees, dependencies and creator', () => {
+    expect(buildTaskFilters({
+      unassigned: 'true',
+      has_dependencies: 'false',
+      blocked: 'true',
+      created_by: 'me',
+    }, context)).toEqual({
+      conditions: [
+        { 'assignee_ids.0': { $exists: false } },
+        { 'dependency_ids.0': { $exists: false } },
+        { dependency_ids: { $in: ['task-1', 'task-2'] } },
+        { created_by: 'user-me' },
+      ],
+    });
+    expect(buildTaskFilters({ blocked: 'false', created_by: '64b7f0c2a1b2c3d4e5f60718' }, context)).toEqual({
+      conditions: [
+        { dependency_ids: { $nin: ['task-1', 'task-2'] } },
+        { created_by: '64b7f0c2a1b2c3d4e5f60718' },
+      ],
+    });
+  });
+
+  it('should ignore empty values and only look up open tasks for blocked', () => {
+    expect(buildTaskFilters({ due_from: '', overdue: '', created_by: '' }, context)).toEqual({ conditions: [] });
+    expect(needsOpenTaskIds({ blocked: 'false' })).toBe(true);
+    expect(needsOpenTaskIds({ overdue: 'true' })).toBe(false);
+  });
+});
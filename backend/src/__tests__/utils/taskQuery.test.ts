@@ -0,0 +1,110 @@
+import { QueryContext, buildTaskQuery, parseTaskQuery, usesMembers } from '../../utils/taskQuery';
+
+const context: QueryContext = {
+  statuses: ['todo', 'in_progress', 'done'],
+  members: [
+    { _id: 'user-1', name: 'Ada Lovelace', email: 'ada@example.com' },
+    { _id: 'user-2', name: 'Alan Turing', email: 'alan@example.com' },
+    { _id: 'user-3', name: 'Alan Turing', email: 'turing@example.org' },
+  ],
+  currentUserId: 'user-me',
+  today: '2026-10-19',
+};
+
+const build = (input: string) => {
+  const parsed = parseTaskQuery(input);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return buildTaskQuery(parsed.terms, context);
+};
+
+describe('Task query language', () => {
+  it('should split a query into field terms, words and phrases', () => {
+    const parsed = parseTaskQuery('status:in_progress -tag:blocked due<2026-11-01 "login bug" crash');
+    expect(parsed).toEqual({
+      terms: [
+        { position: 0, negated: false, field: 'status', operator: ':', value: 'in_progress', quoted: false },
+        { position: 19, negated: true, field: 'tag', operator: ':', value: 'blocked', quoted: false },
+        { position: 32, negated: false, field: 'due', operator: '<', value: '2026-11-01', quoted: false },
+        { position: 47, negated: false, value: 'login bug', quoted: true },
+        { position: 59, negated: false, value: 'crash', quoted: false },
+      ],
+    });
+  });
+
+  it('should accept quoted values', () => {
+    const parsed = parseTaskQuery('assignee:"Ada Lovelace"');
+    expect('terms' in parsed && parsed.terms[0]).toMatchObject({ field: 'assignee', value: 'Ada Lovelace', quoted: true });
+  });
+
+  it('should explain syntax errors with their position', () => {
+    expect(parseTaskQuery('tag:ui owner:me')).toEqual({
+      error: 'Unknown field "owner". Fields: status, assignee, tag, priority, due, start, created, progress',
+      position: 7,
+    });
+    expect(parseTaskQuery('tag>ui')).toEqual({ error: '">" only works with due, start, created, progress', position: 0 });
+    expect(parseTaskQuery('status: done')).toEqual({ error: 'Missing value after "status:"', position: 0 });
+    expect(parseTaskQuery('"login bug')).toEqual({ error: 'Missing closing quote', position: 0 });
+    expect(parseTaskQuery('log"in')).toEqual({ error: 'Quotes must surround a whole phrase or value', position: 0 });
+    expect(parseTaskQuery('tag:"ui",api')).toEqual({ error: 'Quotes must surround a whole phrase or value', position: 4 });
+  });
+
+  it('should build conditions and a text search', () => {
+    expect(build('status:todo,in_progress priority:High tag:backend -tag:blocked "login bug" -flaky')).toEqual({
+      conditions: [
+        { status: { $in: ['todo', 'in_progress'] } },
+        { priority: { $in: ['high'] } },
+        { tags: { $in: ['backend'] } },
+        { $nor: [{ tags: { $in: ['blocked'] } }] },
+      ],
+      text: '"login bug" -flaky',
+    });
+  });
+
+  it('should reject values the plan does not have', () => {
+    expect(build('status:archived')).toEqual({
+      error: 'Unknown status "archived". Valid statuses: todo, in_progress, done',
+      position: 0,
+    });
+    expect(build('priority:critical')).toMatchObject({ error: expect.stringContaining('Unknown priority') });
+    expect(build('progress>150')).toMatchObject({ error: 'progress needs a number from 0 to 100, not "150"' });
+    expect(build('-crash')).toEqual({ error: 'Excluding words needs at least one word to search for', position: 0 });
+  });
+
+  it('should match assignees by me, email, name or email prefix', () => {
+    expect(build('assignee:me,ada@example.com,turing')).toEqual({
+      conditions: [{ assignee_ids: { $in: ['user-me', 'user-1', 'user-3'] } }],
+    });
+    expect(build('assignee:ada,none')).toEqual({
+      conditions: [{ $or: [{ assignee_ids: { $in: ['user-1'] } }, { 'assignee_ids.0': { $exists: false } }] }],
+    });
+    expect(build('assignee:"ada lovelace"')).toEqual({ conditions: [{ assignee_ids: { $in: ['user-1'] } }] });
+    expect(build('assignee:none')).toEqual({ conditions: [{ 'assignee_ids.0': { $exists: false } }] });
+    expect(build('assignee:"Alan Turing"')).toMatchObject({ error: expect.stringContaining('matches more than one member') });
+    expect(build('assignee:grace')).toMatchObject({ error: 'No plan member matches "grace"' });
+  });
+
+  it('should compare dates, skipping tasks without one', () => {
+    expect(build('due<2026-11-01 start>=today due:none')).toEqual({
+      conditions: [
+        { due_date: { $lt: '2026-11-01', $gt: '' } },
+        { start_date: { $gte: '2026-10-19' } },
+        { due_date: { $in: [null, ''] } },
+      ],
+    });
+    expect(build('created:2026-10-01')).toEqual({
+      conditions: [{ created_at: { $gte: new Date('2026-10-01T00:00:00Z'), $lt: new Date('2026-10-02T00:00:00Z') } }],
+    });
+    expect(build('created<=2026-10-01')).toEqual({
+      conditions: [{ created_at: { $lt: new Date('2026-10-02T00:00:00Z') } }],
+    });
+    expect(build('due<2026-13-01')).toMatchObject({ error: expect.stringContaining('needs a date') });
+    expect(build('due<2026-02-30')).toMatchObject({ error: expect.stringContaining('needs a date') });
+  });
+
+  it('should only need members for assignee terms', () => {
+    const withAssignee = parseTaskQuery('assignee:me crash');
+    const withoutAssignee = parseTaskQuery('tag:ui crash');
+    expect('terms' in withAssignee && usesMembers(withAssignee.terms)).toBe(true);
+    expect('terms' in withoutAssignee && usesMembers(withoutAssignee.terms)).toBe(false);
+  });
+});
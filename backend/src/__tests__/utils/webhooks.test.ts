@@ -0,0 +1,106 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  buildWebhookPayload,
+  getRetryDelay,
+  sendWebhookRequest,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../../utils/webhooks';
+
+describe('Webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ type: 'task.created' });
+
+  it('should verify a signature made with the same secret', () => {
+    const signature = signWebhookPayload(secret, '1700000000', body);
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, '1700000000', body, signature)).toBe(true);
+  });
+
+  it('should reject a different secret, timestamp or body', () => {
+    const signature = signWebhookPayload(secret, '1700000000', body);
+    expect(verifyWebhookSignature('whsec_other', '1700000000', body, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, '1700000001', body, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, '1700000000', `${body} `, signature)).toBe(false);
+  });
+});
+
+describe('Webhook retry backoff', () => {
+  it('should double the delay after each failed attempt', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000);
+    expect(getRetryDelay(2)).toBe(60 * 1000);
+    expect(getRetryDelay(3)).toBe(120 * 1000);
+  });
+
+  it('should cap the delay at an hour', () => {
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('Webhook requests', () => {
+  let server: http.Server;
+  let url: string;
+  let respondWith = 200;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(respondWith, { 'Content-Type': 'text/plain' });
+        res.end(respondWith === 200 ? 'ok' : 'nope');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respondWith = 200;
+  });
+
+  it('should POST a signed payload the receiver can verify', async () => {
+    const payload = buildWebhookPayload({ type: 'task.created', plan_id: 'plan1', data: { task: { title: 'Ship it' } } });
+
+    const result = await sendWebhookRequest(url, 'whsec_test', 'delivery1', payload);
+
+    expect(result).toMatchObject({ ok: true, status: 200, body: 'ok' });
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-pdzanning-event']).toBe('task.created');
+    expect(headers['x-pdzanning-delivery']).toBe('delivery1');
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(verifyWebhookSignature(
+      'whsec_test',
+      headers['x-pdzanning-timestamp'] as string,
+      body,
+      headers['x-pdzanning-signature'] as string
+    )).toBe(true);
+  });
+
+  it('should report a non-2xx response as a failure', async () => {
+    respondWith = 500;
+    const payload = buildWebhookPayload({ type: 'ping', plan_id: 'plan1', data: {} });
+
+    const result = await sendWebhookRequest(url, 'whsec_test', 'delivery2', payload);
+
+    expect(result).toMatchObject({ ok: false, status: 500, body: 'nope' });
+  });
+
+  it('should report a receiver that is down instead of throwing', async () => {
+    const payload = buildWebhookPayload({ type: 'ping', plan_id: 'plan1', data: {} });
+
+    const result = await sendWebhookRequest('http://127.0.0.1:1/hook', 'whsec_test', 'delivery3', payload);
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,96 @@
+import express from "express";
+import cors from "cors";
+import cookieParser from "cookie-parser";
+import helmet from "helmet";
+import rateLimit from "express-rate-limit";
+import dotenv from "dotenv";
+import morgan from "morgan";
+
+// Import routes
+import authRoutes from "./routes/auth";
+import taskRoutes from "./routes/tasks";
+import planRoutes from "./routes/plans";
+import eventRoutes from "./routes/events";
+import invitationRoutes from "./routes/invitations";
+import apiTokenRoutes from "./routes/apiTokens";
+import { redactUrl } from "./utils/logging";
+
+// Load environment variables
+dotenv.config();
+
+// The app without a database connection or listener, so route tests can import it
+const app = express();
+
+// Security middleware
+app.use(helmet());
+
+// Request logging, with credentials in query strings (event stream tickets) redacted
+morgan.token<express.Request>("url", req => redactUrl(req.originalUrl || req.url));
+app.use(morgan(process.env.LOG_FORMAT || "dev"));
+
+// Rate limiting
+if (process.env.NODE_ENV === "production") {
+  const limiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 1000, // more generous in production but behind WAF/CDN typically
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: "Too many requests from this IP, please try again later.",
+  });
+  app.use("/api/", limiter);
+} else {
+  // In development, keep a very high threshold to avoid throttling interactive actions (drag/drop)
+  const devLimiter = rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: 5000,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: "Too many requests (dev)",
+  });
+  app.use("/api/", devLimiter);
+}
+
+// CORS configuration
+const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(",") || ["http://localhost:5173"];
+app.use(cors({
+  origin: allowedOrigins,
+  credentials: true,
+}));
+
+// Body parsing middleware
+app.use(express.json({ limit: "10mb" }));
+app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
+
+// Health check endpoint
+app.get("/health", (req, res) => {
+  res.json({ status: "OK", timestamp: new Date().toISOString() });
+});
+
+// API routes
+app.use("/api/auth", authRoutes);
+app.use("/api/plans/:plan_id/events", eventRoutes);
+app.use("/api/plans", planRoutes);
+app.use("/api/invitations", invitationRoutes);
+app.use("/api/tokens", apiTokenRoutes);
+app.use("/api/tasks", taskRoutes);
+
+// Error handling middleware
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error("Error:", err);
+  
+  if (err.type === "entity.parse.failed") {
+    return res.status(400).json({ error: "Invalid JSON" });
+  }
+  
+  res.status(500).json({ 
+    error: process.env.NODE_ENV === "production" ? "Internal server error" : err.message 
+  });
+});
+
+// 404 handler
+app.use("*", (req, res) => {
+  res.status(404).json({ error: "Route not found" });
+});
+
+export default app;
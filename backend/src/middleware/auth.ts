@@ -1,12 +1,16 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import User, { IUser } from "../models/User";
+import { IApiToken } from "../models/ApiToken";
+import { findApiToken, isApiToken } from "../utils/apiTokens";
+import { isStreamTicketPayload, verifyStreamTicket } from "../utils/jwt";
 
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
       user?: IUser;
+      apiToken?: IApiToken; // set when the request was made with a personal access token
     }
   }
 }
@@ -16,16 +20,21 @@ export interface JWTPayload {
   email: string;
 }
 
-export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+// Verify an access token and attach the user, shared by header and query-string auth
+const authenticateWithToken = async (token: string | undefined, req: Request, res: Response, next: NextFunction) => {
+  if (!token) {
+    return res.status(401).json({ error: "Access token required" });
+  }
 
-    if (!token) {
-      return res.status(401).json({ error: "Access token required" });
-    }
+  if (isApiToken(token)) {
+    return authenticateWithApiToken(token, req, res, next);
+  }
 
+  try {
     const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as JWTPayload;
+    if (isStreamTicketPayload(decoded)) {
+      return res.status(401).json({ error: "Invalid token" });
+    }
     const user = await User.findById(decoded.userId).select('-password_hash');
     
     if (!user) {
@@ -35,8 +44,79 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
     req.user = user;
     next();
   } catch (error) {
-    return res.status(403).json({ error: "Invalid or expired token" });
+    // The code tells clients to refresh their access token and retry
+    return res.status(403).json({ error: "Invalid or expired token", code: "invalid_token" });
+  }
+};
+
+// Personal access tokens don't expire like access tokens, so failures are plain 401s
+// without the code that makes clients refresh
+const authenticateWithApiToken = async (token: string, req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiToken = await findApiToken(token);
+    const user = apiToken ? await User.findById(apiToken.user_id).select('-password_hash') : null;
+
+    if (!apiToken || !user) {
+      return res.status(401).json({ error: "Invalid or expired API token" });
+    }
+
+    if (apiToken.scope === "read" && !["GET", "HEAD"].includes(req.method)) {
+      return res.status(403).json({ error: "This API token is read-only" });
+    }
+
+    req.user = user;
+    req.apiToken = apiToken;
+  } catch (error) {
+    console.error("API token auth error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+  next();
+};
+
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  return authenticateWithToken(token, req, res, next);
+};
+
+// EventSource cannot send headers, so event streams pass a short-lived ticket for the
+// plan as ?ticket= (see POST /api/plans/:plan_id/events/ticket)
+export const authenticateEventStream = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ticket = typeof req.query.ticket === "string" ? req.query.ticket : undefined;
+    const userId = ticket ? verifyStreamTicket(ticket, req.params.plan_id) : null;
+    if (!userId) {
+      return res.status(401).json({ error: "Invalid or expired stream ticket" });
+    }
+
+    const user = await User.findById(userId).select('-password_hash');
+    if (!user) {
+      return res.status(401).json({ error: "Invalid or expired stream ticket" });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error("Event stream auth error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Account management (sessions, passwords, tokens) needs a signed-in session, so a
+// leaked API token can't be used to take over the account. Use after authenticateToken.
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiToken) {
+    return res.status(403).json({ error: "This endpoint can't be used with an API token" });
+  }
+  next();
+};
+
+// For actions outside any one plan, such as creating plans: refused for tokens limited to selected plans
+export const requireAllPlansAccess = (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiToken && req.apiToken.plan_ids.length > 0) {
+    return res.status(403).json({ error: "This API token is limited to selected plans" });
   }
+  next();
 };
 
 export const requirePlanAccess = (requiredRole: "owner" | "editor" | "viewer" = "viewer") => {
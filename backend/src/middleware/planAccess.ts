@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import Plan, { IPlan } from "../models/Plan";
 import User from "../models/User";
+import { apiTokenAllowsPlan } from "../utils/apiTokens";
+import { refId } from "../utils/refs";
 
 // Extend Express Request type to include plan
 declare global {
@@ -33,8 +35,12 @@ export const requirePlanAccess = (requiredRole: "owner" | "editor" | "viewer" =
         return res.status(404).json({ error: "Plan not found" });
       }
 
+      if (req.apiToken && !apiTokenAllowsPlan(req.apiToken, plan._id.toString())) {
+        return res.status(403).json({ error: "This API token has no access to this plan" });
+      }
+
       // Check if user is the owner
-      if (plan.owner_id._id.toString() === user._id.toString()) {
+      if (refId(plan.owner_id) === user._id.toString()) {
         req.plan = plan;
         req.userRole = "owner";
       } else {
@@ -74,7 +80,7 @@ export const getUserPlanRole = async (userId: string, planId: string): Promise<"
     if (!plan) return null;
 
     // Check if user is the owner
-    if (plan.owner_id.toString() === userId) {
+    if (refId(plan.owner_id) === userId) {
       return "owner";
     }
 
@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+import Plan from "../models/Plan";
+import { DEFAULT_PLAN_STATUSES } from "../utils/statuses";
+
+// Migration script to give plans created before custom statuses the three default statuses
+export const addPlanStatuses = async () => {
+  try {
+    console.log("Starting plan statuses migration...");
+
+    const result = await Plan.updateMany(
+      { $or: [{ statuses: { $exists: false } }, { statuses: { $size: 0 } }] },
+      { $set: { statuses: DEFAULT_PLAN_STATUSES } }
+    );
+
+    console.log(`Added default statuses to ${result.modifiedCount} plans`);
+    console.log("Migration completed successfully!");
+  } catch (error) {
+    console.error("Migration failed:", error);
+    throw error;
+  }
+};
+
+// Run migration if called directly
+if (require.main === module) {
+  require('dotenv').config();
+
+  mongoose.connect(process.env.MONGODB_URI!)
+    .then(() => {
+      console.log("Connected to MongoDB");
+      return addPlanStatuses();
+    })
+    .then(() => {
+      console.log("Migration completed");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,43 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// Personal access token for scripts and CI. Sent as "Authorization: Bearer pdz_..."
+// in place of an access token; only the hash is stored.
+export interface IApiToken extends Document {
+  _id: string;
+  user_id: Types.ObjectId;
+  name: string;
+  token_hash: string;         // SHA-256 of the full token
+  token_hint: string;         // Last characters, to tell tokens apart in the UI
+  scope: "read" | "write";    // read tokens can only make GET requests
+  plan_ids: Types.ObjectId[]; // Plans the token may touch; empty means all of the user's plans
+  expires_at?: Date;          // No expiry when unset
+  last_used_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ApiTokenSchema = new Schema<IApiToken>({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true
+  },
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  token_hash: { type: String, required: true, unique: true, select: false },
+  token_hint: { type: String, required: true },
+  scope: { type: String, enum: ["read", "write"], default: "read" },
+  plan_ids: [{
+    type: Schema.Types.ObjectId,
+    ref: "Plan"
+  }],
+  expires_at: { type: Date },
+  last_used_at: { type: Date }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at"
+  }
+});
+
+export default model<IApiToken>("ApiToken", ApiTokenSchema);
@@ -0,0 +1,60 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IComment extends Document {
+  _id: string;
+  plan_id: Types.ObjectId; // Reference to Plan
+  task_id: Types.ObjectId; // Reference to Task
+  parent_id?: Types.ObjectId; // Top-level comment this is a reply to
+  author_id: Types.ObjectId;
+  body: string;
+  mention_ids: Types.ObjectId[]; // Plan members mentioned with @name
+  is_deleted: boolean; // Soft-deleted comments keep their replies visible
+  edited_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CommentSchema = new Schema<IComment>({
+  plan_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Plan",
+    required: true,
+    index: true
+  },
+  task_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Task",
+    required: true
+  },
+  parent_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Comment"
+  },
+  author_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  body: {
+    type: String,
+    trim: true,
+    maxlength: 5000
+  },
+  mention_ids: [{
+    type: Schema.Types.ObjectId,
+    ref: "User"
+  }],
+  is_deleted: { type: Boolean, default: false },
+  edited_at: { type: Date }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at"
+  }
+});
+
+// Index for loading a task's thread in order
+CommentSchema.index({ task_id: 1, created_at: 1 });
+CommentSchema.index({ mention_ids: 1 });
+
+export default model<IComment>("Comment", CommentSchema);
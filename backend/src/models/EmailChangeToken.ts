@@ -0,0 +1,34 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IEmailChangeToken extends Document {
+  _id: string;
+  user_id: Types.ObjectId;
+  email: string; // the new address the token was sent to
+  token_hash: string; // SHA-256 of the emailed token
+  expires_at: Date;
+  used_at?: Date;
+  created_at: Date;
+}
+
+const EmailChangeTokenSchema = new Schema<IEmailChangeToken>({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true
+  },
+  email: { type: String, required: true, lowercase: true, trim: true },
+  token_hash: { type: String, required: true, unique: true },
+  expires_at: { type: Date, required: true },
+  used_at: { type: Date }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: false
+  }
+});
+
+// Expired tokens are removed by MongoDB
+EmailChangeTokenSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IEmailChangeToken>("EmailChangeToken", EmailChangeTokenSchema);
@@ -0,0 +1,71 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+export interface IInvitation extends Document {
+  _id: string;
+  plan_id: Types.ObjectId; // Reference to Plan
+  email: string;           // Address the invitation was sent to
+  role: "editor" | "viewer";
+  token_hash: string;      // SHA-256 of the emailed token; the token itself is never stored
+  invited_by: Types.ObjectId;
+  status: InvitationStatus;
+  expires_at: Date;
+  responded_at?: Date;     // When it was accepted, declined or revoked
+  accepted_by?: Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const InvitationSchema = new Schema<IInvitation>({
+  plan_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Plan",
+    required: true,
+    index: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ["editor", "viewer"],
+    required: true,
+    default: "viewer"
+  },
+  token_hash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  invited_by: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ["pending", "accepted", "declined", "revoked"],
+    default: "pending"
+  },
+  expires_at: { type: Date, required: true },
+  responded_at: { type: Date },
+  accepted_by: {
+    type: Schema.Types.ObjectId,
+    ref: "User"
+  }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at"
+  }
+});
+
+// Index for finding open invitations for an address
+InvitationSchema.index({ email: 1, status: 1 });
+
+export default model<IInvitation>("Invitation", InvitationSchema);
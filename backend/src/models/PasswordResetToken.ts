@@ -0,0 +1,32 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IPasswordResetToken extends Document {
+  _id: string;
+  user_id: Types.ObjectId;
+  token_hash: string; // SHA-256 of the emailed token
+  expires_at: Date;
+  used_at?: Date;
+  created_at: Date;
+}
+
+const PasswordResetTokenSchema = new Schema<IPasswordResetToken>({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true
+  },
+  token_hash: { type: String, required: true, unique: true },
+  expires_at: { type: Date, required: true },
+  used_at: { type: Date }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: false
+  }
+});
+
+// Expired tokens are removed by MongoDB
+PasswordResetTokenSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IPasswordResetToken>("PasswordResetToken", PasswordResetTokenSchema);
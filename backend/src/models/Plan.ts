@@ -1,4 +1,6 @@
 import { Schema, model, Document, Types } from "mongoose";
+import { DEFAULT_PLAN_STATUSES, MAX_PLAN_STATUSES, PlanStatus, STATUS_CATEGORIES, STATUS_KEY_PATTERN } from "../utils/statuses";
+import { CUSTOM_FIELD_TYPES, CustomFieldType } from "../utils/customFields";
 
 export interface IPlanMember {
   user_id: Types.ObjectId;
@@ -6,12 +8,22 @@ export interface IPlanMember {
   joined_at: Date;
 }
 
+export interface ICustomField {
+  _id: Types.ObjectId;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // choices of select fields
+}
+
 export interface IPlan extends Document {
   _id: string;
   name: string;
   description?: string;
   owner_id: Types.ObjectId;
   members: IPlanMember[];
+  statuses: PlanStatus[]; // ordered workflow; task.status is one of these keys
+  custom_fields: Types.DocumentArray<ICustomField>; // values live in task.custom_fields, keyed by field id
+  auto_schedule: boolean; // push dependent tasks forward when a predecessor's dates change
   created_at: Date;
   updated_at: Date;
 }
@@ -34,6 +46,19 @@ const PlanMemberSchema = new Schema<IPlanMember>({
   }
 });
 
+const PlanStatusSchema = new Schema<PlanStatus>({
+  key: { type: String, required: true, match: STATUS_KEY_PATTERN },
+  label: { type: String, required: true, trim: true, maxlength: 50 },
+  color: { type: String, required: true },
+  category: { type: String, enum: STATUS_CATEGORIES, required: true }
+}, { _id: false });
+
+const CustomFieldSchema = new Schema<ICustomField>({
+  name: { type: String, required: true, trim: true, maxlength: 50 },
+  type: { type: String, enum: CUSTOM_FIELD_TYPES, required: true },
+  options: [{ type: String, trim: true, maxlength: 50 }]
+});
+
 const PlanSchema = new Schema<IPlan>({
   name: { 
     type: String, 
@@ -52,7 +77,20 @@ const PlanSchema = new Schema<IPlan>({
     required: true,
     index: true
   },
-  members: [PlanMemberSchema]
+  members: [PlanMemberSchema],
+  statuses: {
+    type: [PlanStatusSchema],
+    default: () => DEFAULT_PLAN_STATUSES.map(status => ({ ...status })),
+    validate: {
+      validator: (statuses: PlanStatus[]) => statuses.length > 0 && statuses.length <= MAX_PLAN_STATUSES,
+      message: `A plan needs between 1 and ${MAX_PLAN_STATUSES} statuses`
+    }
+  },
+  custom_fields: [CustomFieldSchema],
+  auto_schedule: {
+    type: Boolean,
+    default: false
+  }
 }, { 
   timestamps: { 
     createdAt: "created_at", 
@@ -0,0 +1,44 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// One document per issued refresh token. Every refresh rotates the token, and all
+// tokens descending from one sign-in share a family_id: the family is the session.
+export interface IRefreshToken extends Document {
+  _id: string;
+  user_id: Types.ObjectId;
+  family_id: string;
+  token_hash: string;         // SHA-256 of the cookie value
+  session_started_at: Date;   // When the family was created by signing in
+  user_agent?: string;
+  ip?: string;
+  expires_at: Date;
+  used_at?: Date;             // Set once the token has been exchanged for a new one
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true
+  },
+  family_id: { type: String, required: true, index: true },
+  token_hash: { type: String, required: true, unique: true },
+  session_started_at: { type: Date, required: true },
+  user_agent: { type: String },
+  ip: { type: String },
+  expires_at: { type: Date, required: true },
+  used_at: { type: Date },
+  revoked_at: { type: Date }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: false
+  }
+});
+
+// Expired tokens are removed by MongoDB
+RefreshTokenSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IRefreshToken>("RefreshToken", RefreshTokenSchema);
@@ -0,0 +1,61 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const SAVED_VIEW_TYPES = ["board", "table", "gantt"] as const;
+export const SAVED_VIEW_SCOPES = ["personal", "shared"] as const;
+export const TASK_GROUPINGS = ["none", "status", "priority", "assignee"] as const;
+export const GANTT_ZOOMS = ["day", "week", "month"] as const;
+
+export type SavedViewType = typeof SAVED_VIEW_TYPES[number];
+export type SavedViewScope = typeof SAVED_VIEW_SCOPES[number];
+
+export interface ISavedViewSort {
+  field: string; // task field, or cf:<custom field id>
+  order: "asc" | "desc";
+}
+
+export interface ISavedView extends Document {
+  _id: string;
+  plan_id: Types.ObjectId;
+  name: string;
+  scope: SavedViewScope;     // personal views are only visible to their creator
+  view_type: SavedViewType;
+  filters: Record<string, unknown>; // same shape as the GET /api/tasks query
+  sort: ISavedViewSort;
+  group_by: typeof TASK_GROUPINGS[number];
+  gantt_zoom: typeof GANTT_ZOOMS[number];
+  created_by: Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SavedViewSchema = new Schema<ISavedView>({
+  plan_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Plan",
+    required: true,
+    index: true
+  },
+  name: { type: String, required: true, trim: true, maxlength: 60 },
+  scope: { type: String, enum: SAVED_VIEW_SCOPES, default: "personal" },
+  view_type: { type: String, enum: SAVED_VIEW_TYPES, default: "board" },
+  filters: { type: Schema.Types.Mixed, default: {} },
+  sort: {
+    field: { type: String, default: "created_at" },
+    order: { type: String, enum: ["asc", "desc"], default: "desc" }
+  },
+  group_by: { type: String, enum: TASK_GROUPINGS, default: "none" },
+  gantt_zoom: { type: String, enum: GANTT_ZOOMS, default: "week" },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at"
+  },
+  minimize: false // keep empty filters
+});
+
+export default model<ISavedView>("SavedView", SavedViewSchema);
@@ -1,11 +1,12 @@
 import { Schema, model, Document, Types } from "mongoose";
+import { STATUS_KEY_PATTERN } from "../utils/statuses";
 
 export interface ITask extends Document {
   _id: string;
   plan_id: Types.ObjectId; // Reference to Plan
   title: string;
   description?: string;
-  status: "todo" | "in_progress" | "done";
+  status: string; // key of one of the plan's statuses
   priority?: "low" | "medium" | "high" | "urgent";
   assignee_ids?: Types.ObjectId[];
   start_date?: string; // ISO date string (YYYY-MM-DD)
@@ -19,6 +20,7 @@ export interface ITask extends Document {
   goal?: string;
   notes?: string;
   deliverables?: string;
+  custom_fields?: Map<string, unknown>; // plan custom field id -> value
   created_by: Types.ObjectId;
   updated_by: Types.ObjectId;
   created_at: Date;
@@ -36,10 +38,9 @@ const TaskSchema = new Schema<ITask>({
   description: { type: String, trim: true },
   status: { 
     type: String, 
-    enum: ["todo", "in_progress", "done"], 
+    match: STATUS_KEY_PATTERN, // which keys are valid depends on the plan, checked in the routes
     index: true, 
-    required: true,
-    default: "todo"
+    required: true
   },
   priority: { 
     type: String, 
@@ -75,6 +76,10 @@ const TaskSchema = new Schema<ITask>({
   goal: { type: String }, // Optional goal for the task
   notes: { type: String }, // Optional notes
   deliverables: { type: String }, // Optional deliverables
+  custom_fields: {
+    type: Map,
+    of: Schema.Types.Mixed // checked against the plan's field definitions in the routes
+  },
   created_by: { 
     type: Schema.Types.ObjectId, 
     ref: "User", 
@@ -96,6 +101,8 @@ const TaskSchema = new Schema<ITask>({
 TaskSchema.index({ plan_id: 1, status: 1, order_index: 1 });
 TaskSchema.index({ plan_id: 1, assignee_ids: 1 });
 TaskSchema.index({ plan_id: 1, due_date: 1 });
+TaskSchema.index({ plan_id: 1, start_date: 1 });
+TaskSchema.index({ plan_id: 1, created_at: -1 });
 TaskSchema.index({ plan_id: 1, parent_id: 1 });
 TaskSchema.index({ plan_id: 1, priority: 1 });
 TaskSchema.index({ plan_id: 1, tags: 1 });
@@ -0,0 +1,62 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type TaskActivityAction = "create" | "update" | "delete" | "reorder";
+
+export interface ITaskFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ITaskActivity extends Document {
+  _id: string;
+  plan_id: Types.ObjectId; // Reference to Plan
+  task_id: Types.ObjectId; // Task may no longer exist for "delete" entries
+  task_title: string;      // Snapshot so deleted tasks stay readable in the log
+  action: TaskActivityAction;
+  changes: ITaskFieldChange[];
+  actor_id: Types.ObjectId;
+  created_at: Date;
+}
+
+const TaskFieldChangeSchema = new Schema<ITaskFieldChange>({
+  field: { type: String, required: true },
+  before: { type: Schema.Types.Mixed },
+  after: { type: Schema.Types.Mixed }
+}, { _id: false });
+
+const TaskActivitySchema = new Schema<ITaskActivity>({
+  plan_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Plan",
+    required: true
+  },
+  task_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Task",
+    required: true
+  },
+  task_title: { type: String, required: true },
+  action: {
+    type: String,
+    enum: ["create", "update", "delete", "reorder"],
+    required: true
+  },
+  changes: [TaskFieldChangeSchema],
+  actor_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: false
+  }
+});
+
+// Indexes for the per-task and per-plan timelines (newest first)
+TaskActivitySchema.index({ task_id: 1, created_at: -1 });
+TaskActivitySchema.index({ plan_id: 1, created_at: -1 });
+
+export default model<ITaskActivity>("TaskActivity", TaskActivitySchema);
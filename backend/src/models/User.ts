@@ -3,6 +3,7 @@ import { Schema, model, Document } from "mongoose";
 export interface IUser extends Document {
   _id: string;
   email: string;
+  pending_email?: string; // requested new address, set once it is verified
   password_hash: string;
   name: string;
   avatar?: string;
@@ -21,6 +22,7 @@ const UserSchema = new Schema<IUser>({
     lowercase: true,
     trim: true
   },
+  pending_email: { type: String, lowercase: true, trim: true },
   password_hash: { type: String, required: true },
   name: { type: String, required: true, trim: true },
   avatar: { type: String }, // color/emoji
@@ -0,0 +1,61 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.updated",
+  "task.deleted",
+  "task.reordered",
+  "member.added",
+  "member.removed",
+  "member.role_changed",
+  "plan.updated",
+  "plan.ownership_transferred",
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number] | "ping";
+
+export interface IWebhook extends Document {
+  _id: string;
+  plan_id: Types.ObjectId;
+  url: string;
+  secret: string;            // HMAC key for the signature header; shown to the owner once
+  events: WebhookEventType[]; // Subscribed events; empty means all of them
+  description?: string;
+  active: boolean;
+  created_by: Types.ObjectId;
+  last_delivery_at?: Date;
+  last_delivery_status?: "succeeded" | "failed";
+  created_at: Date;
+  updated_at: Date;
+}
+
+const WebhookSchema = new Schema<IWebhook>({
+  plan_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Plan",
+    required: true,
+    index: true
+  },
+  url: { type: String, required: true, trim: true },
+  secret: { type: String, required: true, select: false },
+  events: [{
+    type: String,
+    enum: WEBHOOK_EVENTS
+  }],
+  description: { type: String, trim: true, maxlength: 200 },
+  active: { type: Boolean, default: true },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  last_delivery_at: { type: Date },
+  last_delivery_status: { type: String, enum: ["succeeded", "failed"] }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at"
+  }
+});
+
+export default model<IWebhook>("Webhook", WebhookSchema);
@@ -0,0 +1,64 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { WebhookEventType } from "./Webhook";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+// One event sent (or to be sent) to one webhook, with the outcome of the last attempt
+export interface IWebhookDelivery extends Document {
+  _id: string;
+  webhook_id: Types.ObjectId;
+  plan_id: Types.ObjectId;
+  event: WebhookEventType;
+  payload: Record<string, unknown>; // JSON body sent to the receiver
+  status: WebhookDeliveryStatus;    // failed once every attempt has been used up
+  attempts: number;
+  next_attempt_at?: Date;           // When the dispatcher picks it up (again); unset once settled
+  last_attempt_at?: Date;
+  response_status?: number;
+  response_body?: string;           // Truncated
+  error?: string;                   // Network error or timeout of the last attempt
+  duration_ms?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>({
+  webhook_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Webhook",
+    required: true
+  },
+  plan_id: {
+    type: Schema.Types.ObjectId,
+    ref: "Plan",
+    required: true
+  },
+  event: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: {
+    type: String,
+    enum: ["pending", "succeeded", "failed"],
+    default: "pending"
+  },
+  attempts: { type: Number, default: 0 },
+  next_attempt_at: { type: Date },
+  last_attempt_at: { type: Date },
+  response_status: { type: Number },
+  response_body: { type: String },
+  error: { type: String },
+  duration_ms: { type: Number }
+}, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at"
+  }
+});
+
+// Delivery log of a webhook, newest first
+WebhookDeliverySchema.index({ webhook_id: 1, created_at: -1 });
+// Dispatcher queue
+WebhookDeliverySchema.index({ status: 1, next_attempt_at: 1 });
+// Keep the log for 30 days
+WebhookDeliverySchema.index({ created_at: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default model<IWebhookDelivery>("WebhookDelivery", WebhookDeliverySchema);
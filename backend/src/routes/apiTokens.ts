@@ -0,0 +1,108 @@
+import express from "express";
+import { z } from "zod";
+import { Types } from "mongoose";
+import ApiToken from "../models/ApiToken";
+import Plan from "../models/Plan";
+import { authenticateToken, requireSession } from "../middleware/auth";
+import { validateRequest } from "../utils/validation";
+import { createApiToken } from "../utils/apiTokens";
+
+// Mounted under /api/tokens. Personal access tokens are managed from a signed-in
+// session only; a token can't be used to list or mint other tokens.
+const router = express.Router();
+
+router.use(authenticateToken, requireSession);
+
+const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name too long"),
+  scope: z.enum(["read", "write"]).default("read"),
+  plan_ids: z.array(z.string()).optional(),
+  expires_at: z.string().datetime({ offset: true }).optional(),
+});
+
+// List the current user's tokens
+router.get("/", async (req, res) => {
+  try {
+    const tokens = await ApiToken.find({ user_id: req.user!._id })
+      .populate('plan_ids', 'name')
+      .sort({ created_at: -1 });
+
+    res.json({ tokens });
+  } catch (error) {
+    console.error("Get API tokens error:", error);
+    res.status(500).json({ error: "Failed to fetch API tokens" });
+  }
+});
+
+// Create a token. The plaintext is in the response and can't be retrieved again.
+router.post("/", validateRequest(z.object({
+  body: createApiTokenSchema
+})), async (req, res) => {
+  try {
+    const { name, expires_at } = req.body;
+    const scope = req.body.scope || "read";
+    const planIds: string[] = Array.from(new Set(req.body.plan_ids || []));
+    const userId = req.user!._id;
+
+    const expiresAt = expires_at ? new Date(expires_at) : undefined;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return res.status(400).json({ error: "Expiry must be in the future" });
+    }
+
+    if (planIds.some(id => !Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ error: "Invalid plan id" });
+    }
+    const accessiblePlans = await Plan.countDocuments({
+      _id: { $in: planIds },
+      $or: [
+        { owner_id: userId },
+        { "members.user_id": userId }
+      ]
+    });
+    if (accessiblePlans !== planIds.length) {
+      return res.status(400).json({ error: "You can only limit a token to plans you have access to" });
+    }
+
+    const { apiToken, token } = await createApiToken({
+      userId,
+      name: name.trim(),
+      scope,
+      planIds,
+      expiresAt,
+    });
+    await apiToken.populate('plan_ids', 'name');
+
+    console.log(`Created ${scope} API token "${apiToken.name}" for ${req.user!.email}`);
+
+    res.status(201).json({ token, api_token: apiToken });
+  } catch (error) {
+    console.error("Create API token error:", error);
+    res.status(500).json({ error: "Failed to create API token" });
+  }
+});
+
+// Revoke a token; requests using it fail from then on
+router.delete("/:token_id", async (req, res) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.token_id)) {
+      return res.status(404).json({ error: "API token not found" });
+    }
+
+    const apiToken = await ApiToken.findOneAndDelete({
+      _id: req.params.token_id,
+      user_id: req.user!._id
+    });
+    if (!apiToken) {
+      return res.status(404).json({ error: "API token not found" });
+    }
+
+    console.log(`Revoked API token "${apiToken.name}" of ${req.user!.email}`);
+
+    res.json({ message: "API token revoked" });
+  } catch (error) {
+    console.error("Revoke API token error:", error);
+    res.status(500).json({ error: "Failed to revoke API token" });
+  }
+});
+
+export default router;
@@ -1,66 +1,125 @@
 import express from "express";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
-import { Types } from "mongoose";
 import User from "../models/User";
 import Plan from "../models/Plan";
-import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from "../utils/jwt";
-import { authenticateToken } from "../middleware/auth";
+import Task from "../models/Task";
+import RefreshToken from "../models/RefreshToken";
+import PasswordResetToken from "../models/PasswordResetToken";
+import EmailChangeToken from "../models/EmailChangeToken";
+import ApiToken from "../models/ApiToken";
+import SavedView from "../models/SavedView";
+import { generateAccessToken } from "../utils/jwt";
+import { authenticateToken, requireSession } from "../middleware/auth";
 import { validateRequest } from "../utils/validation";
+import { refId } from "../utils/refs";
+import { closeUserSubscriptions } from "../utils/realtime";
+import { createSamplePlan } from "../utils/samplePlan";
+import { RESET_LINK_SENT_MESSAGE, consumePasswordResetToken, sendAccountClaim, sendPasswordReset } from "../utils/passwordReset";
+import { cancelEmailChange, confirmEmailChange, requestEmailChange } from "../utils/emailChange";
+import {
+  ClientInfo,
+  REFRESH_TOKEN_TTL_MS,
+  findSessionId,
+  issueRefreshToken,
+  listSessions,
+  revokeSessionFamily,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from "../utils/sessions";
+import { acceptInvitation, findInvitationByToken, getInvitationError } from "../utils/invitations";
 
 const router = express.Router();
 
+const getClientInfo = (req: express.Request): ClientInfo => ({
+  user_agent: req.get("user-agent"),
+  ip: req.ip,
+});
+
+// Set refresh token as HTTP-only cookie
+const setRefreshCookie = (res: express.Response, refreshToken: string) => {
+  res.cookie("refreshToken", refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: REFRESH_TOKEN_TTL_MS,
+  });
+};
+
 // Register
 router.post("/register", validateRequest(z.object({
   body: z.object({
     email: z.string().email(),
     password: z.string().min(8),
     name: z.string().min(1).max(100),
+    invite_token: z.string().min(1).optional(),
   })
 })), async (req, res) => {
   try {
-    const { email, password, name } = req.body;
+    const { password, name, invite_token } = req.body;
+    const email = req.body.email.toLowerCase().trim();
+
+    // An invite token must be open and addressed to the email being registered
+    const invitation = invite_token ? await findInvitationByToken(invite_token) : null;
+    if (invite_token) {
+      const invitationError = getInvitationError(invitation);
+      if (invitationError) {
+        return res.status(400).json({ error: invitationError });
+      }
+      if (invitation!.email !== email) {
+        return res.status(400).json({ error: "This invitation was sent to a different email address" });
+      }
+    }
 
-    // Check if user already exists
+    // Check if user already exists. Placeholders created for invited people can
+    // only be claimed with their invitation, or with a link sent to the address.
     const existingUser = await User.findOne({ email });
-    if (existingUser) {
+    if (existingUser && !existingUser.is_placeholder) {
       return res.status(400).json({ error: "User already exists" });
     }
+    if (existingUser && !invitation) {
+      if (await sendAccountClaim(existingUser)) {
+        console.log(`Sent account claim link to ${email}`);
+      }
+      return res.json({ message: RESET_LINK_SENT_MESSAGE });
+    }
 
     // Hash password
     const password_hash = await bcrypt.hash(password, 12);
+    const avatar = `#${Math.floor(Math.random()*16777215).toString(16)}`; // Random color
 
-    // Create user
-    const user = new User({
-      email,
-      password_hash,
-      name,
-      avatar: `#${Math.floor(Math.random()*16777215).toString(16)}`, // Random color
-    });
+    // Create user, or claim the placeholder
+    const user = existingUser || new User({ email });
+    user.password_hash = password_hash;
+    user.name = name;
+    user.avatar = user.avatar || avatar;
+    user.is_placeholder = false;
 
     await user.save();
-    console.log(`Created user ${email}`);
+    console.log(existingUser ? `Claimed placeholder user ${email}` : `Created user ${email}`);
 
-    // Make user owner of demo plan if it exists
-    const demoPlan = await Plan.findOne({ name: "Demo Plan" });
-    if (demoPlan) {
-      demoPlan.owner_id = new Types.ObjectId(user._id);
-      await demoPlan.save();
-      console.log(`Made ${email} owner of Demo Plan`);
+    if (invitation) {
+      try {
+        const plan = await acceptInvitation(invitation, user._id.toString());
+        console.log(`${email} joined plan ${plan.name} from invitation`);
+      } catch (error) {
+        console.error(`Failed to accept invitation for ${email}:`, error);
+      }
+    }
+
+    // Give the new account its own sample plan
+    try {
+      await createSamplePlan(user._id.toString());
+      console.log(`Created sample plan for ${email}`);
+    } catch (error) {
+      console.error(`Failed to create sample plan for ${email}:`, error);
     }
 
     // Generate tokens
     const payload = { userId: user._id, email: user.email };
     const accessToken = generateAccessToken(payload);
-    const refreshToken = generateRefreshToken(payload);
-
-    // Set refresh token as HTTP-only cookie
-    res.cookie("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    });
+    const refreshToken = await issueRefreshToken(user._id, getClientInfo(req));
+    setRefreshCookie(res, refreshToken);
 
     res.status(201).json({
       user: {
@@ -102,15 +161,8 @@ router.post("/login", validateRequest(z.object({
     // Generate tokens
     const payload = { userId: user._id, email: user.email };
     const accessToken = generateAccessToken(payload);
-    const refreshToken = generateRefreshToken(payload);
-
-    // Set refresh token as HTTP-only cookie
-    res.cookie("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    });
+    const refreshToken = await issueRefreshToken(user._id, getClientInfo(req));
+    setRefreshCookie(res, refreshToken);
 
     res.json({
       user: {
@@ -127,7 +179,7 @@ router.post("/login", validateRequest(z.object({
   }
 });
 
-// Refresh token
+// Refresh token: exchanges the cookie for a new access token and a new refresh token
 router.post("/refresh", async (req, res) => {
   try {
     const { refreshToken } = req.cookies;
@@ -136,28 +188,194 @@ router.post("/refresh", async (req, res) => {
       return res.status(401).json({ error: "Refresh token required" });
     }
 
-    const payload = verifyRefreshToken(refreshToken);
-    const user = await User.findById(payload.userId);
+    const result = await rotateRefreshToken(refreshToken, getClientInfo(req));
+    if (result.status === "reused") {
+      console.warn(`Refresh token reuse detected for user ${result.userId}; session revoked`);
+      res.clearCookie("refreshToken");
+      return res.status(401).json({ error: "Session expired, please sign in again" });
+    }
+    if (result.status === "invalid") {
+      res.clearCookie("refreshToken");
+      return res.status(401).json({ error: "Invalid refresh token" });
+    }
 
+    const user = await User.findById(result.userId);
     if (!user) {
+      res.clearCookie("refreshToken");
       return res.status(401).json({ error: "Invalid refresh token" });
     }
 
+    // Within the grace window the concurrent refresh sets the new cookie
+    if (result.status === "rotated") {
+      setRefreshCookie(res, result.token);
+    }
+
     // Generate new access token
     const newAccessToken = generateAccessToken({ userId: user._id, email: user.email });
 
     res.json({ accessToken: newAccessToken });
   } catch (error) {
+    console.error("Refresh token error:", error);
     res.status(401).json({ error: "Invalid refresh token" });
   }
 });
 
-// Logout
-router.post("/logout", (req, res) => {
+// Logout: ends this session server-side as well as clearing the cookie
+router.post("/logout", async (req, res) => {
+  try {
+    const sessionId = await findSessionId(req.cookies.refreshToken);
+    if (sessionId) {
+      await revokeSessionFamily(sessionId);
+    }
+  } catch (error) {
+    console.error("Logout error:", error);
+  }
   res.clearCookie("refreshToken");
   res.json({ message: "Logged out successfully" });
 });
 
+// List the signed-in sessions of the current user
+router.get("/sessions", authenticateToken, requireSession, async (req, res) => {
+  try {
+    const currentSessionId = await findSessionId(req.cookies.refreshToken);
+    const sessions = await listSessions(req.user!._id, currentSessionId);
+
+    res.json({ sessions });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    res.status(500).json({ error: "Failed to fetch sessions" });
+  }
+});
+
+// Sign out every session except the current one
+router.delete("/sessions", authenticateToken, requireSession, async (req, res) => {
+  try {
+    const currentSessionId = await findSessionId(req.cookies.refreshToken);
+    const revoked = await revokeUserSessions(req.user!._id, currentSessionId);
+
+    console.log(`Revoked ${revoked} other sessions for ${req.user!.email}`);
+
+    res.json({ message: "Signed out of all other sessions", revoked });
+  } catch (error) {
+    console.error("Revoke sessions error:", error);
+    res.status(500).json({ error: "Failed to revoke sessions" });
+  }
+});
+
+// Sign out one session
+router.delete("/sessions/:session_id", authenticateToken, requireSession, async (req, res) => {
+  try {
+    const { session_id } = req.params;
+    const sessions = await listSessions(req.user!._id, null);
+    if (!sessions.some(session => session._id === session_id)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    await revokeSessionFamily(session_id);
+
+    const currentSessionId = await findSessionId(req.cookies.refreshToken);
+    if (currentSessionId === session_id) {
+      res.clearCookie("refreshToken");
+    }
+
+    console.log(`Revoked session ${session_id} for ${req.user!.email}`);
+
+    res.json({ message: "Session revoked" });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ error: "Failed to revoke session" });
+  }
+});
+
+// Forgot password: emails a reset link. The response is the same whether or not
+// the email has an account, so it can't be used to look up users.
+router.post("/password/forgot", validateRequest(z.object({
+  body: z.object({
+    email: z.string().email(),
+  })
+})), async (req, res) => {
+  try {
+    const email = req.body.email.toLowerCase().trim();
+    const user = await User.findOne({ email });
+
+    if (user && !user.is_placeholder) {
+      await sendPasswordReset(user);
+      console.log(`Sent password reset to ${email}`);
+    }
+
+    res.json({ message: RESET_LINK_SENT_MESSAGE });
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    res.status(500).json({ error: "Failed to send reset link" });
+  }
+});
+
+// Reset password with an emailed token; signs out every session
+router.post("/password/reset", validateRequest(z.object({
+  body: z.object({
+    token: z.string().min(1),
+    password: z.string().min(8),
+  })
+})), async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    const userId = await consumePasswordResetToken(token);
+    const user = userId ? await User.findById(userId) : null;
+    if (!user) {
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+
+    user.password_hash = await bcrypt.hash(password, 12);
+    user.is_placeholder = false; // claim links for placeholder accounts come here too
+    await user.save();
+    await revokeUserSessions(user._id);
+
+    console.log(`Reset password for ${user.email}`);
+
+    res.json({ message: "Password reset. Sign in with your new password." });
+  } catch (error) {
+    console.error("Reset password error:", error);
+    res.status(500).json({ error: "Failed to reset password" });
+  }
+});
+
+// Change password; other sessions are signed out, this one stays
+router.post("/password/change", authenticateToken, requireSession, validateRequest(z.object({
+  body: z.object({
+    current_password: z.string().min(1),
+    new_password: z.string().min(8),
+  })
+})), async (req, res) => {
+  try {
+    const { current_password, new_password } = req.body;
+
+    // req.user is loaded without the password hash
+    const user = await User.findById(req.user!._id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const isValidPassword = await bcrypt.compare(current_password, user.password_hash);
+    if (!isValidPassword) {
+      return res.status(400).json({ error: "Current password is incorrect" });
+    }
+
+    user.password_hash = await bcrypt.hash(new_password, 12);
+    await user.save();
+
+    const currentSessionId = await findSessionId(req.cookies.refreshToken);
+    const revoked = await revokeUserSessions(user._id, currentSessionId);
+
+    console.log(`Changed password for ${user.email}, revoked ${revoked} other sessions`);
+
+    res.json({ message: "Password changed", revoked_sessions: revoked });
+  } catch (error) {
+    console.error("Change password error:", error);
+    res.status(500).json({ error: "Failed to change password" });
+  }
+});
+
 // Get current user
 router.get("/me", authenticateToken, async (req, res) => {
   try {
@@ -165,12 +383,17 @@ router.get("/me", authenticateToken, async (req, res) => {
     console.log(`Getting user info for ${user.email}`);
     
     // Get user's plans
-    const plans = await Plan.find({
+    const planFilter: Record<string, unknown> = {
       $or: [
         { owner_id: user._id },
         { "members.user_id": user._id }
       ]
-    }).populate('owner_id', 'name email')
+    };
+    // A token limited to selected plans only sees those
+    if (req.apiToken?.plan_ids.length) {
+      planFilter._id = { $in: req.apiToken.plan_ids };
+    }
+    const plans = await Plan.find(planFilter).populate('owner_id', 'name email')
       .populate('members.user_id', 'name email')
       .select('name _id owner_id members');
 
@@ -178,13 +401,14 @@ router.get("/me", authenticateToken, async (req, res) => {
       user: {
         _id: user._id,
         email: user.email,
+        pending_email: user.pending_email,
         name: user.name,
         avatar: user.avatar,
       },
       plans: plans.map(plan => {
-        const isOwner = plan.owner_id && plan.owner_id._id.toString() === user._id.toString();
+        const isOwner = plan.owner_id && refId(plan.owner_id) === user._id.toString();
         const memberRole = plan.members.find(m => 
-          m.user_id && m.user_id._id.toString() === user._id.toString()
+          m.user_id && refId(m.user_id) === user._id.toString()
         )?.role;
         
         return {
@@ -200,6 +424,147 @@ router.get("/me", authenticateToken, async (req, res) => {
   }
 });
 
+// Update profile. A new email only takes effect once it is confirmed from that inbox,
+// and changing it needs the current password.
+router.patch("/me", authenticateToken, requireSession, validateRequest(z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "Name is required").max(100).optional(),
+    avatar: z.string().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, "Avatar must be a hex color").optional(),
+    email: z.string().email("Invalid email address").optional(),
+    current_password: z.string().optional(),
+  })
+})), async (req, res) => {
+  try {
+    const { name, avatar, current_password } = req.body;
+    const user = req.user!;
+    let message = "Profile updated";
+
+    if (req.body.email !== undefined) {
+      const email = req.body.email.toLowerCase().trim();
+
+      if (email === user.email) {
+        // Asking for the current address again cancels a pending change
+        if (user.pending_email) {
+          await cancelEmailChange(user);
+          message = "Email change cancelled";
+        }
+      } else if (email !== user.pending_email) {
+        const withPassword = await User.findById(user._id).select("password_hash");
+        const isValidPassword = !!current_password && !!withPassword &&
+          await bcrypt.compare(current_password, withPassword.password_hash);
+        if (!isValidPassword) {
+          return res.status(400).json({ error: "Current password is incorrect" });
+        }
+
+        const existingUser = await User.findOne({ email });
+        if (existingUser) {
+          return res.status(400).json({ error: "That email is already in use" });
+        }
+
+        await requestEmailChange(user, email);
+        message = `Check ${email} for a link to confirm your new address`;
+      }
+    }
+
+    if (name !== undefined) user.name = name.trim();
+    if (avatar !== undefined) user.avatar = avatar;
+    await user.save();
+
+    console.log(`Updated profile of ${user.email}`);
+
+    res.json({
+      message,
+      user: {
+        _id: user._id,
+        email: user.email,
+        pending_email: user.pending_email,
+        name: user.name,
+        avatar: user.avatar,
+      }
+    });
+  } catch (error) {
+    console.error("Update profile error:", error);
+    res.status(500).json({ error: "Failed to update profile" });
+  }
+});
+
+// Confirm an email change with the emailed token. Works without being signed in,
+// since the link may be opened on another device.
+router.post("/email/verify", validateRequest(z.object({
+  body: z.object({
+    token: z.string().min(1),
+  })
+})), async (req, res) => {
+  try {
+    const result = await confirmEmailChange(req.body.token);
+
+    if (result.status === "taken") {
+      return res.status(400).json({ error: "That email is already in use by another account" });
+    }
+    if (result.status === "invalid") {
+      return res.status(400).json({ error: "This confirmation link is invalid or has expired" });
+    }
+
+    console.log(`Changed email of user ${result.user._id} to ${result.user.email}`);
+
+    res.json({ message: "Email address updated", email: result.user.email });
+  } catch (error) {
+    console.error("Verify email error:", error);
+    res.status(500).json({ error: "Failed to verify email" });
+  }
+});
+
+// Delete account. Owned plans have to be transferred or deleted first; memberships
+// and task assignments are removed. Comments and activity stay, without an author.
+router.delete("/me", authenticateToken, requireSession, validateRequest(z.object({
+  body: z.object({
+    password: z.string().min(1, "Password is required"),
+  })
+})), async (req, res) => {
+  try {
+    const user = await User.findById(req.user!._id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const isValidPassword = await bcrypt.compare(req.body.password, user.password_hash);
+    if (!isValidPassword) {
+      return res.status(400).json({ error: "Password is incorrect" });
+    }
+
+    const ownedPlans = await Plan.find({ owner_id: user._id }).select("name");
+    if (ownedPlans.length > 0) {
+      return res.status(409).json({
+        error: "Transfer ownership of your plans or delete them before deleting your account",
+        plans: ownedPlans.map(plan => ({ _id: plan._id, name: plan.name }))
+      });
+    }
+
+    await Plan.updateMany(
+      { "members.user_id": user._id },
+      { $pull: { members: { user_id: user._id } } }
+    );
+    await Task.updateMany(
+      { assignee_ids: user._id },
+      { $pull: { assignee_ids: user._id } }
+    );
+    await RefreshToken.deleteMany({ user_id: user._id });
+    await PasswordResetToken.deleteMany({ user_id: user._id });
+    await EmailChangeToken.deleteMany({ user_id: user._id });
+    await ApiToken.deleteMany({ user_id: user._id });
+    await SavedView.deleteMany({ created_by: user._id, scope: "personal" });
+    await User.deleteOne({ _id: user._id });
+    closeUserSubscriptions(user._id.toString());
+
+    console.log(`Deleted account ${user.email}`);
+
+    res.clearCookie("refreshToken");
+    res.json({ message: "Account deleted" });
+  } catch (error) {
+    console.error("Delete account error:", error);
+    res.status(500).json({ error: "Failed to delete account" });
+  }
+});
 
 export default router;
 
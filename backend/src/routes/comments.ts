@@ -0,0 +1,157 @@
+import express from "express";
+import { z } from "zod";
+import { Types } from "mongoose";
+import Comment from "../models/Comment";
+import Task from "../models/Task";
+import User from "../models/User";
+import { IPlan } from "../models/Plan";
+import { requirePlanAccess } from "../middleware/planAccess";
+import { validateRequest } from "../utils/validation";
+import { resolveMentions } from "../utils/mentions";
+import { refId } from "../utils/refs";
+import { commentSchema, commentUpdateSchema } from "../schemas/comment";
+
+// Mounted under /api/tasks/:id/comments; authentication is applied by the tasks router
+const router = express.Router({ mergeParams: true });
+
+const commentPopulate = [
+  { path: "author_id", select: "name email avatar" },
+  { path: "mention_ids", select: "name email" },
+];
+
+// Resolve @mentions in a comment body against the plan's owner and members
+const resolvePlanMentions = async (plan: IPlan, body: string) => {
+  const userIds = [refId(plan.owner_id), ...plan.members.map(m => refId(m.user_id))];
+  const users = await User.find({ _id: { $in: userIds } }).select("name");
+  return resolveMentions(body, users);
+};
+
+// List comments for a task (flat, oldest first; clients group replies by parent_id)
+router.get("/", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const comments = await Comment.find({ task_id: req.params.id, plan_id: req.query.plan_id })
+      .populate(commentPopulate)
+      .sort({ created_at: 1 })
+      .lean();
+
+    res.json({ comments });
+  } catch (error) {
+    console.error("Get comments error:", error);
+    res.status(500).json({ error: "Failed to fetch comments" });
+  }
+});
+
+// Create comment (viewers may comment)
+router.post("/", validateRequest(z.object({
+  body: commentSchema
+})), requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const task = await Task.findOne({ _id: req.params.id, plan_id: req.query.plan_id });
+    if (!task) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+
+    // Replies always attach to a top-level comment to keep threads one level deep
+    let parentId: Types.ObjectId | undefined;
+    if (req.body.parent_id) {
+      const parent = await Comment.findOne({ _id: req.body.parent_id, task_id: task._id });
+      if (!parent) {
+        return res.status(400).json({ error: "Parent comment not found on this task" });
+      }
+      parentId = parent.parent_id || new Types.ObjectId(parent._id);
+    }
+
+    const comment = new Comment({
+      plan_id: task.plan_id,
+      task_id: task._id,
+      parent_id: parentId,
+      author_id: req.user!._id,
+      body: req.body.body,
+      mention_ids: await resolvePlanMentions(req.plan!, req.body.body),
+    });
+    await comment.save();
+    await comment.populate(commentPopulate);
+
+    res.status(201).json(comment);
+  } catch (error) {
+    console.error("Create comment error:", error);
+    res.status(500).json({ error: "Failed to create comment" });
+  }
+});
+
+// Edit comment (author only)
+router.patch("/:comment_id", validateRequest(z.object({
+  body: commentUpdateSchema
+})), requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const comment = await Comment.findOne({
+      _id: req.params.comment_id,
+      task_id: req.params.id,
+      plan_id: req.query.plan_id,
+      is_deleted: false,
+    });
+    if (!comment) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    if (comment.author_id.toString() !== req.user!._id.toString()) {
+      return res.status(403).json({ error: "Only the author can edit this comment" });
+    }
+
+    comment.body = req.body.body;
+    comment.mention_ids = (await resolvePlanMentions(req.plan!, req.body.body)).map(id => new Types.ObjectId(id));
+    comment.edited_at = new Date();
+    await comment.save();
+    await comment.populate(commentPopulate);
+
+    res.json(comment);
+  } catch (error) {
+    console.error("Update comment error:", error);
+    res.status(500).json({ error: "Failed to update comment" });
+  }
+});
+
+// Delete comment (author only)
+router.delete("/:comment_id", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const comment = await Comment.findOne({
+      _id: req.params.comment_id,
+      task_id: req.params.id,
+      plan_id: req.query.plan_id,
+      is_deleted: false,
+    });
+    if (!comment) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    if (comment.author_id.toString() !== req.user!._id.toString()) {
+      return res.status(403).json({ error: "Only the author can delete this comment" });
+    }
+
+    // Keep a placeholder when replies exist so the thread stays readable
+    const hasReplies = await Comment.exists({ parent_id: comment._id });
+    if (hasReplies) {
+      comment.is_deleted = true;
+      comment.body = "";
+      comment.mention_ids = [];
+      await comment.save();
+    } else {
+      await Comment.findByIdAndDelete(comment._id);
+
+      // Drop a soft-deleted parent once its last reply is gone
+      if (comment.parent_id) {
+        const parent = await Comment.findById(comment.parent_id);
+        if (parent?.is_deleted && !(await Comment.exists({ parent_id: parent._id }))) {
+          await Comment.findByIdAndDelete(parent._id);
+        }
+      }
+    }
+
+    res.json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Delete comment error:", error);
+    res.status(500).json({ error: "Failed to delete comment" });
+  }
+});
+
+export default router;
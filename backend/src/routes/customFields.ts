@@ -0,0 +1,152 @@
+import express from "express";
+import { z } from "zod";
+import { Types } from "mongoose";
+import Task from "../models/Task";
+import { requirePlanAccess } from "../middleware/planAccess";
+import { validateRequest } from "../utils/validation";
+import { triggerWebhooks } from "../utils/webhooks";
+import {
+  CUSTOM_FIELD_TYPES,
+  MAX_CUSTOM_FIELDS,
+  customFieldSchema,
+  getCustomFieldDefinitionError,
+  isSelectField,
+} from "../utils/customFields";
+
+// Mounted under /api/plans/:plan_id/custom-fields; members can read the fields, owners manage them
+const router = express.Router({ mergeParams: true });
+
+const trimOptions = (options?: string[]) => (options || []).map(option => option.trim());
+
+// Find a field of the plan in the URL
+const findPlanField = (req: express.Request) => {
+  if (!Types.ObjectId.isValid(req.params.field_id)) return null;
+  return req.plan!.custom_fields.id(req.params.field_id);
+};
+
+const notifyFieldsChanged = (req: express.Request) => {
+  const plan = req.plan!;
+  triggerWebhooks({
+    type: "plan.updated",
+    plan_id: String(plan._id),
+    actor_id: String(req.user!._id),
+    data: { plan: { _id: plan._id, name: plan.name, custom_fields: plan.custom_fields } },
+  });
+};
+
+// List the plan's fields
+router.get("/", requirePlanAccess("viewer"), async (req, res) => {
+  res.json({ custom_fields: req.plan!.custom_fields, types: CUSTOM_FIELD_TYPES });
+});
+
+// Add a field
+router.post("/", validateRequest(z.object({
+  body: customFieldSchema
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const plan = req.plan!;
+    const field = {
+      name: req.body.name.trim(),
+      type: req.body.type,
+      options: isSelectField(req.body.type) ? trimOptions(req.body.options) : [],
+    };
+
+    if (plan.custom_fields.length >= MAX_CUSTOM_FIELDS) {
+      return res.status(400).json({ error: `A plan can have at most ${MAX_CUSTOM_FIELDS} custom fields` });
+    }
+    const definitionError = getCustomFieldDefinitionError(field, plan.custom_fields);
+    if (definitionError) {
+      return res.status(400).json({ error: definitionError });
+    }
+
+    plan.custom_fields.push(field);
+    await plan.save();
+
+    notifyFieldsChanged(req);
+    console.log(`Added custom field "${field.name}" to plan "${plan.name}"`);
+
+    res.status(201).json({ custom_field: plan.custom_fields[plan.custom_fields.length - 1] });
+  } catch (error) {
+    console.error("Create custom field error:", error);
+    res.status(500).json({ error: "Failed to create custom field" });
+  }
+});
+
+// Rename a field or change its options. Values of removed options are cleared from tasks.
+router.patch("/:field_id", validateRequest(z.object({
+  body: customFieldSchema.partial()
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const plan = req.plan!;
+    const field = findPlanField(req);
+    if (!field) {
+      return res.status(404).json({ error: "Custom field not found" });
+    }
+    if (req.body.type !== undefined && req.body.type !== field.type) {
+      return res.status(400).json({ error: "A field's type can't be changed. Add a new field instead." });
+    }
+
+    const name = req.body.name !== undefined ? req.body.name.trim() : field.name;
+    const options = req.body.options !== undefined && isSelectField(field.type)
+      ? trimOptions(req.body.options)
+      : field.options;
+
+    const definitionError = getCustomFieldDefinitionError(
+      { name, type: field.type, options },
+      plan.custom_fields.filter(other => !other._id.equals(field._id))
+    );
+    if (definitionError) {
+      return res.status(400).json({ error: definitionError });
+    }
+
+    const removedOptions = field.options.filter(option => !options.includes(option));
+    const path = `custom_fields.${field._id}`;
+    if (removedOptions.length > 0) {
+      if (field.type === "single_select") {
+        await Task.updateMany({ plan_id: plan._id, [path]: { $in: removedOptions } }, { $unset: { [path]: "" } });
+      } else {
+        await Task.updateMany({ plan_id: plan._id, [path]: { $in: removedOptions } }, { $pull: { [path]: { $in: removedOptions } } });
+        await Task.updateMany({ plan_id: plan._id, [path]: { $size: 0 } }, { $unset: { [path]: "" } });
+      }
+    }
+
+    field.name = name;
+    field.options = options;
+    await plan.save();
+
+    notifyFieldsChanged(req);
+    console.log(`Updated custom field "${field.name}" of plan "${plan.name}"`);
+
+    res.json({ custom_field: field });
+  } catch (error) {
+    console.error("Update custom field error:", error);
+    res.status(500).json({ error: "Failed to update custom field" });
+  }
+});
+
+// Delete a field and its values on every task
+router.delete("/:field_id", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const plan = req.plan!;
+    const field = findPlanField(req);
+    if (!field) {
+      return res.status(404).json({ error: "Custom field not found" });
+    }
+
+    const path = `custom_fields.${field._id}`;
+    await Task.updateMany({ plan_id: plan._id, [path]: { $exists: true } }, { $unset: { [path]: "" } });
+
+    plan.custom_fields.pull(field._id);
+    await plan.save();
+
+    notifyFieldsChanged(req);
+    console.log(`Deleted custom field "${field.name}" from plan "${plan.name}"`);
+
+    res.json({ message: "Custom field deleted successfully" });
+  } catch (error) {
+    console.error("Delete custom field error:", error);
+    res.status(500).json({ error: "Failed to delete custom field" });
+  }
+});
+
+export default router;
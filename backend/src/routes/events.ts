@@ -0,0 +1,26 @@
+import express from "express";
+import { authenticateEventStream, authenticateToken, requireSession } from "../middleware/auth";
+import { requirePlanAccess } from "../middleware/planAccess";
+import { generateStreamTicket } from "../utils/jwt";
+import { subscribeToPlan } from "../utils/realtime";
+
+// Mounted under /api/plans/:plan_id/events, ahead of the plans router which expects a Bearer header
+const router = express.Router({ mergeParams: true });
+
+// Short-lived ticket for opening the event stream. Only signed-in sessions get one:
+// streams are for the web app, and API tokens shouldn't end up in URLs.
+router.post("/ticket", authenticateToken, requireSession, requirePlanAccess("viewer"), (req, res) => {
+  res.json({ ticket: generateStreamTicket(req.user!._id.toString(), req.params.plan_id) });
+});
+
+// Server-Sent Events stream of task changes in a plan
+router.get("/", authenticateEventStream, requirePlanAccess("viewer"), (req, res) => {
+  const unsubscribe = subscribeToPlan(req.params.plan_id, req.user!._id.toString(), res);
+  console.log(`${req.user!.email} subscribed to events for plan ${req.params.plan_id}`);
+
+  req.on("close", () => {
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import express from "express";
+import Invitation from "../models/Invitation";
+import User from "../models/User";
+import { authenticateToken, requireSession } from "../middleware/auth";
+import { acceptInvitation, findInvitationByToken, getInvitationError } from "../utils/invitations";
+
+// Mounted under /api/invitations. The emailed token identifies the invitation, so
+// looking one up and declining it work without an account.
+const router = express.Router();
+
+// Preview an invitation before accepting it
+router.get("/:token", async (req, res) => {
+  try {
+    const invitation = await findInvitationByToken(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+    await invitation.populate([
+      { path: 'plan_id', select: 'name' },
+      { path: 'invited_by', select: 'name email' }
+    ]);
+
+    const existingUser = await User.findOne({ email: invitation.email }).select('is_placeholder');
+
+    res.json({
+      email: invitation.email,
+      role: invitation.role,
+      status: invitation.status,
+      expires_at: invitation.expires_at,
+      plan: invitation.plan_id,
+      invited_by: invitation.invited_by,
+      has_account: !!existingUser && !existingUser.is_placeholder,
+      error: getInvitationError(invitation)
+    });
+  } catch (error) {
+    console.error("Get invitation error:", error);
+    res.status(500).json({ error: "Failed to fetch invitation" });
+  }
+});
+
+// Accept an invitation as the signed-in user it was sent to
+router.post("/:token/accept", authenticateToken, requireSession, async (req, res) => {
+  try {
+    const invitation = await findInvitationByToken(req.params.token);
+    const invitationError = getInvitationError(invitation);
+    if (invitationError) {
+      return res.status(invitation ? 410 : 404).json({ error: invitationError });
+    }
+
+    if (invitation!.email !== req.user!.email.toLowerCase()) {
+      return res.status(403).json({ error: "This invitation was sent to a different email address" });
+    }
+
+    const plan = await acceptInvitation(invitation!, req.user!._id.toString());
+    await plan.populate([
+      { path: 'owner_id', select: 'name email' },
+      { path: 'members.user_id', select: 'name email' }
+    ]);
+
+    console.log(`${req.user!.email} accepted invitation to plan ${plan.name}`);
+
+    res.json(plan);
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to accept invitation" });
+  }
+});
+
+// Decline an invitation; the token is all that's needed
+router.post("/:token/decline", async (req, res) => {
+  try {
+    const invitation = await findInvitationByToken(req.params.token);
+    const invitationError = getInvitationError(invitation);
+    if (invitationError) {
+      return res.status(invitation ? 410 : 404).json({ error: invitationError });
+    }
+
+    await Invitation.updateOne(
+      { _id: invitation!._id, status: "pending" },
+      { $set: { status: "declined", responded_at: new Date() } }
+    );
+
+    console.log(`Invitation for ${invitation!.email} declined`);
+
+    res.json({ message: "Invitation declined" });
+  } catch (error) {
+    console.error("Decline invitation error:", error);
+    res.status(500).json({ error: "Failed to decline invitation" });
+  }
+});
+
+export default router;
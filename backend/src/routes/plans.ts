@@ -1,21 +1,76 @@
 import express from "express";
+import { FilterQuery, Types } from "mongoose";
 import { z } from "zod";
 import Plan from "../models/Plan";
 import Task from "../models/Task";
+import TaskActivity, { ITaskActivity } from "../models/TaskActivity";
+import Comment from "../models/Comment";
 import User from "../models/User";
-import { authenticateToken } from "../middleware/auth";
+import Invitation from "../models/Invitation";
+import Webhook, { WebhookEventType } from "../models/Webhook";
+import WebhookDelivery from "../models/WebhookDelivery";
+import SavedView from "../models/SavedView";
+import { authenticateToken, requireAllPlansAccess } from "../middleware/auth";
 import { requirePlanAccess } from "../middleware/planAccess";
 import { validateRequest } from "../utils/validation";
+import { buildDependencyMap, findAnyCycle, topologicalOrder } from "../utils/dependencyGraph";
+import { computeCriticalPath } from "../utils/criticalPath";
+import { createInvitation } from "../utils/invitations";
+import { populatedRef, refId } from "../utils/refs";
+import { triggerWebhooks } from "../utils/webhooks";
+import { closePlanSubscriptions, publishPlanEvent } from "../utils/realtime";
+import { getActivityPage, recordTaskActivity } from "../utils/activity";
+import { PlanStatus, findUnknownStatus, getDefaultStatus, getPlanStatuses, planStatusesSchema } from "../utils/statuses";
+import {
+  CustomFieldDefinition,
+  MAX_CUSTOM_FIELDS,
+  customFieldSchema,
+  getCustomFieldDefinitionError,
+  isSelectField,
+  validateCustomFieldValue,
+} from "../utils/customFields";
+import webhookRoutes from "./webhooks";
+import customFieldRoutes from "./customFields";
+import savedViewRoutes from "./savedViews";
+
+type PopulatedUser = { _id: Types.ObjectId; name: string; email: string };
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Plan webhooks
+router.use("/:plan_id/webhooks", webhookRoutes);
+
+// Plan custom fields
+router.use("/:plan_id/custom-fields", customFieldRoutes);
+
+// Saved views
+router.use("/:plan_id/views", savedViewRoutes);
+
+// Notify the plan's webhooks of a change made by this request
+const notifyWebhooks = (req: express.Request, type: WebhookEventType, data: Record<string, unknown>) => {
+  triggerWebhooks({
+    type,
+    plan_id: String(req.params.plan_id),
+    actor_id: String(req.user!._id),
+    data,
+  });
+};
+
+const memberSummary = (user: { _id: unknown; name?: string; email?: string } | null, userId: string, role: string) => ({
+  user_id: userId,
+  name: user?.name,
+  email: user?.email,
+  role,
+});
+
 // Create plan schema
 const createPlanSchema = z.object({
   name: z.string().min(1, "Plan name is required").max(100, "Plan name too long"),
   description: z.string().max(500, "Description too long").optional(),
+  auto_schedule: z.boolean().optional(),
 });
 
 // Get user's plans
@@ -24,12 +79,17 @@ router.get("/", async (req, res) => {
     const userId = req.user!._id;
 
     // Find plans where user is owner or member
-    const plans = await Plan.find({
+    const filter: Record<string, unknown> = {
       $or: [
         { owner_id: userId },
         { "members.user_id": userId }
       ]
-    })
+    };
+    // A token limited to selected plans only sees those
+    if (req.apiToken?.plan_ids.length) {
+      filter._id = { $in: req.apiToken.plan_ids };
+    }
+    const plans = await Plan.find(filter)
     .populate('owner_id', 'name email')
     .populate('members.user_id', 'name email')
     .sort({ created_at: -1 });
@@ -42,16 +102,17 @@ router.get("/", async (req, res) => {
 });
 
 // Create new plan
-router.post("/", validateRequest(z.object({
+router.post("/", requireAllPlansAccess, validateRequest(z.object({
   body: createPlanSchema
 })), async (req, res) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, auto_schedule } = req.body;
     const userId = req.user!._id;
 
     const plan = new Plan({
       name,
       description,
+      auto_schedule,
       owner_id: userId,
       members: [] // Owner is not in members array
     });
@@ -97,11 +158,11 @@ router.patch("/:plan_id", validateRequest(z.object({
   body: createPlanSchema.partial()
 })), requirePlanAccess("owner"), async (req, res) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, auto_schedule } = req.body;
 
     const plan = await Plan.findByIdAndUpdate(
       req.params.plan_id,
-      { name, description },
+      { name, description, auto_schedule },
       { new: true, runValidators: true }
     ).populate('owner_id', 'name email')
      .populate('members.user_id', 'name email');
@@ -110,6 +171,10 @@ router.patch("/:plan_id", validateRequest(z.object({
       return res.status(404).json({ error: "Plan not found" });
     }
 
+    notifyWebhooks(req, "plan.updated", {
+      plan: { _id: plan._id, name: plan.name, description: plan.description, auto_schedule: plan.auto_schedule }
+    });
+
     res.json(plan);
   } catch (error) {
     console.error("Update plan error:", error);
@@ -117,14 +182,126 @@ router.patch("/:plan_id", validateRequest(z.object({
   }
 });
 
+// Replace the plan's statuses. Tasks in a removed status must be moved with
+// remap: { removed_key: new_key }; without one the change is refused.
+router.put("/:plan_id/statuses", validateRequest(z.object({
+  body: z.object({
+    statuses: planStatusesSchema,
+    remap: z.record(z.string()).optional(),
+  })
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const plan = req.plan!;
+    const statuses: PlanStatus[] = req.body.statuses.map((status: PlanStatus) => ({
+      ...status,
+      label: status.label.trim(),
+    }));
+    const remap: Record<string, string> = req.body.remap || {};
+
+    const newKeys = new Set(statuses.map(status => status.key));
+    const removed = getPlanStatuses(plan).filter(status => !newKeys.has(status.key));
+    const removedKeys = new Set(removed.map(status => status.key));
+
+    for (const [from, to] of Object.entries(remap)) {
+      if (!removedKeys.has(from)) {
+        return res.status(400).json({ error: `Status "${from}" is not being removed` });
+      }
+      if (!newKeys.has(to)) {
+        return res.status(400).json({ error: `Cannot move tasks to unknown status "${to}"` });
+      }
+    }
+
+    const inUse = removed.length > 0
+      ? await Task.aggregate<{ _id: string; count: number }>([
+          { $match: { plan_id: plan._id, status: { $in: [...removedKeys] } } },
+          { $group: { _id: "$status", count: { $sum: 1 } } }
+        ])
+      : [];
+    const unmapped = inUse.filter(entry => !remap[entry._id]);
+    if (unmapped.length > 0) {
+      return res.status(409).json({
+        error: "Some removed statuses still have tasks. Choose a status to move them to.",
+        statuses: unmapped.map(entry => ({
+          key: entry._id,
+          label: removed.find(status => status.key === entry._id)?.label,
+          task_count: entry.count
+        }))
+      });
+    }
+
+    // Check the new statuses before any task is moved onto them
+    plan.statuses = statuses;
+    await plan.validate();
+
+    // Move tasks out of removed statuses, logged like regular status changes
+    const movedIds: unknown[] = [];
+    for (const entry of inUse) {
+      const tasks = await Task.find({ plan_id: plan._id, status: entry._id }).select("title plan_id");
+      await Task.updateMany(
+        { _id: { $in: tasks.map(task => task._id) } },
+        { $set: { status: remap[entry._id], updated_by: req.user!._id } }
+      );
+      await recordTaskActivity(tasks.map(task => ({
+        plan_id: task.plan_id,
+        task_id: task._id,
+        task_title: task.title,
+        action: "update" as const,
+        changes: [{ field: "status", before: entry._id, after: remap[entry._id] }],
+        actor_id: req.user!._id,
+      })));
+      movedIds.push(...tasks.map(task => task._id));
+    }
+
+    await plan.save();
+    await plan.populate('members.user_id', 'name email');
+
+    if (movedIds.length > 0) {
+      const movedTasks = await Task.find({ _id: { $in: movedIds } })
+        .populate("assignee_ids", "name avatar email")
+        .populate("created_by", "name email")
+        .populate("updated_by", "name email")
+        .lean();
+      // Sent to clients and webhooks like any other task update
+      movedTasks.forEach(task => {
+        publishPlanEvent({
+          type: "task.updated",
+          plan_id: String(plan._id),
+          actor_id: String(req.user!._id),
+          origin: req.get("X-Client-Id"),
+          data: { task },
+        });
+        notifyWebhooks(req, "task.updated", { task });
+      });
+    }
+
+    notifyWebhooks(req, "plan.updated", {
+      plan: { _id: plan._id, name: plan.name, statuses: plan.statuses },
+      remap
+    });
+
+    console.log(`Updated statuses of plan "${plan.name}" (${movedIds.length} tasks moved)`);
+
+    res.json(plan);
+  } catch (error) {
+    console.error("Update plan statuses error:", error);
+    res.status(500).json({ error: "Failed to update statuses" });
+  }
+});
+
 // Delete plan
 router.delete("/:plan_id", requirePlanAccess("owner"), async (req, res) => {
   try {
     // Delete all tasks in the plan first
     await Task.deleteMany({ plan_id: req.params.plan_id });
+    await TaskActivity.deleteMany({ plan_id: req.params.plan_id });
+    await Comment.deleteMany({ plan_id: req.params.plan_id });
+    await WebhookDelivery.deleteMany({ plan_id: req.params.plan_id });
+    await Webhook.deleteMany({ plan_id: req.params.plan_id });
+    await SavedView.deleteMany({ plan_id: req.params.plan_id });
     
     // Delete the plan
     await Plan.findByIdAndDelete(req.params.plan_id);
+    closePlanSubscriptions(req.params.plan_id);
 
     console.log(`Deleted plan ${req.params.plan_id} and all its tasks`);
 
@@ -135,25 +312,31 @@ router.delete("/:plan_id", requirePlanAccess("owner"), async (req, res) => {
   }
 });
 
-// Add member to plan
+// Add member to plan, identified by user_id or by the email they registered with
 router.post("/:plan_id/members", validateRequest(z.object({
   body: z.object({
-    user_id: z.string().min(1, "User ID is required"),
+    user_id: z.string().min(1, "User ID is required").optional(),
+    email: z.string().email("Invalid email address").optional(),
     role: z.enum(["editor", "viewer"]).default("viewer")
-  })
+  }).refine(body => body.user_id || body.email, { message: "User ID or email is required" })
 })), requirePlanAccess("owner"), async (req, res) => {
   try {
-    const { user_id, role } = req.body;
+    const { email, role } = req.body;
     const plan = req.plan!;
 
     // Check if user exists
-    const user = await User.findById(user_id);
+    const user = email
+      ? await User.findOne({ email: email.toLowerCase().trim() })
+      : await User.findById(req.body.user_id);
     if (!user) {
-      return res.status(404).json({ error: "User not found" });
+      return res.status(404).json({
+        error: email ? `No user found with email ${email}. They need to register first.` : "User not found"
+      });
     }
+    const user_id = user._id.toString();
 
     // Check if user is already owner
-    if (plan.owner_id.toString() === user_id) {
+    if (refId(plan.owner_id) === user_id) {
       return res.status(400).json({ error: "User is already the owner" });
     }
 
@@ -165,16 +348,21 @@ router.post("/:plan_id/members", validateRequest(z.object({
 
     // Add member
     plan.members.push({
-      user_id: user_id as any,
+      user_id: new Types.ObjectId(user_id),
       role,
       joined_at: new Date()
     });
 
     await plan.save();
-    await plan.populate('members.user_id', 'name email');
+    await plan.populate([
+      { path: 'owner_id', select: 'name email' },
+      { path: 'members.user_id', select: 'name email' }
+    ]);
 
     console.log(`Added ${user.email} as ${role} to plan ${plan.name}`);
 
+    notifyWebhooks(req, "member.added", { member: memberSummary(user, user_id, role) });
+
     res.json(plan);
   } catch (error) {
     console.error("Add member error:", error);
@@ -188,13 +376,25 @@ router.delete("/:plan_id/members/:user_id", requirePlanAccess("owner"), async (r
     const { user_id } = req.params;
     const plan = req.plan!;
 
+    const removed = plan.members.find(m => m.user_id.toString() === user_id);
+
     // Remove member
     plan.members = plan.members.filter(m => m.user_id.toString() !== user_id);
     await plan.save();
-    await plan.populate('members.user_id', 'name email');
+    await plan.populate([
+      { path: 'owner_id', select: 'name email' },
+      { path: 'members.user_id', select: 'name email' }
+    ]);
+
+    closePlanSubscriptions(plan._id.toString(), user_id);
 
     console.log(`Removed user ${user_id} from plan ${plan.name}`);
 
+    if (removed) {
+      const removedUser = await User.findById(user_id).select("name email");
+      notifyWebhooks(req, "member.removed", { member: memberSummary(removedUser, user_id, removed.role) });
+    }
+
     res.json(plan);
   } catch (error) {
     console.error("Remove member error:", error);
@@ -221,10 +421,16 @@ router.patch("/:plan_id/members/:user_id", validateRequest(z.object({
 
     member.role = role;
     await plan.save();
-    await plan.populate('members.user_id', 'name email');
+    await plan.populate([
+      { path: 'owner_id', select: 'name email' },
+      { path: 'members.user_id', select: 'name email' }
+    ]);
 
     console.log(`Updated role of user ${user_id} to ${role} in plan ${plan.name}`);
 
+    const memberUser = await User.findById(user_id).select("name email");
+    notifyWebhooks(req, "member.role_changed", { member: memberSummary(memberUser, user_id, role) });
+
     res.json(plan);
   } catch (error) {
     console.error("Update member role error:", error);
@@ -232,6 +438,247 @@ router.patch("/:plan_id/members/:user_id", validateRequest(z.object({
   }
 });
 
+// Hand the plan to an existing member; the previous owner stays on as an editor
+router.post("/:plan_id/transfer-ownership", validateRequest(z.object({
+  body: z.object({
+    user_id: z.string().min(1, "User ID is required")
+  })
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const { user_id } = req.body;
+    const plan = req.plan!;
+    const previousOwnerId = refId(plan.owner_id);
+
+    if (previousOwnerId === user_id) {
+      return res.status(400).json({ error: "User is already the owner" });
+    }
+
+    const newOwner = plan.members.find(m => m.user_id.toString() === user_id);
+    if (!newOwner) {
+      return res.status(400).json({ error: "The new owner must be a member of the plan" });
+    }
+
+    plan.members = plan.members.filter(m => m.user_id.toString() !== user_id);
+    plan.members.push({
+      user_id: new Types.ObjectId(previousOwnerId),
+      role: "editor",
+      joined_at: new Date()
+    });
+    plan.owner_id = newOwner.user_id;
+
+    await plan.save();
+    await plan.populate([
+      { path: 'owner_id', select: 'name email' },
+      { path: 'members.user_id', select: 'name email' }
+    ]);
+
+    console.log(`Transferred ownership of plan ${plan.name} from ${req.user!.email} to user ${user_id}`);
+
+    notifyWebhooks(req, "plan.ownership_transferred", {
+      previous_owner_id: previousOwnerId,
+      owner_id: user_id
+    });
+
+    res.json(plan);
+  } catch (error) {
+    console.error("Transfer ownership error:", error);
+    res.status(500).json({ error: "Failed to transfer ownership" });
+  }
+});
+
+// Leave a plan you are a member of (owners have to transfer ownership first)
+router.post("/:plan_id/leave", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const plan = req.plan!;
+    const userId = req.user!._id.toString();
+
+    if (req.userRole === "owner") {
+      return res.status(400).json({ error: "Transfer ownership to another member before leaving the plan" });
+    }
+
+    plan.members = plan.members.filter(m => m.user_id.toString() !== userId);
+    await plan.save();
+
+    closePlanSubscriptions(plan._id.toString(), userId);
+
+    console.log(`${req.user!.email} left plan ${plan.name}`);
+
+    notifyWebhooks(req, "member.removed", { member: memberSummary(req.user!, userId, req.userRole!) });
+
+    res.json({ message: "Left plan successfully" });
+  } catch (error) {
+    console.error("Leave plan error:", error);
+    res.status(500).json({ error: "Failed to leave plan" });
+  }
+});
+
+// List open invitations
+router.get("/:plan_id/invitations", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const invitations = await Invitation.find({
+      plan_id: req.params.plan_id,
+      status: "pending",
+      expires_at: { $gt: new Date() }
+    })
+      .populate('invited_by', 'name email')
+      .sort({ created_at: -1 });
+
+    res.json({ invitations });
+  } catch (error) {
+    console.error("Get invitations error:", error);
+    res.status(500).json({ error: "Failed to fetch invitations" });
+  }
+});
+
+// Invite someone by email; they accept with the single-use link they're sent
+router.post("/:plan_id/invitations", validateRequest(z.object({
+  body: z.object({
+    email: z.string().email("Invalid email address"),
+    role: z.enum(["editor", "viewer"]).default("viewer")
+  })
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const email = req.body.email.toLowerCase().trim();
+    const role = req.body.role || "viewer";
+    const plan = req.plan!;
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      const userId = existingUser._id.toString();
+      if (refId(plan.owner_id) === userId || plan.members.some(m => m.user_id.toString() === userId)) {
+        return res.status(400).json({ error: "User is already a member" });
+      }
+    }
+
+    const invitation = await createInvitation({
+      planId: plan._id.toString(),
+      planName: plan.name,
+      email,
+      role,
+      invitedBy: req.user!
+    });
+    await invitation.populate('invited_by', 'name email');
+    const { token_hash, ...invitationData } = invitation.toObject();
+
+    console.log(`Invited ${email} as ${role} to plan ${plan.name}`);
+
+    res.status(201).json(invitationData);
+  } catch (error) {
+    console.error("Create invitation error:", error);
+    res.status(500).json({ error: "Failed to send invitation" });
+  }
+});
+
+// Revoke an open invitation
+router.delete("/:plan_id/invitations/:invitation_id", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: req.params.invitation_id, plan_id: req.params.plan_id, status: "pending" },
+      { $set: { status: "revoked", responded_at: new Date() } },
+      { new: true }
+    );
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+
+    console.log(`Revoked invitation for ${invitation.email} to plan ${req.plan!.name}`);
+
+    res.json({ message: "Invitation revoked" });
+  } catch (error) {
+    console.error("Revoke invitation error:", error);
+    res.status(500).json({ error: "Failed to revoke invitation" });
+  }
+});
+
+// Get activity history for all tasks in a plan
+router.get("/:plan_id/activity", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const { page, limit, task_id, actor_id, action } = req.query;
+    const { page: pageNum, limit: limitNum, skip } = getActivityPage(page, limit);
+
+    const query: FilterQuery<ITaskActivity> = { plan_id: req.params.plan_id };
+    if (task_id) query.task_id = String(task_id);
+    if (actor_id) query.actor_id = String(actor_id);
+    if (action) {
+      query.action = Array.isArray(action) ? { $in: action.map(String) } : String(action);
+    }
+
+    const [activity, total] = await Promise.all([
+      TaskActivity.find(query)
+        .populate("actor_id", "name email avatar")
+        .sort({ created_at: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      TaskActivity.countDocuments(query)
+    ]);
+
+    res.json({
+      activity,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error("Get plan activity error:", error);
+    res.status(500).json({ error: "Failed to fetch plan activity" });
+  }
+});
+
+// Get the tags used in a plan, e.g. for search autocomplete
+router.get("/:plan_id/tags", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const tags = await Task.distinct("tags", { plan_id: req.params.plan_id });
+
+    res.json({ tags: (tags.filter(Boolean) as string[]).sort((a, b) => a.localeCompare(b)) });
+  } catch (error) {
+    console.error("Get plan tags error:", error);
+    res.status(500).json({ error: "Failed to fetch plan tags" });
+  }
+});
+
+// Get the plan's dependency graph: nodes, edges (dependency -> dependent) and a topological order
+router.get("/:plan_id/dependency-graph", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const tasks = await Task.find({ plan_id: req.params.plan_id })
+      .select("title status priority start_date due_date progress_pct estimate_hours parent_id dependency_ids order_index")
+      .sort({ order_index: 1 })
+      .lean();
+
+    const graph = buildDependencyMap(tasks);
+    const edges = Array.from(graph.entries()).flatMap(([taskId, deps]) =>
+      deps.map(dep => ({ from: dep, to: taskId }))
+    );
+
+    res.json({
+      nodes: tasks,
+      edges,
+      topological_order: topologicalOrder(graph),
+      cycle: findAnyCycle(graph),
+    });
+  } catch (error) {
+    console.error("Get dependency graph error:", error);
+    res.status(500).json({ error: "Failed to build dependency graph" });
+  }
+});
+
+// Get the plan's critical path with earliest/latest start and slack per task
+router.get("/:plan_id/critical-path", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const tasks = await Task.find({ plan_id: req.params.plan_id })
+      .select("start_date due_date estimate_hours dependency_ids")
+      .lean();
+
+    res.json(computeCriticalPath(tasks));
+  } catch (error) {
+    console.error("Get critical path error:", error);
+    res.status(500).json({ error: "Failed to compute critical path" });
+  }
+});
+
 // Export plan with all tasks
 router.get("/:plan_id/export", requirePlanAccess("viewer"), async (req, res) => {
   try {
@@ -250,26 +697,49 @@ router.get("/:plan_id/export", requirePlanAccess("viewer"), async (req, res) =>
       .populate('updated_by', 'name email')
       .sort({ order_index: 1 });
 
+    // Custom field values are keyed by field name, and user fields hold emails, so they survive import
+    const fieldsById = new Map(plan.custom_fields.map(field => [String(field._id), field]));
+    const owner = populatedRef<PopulatedUser>(plan.owner_id);
+    const memberUsers = plan.members.map(member => populatedRef<PopulatedUser>(member.user_id));
+    const emailsById = new Map<string, string>(
+      [owner, ...memberUsers].filter((user): user is PopulatedUser => !!user)
+        .map(user => [refId(user), user.email])
+    );
+    const exportCustomFieldValues = (values?: Map<string, unknown>) => {
+      const exported: Record<string, unknown> = {};
+      for (const [fieldId, value] of values?.entries() ?? []) {
+        const field = fieldsById.get(fieldId);
+        if (!field) continue;
+        if (field.type === "user") {
+          const email = emailsById.get(String(value));
+          if (email) exported[field.name] = email;
+        } else {
+          exported[field.name] = value;
+        }
+      }
+      return exported;
+    };
+
     // Create export data (without user IDs/names for privacy and reusability)
     const exportData = {
       plan: {
         name: plan.name,
         description: plan.description,
-        members: plan.members.map(member => ({
-          name: (member.user_id as any).name,
-          email: (member.user_id as any).email,
+        members: plan.members.map((member, index) => ({
+          name: memberUsers[index]?.name,
+          email: memberUsers[index]?.email,
           role: member.role
-        }))
+        })),
+        statuses: getPlanStatuses(plan).map(({ key, label, color, category }) => ({ key, label, color, category })),
+        custom_fields: plan.custom_fields.map(({ name, type, options }) => ({ name, type, options }))
       },
       tasks: tasks.map(task => ({
         title: task.title,
         description: task.description,
         status: task.status,
         priority: task.priority,
-        assignees: task.assignee_ids?.map(assignee => ({
-          name: (assignee as any).name,
-          email: (assignee as any).email
-        })) || [],
+        assignees: task.assignee_ids?.map(assignee => populatedRef<PopulatedUser>(assignee))
+          .map(assignee => ({ name: assignee?.name, email: assignee?.email })) || [],
         start_date: task.start_date,
         due_date: task.due_date,
         progress_pct: task.progress_pct,
@@ -280,7 +750,8 @@ router.get("/:plan_id/export", requirePlanAccess("viewer"), async (req, res) =>
         order_index: task.order_index,
         goal: task.goal,
         notes: task.notes,
-        deliverables: task.deliverables
+        deliverables: task.deliverables,
+        custom_fields: exportCustomFieldValues(task.custom_fields)
       })),
       export_metadata: {
         exported_at: new Date().toISOString(),
@@ -305,7 +776,7 @@ router.get("/:plan_id/export", requirePlanAccess("viewer"), async (req, res) =>
 });
 
 // Import plan from JSON data
-router.post("/import", validateRequest(z.object({
+router.post("/import", requireAllPlansAccess, validateRequest(z.object({
   body: z.object({
     plan_data: z.object({
       plan: z.object({
@@ -315,12 +786,14 @@ router.post("/import", validateRequest(z.object({
           name: z.string(),
           email: z.string().email(),
           role: z.enum(["editor", "viewer"]).default("viewer")
-        })).optional().default([])
+        })).optional().default([]),
+        statuses: planStatusesSchema.optional(), // exports from before custom statuses have none
+        custom_fields: z.array(customFieldSchema).optional()
       }),
       tasks: z.array(z.object({
         title: z.string().min(1, "Task title is required"),
         description: z.string().optional(),
-        status: z.enum(["todo", "in_progress", "done"]).default("todo"),
+        status: z.string().optional(),
         priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
         assignees: z.array(z.object({
           name: z.string(),
@@ -336,7 +809,8 @@ router.post("/import", validateRequest(z.object({
         order_index: z.number().optional().default(0),
         goal: z.string().optional().nullable(),
         notes: z.string().optional().nullable(),
-        deliverables: z.string().optional().nullable()
+        deliverables: z.string().optional().nullable(),
+        custom_fields: z.record(z.unknown()).optional() // field name -> value; user fields hold emails
       })).optional().default([])
     })
   })
@@ -351,10 +825,53 @@ router.post("/import", validateRequest(z.object({
       taskCount: plan_data?.tasks?.length
     });
 
+    const statuses: PlanStatus[] = getPlanStatuses(plan_data.plan);
+    const statusError = findUnknownStatus(statuses, plan_data.tasks.map((task: { status?: string }) => task.status));
+    if (statusError) {
+      return res.status(400).json(statusError);
+    }
+    const defaultStatus = getDefaultStatus(statuses);
+
+    const customFields: Array<Omit<CustomFieldDefinition, "_id">> = (plan_data.plan.custom_fields || []).map((field: CustomFieldDefinition) => ({
+      name: field.name.trim(),
+      type: field.type,
+      options: isSelectField(field.type) ? (field.options || []).map(option => option.trim()) : [],
+    }));
+    if (customFields.length > MAX_CUSTOM_FIELDS) {
+      return res.status(400).json({ error: `A plan can have at most ${MAX_CUSTOM_FIELDS} custom fields` });
+    }
+    for (const [index, field] of customFields.entries()) {
+      const definitionError = getCustomFieldDefinitionError(field, customFields.slice(0, index));
+      if (definitionError) {
+        return res.status(400).json({ error: definitionError });
+      }
+    }
+
+    // Check task values up front; user fields are matched to members once they exist
+    const isEmptyValue = (value: unknown) => value === null || value === "" || (Array.isArray(value) && value.length === 0);
+    const fieldsByName = new Map(customFields.map(field => [field.name, field]));
+    for (const taskData of plan_data.tasks) {
+      for (const [name, value] of Object.entries(taskData.custom_fields || {})) {
+        const field = fieldsByName.get(name.trim());
+        if (!field) {
+          return res.status(400).json({ error: `Task "${taskData.title}" has a value for unknown custom field "${name}"` });
+        }
+        if (isEmptyValue(value)) continue;
+        const checked = field.type === "user"
+          ? (typeof value === "string" ? { value } : { error: `${field.name}: must be a user's email` })
+          : validateCustomFieldValue({ ...field, _id: name }, value, new Set());
+        if ("error" in checked) {
+          return res.status(400).json({ error: `Task "${taskData.title}": ${checked.error}` });
+        }
+      }
+    }
+
     // Create the plan
     const plan = new Plan({
       name: plan_data.plan.name,
       description: plan_data.plan.description,
+      statuses,
+      custom_fields: customFields,
       owner_id: userId,
       members: [] // Owner is not in members array
     });
@@ -362,11 +879,15 @@ router.post("/import", validateRequest(z.object({
     await plan.save();
 
     // Process members - find existing users by email or create placeholder entries
+    const invitedMembers: Array<{ email: string; role: "editor" | "viewer" }> = [];
     const memberPromises = plan_data.plan.members.map(async (memberData: any) => {
       try {
         // Try to find existing user by email
         const existingUser = await User.findOne({ email: memberData.email });
         if (existingUser) {
+          if (existingUser.is_placeholder) {
+            invitedMembers.push({ email: existingUser.email, role: memberData.role || "viewer" });
+          }
           return {
             user_id: existingUser._id,
             role: memberData.role,
@@ -381,6 +902,7 @@ router.post("/import", validateRequest(z.object({
             is_placeholder: true
           });
           await placeholderUser.save();
+          invitedMembers.push({ email: placeholderUser.email, role: memberData.role || "viewer" });
           return {
             user_id: placeholderUser._id,
             role: memberData.role,
@@ -393,11 +915,56 @@ router.post("/import", validateRequest(z.object({
       }
     });
 
-    const processedMembers = (await Promise.all(memberPromises)).filter(Boolean);
+    const memberResults = await Promise.all(memberPromises);
+    const processedMembers = memberResults.filter(Boolean);
     plan.members = processedMembers;
     await plan.save();
 
+    // Imported values use field names and emails; tasks store field ids and user ids
+    const memberIdsByEmail = new Map<string, unknown>([[req.user!.email.toLowerCase(), userId]]);
+    memberResults.forEach((member: { user_id: unknown } | null, index: number) => {
+      if (member) memberIdsByEmail.set(plan_data.plan.members[index].email.toLowerCase(), member.user_id);
+    });
+    const importedFieldsByName = new Map(plan.custom_fields.map(field => [field.name, field]));
+    const importCustomFieldValues = (values: Record<string, unknown> = {}) => {
+      const imported = new Map<string, unknown>();
+      for (const [name, value] of Object.entries(values)) {
+        const field = importedFieldsByName.get(name.trim())!;
+        if (isEmptyValue(value)) continue;
+        if (field.type === "user") {
+          // Values naming someone outside the plan are dropped
+          const memberId = memberIdsByEmail.get(String(value).toLowerCase());
+          if (memberId) imported.set(String(field._id), String(memberId));
+        } else {
+          imported.set(String(field._id), Array.isArray(value) ? Array.from(new Set(value)) : value);
+        }
+      }
+      return imported;
+    };
+
+    // Placeholder users can only claim their account through an invitation
+    const invited: string[] = [];
+    const invitePlaceholders = async (invitees: Array<{ email: string; role: "editor" | "viewer" }>) => {
+      for (const invitee of invitees) {
+        try {
+          await createInvitation({
+            planId: plan._id.toString(),
+            planName: plan.name,
+            email: invitee.email,
+            role: invitee.role,
+            invitedBy: req.user!
+          });
+          invited.push(invitee.email);
+        } catch (error) {
+          console.error(`Failed to invite ${invitee.email}:`, error);
+        }
+      }
+    };
+    await invitePlaceholders(invitedMembers);
+
     // Process tasks
+    const invitedEmails = new Set(invitedMembers.map(member => member.email));
+    const invitedAssignees = new Set<string>();
     const taskPromises = plan_data.tasks.map(async (taskData: any, index: number) => {
       try {
         // Process assignees - find existing users or create placeholders
@@ -405,6 +972,9 @@ router.post("/import", validateRequest(z.object({
           try {
             const existingUser = await User.findOne({ email: assigneeData.email });
             if (existingUser) {
+              if (existingUser.is_placeholder && !invitedEmails.has(existingUser.email)) {
+                invitedAssignees.add(existingUser.email);
+              }
               return existingUser._id;
             } else {
               const placeholderUser = new User({
@@ -414,6 +984,7 @@ router.post("/import", validateRequest(z.object({
                 is_placeholder: true
               });
               await placeholderUser.save();
+              invitedAssignees.add(placeholderUser.email);
               return placeholderUser._id;
             }
           } catch (error) {
@@ -428,7 +999,7 @@ router.post("/import", validateRequest(z.object({
           plan_id: plan._id,
           title: taskData.title,
           description: taskData.description,
-          status: taskData.status,
+          status: taskData.status || defaultStatus,
           priority: taskData.priority,
           assignee_ids: assigneeIds,
           start_date: taskData.start_date,
@@ -442,6 +1013,7 @@ router.post("/import", validateRequest(z.object({
           goal: taskData.goal,
           notes: taskData.notes,
           deliverables: taskData.deliverables,
+          custom_fields: importCustomFieldValues(taskData.custom_fields),
           created_by: userId,
           updated_by: userId
         });
@@ -456,6 +1028,10 @@ router.post("/import", validateRequest(z.object({
 
     const createdTasks = (await Promise.all(taskPromises)).filter(Boolean);
 
+    // Assignees without an account who aren't members are invited to view the plan they
+    // have tasks in, so they can claim their account; they join once they accept
+    await invitePlaceholders(Array.from(invitedAssignees, email => ({ email, role: "viewer" as const })));
+
     // Populate the plan with owner and members
     await plan.populate('owner_id', 'name email');
     await plan.populate('members.user_id', 'name email');
@@ -465,6 +1041,7 @@ router.post("/import", validateRequest(z.object({
     res.status(201).json({
       plan,
       tasks_created: createdTasks.length,
+      invited, // emails sent an invitation to the plan
       message: "Plan imported successfully"
     });
   } catch (error: unknown) {
@@ -0,0 +1,140 @@
+import express from "express";
+import { z } from "zod";
+import { Types } from "mongoose";
+import SavedView from "../models/SavedView";
+import { requirePlanAccess } from "../middleware/planAccess";
+import { validateRequest } from "../utils/validation";
+import { savedViewSchema, savedViewUpdateSchema } from "../schemas/savedView";
+
+// Mounted under /api/plans/:plan_id/views. Everyone in a plan sees its shared views
+// and their own personal ones; sharing a view needs edit access.
+const router = express.Router({ mergeParams: true });
+
+// Views of the plan in the URL that the current user can see
+const visibleViews = (req: express.Request) => ({
+  plan_id: req.params.plan_id,
+  $or: [{ scope: "shared" }, { created_by: req.user!._id }]
+});
+
+const findVisibleView = (req: express.Request) => {
+  if (!Types.ObjectId.isValid(req.params.view_id)) return null;
+  return SavedView.findOne({ _id: req.params.view_id, ...visibleViews(req) });
+};
+
+// The creator manages a view; the plan owner can also tidy up shared ones
+const canManageView = (req: express.Request, view: { created_by: unknown; scope: string }) =>
+  String(view.created_by) === String(req.user!._id) || (view.scope === "shared" && req.userRole === "owner");
+
+// List views
+router.get("/", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const views = await SavedView.find(visibleViews(req))
+      .populate("created_by", "name email")
+      .sort({ name: 1 });
+
+    res.json({ views });
+  } catch (error) {
+    console.error("Get saved views error:", error);
+    res.status(500).json({ error: "Failed to fetch saved views" });
+  }
+});
+
+// Get one view, e.g. when opening a shared link
+router.get("/:view_id", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const view = await findVisibleView(req)?.populate("created_by", "name email");
+    if (!view) {
+      return res.status(404).json({ error: "Saved view not found" });
+    }
+
+    res.json({ view });
+  } catch (error) {
+    console.error("Get saved view error:", error);
+    res.status(500).json({ error: "Failed to fetch saved view" });
+  }
+});
+
+// Save a view
+router.post("/", validateRequest(z.object({
+  body: savedViewSchema
+})), requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const { name, scope = "personal", view_type, filters, sort, group_by, gantt_zoom } = req.body;
+
+    if (scope === "shared" && req.userRole === "viewer") {
+      return res.status(403).json({ error: "Viewers can only save personal views" });
+    }
+
+    const view = await SavedView.create({
+      plan_id: req.params.plan_id,
+      name: name.trim(),
+      scope,
+      view_type,
+      filters: filters || {},
+      sort,
+      group_by,
+      gantt_zoom,
+      created_by: req.user!._id
+    });
+    await view.populate("created_by", "name email");
+
+    console.log(`Saved ${scope} view "${view.name}" for plan ${req.plan!.name}`);
+
+    res.status(201).json({ view });
+  } catch (error) {
+    console.error("Create saved view error:", error);
+    res.status(500).json({ error: "Failed to save view" });
+  }
+});
+
+// Update a view's name, scope or saved state
+router.patch("/:view_id", validateRequest(z.object({
+  body: savedViewUpdateSchema
+})), requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const view = await findVisibleView(req);
+    if (!view) {
+      return res.status(404).json({ error: "Saved view not found" });
+    }
+    if (!canManageView(req, view)) {
+      return res.status(403).json({ error: "Only the creator of a view can change it" });
+    }
+    if (req.body.scope === "shared" && req.userRole === "viewer") {
+      return res.status(403).json({ error: "Viewers can only save personal views" });
+    }
+
+    const { name, ...updates } = req.body;
+    Object.assign(view, updates);
+    if (name !== undefined) view.name = name.trim();
+    if (updates.filters !== undefined) view.markModified("filters");
+    await view.save();
+    await view.populate("created_by", "name email");
+
+    res.json({ view });
+  } catch (error) {
+    console.error("Update saved view error:", error);
+    res.status(500).json({ error: "Failed to update saved view" });
+  }
+});
+
+// Delete a view
+router.delete("/:view_id", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const view = await findVisibleView(req);
+    if (!view) {
+      return res.status(404).json({ error: "Saved view not found" });
+    }
+    if (!canManageView(req, view)) {
+      return res.status(403).json({ error: "Only the creator of a view can delete it" });
+    }
+
+    await view.deleteOne();
+
+    res.json({ message: "Saved view deleted successfully" });
+  } catch (error) {
+    console.error("Delete saved view error:", error);
+    res.status(500).json({ error: "Failed to delete saved view" });
+  }
+});
+
+export default router;
@@ -1,11 +1,24 @@
 import express from "express";
 import { z } from "zod";
 import { Types } from "mongoose";
-import Task from "../models/Task";
+import Task, { ITask } from "../models/Task";
+import TaskActivity from "../models/TaskActivity";
+import Comment from "../models/Comment";
 import User from "../models/User";
 import { authenticateToken } from "../middleware/auth";
 import { requirePlanAccess } from "../middleware/planAccess";
 import { validateRequest } from "../utils/validation";
+import { snapshotTask, diffSnapshots, getActivityPage, recordTaskActivity, TaskActivityEntry } from "../utils/activity";
+import commentRoutes from "./comments";
+import { publishPlanEvent, PlanEventType } from "../utils/realtime";
+import { triggerWebhooks } from "../utils/webhooks";
+import { buildDependencyMap, findCycleThrough, describeCycle } from "../utils/dependencyGraph";
+import { cascadeSchedule, RescheduledTask } from "../utils/autoSchedule";
+import { findUnknownStatus, getPlanStatuses } from "../utils/statuses";
+import { buildTaskQuery, parseTaskQuery, usesMembers } from "../utils/taskQuery";
+import { buildTaskFilters, needsOpenTaskIds } from "../utils/taskFilters";
+import { MAX_TASK_PAGE_SIZE, buildCursorCondition, decodeTaskCursor, encodeTaskCursor, getTaskSort } from "../utils/taskCursor";
+import { applyCustomFieldValues, buildCustomFieldFilters, getPlanMemberIds, validateCustomFieldValues } from "../utils/customFields";
 import { taskSchema, taskUpdateSchema, bulkTaskSchema, reorderTasksSchema, TaskInput, BulkTaskItemInput } from "../schemas/task";
 
 const router = express.Router();
@@ -13,12 +26,147 @@ const router = express.Router();
 // Apply authentication to all routes
 router.use(authenticateToken);
 
+// Task comments
+router.use("/:id/comments", commentRoutes);
+
+// Broadcast a task change to other clients watching the plan and to its webhooks
+const broadcastTaskEvent = (req: express.Request, type: PlanEventType, planId: unknown, data: Record<string, unknown>) => {
+  publishPlanEvent({
+    type,
+    plan_id: String(planId),
+    actor_id: String(req.user!._id),
+    origin: req.get("X-Client-Id"),
+    data,
+  });
+  triggerWebhooks({
+    type,
+    plan_id: String(planId),
+    actor_id: String(req.user!._id),
+    data,
+  });
+};
+
+// Check custom field values (keyed by field id) against the plan's field definitions
+const checkCustomFieldValues = (req: express.Request, values: Record<string, unknown> | undefined) =>
+  validateCustomFieldValues(req.plan!.custom_fields, values || {}, getPlanMemberIds(req.plan!));
+
+// Check that the given tasks' dependency_ids would not create a cycle in the plan.
+// Returns an error response body naming the cycle, or null when the graph stays acyclic.
+const checkDependencyCycles = async (
+  planId: unknown,
+  changed: Array<{ _id: string; title: string; dependency_ids: string[] }>
+) => {
+  const changedIds = new Set(changed.map(task => task._id));
+  const planTasks = await Task.find({ plan_id: planId }).select("title dependency_ids").lean();
+
+  const titles = new Map<string, string>(planTasks.map(task => [task._id.toString(), task.title]));
+  changed.forEach(task => titles.set(task._id, task.title));
+
+  const graph = buildDependencyMap([
+    ...planTasks.filter(task => !changedIds.has(task._id.toString())),
+    ...changed,
+  ]);
+
+  for (const task of changed) {
+    const cycle = findCycleThrough(graph, task._id);
+    if (cycle) {
+      return {
+        error: `Dependency cycle detected: ${describeCycle(cycle, titles)}`,
+        cycle,
+      };
+    }
+  }
+  return null;
+};
+
+// Whether parentId is the task itself or one of its subtasks, so that making it the
+// task's parent would create a cycle. parentOf overrides stored parents, for tasks
+// that are being created in the same request.
+const isInSubtree = async (
+  taskId: string,
+  parentId: string,
+  planId: unknown,
+  parentOf: Map<string, string | undefined> = new Map()
+) => {
+  const visited = new Set<string>();
+  let currentId: string | undefined = parentId;
+  while (currentId && !visited.has(currentId)) {
+    if (currentId === taskId) return true;
+    visited.add(currentId);
+    if (parentOf.has(currentId)) {
+      currentId = parentOf.get(currentId);
+    } else {
+      const current: Pick<ITask, "parent_id"> | null = await Task.findOne({ _id: currentId, plan_id: planId }).select("parent_id").lean();
+      currentId = current?.parent_id?.toString();
+    }
+  }
+  return false;
+};
+
+const DELETE_STRATEGIES = ["reject", "cascade", "promote"] as const;
+type DeleteStrategy = typeof DELETE_STRATEGIES[number];
+
+// Broadcast task.updated for tasks changed as a side effect of another request
+const broadcastUpdatedTasks = async (req: express.Request, planId: unknown, taskIds: unknown[]) => {
+  if (taskIds.length === 0) return;
+
+  const updatedTasks = await Task.find({ _id: { $in: taskIds } })
+    .populate("assignee_ids", "name avatar email")
+    .populate("created_by", "name email")
+    .populate("updated_by", "name email")
+    .lean();
+  updatedTasks.forEach(updated => {
+    broadcastTaskEvent(req, "task.updated", planId, { task: updated });
+  });
+};
+
+// Push a task's successors after its new dates (plans with auto_schedule on).
+// Moves are logged and broadcast like regular updates; returns what moved.
+const rescheduleSuccessors = async (req: express.Request, task: ITask): Promise<RescheduledTask[]> => {
+  const planTasks = await Task.find({ plan_id: task.plan_id })
+    .select("title start_date due_date dependency_ids")
+    .lean();
+
+  const moved = cascadeSchedule(planTasks, task._id.toString());
+  if (moved.length === 0) return moved;
+
+  const updatedBy = new Types.ObjectId(req.user!._id);
+  await Task.bulkWrite(moved.map(entry => ({
+    updateOne: {
+      filter: { _id: entry.task_id },
+      update: {
+        $set: {
+          start_date: entry.start_date ?? undefined,
+          due_date: entry.due_date ?? undefined,
+          updated_by: updatedBy,
+        },
+      },
+    },
+  })));
+
+  await recordTaskActivity(moved.map(entry => ({
+    plan_id: task.plan_id,
+    task_id: entry.task_id,
+    task_title: entry.title,
+    action: "update" as const,
+    changes: [
+      { field: "start_date", before: entry.previous_start_date, after: entry.start_date },
+      { field: "due_date", before: entry.previous_due_date, after: entry.due_date },
+    ].filter(change => change.before !== change.after),
+    actor_id: req.user!._id,
+  })));
+
+  await broadcastUpdatedTasks(req, task.plan_id, moved.map(entry => entry.task_id));
+
+  return moved;
+};
+
 // Get tasks with filtering and pagination
 router.get("/", requirePlanAccess("viewer"), async (req, res) => {
   try {
     const {
       plan_id,
-      q, // search query
+      q, // search query, see utils/taskQuery
       status,
       assignee,
       tag,
@@ -27,15 +175,21 @@ router.get("/", requirePlanAccess("viewer"), async (req, res) => {
       page = "1",
       limit = "50",
       sort = "order_index",
-      order = "asc"
+      order = "asc",
+      cursor, // from pagination.next_cursor; replaces page
+      cf // custom fields: cf[<field id>]=value
     } = req.query;
 
     if (!plan_id) {
       return res.status(400).json({ error: "plan_id is required" });
     }
 
-    // Build query
+    // Build query; conditions that can't share a key with the others go in $and
     const query: any = { plan_id: plan_id };
+    const conditions: Record<string, unknown>[] = [];
+    const plan = req.plan!;
+    const statuses = getPlanStatuses(plan);
+    const today = new Date().toISOString().split("T")[0];
 
     if (status) {
       query.status = Array.isArray(status) ? { $in: status } : status;
@@ -57,36 +211,94 @@ router.get("/", requirePlanAccess("viewer"), async (req, res) => {
       query.parent_id = parent_id === "null" ? null : parent_id;
     }
 
-    // Text search
+    if (cf !== undefined) {
+      const customFieldFilters = buildCustomFieldFilters(plan.custom_fields, cf, req.user!._id.toString());
+      if ("error" in customFieldFilters) {
+        return res.status(400).json(customFieldFilters);
+      }
+      Object.assign(query, customFieldFilters.conditions);
+    }
+
+    // Dates, overdue, unassigned, dependencies and creator
+    const doneStatuses = statuses.filter(status => status.category === "done").map(status => status.key);
+    const openTaskIds = needsOpenTaskIds(req.query)
+      ? await Task.find({ plan_id, status: { $nin: doneStatuses } }).distinct("_id")
+      : undefined;
+    const taskFilters = buildTaskFilters(req.query, {
+      currentUserId: req.user!._id.toString(),
+      today,
+      doneStatuses,
+      openTaskIds,
+    });
+    if ("error" in taskFilters) {
+      return res.status(400).json(taskFilters);
+    }
+    conditions.push(...taskFilters.conditions);
+
+    // Search query: field terms become conditions, the rest a text search
     if (q) {
-      query.$text = { $search: q as string };
+      const parsed = parseTaskQuery(String(q));
+      if ("error" in parsed) {
+        return res.status(400).json(parsed);
+      }
+
+      const members = usesMembers(parsed.terms)
+        ? await User.find({ _id: { $in: [...getPlanMemberIds(plan)] } }).select("name email")
+        : [];
+      const search = buildTaskQuery(parsed.terms, {
+        statuses: statuses.map(status => status.key),
+        members,
+        currentUserId: req.user!._id.toString(),
+        today,
+      });
+      if ("error" in search) {
+        return res.status(400).json(search);
+      }
+
+      if (search.text) {
+        query.$text = { $search: search.text };
+      }
+      conditions.push(...search.conditions);
     }
 
-    // Build sort object
-    const sortObj: any = {};
-    if (sort === "order_index") {
-      sortObj.status = 1;
-      sortObj.order_index = order === "desc" ? -1 : 1;
-    } else {
-      sortObj[sort as string] = order === "desc" ? -1 : 1;
+    if (conditions.length > 0) {
+      query.$and = conditions;
     }
 
-    // Pagination
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const skip = (pageNum - 1) * limitNum;
+    // Build sort object
+    const sortKeys = getTaskSort(String(sort), String(order));
+    if ("error" in sortKeys) {
+      return res.status(400).json(sortKeys);
+    }
+    const sortObj = Object.fromEntries(sortKeys.keys);
+
+    // Pagination: a cursor continues after the last task of the previous page
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), MAX_TASK_PAGE_SIZE);
+    let pageQuery = query;
+    if (cursor) {
+      const decoded = decodeTaskCursor(String(cursor), sortKeys.keys);
+      if ("error" in decoded) {
+        return res.status(400).json(decoded);
+      }
+      const after = buildCursorCondition(sortKeys.keys, decoded.values);
+      pageQuery = { ...query, $and: [...(query.$and || []), after] };
+    }
+    const skip = cursor ? 0 : (pageNum - 1) * limitNum;
 
-    const [tasks, total] = await Promise.all([
-      Task.find(query)
+    const [found, total] = await Promise.all([
+      Task.find(pageQuery)
         .populate("assignee_ids", "name avatar email")
         .populate("created_by", "name email")
         .populate("updated_by", "name email")
         .sort(sortObj)
         .skip(skip)
-        .limit(limitNum)
+        .limit(limitNum + 1) // one extra to tell whether there is a next page
         .lean(),
       Task.countDocuments(query)
     ]);
+    const tasks = found.slice(0, limitNum);
+    const hasMore = found.length > limitNum;
 
     res.json({
       tasks,
@@ -95,6 +307,7 @@ router.get("/", requirePlanAccess("viewer"), async (req, res) => {
         limit: limitNum,
         total,
         pages: Math.ceil(total / limitNum),
+        next_cursor: hasMore ? encodeTaskCursor(tasks[tasks.length - 1], sortKeys.keys) : null,
       },
     });
   } catch (error) {
@@ -115,6 +328,17 @@ router.post("/", validateRequest(z.object({
       updated_by: req.user!._id,
     };
 
+    const statusError = findUnknownStatus(getPlanStatuses(req.plan!), [taskData.status]);
+    if (statusError) {
+      return res.status(400).json(statusError);
+    }
+
+    const customFields = checkCustomFieldValues(req, taskData.custom_fields);
+    if ("error" in customFields) {
+      return res.status(400).json(customFields);
+    }
+    taskData.custom_fields = applyCustomFieldValues(undefined, customFields.values);
+
     // Validate parent_id exists and is in same plan
     if (taskData.parent_id) {
       const parent = await Task.findOne({ _id: taskData.parent_id, plan_id: taskData.plan_id });
@@ -144,12 +368,23 @@ router.post("/", validateRequest(z.object({
     const task = new Task(taskData);
     await task.save();
 
+    await recordTaskActivity({
+      plan_id: task.plan_id,
+      task_id: task._id,
+      task_title: task.title,
+      action: "create",
+      changes: diffSnapshots({}, snapshotTask(task)),
+      actor_id: req.user!._id,
+    });
+
     await task.populate([
       { path: "assignee_ids", select: "name avatar email" },
       { path: "created_by", select: "name email" },
       { path: "updated_by", select: "name email" }
     ]);
 
+    broadcastTaskEvent(req, "task.created", task.plan_id, { task: task.toObject() });
+
     res.status(201).json(task);
   } catch (error) {
     console.error("Create task error:", error);
@@ -168,16 +403,34 @@ router.patch("/:id", validateRequest(z.object({
       return res.status(404).json({ error: "Task not found" });
     }
 
+    const statusError = findUnknownStatus(getPlanStatuses(req.plan!), [req.body.status]);
+    if (statusError) {
+      return res.status(400).json(statusError);
+    }
+
+    const { custom_fields: customFieldValues, ...updates } = req.body;
+    const customFields = checkCustomFieldValues(req, customFieldValues);
+    if ("error" in customFields) {
+      return res.status(400).json(customFields);
+    }
+
     // Validate parent_id if being updated
     if (req.body.parent_id !== undefined) {
-      if (req.body.parent_id && req.body.parent_id !== task.parent_id) {
+      const parentId = req.body.parent_id ? String(req.body.parent_id) : null;
+      if (parentId && parentId !== task.parent_id?.toString()) {
+        if (parentId === task._id.toString()) {
+          return res.status(400).json({ error: "A task can't be its own parent" });
+        }
         const parent = await Task.findOne({ 
-          _id: req.body.parent_id, 
+          _id: parentId, 
           plan_id: task.plan_id 
         });
         if (!parent) {
           return res.status(400).json({ error: "Parent task not found or not in same plan" });
         }
+        if (await isInSubtree(task._id.toString(), parentId, task.plan_id)) {
+          return res.status(400).json({ error: "A task can't be moved under one of its own subtasks" });
+        }
       }
     }
 
@@ -192,19 +445,53 @@ router.patch("/:id", validateRequest(z.object({
           return res.status(400).json({ error: "Some dependencies not found or not in same plan" });
         }
       }
+
+      const cycleError = await checkDependencyCycles(task.plan_id, [{
+        _id: task._id.toString(),
+        title: req.body.title || task.title,
+        dependency_ids: req.body.dependency_ids,
+      }]);
+      if (cycleError) {
+        return res.status(400).json(cycleError);
+      }
     }
 
     // Update task
-    Object.assign(task, req.body);
+    const before = snapshotTask(task);
+    Object.assign(task, updates);
+    if (customFieldValues !== undefined) {
+      // Only the given fields change; the others keep their values
+      task.custom_fields = applyCustomFieldValues(task.custom_fields, customFields.values);
+    }
     task.updated_by = new Types.ObjectId(req.user!._id);
     await task.save();
 
+    const changes = diffSnapshots(before, snapshotTask(task));
+    if (changes.length > 0) {
+      await recordTaskActivity({
+        plan_id: task.plan_id,
+        task_id: task._id,
+        task_title: task.title,
+        action: "update",
+        changes,
+        actor_id: req.user!._id,
+      });
+    }
+
     await task.populate([
       { path: "assignee_ids", select: "name avatar email" },
       { path: "created_by", select: "name email" },
       { path: "updated_by", select: "name email" }
     ]);
 
+    broadcastTaskEvent(req, "task.updated", task.plan_id, { task: task.toObject() });
+
+    if (req.plan!.auto_schedule) {
+      const datesChanged = changes.some(change => change.field === "start_date" || change.field === "due_date");
+      const rescheduled = datesChanged ? await rescheduleSuccessors(req, task) : [];
+      return res.json({ ...task.toObject(), rescheduled_tasks: rescheduled });
+    }
+
     res.json(task);
   } catch (error) {
     console.error("Update task error:", error);
@@ -212,25 +499,115 @@ router.patch("/:id", validateRequest(z.object({
   }
 });
 
-// Delete task
+// Delete task. With subtasks, ?strategy= decides what happens to them:
+// "reject" (default) refuses, "cascade" deletes the whole subtree and
+// "promote" re-parents the children to the deleted task's parent.
 router.delete("/:id", requirePlanAccess("editor"), async (req, res) => {
   try {
+    const strategy = (req.query.strategy as string) || "reject";
+    if (!DELETE_STRATEGIES.includes(strategy as DeleteStrategy)) {
+      return res.status(400).json({ error: `Invalid delete strategy. Use one of: ${DELETE_STRATEGIES.join(", ")}` });
+    }
+
     const task = await Task.findOne({ _id: req.params.id, plan_id: req.query.plan_id });
     
     if (!task) {
       return res.status(404).json({ error: "Task not found" });
     }
 
-    // Check if task has children
-    const hasChildren = await Task.findOne({ parent_id: req.params.id });
-    if (hasChildren) {
+    const children = await Task.find({ parent_id: task._id });
+    if (children.length > 0 && strategy === "reject") {
       return res.status(400).json({ 
         error: "Cannot delete task with subtasks. Delete subtasks first or use cascade delete." 
       });
     }
 
-    await Task.findByIdAndDelete(req.params.id);
-    res.json({ message: "Task deleted successfully" });
+    // Collect the subtree level by level when cascading
+    const deletedTasks: ITask[] = [task];
+    if (strategy === "cascade") {
+      const visited = new Set([task._id.toString()]);
+      let level = children;
+      while (level.length > 0) {
+        level.forEach(child => visited.add(child._id.toString()));
+        deletedTasks.push(...level);
+        const next = await Task.find({ parent_id: { $in: level.map(child => child._id) } });
+        // Tasks already collected are skipped, so a parent cycle can't loop forever
+        level = next.filter(child => !visited.has(child._id.toString()));
+      }
+    }
+    const deletedIds = deletedTasks.map(deleted => deleted._id);
+    const actorId = req.user!._id;
+    const updatedBy = new Types.ObjectId(actorId);
+    const updatedIds = new Set<string>();
+    const activity: TaskActivityEntry[] = [];
+
+    if (strategy === "promote" && children.length > 0) {
+      const parentUpdate = task.parent_id
+        ? { $set: { parent_id: task.parent_id, updated_by: updatedBy } }
+        : { $unset: { parent_id: "" }, $set: { updated_by: updatedBy } };
+      await Task.updateMany({ parent_id: task._id }, parentUpdate);
+
+      children.forEach(child => {
+        updatedIds.add(child._id.toString());
+        activity.push({
+          plan_id: task.plan_id,
+          task_id: child._id,
+          task_title: child.title,
+          action: "update",
+          changes: [{ field: "parent_id", before: task._id.toString(), after: task.parent_id?.toString() }],
+          actor_id: actorId,
+        });
+      });
+    }
+
+    await Task.deleteMany({ _id: { $in: deletedIds } });
+    await Comment.deleteMany({ task_id: { $in: deletedIds } });
+
+    // Drop references to the deleted tasks from other tasks' dependencies
+    const dependents = await Task.find({ plan_id: task.plan_id, dependency_ids: { $in: deletedIds } });
+    if (dependents.length > 0) {
+      await Task.updateMany(
+        { _id: { $in: dependents.map(dependent => dependent._id) } },
+        { $pull: { dependency_ids: { $in: deletedIds } }, $set: { updated_by: updatedBy } }
+      );
+
+      const deletedIdSet = new Set(deletedIds.map(id => id.toString()));
+      dependents.forEach(dependent => {
+        const before = (dependent.dependency_ids || []).map(id => id.toString());
+        updatedIds.add(dependent._id.toString());
+        activity.push({
+          plan_id: task.plan_id,
+          task_id: dependent._id,
+          task_title: dependent.title,
+          action: "update",
+          changes: [{ field: "dependency_ids", before, after: before.filter(id => !deletedIdSet.has(id)) }],
+          actor_id: actorId,
+        });
+      });
+    }
+
+    await recordTaskActivity([
+      ...deletedTasks.map(deleted => ({
+        plan_id: task.plan_id,
+        task_id: deleted._id,
+        task_title: deleted.title,
+        action: "delete" as const,
+        changes: diffSnapshots(snapshotTask(deleted), {}),
+        actor_id: actorId,
+      })),
+      ...activity,
+    ]);
+
+    deletedIds.forEach(deletedId => {
+      broadcastTaskEvent(req, "task.deleted", task.plan_id, { task_id: deletedId.toString() });
+    });
+    await broadcastUpdatedTasks(req, task.plan_id, Array.from(updatedIds));
+
+    res.json({
+      message: "Task deleted successfully",
+      deleted_task_ids: deletedIds.map(id => id.toString()),
+      updated_task_ids: Array.from(updatedIds),
+    });
   } catch (error) {
     console.error("Delete task error:", error);
     res.status(500).json({ error: "Failed to delete task" });
@@ -245,8 +622,23 @@ router.post("/bulk", validateRequest(z.object({
     const { tasks, plan_id } = req.body;
     const userId = req.user!._id;
 
+    const statusError = findUnknownStatus(getPlanStatuses(req.plan!), tasks.map((t: BulkTaskItemInput) => t.status));
+    if (statusError) {
+      return res.status(400).json(statusError);
+    }
+
     // Validate all tasks first
+    const customFieldValues: Array<Map<string, unknown>> = [];
+    const batchParents = new Map<string, string | undefined>(tasks
+      .filter((t: BulkTaskItemInput) => t._id)
+      .map((t: BulkTaskItemInput) => [t._id!, t.parent_id || undefined]));
     for (const taskData of tasks) {
+      const customFields = checkCustomFieldValues(req, taskData.custom_fields);
+      if ("error" in customFields) {
+        return res.status(400).json({ error: `${customFields.error} (task ${taskData.title})` });
+      }
+      customFieldValues.push(applyCustomFieldValues(undefined, customFields.values));
+
       // Validate parent_id
       if (taskData.parent_id) {
         const parentExists = tasks.some((t: BulkTaskItemInput) => t._id === taskData.parent_id) || 
@@ -256,6 +648,9 @@ router.post("/bulk", validateRequest(z.object({
             error: `Parent task ${taskData.parent_id} not found for task ${taskData.title}` 
           });
         }
+        if (taskData._id && await isInSubtree(taskData._id, taskData.parent_id, plan_id, batchParents)) {
+          return res.status(400).json({ error: `Parent tasks form a cycle at task ${taskData.title}` });
+        }
       }
 
       // Validate dependencies
@@ -274,9 +669,18 @@ router.post("/bulk", validateRequest(z.object({
       }
     }
 
+    // Tasks with client-provided ids can reference each other, so check for cycles among them
+    const cycleError = await checkDependencyCycles(plan_id, tasks
+      .filter((t: BulkTaskItemInput) => t._id)
+      .map((t: BulkTaskItemInput) => ({ _id: t._id!, title: t.title, dependency_ids: t.dependency_ids || [] })));
+    if (cycleError) {
+      return res.status(400).json(cycleError);
+    }
+
     // Insert tasks
-    const tasksToInsert = tasks.map((taskData: BulkTaskItemInput) => ({
+    const tasksToInsert = tasks.map((taskData: BulkTaskItemInput, index: number) => ({
       ...taskData,
+      custom_fields: customFieldValues[index],
       plan_id,
       created_by: userId,
       updated_by: userId,
@@ -284,6 +688,17 @@ router.post("/bulk", validateRequest(z.object({
 
     const createdTasks = await Task.insertMany(tasksToInsert);
 
+    await recordTaskActivity(createdTasks.map(task => ({
+      plan_id: task.plan_id,
+      task_id: task._id,
+      task_title: task.title,
+      action: "create" as const,
+      changes: diffSnapshots({}, snapshotTask(task)),
+      actor_id: userId,
+    })));
+
+    broadcastTaskEvent(req, "task.created", plan_id, { tasks: createdTasks.map(task => task.toObject()) });
+
     res.status(201).json({
       message: `${createdTasks.length} tasks created successfully`,
       tasks: createdTasks,
@@ -301,6 +716,11 @@ router.post("/reorder", validateRequest(z.object({
   try {
     const { task_ids, plan_id } = req.body;
 
+    // Capture current positions so the activity log can show before/after
+    const existingTasks = await Task.find({ _id: { $in: task_ids }, plan_id })
+      .select("title order_index plan_id");
+    const existingById = new Map(existingTasks.map(task => [task._id.toString(), task]));
+
     // Update order_index for each task
     const updates = task_ids.map((taskId: string, index: number) => ({
       updateOne: {
@@ -310,6 +730,23 @@ router.post("/reorder", validateRequest(z.object({
     }));
 
     const result = await Task.bulkWrite(updates);
+
+    const activityEntries = task_ids.flatMap((taskId: string, index: number) => {
+      const task = existingById.get(taskId);
+      if (!task || task.order_index === index + 1) return [];
+      return [{
+        plan_id: task.plan_id,
+        task_id: task._id,
+        task_title: task.title,
+        action: "reorder" as const,
+        changes: [{ field: "order_index", before: task.order_index, after: index + 1 }],
+        actor_id: req.user!._id,
+      }];
+    });
+    await recordTaskActivity(activityEntries);
+
+    broadcastTaskEvent(req, "task.reordered", plan_id, { task_ids });
+
     res.json({ message: "Tasks reordered successfully", modifiedCount: result.modifiedCount });
   } catch (error) {
     console.error("Reorder tasks error:", error);
@@ -317,5 +754,38 @@ router.post("/reorder", validateRequest(z.object({
   }
 });
 
+// Get activity history for a task
+router.get("/:id/activity", requirePlanAccess("viewer"), async (req, res) => {
+  try {
+    const { plan_id, page, limit } = req.query;
+    const { page: pageNum, limit: limitNum, skip } = getActivityPage(page, limit);
+
+    const query = { task_id: req.params.id, plan_id };
+
+    const [activity, total] = await Promise.all([
+      TaskActivity.find(query)
+        .populate("actor_id", "name email avatar")
+        .sort({ created_at: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      TaskActivity.countDocuments(query)
+    ]);
+
+    res.json({
+      activity,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error("Get task activity error:", error);
+    res.status(500).json({ error: "Failed to fetch task activity" });
+  }
+});
+
 export default router;
 
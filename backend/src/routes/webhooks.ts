@@ -0,0 +1,214 @@
+import express from "express";
+import { z } from "zod";
+import { Types } from "mongoose";
+import Webhook, { WEBHOOK_EVENTS } from "../models/Webhook";
+import WebhookDelivery from "../models/WebhookDelivery";
+import { requirePlanAccess } from "../middleware/planAccess";
+import { validateRequest } from "../utils/validation";
+import { WebhookPayload, buildWebhookPayload, generateWebhookSecret, queueWebhookDelivery } from "../utils/webhooks";
+
+// Mounted under /api/plans/:plan_id/webhooks; managing webhooks is for plan owners
+const router = express.Router({ mergeParams: true });
+
+const webhookUrlSchema = z.string().url("Invalid URL").refine(
+  url => /^https?:\/\//i.test(url),
+  { message: "URL must use http or https" }
+);
+
+const webhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).optional(),
+  description: z.string().max(200, "Description too long").optional(),
+  active: z.boolean().optional(),
+});
+
+// Load a webhook of the plan in the URL
+const findPlanWebhook = (req: express.Request) => {
+  if (!Types.ObjectId.isValid(req.params.webhook_id)) return null;
+  return Webhook.findOne({ _id: req.params.webhook_id, plan_id: req.params.plan_id });
+};
+
+// List webhooks
+router.get("/", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const webhooks = await Webhook.find({ plan_id: req.params.plan_id }).sort({ created_at: -1 });
+
+    res.json({ webhooks, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error("Get webhooks error:", error);
+    res.status(500).json({ error: "Failed to fetch webhooks" });
+  }
+});
+
+// Create a webhook. The signing secret is only in this response.
+router.post("/", validateRequest(z.object({
+  body: webhookSchema
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const { url, events, description, active } = req.body;
+    const secret = generateWebhookSecret();
+
+    const webhook = await Webhook.create({
+      plan_id: req.params.plan_id,
+      url,
+      secret,
+      events: Array.from(new Set(events || [])),
+      description,
+      active: active ?? true,
+      created_by: req.user!._id
+    });
+
+    console.log(`Created webhook ${webhook._id} for plan ${req.plan!.name}`);
+
+    const { secret: _secret, ...webhookData } = webhook.toObject();
+    res.status(201).json({ webhook: webhookData, secret });
+  } catch (error) {
+    console.error("Create webhook error:", error);
+    res.status(500).json({ error: "Failed to create webhook" });
+  }
+});
+
+// Update a webhook; rotate_secret issues a new signing secret, returned once
+router.patch("/:webhook_id", validateRequest(z.object({
+  body: webhookSchema.partial().extend({
+    rotate_secret: z.boolean().optional(),
+  })
+})), requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const webhook = await findPlanWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const { url, events, description, active, rotate_secret } = req.body;
+    if (url !== undefined) webhook.url = url;
+    if (events !== undefined) webhook.events = Array.from(new Set(events as typeof webhook.events));
+    if (description !== undefined) webhook.description = description;
+    if (active !== undefined) webhook.active = active;
+
+    let secret: string | undefined;
+    if (rotate_secret) {
+      secret = generateWebhookSecret();
+      webhook.secret = secret;
+    }
+
+    await webhook.save();
+
+    console.log(`Updated webhook ${webhook._id} of plan ${req.plan!.name}`);
+
+    const { secret: _secret, ...webhookData } = webhook.toObject();
+    res.json({ webhook: webhookData, secret });
+  } catch (error) {
+    console.error("Update webhook error:", error);
+    res.status(500).json({ error: "Failed to update webhook" });
+  }
+});
+
+// Delete a webhook and its delivery log
+router.delete("/:webhook_id", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const webhook = await findPlanWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    await WebhookDelivery.deleteMany({ webhook_id: webhook._id });
+    await webhook.deleteOne();
+
+    console.log(`Deleted webhook ${webhook._id} of plan ${req.plan!.name}`);
+
+    res.json({ message: "Webhook deleted" });
+  } catch (error) {
+    console.error("Delete webhook error:", error);
+    res.status(500).json({ error: "Failed to delete webhook" });
+  }
+});
+
+// Send a ping event, to check the receiver and its signature verification
+router.post("/:webhook_id/ping", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const webhook = await findPlanWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    if (!webhook.active) {
+      return res.status(400).json({ error: "Enable the webhook before sending a ping" });
+    }
+
+    const delivery = await queueWebhookDelivery(webhook._id, buildWebhookPayload({
+      type: "ping",
+      plan_id: req.params.plan_id,
+      actor_id: req.user!._id.toString(),
+      data: { webhook_id: webhook._id.toString() }
+    }));
+
+    res.status(202).json(delivery);
+  } catch (error) {
+    console.error("Ping webhook error:", error);
+    res.status(500).json({ error: "Failed to send ping" });
+  }
+});
+
+// Delivery log of a webhook, newest first
+router.get("/:webhook_id/deliveries", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const { page = "1", limit = "20", status } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const webhook = await findPlanWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const query: any = { webhook_id: webhook._id };
+    if (status) query.status = status;
+
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(query)
+        .sort({ created_at: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      WebhookDelivery.countDocuments(query)
+    ]);
+
+    res.json({
+      deliveries,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error("Get webhook deliveries error:", error);
+    res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+  }
+});
+
+// Send a logged delivery again, as a new delivery
+router.post("/:webhook_id/deliveries/:delivery_id/redeliver", requirePlanAccess("owner"), async (req, res) => {
+  try {
+    const webhook = await findPlanWebhook(req);
+    const original = webhook && Types.ObjectId.isValid(req.params.delivery_id)
+      ? await WebhookDelivery.findOne({ _id: req.params.delivery_id, webhook_id: webhook._id })
+      : null;
+    if (!webhook || !original) {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+
+    // Same payload and event id, so receivers can tell it's the same event
+    const delivery = await queueWebhookDelivery(webhook._id, original.payload as WebhookPayload);
+
+    res.status(202).json(delivery);
+  } catch (error) {
+    console.error("Redeliver webhook error:", error);
+    res.status(500).json({ error: "Failed to redeliver" });
+  }
+});
+
+export default router;
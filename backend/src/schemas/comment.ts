@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const commentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000, "Comment too long"),
+  parent_id: z.string().optional(),
+});
+
+export const commentUpdateSchema = commentSchema.pick({ body: true });
+
+export type CommentInput = z.infer<typeof commentSchema>;
+export type CommentUpdateInput = z.infer<typeof commentUpdateSchema>;
@@ -13,7 +13,7 @@ export const exportPlanSchema = z.object({
     _id: z.string(),
     title: z.string(),
     description: z.string().optional(),
-    status: z.enum(["todo", "in_progress", "done"]),
+    status: z.string().min(1),
     priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
     assignee_ids: z.array(z.string()).optional(),
     start_date: z.string().optional(),
@@ -40,7 +40,7 @@ export const importPlanSchema = z.object({
     _id: z.string(),
     title: z.string(),
     description: z.string().optional(),
-    status: z.enum(["todo", "in_progress", "done"]),
+    status: z.string().min(1),
     priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
     assignee_ids: z.array(z.string()).optional(),
     start_date: z.string().optional(),
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { GANTT_ZOOMS, SAVED_VIEW_SCOPES, SAVED_VIEW_TYPES, TASK_GROUPINGS } from "../models/SavedView";
+
+const listFilter = z.union([z.string(), z.array(z.string())]).optional();
+const dateFilter = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD").optional();
+
+// The task list filters a view restores; the same keys as the GET /api/tasks query
+export const savedViewFiltersSchema = z.object({
+  q: z.string().max(200, "Search too long").optional(),
+  status: listFilter,
+  assignee: listFilter,
+  tag: listFilter,
+  priority: listFilter,
+  cf: z.record(z.union([z.string(), z.array(z.string()), z.record(z.string())])).optional(),
+  due_from: dateFilter,
+  due_to: dateFilter,
+  start_from: dateFilter,
+  start_to: dateFilter,
+  overdue: z.boolean().optional(),
+  unassigned: z.boolean().optional(),
+  has_dependencies: z.boolean().optional(),
+  blocked: z.boolean().optional(),
+  created_by: z.string().max(60).optional(),
+}).strict();
+
+export const savedViewSchema = z.object({
+  name: z.string().trim().min(1, "View name is required").max(60, "View name too long"),
+  scope: z.enum(SAVED_VIEW_SCOPES).optional(),
+  view_type: z.enum(SAVED_VIEW_TYPES),
+  filters: savedViewFiltersSchema.optional(),
+  sort: z.object({
+    field: z.string().min(1).max(60),
+    order: z.enum(["asc", "desc"]),
+  }).optional(),
+  group_by: z.enum(TASK_GROUPINGS).optional(),
+  gantt_zoom: z.enum(GANTT_ZOOMS).optional(),
+});
+
+export const savedViewUpdateSchema = savedViewSchema.partial();
+
+export type SavedViewInput = z.infer<typeof savedViewSchema>;
+export type SavedViewUpdateInput = z.infer<typeof savedViewUpdateSchema>;
@@ -5,7 +5,7 @@ const taskBaseSchema = z.object({
   plan_id: z.string().min(1, "Plan ID is required"),
   title: z.string().min(1, "Title is required").max(200, "Title too long"),
   description: z.string().optional(),
-  status: z.enum(["todo", "in_progress", "done"]),
+  status: z.string().min(1, "Status is required"), // one of the plan's status keys, checked in the route
   priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
   assignee_ids: z.array(z.string()).optional(),
   start_date: z.string().optional(), // ISO date string
@@ -19,6 +19,7 @@ const taskBaseSchema = z.object({
   goal: z.string().optional(),
   notes: z.string().optional(),
   deliverables: z.string().optional(),
+  custom_fields: z.record(z.unknown()).optional(), // field id -> value, checked against the plan in the route
 });
 
 // Creation/update validation with additional cross-field checks
@@ -0,0 +1,100 @@
+import { Types } from "mongoose";
+import TaskActivity, { ITaskFieldChange, TaskActivityAction } from "../models/TaskActivity";
+
+// Task fields that are tracked in the activity log
+export const TRACKED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assignee_ids",
+  "start_date",
+  "due_date",
+  "progress_pct",
+  "parent_id",
+  "dependency_ids",
+  "tags",
+  "estimate_hours",
+  "order_index",
+  "goal",
+  "notes",
+  "deliverables",
+  "custom_fields",
+] as const;
+
+export type TaskSnapshot = Record<string, unknown>;
+
+// Normalize a value so ObjectIds, populated refs and dates compare and store as plain JSON
+const normalizeValue = (value: any): unknown => {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Types.ObjectId) return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Map) {
+    // Sorted keys, so the same values in another order aren't reported as a change
+    const entries = Array.from(value.entries()).sort(([a], [b]) => a.localeCompare(b));
+    return entries.length > 0
+      ? Object.fromEntries(entries.map(([key, item]) => [key, normalizeValue(item)]))
+      : undefined;
+  }
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === "object" && value._id) return value._id.toString();
+  return value;
+};
+
+// Take a plain snapshot of the tracked fields of a task document
+export const snapshotTask = (task: any): TaskSnapshot => {
+  const snapshot: TaskSnapshot = {};
+  for (const field of TRACKED_TASK_FIELDS) {
+    const value = normalizeValue(task[field]);
+    if (value !== undefined) {
+      snapshot[field] = value;
+    }
+  }
+  return snapshot;
+};
+
+// Field-level diff between two snapshots
+export const diffSnapshots = (before: TaskSnapshot, after: TaskSnapshot): ITaskFieldChange[] => {
+  const changes: ITaskFieldChange[] = [];
+  for (const field of TRACKED_TASK_FIELDS) {
+    const beforeValue = before[field];
+    const afterValue = after[field];
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+  return changes;
+};
+
+export interface TaskActivityEntry {
+  plan_id: Types.ObjectId | string;
+  task_id: Types.ObjectId | string;
+  task_title: string;
+  action: TaskActivityAction;
+  changes?: ITaskFieldChange[];
+  actor_id: Types.ObjectId | string;
+}
+
+// Persist activity entries; failures are logged but never fail the originating request
+export const recordTaskActivity = async (entries: TaskActivityEntry | TaskActivityEntry[]) => {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  try {
+    await TaskActivity.insertMany(list.map(entry => ({
+      ...entry,
+      changes: entry.changes || [],
+    })));
+  } catch (error) {
+    console.error("Record task activity error:", error);
+  }
+};
+
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+// Page number and size from the query string, clamped like GET /api/tasks
+export const getActivityPage = (page: unknown, limit: unknown) => {
+  const pageNum = Math.max(parseInt(String(page)) || 1, 1);
+  const limitNum = Math.min(Math.max(parseInt(String(limit)) || 50, 1), MAX_ACTIVITY_PAGE_SIZE);
+  return { page: pageNum, limit: limitNum, skip: (pageNum - 1) * limitNum };
+};
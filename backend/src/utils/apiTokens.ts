@@ -0,0 +1,56 @@
+import ApiToken, { IApiToken } from "../models/ApiToken";
+import { generateToken, hashToken } from "./tokens";
+
+// Personal access tokens carry a prefix so the auth middleware can tell them from JWTs
+export const API_TOKEN_PREFIX = "pdz_";
+
+// last_used_at is only bumped this often, to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+interface CreateApiTokenOptions {
+  userId: unknown;
+  name: string;
+  scope: "read" | "write";
+  planIds: string[];
+  expiresAt?: Date;
+}
+
+// Returns the stored token and the plaintext, which is shown to the user once
+export const createApiToken = async ({ userId, name, scope, planIds, expiresAt }: CreateApiTokenOptions) => {
+  const { token: secret } = generateToken();
+  const token = `${API_TOKEN_PREFIX}${secret}`;
+
+  const apiToken = await ApiToken.create({
+    user_id: userId,
+    name,
+    token_hash: hashToken(token),
+    token_hint: token.slice(-4),
+    scope,
+    plan_ids: planIds,
+    expires_at: expiresAt,
+  });
+
+  return { apiToken, token };
+};
+
+// Look up a presented token; null if unknown or expired
+export const findApiToken = async (token: string): Promise<IApiToken | null> => {
+  const now = new Date();
+  const apiToken = await ApiToken.findOne({
+    token_hash: hashToken(token),
+    $or: [{ expires_at: null }, { expires_at: { $gt: now } }],
+  });
+  if (!apiToken) return null;
+
+  if (!apiToken.last_used_at || now.getTime() - apiToken.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+    await ApiToken.updateOne({ _id: apiToken._id }, { $set: { last_used_at: now } });
+  }
+
+  return apiToken;
+};
+
+// Whether a token may be used on a plan
+export const apiTokenAllowsPlan = (apiToken: Pick<IApiToken, "plan_ids">, planId: string) =>
+  apiToken.plan_ids.length === 0 || apiToken.plan_ids.some(id => id.toString() === planId);
@@ -0,0 +1,90 @@
+import { buildDependencyMap, topologicalOrder } from "./dependencyGraph";
+import { toDayNumber, fromDayNumber } from "./dates";
+
+// Forward rescheduling for plans with auto_schedule on. When a task's dates change,
+// each successor downstream of it keeps its duration and is pushed (never pulled
+// earlier) to start the day after its latest predecessor is due.
+
+export interface SchedulingTask {
+  _id: unknown;
+  title: string;
+  start_date?: string | null;
+  due_date?: string | null;
+  dependency_ids?: unknown[];
+}
+
+export interface RescheduledTask {
+  task_id: string;
+  title: string;
+  previous_start_date: string | null;
+  previous_due_date: string | null;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export const cascadeSchedule = (tasks: SchedulingTask[], changedTaskId: string): RescheduledTask[] => {
+  const graph = buildDependencyMap(tasks);
+
+  const successors = new Map<string, string[]>();
+  for (const [taskId, deps] of graph) {
+    for (const dep of deps) {
+      if (!successors.has(dep)) successors.set(dep, []);
+      successors.get(dep)!.push(taskId);
+    }
+  }
+
+  // Everything downstream of the changed task
+  const affected = new Set<string>();
+  const queue = [changedTaskId];
+  while (queue.length > 0) {
+    for (const successor of successors.get(queue.shift()!) || []) {
+      if (!affected.has(successor)) {
+        affected.add(successor);
+        queue.push(successor);
+      }
+    }
+  }
+
+  const byId = new Map(tasks.map(task => [String(task._id), task]));
+  const dates = new Map(tasks.map(task => [
+    String(task._id),
+    { start: task.start_date || null, due: task.due_date || null },
+  ]));
+  const moved: RescheduledTask[] = [];
+
+  for (const taskId of topologicalOrder(graph)) {
+    if (!affected.has(taskId)) continue;
+
+    const current = dates.get(taskId)!;
+    const anchor = current.start || current.due;
+    if (!anchor) continue; // unscheduled tasks are left alone
+
+    let earliestStart: number | null = null;
+    for (const dep of graph.get(taskId)!) {
+      const depDates = dates.get(dep)!;
+      const depEnd = depDates.due || depDates.start;
+      if (depEnd) {
+        earliestStart = Math.max(earliestStart ?? -Infinity, toDayNumber(depEnd) + 1);
+      }
+    }
+
+    if (earliestStart === null || toDayNumber(anchor) >= earliestStart) continue;
+
+    const shift = earliestStart - toDayNumber(anchor);
+    const next = {
+      start: current.start && fromDayNumber(toDayNumber(current.start) + shift),
+      due: current.due && fromDayNumber(toDayNumber(current.due) + shift),
+    };
+    dates.set(taskId, next);
+    moved.push({
+      task_id: taskId,
+      title: byId.get(taskId)!.title,
+      previous_start_date: current.start,
+      previous_due_date: current.due,
+      start_date: next.start,
+      due_date: next.due,
+    });
+  }
+
+  return moved;
+};
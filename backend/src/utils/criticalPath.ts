@@ -0,0 +1,134 @@
+import { buildDependencyMap, topologicalOrder } from "./dependencyGraph";
+import { MS_PER_DAY, toDayNumber as toDay, fromDayNumber as fromDay } from "./dates";
+
+// Critical path method (CPM) over a plan's tasks. Times are whole days; a task that
+// starts and is due on the same day takes one day. Tasks caught in a dependency
+// cycle are left out of the result.
+
+export interface SchedulableTask {
+  _id: unknown;
+  start_date?: string | null;
+  due_date?: string | null;
+  estimate_hours?: number | null;
+  dependency_ids?: unknown[];
+}
+
+export interface TaskSchedule {
+  task_id: string;
+  duration_days: number;
+  earliest_start: string;
+  earliest_finish: string;
+  latest_start: string;
+  latest_finish: string;
+  slack_days: number;
+  is_critical: boolean;
+}
+
+export interface CriticalPathResult {
+  project_start: string | null;
+  project_finish: string | null;
+  critical_path: string[]; // critical task ids, predecessors first
+  schedule: TaskSchedule[];
+}
+
+const HOURS_PER_DAY = 8;
+
+// Dates win over the estimate; without either a task counts as one day
+const getDurationDays = (task: SchedulableTask) => {
+  if (task.start_date && task.due_date) {
+    return Math.max(1, toDay(task.due_date) - toDay(task.start_date) + 1);
+  }
+  if (task.estimate_hours) {
+    return Math.max(1, Math.ceil(task.estimate_hours / HOURS_PER_DAY));
+  }
+  return 1;
+};
+
+// The earliest day a task may start regardless of its dependencies, if it has dates
+const getStartConstraint = (task: SchedulableTask, duration: number) => {
+  if (task.start_date) return toDay(task.start_date);
+  if (task.due_date) return toDay(task.due_date) - duration + 1;
+  return null;
+};
+
+export const computeCriticalPath = (
+  tasks: SchedulableTask[],
+  today: Date = new Date()
+): CriticalPathResult => {
+  const graph = buildDependencyMap(tasks);
+  const order = topologicalOrder(graph);
+  if (order.length === 0) {
+    return { project_start: null, project_finish: null, critical_path: [], schedule: [] };
+  }
+
+  const byId = new Map(tasks.map(task => [String(task._id), task]));
+
+  const duration = new Map<string, number>();
+  const constraint = new Map<string, number | null>();
+  for (const taskId of order) {
+    const task = byId.get(taskId)!;
+    const days = getDurationDays(task);
+    duration.set(taskId, days);
+    constraint.set(taskId, getStartConstraint(task, days));
+  }
+
+  const constrained = Array.from(constraint.values()).filter((day): day is number => day !== null);
+  const projectStart = constrained.length > 0
+    ? Math.min(...constrained)
+    : Math.floor(today.getTime() / MS_PER_DAY);
+
+  // Forward pass: earliest start is after every predecessor finishes (finish is exclusive)
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  for (const taskId of order) {
+    let start = constraint.get(taskId) ?? projectStart;
+    for (const dep of graph.get(taskId)!) {
+      start = Math.max(start, earliestFinish.get(dep)!);
+    }
+    earliestStart.set(taskId, start);
+    earliestFinish.set(taskId, start + duration.get(taskId)!);
+  }
+
+  const projectFinish = Math.max(...Array.from(earliestFinish.values()));
+
+  const successors = new Map<string, string[]>();
+  for (const taskId of order) {
+    for (const dep of graph.get(taskId)!) {
+      if (!successors.has(dep)) successors.set(dep, []);
+      successors.get(dep)!.push(taskId);
+    }
+  }
+
+  // Backward pass: latest finish is before any successor has to start
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+  for (const taskId of [...order].reverse()) {
+    let finish = projectFinish;
+    for (const successor of successors.get(taskId) || []) {
+      finish = Math.min(finish, latestStart.get(successor)!);
+    }
+    latestFinish.set(taskId, finish);
+    latestStart.set(taskId, finish - duration.get(taskId)!);
+  }
+
+  const schedule = order.map(taskId => {
+    const slack = latestStart.get(taskId)! - earliestStart.get(taskId)!;
+    return {
+      task_id: taskId,
+      duration_days: duration.get(taskId)!,
+      earliest_start: fromDay(earliestStart.get(taskId)!),
+      earliest_finish: fromDay(earliestFinish.get(taskId)! - 1),
+      latest_start: fromDay(latestStart.get(taskId)!),
+      latest_finish: fromDay(latestFinish.get(taskId)! - 1),
+      slack_days: slack,
+      is_critical: slack <= 0,
+    };
+  });
+
+  return {
+    project_start: fromDay(projectStart),
+    project_finish: fromDay(projectFinish - 1),
+    critical_path: schedule.filter(entry => entry.is_critical).map(entry => entry.task_id),
+    schedule,
+  };
+};
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { Ref, refId } from "./refs";
+import { isValidDate } from "./dates";
+
+// Plans define their own task fields. Values are stored on the task keyed by the
+// field's id, so renaming a field keeps its values.
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "date",
+  "single_select",
+  "multi_select",
+  "user",
+  "checkbox",
+] as const;
+
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+export type CustomFieldValue = string | number | boolean | string[];
+
+export interface CustomFieldDefinition {
+  _id: unknown;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // choices of select fields
+}
+
+export const MAX_CUSTOM_FIELDS = 50;
+const MAX_TEXT_LENGTH = 1000;
+
+export const customFieldSchema = z.object({
+  name: z.string().min(1, "Field name is required").max(50, "Field name too long"),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  options: z.array(z.string().min(1, "Options can't be empty").max(50, "Option too long"))
+    .max(50, "A field can have at most 50 options")
+    .optional(),
+});
+
+export const isSelectField = (type: CustomFieldType) => type === "single_select" || type === "multi_select";
+
+// Problems with a field definition that the schema can't see, or null
+export const getCustomFieldDefinitionError = (
+  field: { name: string; type: CustomFieldType; options: string[] },
+  otherFields: Array<{ name: string }>
+) => {
+  if (otherFields.some(other => other.name.toLowerCase() === field.name.toLowerCase())) {
+    return `A field named "${field.name}" already exists`;
+  }
+  if (isSelectField(field.type)) {
+    if (field.options.length === 0) return "Select fields need at least one option";
+    if (new Set(field.options).size !== field.options.length) return "Options must be unique";
+  }
+  return null;
+};
+
+// Check one value against its field; members are the ids of users in the plan
+export const validateCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: unknown,
+  memberIds: Set<string>
+): { value: CustomFieldValue } | { error: string } => {
+  const invalid = (message: string) => ({ error: `${field.name}: ${message}` });
+
+  switch (field.type) {
+    case "text":
+      if (typeof value !== "string") return invalid("must be text");
+      if (value.length > MAX_TEXT_LENGTH) return invalid(`must be at most ${MAX_TEXT_LENGTH} characters`);
+      return { value };
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return invalid("must be a number");
+      return { value };
+    case "date":
+      if (typeof value !== "string" || !isValidDate(value)) return invalid("must be a date (YYYY-MM-DD)");
+      return { value };
+    case "single_select":
+      if (typeof value !== "string" || !field.options.includes(value)) {
+        return invalid(`must be one of ${field.options.join(", ")}`);
+      }
+      return { value };
+    case "multi_select":
+      if (!Array.isArray(value) || value.some(item => typeof item !== "string" || !field.options.includes(item))) {
+        return invalid(`must be a list of ${field.options.join(", ")}`);
+      }
+      return { value: Array.from(new Set(value as string[])) };
+    case "user":
+      if (typeof value !== "string" || !memberIds.has(value)) return invalid("must be a member of the plan");
+      return { value };
+    case "checkbox":
+      if (typeof value !== "boolean") return invalid("must be true or false");
+      return { value };
+  }
+};
+
+// Check a task's values, keyed by field id. null clears a value.
+export const validateCustomFieldValues = (
+  fields: CustomFieldDefinition[],
+  values: Record<string, unknown>,
+  memberIds: Set<string>
+): { values: Record<string, CustomFieldValue | null> } | { error: string } => {
+  const fieldsById = new Map(fields.map(field => [String(field._id), field]));
+  const result: Record<string, CustomFieldValue | null> = {};
+
+  for (const [fieldId, value] of Object.entries(values)) {
+    const field = fieldsById.get(fieldId);
+    if (!field) return { error: `Unknown custom field "${fieldId}"` };
+
+    if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+      result[fieldId] = null;
+      continue;
+    }
+
+    const checked = validateCustomFieldValue(field, value, memberIds);
+    if ("error" in checked) return checked;
+    result[fieldId] = checked.value;
+  }
+
+  return { values: result };
+};
+
+// Apply checked values to a task's current ones; null removes a value
+export const applyCustomFieldValues = (
+  current: Map<string, unknown> | undefined,
+  values: Record<string, CustomFieldValue | null>
+) => {
+  const next = new Map(current || []);
+  for (const [fieldId, value] of Object.entries(values)) {
+    if (value === null) next.delete(fieldId);
+    else next.set(fieldId, value);
+  }
+  return next;
+};
+
+// Ids of everyone in a plan, for user fields (owner_id may be populated)
+export const getPlanMemberIds = (plan: { owner_id: Ref; members: Array<{ user_id: Ref }> }) =>
+  new Set([refId(plan.owner_id), ...plan.members.map(member => refId(member.user_id))]);
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const RANGE_OPERATORS = ["gt", "gte", "lt", "lte"] as const;
+
+// Mongo conditions for ?cf[<field id>]=... filters on GET /api/tasks.
+// Select and user fields match any of the given values, text matches a substring,
+// number and date fields also take cf[<id>][gte|gt|lte|lt]. "me" in a user field is the caller.
+export const buildCustomFieldFilters = (
+  fields: CustomFieldDefinition[],
+  filters: unknown,
+  currentUserId: string
+): { conditions: Record<string, unknown> } | { error: string } => {
+  if (!filters || typeof filters !== "object" || Array.isArray(filters)) {
+    return { error: "Custom field filters must look like cf[<field id>]=value" };
+  }
+
+  const fieldsById = new Map(fields.map(field => [String(field._id), field]));
+  const conditions: Record<string, unknown> = {};
+
+  for (const [fieldId, raw] of Object.entries(filters as Record<string, unknown>)) {
+    const field = fieldsById.get(fieldId);
+    if (!field) return { error: `Unknown custom field "${fieldId}"` };
+    const path = `custom_fields.${fieldId}`;
+    const list = (Array.isArray(raw) ? raw : [raw]).map(String);
+
+    const parseScalar = (value: string): { value: string | number } | { error: string } => {
+      if (field.type === "number") {
+        const number = Number(value);
+        return value.trim() !== "" && Number.isFinite(number)
+          ? { value: number }
+          : { error: `${field.name}: "${value}" is not a number` };
+      }
+      if (field.type === "date") {
+        return isValidDate(value) ? { value } : { error: `${field.name}: "${value}" is not a date (YYYY-MM-DD)` };
+      }
+      return { value };
+    };
+
+    // Ranges on number and date fields
+    if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+      if (field.type !== "number" && field.type !== "date") {
+        return { error: `${field.name}: ranges only work on number and date fields` };
+      }
+      const range: Record<string, string | number> = {};
+      for (const [operator, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (!(RANGE_OPERATORS as readonly string[]).includes(operator)) {
+          return { error: `${field.name}: unknown operator "${operator}"` };
+        }
+        const parsed = parseScalar(String(value));
+        if ("error" in parsed) return parsed;
+        range[`$${operator}`] = parsed.value;
+      }
+      conditions[path] = range;
+      continue;
+    }
+
+    switch (field.type) {
+      case "text":
+        conditions[path] = { $regex: escapeRegex(list[0]), $options: "i" };
+        break;
+      case "checkbox":
+        if (list[0] !== "true" && list[0] !== "false") {
+          return { error: `${field.name}: filter with true or false` };
+        }
+        conditions[path] = list[0] === "true" ? true : { $ne: true };
+        break;
+      case "user":
+        conditions[path] = { $in: list.map(value => (value === "me" ? currentUserId : value)) };
+        break;
+      default: {
+        const values: Array<string | number> = [];
+        for (const value of list) {
+          const parsed = parseScalar(value);
+          if ("error" in parsed) return parsed;
+          values.push(parsed.value);
+        }
+        conditions[path] = { $in: values };
+      }
+    }
+  }
+
+  return { conditions };
+};
@@ -0,0 +1,20 @@
+// Task dates are stored as "YYYY-MM-DD" strings. Scheduling works on whole day
+// numbers (days since the Unix epoch, UTC) so time zones never shift a date.
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const toDayNumber = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+export const fromDayNumber = (day: number) => new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A real "YYYY-MM-DD" calendar date. Date.parse would roll 2026-02-30 over to March 2nd.
+export const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
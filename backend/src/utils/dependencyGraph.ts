@@ -0,0 +1,124 @@
+// Dependency graph helpers. Edges point from a task to the tasks it depends on
+// (its predecessors), matching how dependency_ids is stored.
+
+export interface DependencyNode {
+  _id: unknown;
+  dependency_ids?: unknown[];
+}
+
+export type DependencyMap = Map<string, string[]>;
+
+// Build a task id -> predecessor ids map, ignoring references to unknown tasks
+export const buildDependencyMap = (tasks: DependencyNode[]): DependencyMap => {
+  const ids = new Set(tasks.map(task => String(task._id)));
+  const graph: DependencyMap = new Map();
+  for (const task of tasks) {
+    const deps = (task.dependency_ids || []).map(String).filter(id => ids.has(id));
+    graph.set(String(task._id), deps);
+  }
+  return graph;
+};
+
+// Find a dependency cycle passing through the given task (shortest one, via BFS).
+// Returns the path as ids starting and ending with taskId, e.g. [A, B, A], or null.
+export const findCycleThrough = (graph: DependencyMap, taskId: string): string[] | null => {
+  const previous = new Map<string, string>();
+  const queue: string[] = [];
+
+  for (const dep of graph.get(taskId) || []) {
+    if (dep === taskId) return [taskId, taskId];
+    if (!previous.has(dep)) {
+      previous.set(dep, taskId);
+      queue.push(dep);
+    }
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dep of graph.get(current) || []) {
+      if (dep === taskId) {
+        // Walk back from the last hop to the task's direct dependency
+        const between: string[] = [];
+        for (let node = current; node !== taskId; node = previous.get(node)!) {
+          between.unshift(node);
+        }
+        return [taskId, ...between, taskId];
+      }
+      if (!previous.has(dep)) {
+        previous.set(dep, current);
+        queue.push(dep);
+      }
+    }
+  }
+
+  return null;
+};
+
+// Find any dependency cycle in the graph (iterative DFS), or null if it is acyclic
+export const findAnyCycle = (graph: DependencyMap): string[] | null => {
+  const state = new Map<string, "visiting" | "done">();
+
+  for (const start of graph.keys()) {
+    if (state.has(start)) continue;
+
+    const stack: Array<{ node: string; next: number }> = [{ node: start, next: 0 }];
+    state.set(start, "visiting");
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const deps = graph.get(frame.node) || [];
+
+      if (frame.next < deps.length) {
+        const dep = deps[frame.next++];
+        const depState = state.get(dep);
+        if (depState === "visiting") {
+          const path = stack.map(f => f.node);
+          return [...path.slice(path.indexOf(dep)), dep];
+        }
+        if (!depState) {
+          state.set(dep, "visiting");
+          stack.push({ node: dep, next: 0 });
+        }
+      } else {
+        state.set(frame.node, "done");
+        stack.pop();
+      }
+    }
+  }
+
+  return null;
+};
+
+// Order tasks so every task comes after its predecessors (Kahn's algorithm).
+// Ties keep the input order. Tasks caught in a cycle are left out.
+export const topologicalOrder = (graph: DependencyMap): string[] => {
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const [taskId, deps] of graph) {
+    remaining.set(taskId, deps.length);
+    for (const dep of deps) {
+      if (!dependents.has(dep)) dependents.set(dep, []);
+      dependents.get(dep)!.push(taskId);
+    }
+  }
+
+  const queue = Array.from(graph.keys()).filter(id => remaining.get(id) === 0);
+  const order: string[] = [];
+
+  for (let i = 0; i < queue.length; i++) {
+    const taskId = queue[i];
+    order.push(taskId);
+    for (const dependent of dependents.get(taskId) || []) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) queue.push(dependent);
+    }
+  }
+
+  return order;
+};
+
+// Human-readable cycle, e.g. "Design → Build → Design"
+export const describeCycle = (cycle: string[], titles: Map<string, string>) =>
+  cycle.map(id => titles.get(id) || id).join(" → ");
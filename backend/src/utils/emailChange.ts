@@ -0,0 +1,94 @@
+import EmailChangeToken from "../models/EmailChangeToken";
+import User, { IUser } from "../models/User";
+import { getAppUrl, sendMail } from "./mailer";
+import { generateToken, hashToken } from "./tokens";
+
+export const EMAIL_CHANGE_TTL_HOURS = 24;
+
+export type EmailChangeResult =
+  | { status: "changed"; user: IUser }
+  | { status: "taken" } // someone registered the address after the change was requested
+  | { status: "invalid" };
+
+// Start an email change: the new address gets a confirmation link, the old one a heads-up.
+// The account keeps its current email until the link is used.
+export const requestEmailChange = async (user: IUser, email: string) => {
+  const { token, token_hash } = generateToken();
+  const now = new Date();
+
+  await EmailChangeToken.updateMany(
+    { user_id: user._id, used_at: null },
+    { $set: { used_at: now } }
+  );
+  await EmailChangeToken.create({
+    user_id: user._id,
+    email,
+    token_hash,
+    expires_at: new Date(now.getTime() + EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000),
+  });
+
+  user.pending_email = email;
+  await user.save();
+
+  await sendMail({
+    to: email,
+    subject: "Confirm your new email address",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `Confirm that you want to use this address for your account: ${getAppUrl(`/verify-email?token=${token}`)}`,
+      "",
+      `The link expires in ${EMAIL_CHANGE_TTL_HOURS} hours. Until then you keep signing in with ${user.email}.`,
+    ].join("\n"),
+  });
+  await sendMail({
+    to: user.email,
+    subject: "Your email address is being changed",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `Someone asked to change the email address of your account to ${email}. It changes once the link sent there is used.`,
+      "",
+      "If this wasn't you, change your password.",
+    ].join("\n"),
+  });
+};
+
+// Drop a requested change that hasn't been confirmed yet
+export const cancelEmailChange = async (user: IUser) => {
+  await EmailChangeToken.updateMany(
+    { user_id: user._id, used_at: null },
+    { $set: { used_at: new Date() } }
+  );
+  user.pending_email = undefined;
+  await user.save();
+};
+
+// Use up a confirmation token and switch the account to the new address
+export const confirmEmailChange = async (token: string): Promise<EmailChangeResult> => {
+  const now = new Date();
+  const changeToken = await EmailChangeToken.findOneAndUpdate(
+    { token_hash: hashToken(token), used_at: null, expires_at: { $gt: now } },
+    { $set: { used_at: now } },
+    { new: true }
+  );
+  if (!changeToken) {
+    return { status: "invalid" };
+  }
+
+  const user = await User.findById(changeToken.user_id).select("-password_hash");
+  if (!user) {
+    return { status: "invalid" };
+  }
+
+  const existing = await User.findOne({ email: changeToken.email, _id: { $ne: user._id } });
+  if (existing) {
+    return { status: "taken" };
+  }
+
+  user.email = changeToken.email;
+  user.pending_email = undefined;
+  await user.save();
+
+  return { status: "changed", user };
+};
@@ -0,0 +1,109 @@
+import { Types } from "mongoose";
+import Invitation, { IInvitation } from "../models/Invitation";
+import Plan from "../models/Plan";
+import { getAppUrl, sendMail } from "./mailer";
+import { generateToken, hashToken } from "./tokens";
+import { triggerWebhooks } from "./webhooks";
+
+export const INVITATION_TTL_DAYS = 7;
+
+// Tokens are only ever sent by email; the database keeps a hash
+export const hashInvitationToken = hashToken;
+export const generateInvitationToken = generateToken;
+
+// Why an invitation can't be used (anymore), or null when it is still open
+export const getInvitationError = (
+  invitation: Pick<IInvitation, "status" | "expires_at"> | null,
+  now: Date = new Date()
+): string | null => {
+  if (!invitation) return "Invitation not found";
+  if (invitation.status !== "pending") return `This invitation has already been ${invitation.status}`;
+  if (invitation.expires_at.getTime() <= now.getTime()) return "This invitation has expired";
+  return null;
+};
+
+export const findInvitationByToken = (token: string) =>
+  Invitation.findOne({ token_hash: hashInvitationToken(token) });
+
+export const getInvitationUrl = (token: string) => getAppUrl(`/invitations/${token}`);
+
+interface CreateInvitationOptions {
+  planId: string;
+  planName: string;
+  email: string;
+  role: "editor" | "viewer";
+  invitedBy: { _id: unknown; name: string };
+}
+
+// Create an invitation and email its link. Earlier open invitations to the same
+// address for the plan are revoked so only the newest link works.
+export const createInvitation = async ({ planId, planName, email, role, invitedBy }: CreateInvitationOptions) => {
+  const normalizedEmail = email.toLowerCase().trim();
+  const { token, token_hash } = generateInvitationToken();
+
+  await Invitation.updateMany(
+    { plan_id: planId, email: normalizedEmail, status: "pending" },
+    { $set: { status: "revoked", responded_at: new Date() } }
+  );
+
+  const invitation = await Invitation.create({
+    plan_id: planId,
+    email: normalizedEmail,
+    role,
+    token_hash,
+    invited_by: invitedBy._id,
+    expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  await sendMail({
+    to: normalizedEmail,
+    subject: `${invitedBy.name} invited you to "${planName}"`,
+    text: [
+      `${invitedBy.name} invited you to join the plan "${planName}" as ${role === "editor" ? "an editor" : "a viewer"}.`,
+      "",
+      `Accept or decline the invitation here: ${getInvitationUrl(token)}`,
+      "",
+      `The link can be used once and expires in ${INVITATION_TTL_DAYS} days.`,
+    ].join("\n"),
+  });
+
+  return invitation;
+};
+
+// Mark the invitation as used and add the user to its plan. The status flip is
+// atomic, so a token raced from two requests is only honoured once.
+export const acceptInvitation = async (invitation: IInvitation, userId: string) => {
+  const claimed = await Invitation.findOneAndUpdate(
+    { _id: invitation._id, status: "pending", expires_at: { $gt: new Date() } },
+    { $set: { status: "accepted", responded_at: new Date(), accepted_by: userId } },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new Error("This invitation is no longer valid");
+  }
+
+  const plan = await Plan.findById(claimed.plan_id);
+  if (!plan) {
+    throw new Error("Plan no longer exists");
+  }
+
+  const isOwner = plan.owner_id.toString() === userId.toString();
+  const isMember = plan.members.some(m => m.user_id.toString() === userId.toString());
+  if (!isOwner && !isMember) {
+    plan.members.push({
+      user_id: new Types.ObjectId(userId),
+      role: claimed.role,
+      joined_at: new Date()
+    });
+    await plan.save();
+
+    triggerWebhooks({
+      type: "member.added",
+      plan_id: plan._id.toString(),
+      actor_id: userId.toString(),
+      data: { member: { user_id: userId.toString(), email: claimed.email, role: claimed.role } }
+    });
+  }
+
+  return plan;
+};
@@ -2,7 +2,6 @@ import jwt from "jsonwebtoken";
 import { JWTPayload } from "../middleware/auth";
 
 const ACCESS_TOKEN_EXPIRES_IN = "15m";
-const REFRESH_TOKEN_EXPIRES_IN = "7d";
 
 export const generateAccessToken = (payload: JWTPayload): string => {
   return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, {
@@ -10,13 +9,37 @@ export const generateAccessToken = (payload: JWTPayload): string => {
   });
 };
 
-export const generateRefreshToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, process.env.JWT_REFRESH_SECRET!, {
-    expiresIn: REFRESH_TOKEN_EXPIRES_IN,
+// EventSource can't send headers, so event streams authenticate with a ticket in the
+// URL instead of the access token. Tickets only open one plan's stream and expire
+// quickly, so one that ends up in a log or browser history is of little use.
+const STREAM_TICKET_EXPIRES_IN = "60s";
+const STREAM_TICKET_PURPOSE = "event_stream";
+
+interface StreamTicketPayload {
+  userId: string;
+  planId: string;
+  purpose: typeof STREAM_TICKET_PURPOSE;
+}
+
+export const generateStreamTicket = (userId: string, planId: string): string => {
+  const payload: StreamTicketPayload = { userId, planId, purpose: STREAM_TICKET_PURPOSE };
+  return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, {
+    expiresIn: STREAM_TICKET_EXPIRES_IN,
   });
 };
 
-export const verifyRefreshToken = (token: string): JWTPayload => {
-  return jwt.verify(token, process.env.JWT_REFRESH_SECRET!) as JWTPayload;
+// The user a ticket was issued to, or null unless it is a valid ticket for this plan
+export const verifyStreamTicket = (ticket: string, planId: string): string | null => {
+  try {
+    const decoded = jwt.verify(ticket, process.env.JWT_ACCESS_SECRET!) as Partial<StreamTicketPayload>;
+    if (decoded.purpose !== STREAM_TICKET_PURPOSE || decoded.planId !== planId || !decoded.userId) {
+      return null;
+    }
+    return decoded.userId;
+  } catch {
+    return null;
+  }
 };
 
+// Tickets share the access token secret, so access token checks must turn them away
+export const isStreamTicketPayload = (payload: object) => "purpose" in payload;
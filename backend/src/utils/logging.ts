@@ -0,0 +1,18 @@
+// Query parameters that carry credentials; their values never go into the access log
+const REDACTED_QUERY_PARAMS = ["ticket", "token", "access_token"];
+
+// A request URL with credential query values replaced, for logging
+export const redactUrl = (url: string): string => {
+  const queryStart = url.indexOf("?");
+  if (queryStart === -1) return url;
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  let redacted = false;
+  REDACTED_QUERY_PARAMS.forEach(name => {
+    if (params.has(name)) {
+      params.set(name, "[redacted]");
+      redacted = true;
+    }
+  });
+  return redacted ? `${url.slice(0, queryStart)}?${params.toString()}` : url;
+};
@@ -0,0 +1,74 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Outgoing email goes through a pluggable transport. MAIL_TRANSPORT picks one of
+// the built-in local transports ("console", the default, or "file"); a real
+// provider can be plugged in with setMailTransport().
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Prints each message to the server log
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(
+      `[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+};
+
+// Writes each message to its own .eml file in a directory
+export const createFileTransport = (directory: string): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.eml`;
+    const contents = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "",
+      message.text,
+      "",
+    ].join("\n");
+    await fs.writeFile(path.join(directory, fileName), contents, "utf8");
+  },
+});
+
+let transport: MailTransport | null = null;
+
+const createTransportFromEnv = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return createFileTransport(process.env.MAIL_DIR || path.resolve(process.cwd(), "tmp", "mail"));
+    case "console":
+    case undefined:
+    case "":
+      return consoleTransport;
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", falling back to console`);
+      return consoleTransport;
+  }
+};
+
+// Links in emails point at the frontend
+export const getAppUrl = (path: string) =>
+  `${process.env.FRONTEND_URL || "http://localhost:5173"}${path}`;
+
+export const setMailTransport = (next: MailTransport | null) => {
+  transport = next;
+};
+
+export const sendMail = async (message: MailMessage) => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  await transport.send({ ...message, from: process.env.MAIL_FROM || "pdzanning <no-reply@localhost>" });
+};
@@ -0,0 +1,31 @@
+export interface MentionCandidate {
+  _id: unknown;
+  name: string;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\w]/.test(char);
+
+// Resolve "@name" mentions in a comment body against a list of candidate users.
+// Names may contain spaces, so the longest matching name wins at each "@".
+export const resolveMentions = (body: string, candidates: MentionCandidate[]): string[] => {
+  const sorted = [...candidates]
+    .filter(candidate => candidate.name)
+    .sort((a, b) => b.name.length - a.name.length);
+  const lowerBody = body.toLowerCase();
+  const mentioned = new Set<string>();
+
+  for (let i = lowerBody.indexOf("@"); i !== -1; i = lowerBody.indexOf("@", i + 1)) {
+    // Skip things like email addresses where "@" follows a word character
+    if (isWordChar(body[i - 1])) continue;
+
+    const match = sorted.find(candidate => {
+      const name = candidate.name.toLowerCase();
+      return lowerBody.startsWith(name, i + 1) && !isWordChar(body[i + 1 + name.length]);
+    });
+    if (match) {
+      mentioned.add(String(match._id));
+    }
+  }
+
+  return Array.from(mentioned);
+};
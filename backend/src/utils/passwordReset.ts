@@ -0,0 +1,89 @@
+import PasswordResetToken from "../models/PasswordResetToken";
+import { getAppUrl, sendMail } from "./mailer";
+import { generateToken, hashToken } from "./tokens";
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const ACCOUNT_CLAIM_COOLDOWN_MINUTES = 10;
+
+// What forgot-password, and registering with a placeholder's email, answer whether or
+// not a link was sent, so neither tells who has an account or was added to a plan
+export const RESET_LINK_SENT_MESSAGE = "If an account exists for that email, a reset link is on its way";
+
+interface ResetUser {
+  _id: unknown;
+  email: string;
+  name: string;
+}
+
+// New single-use reset token for the user. Older unused ones stop working.
+const issuePasswordResetToken = async (user: ResetUser) => {
+  const { token, token_hash } = generateToken();
+  const now = new Date();
+
+  await PasswordResetToken.updateMany(
+    { user_id: user._id, used_at: null },
+    { $set: { used_at: now } }
+  );
+  await PasswordResetToken.create({
+    user_id: user._id,
+    token_hash,
+    expires_at: new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+  return token;
+};
+
+// Email a reset link
+export const sendPasswordReset = async (user: ResetUser) => {
+  const token = await issuePasswordResetToken(user);
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `Someone asked to reset the password for your account. Choose a new one here: ${getAppUrl(`/reset-password?token=${token}`)}`,
+      "",
+      `The link can be used once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you didn't ask for this, you can ignore this email.`,
+    ].join("\n"),
+  });
+};
+
+// Placeholder accounts (people added to an imported plan before they signed up)
+// are claimed by choosing a password through a reset link, which proves the
+// address is theirs. Anyone can ask for one by registering with the address, so
+// nothing is sent while the last link is still fresh. Resolves to whether it was sent.
+export const sendAccountClaim = async (user: ResetUser) => {
+  const recentlySent = await PasswordResetToken.exists({
+    user_id: user._id,
+    used_at: null,
+    created_at: { $gt: new Date(Date.now() - ACCOUNT_CLAIM_COOLDOWN_MINUTES * 60 * 1000) },
+  });
+  if (recentlySent) return false;
+
+  const token = await issuePasswordResetToken(user);
+
+  await sendMail({
+    to: user.email,
+    subject: "Finish setting up your account",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `You were added to a plan before you had an account. Choose a password to finish signing up: ${getAppUrl(`/reset-password?token=${token}`)}`,
+      "",
+      `The link can be used once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you didn't try to sign up, you can ignore this email.`,
+    ].join("\n"),
+  });
+  return true;
+};
+
+// Use up a reset token, returning the id of the user it belongs to (null if invalid or expired)
+export const consumePasswordResetToken = async (token: string) => {
+  const now = new Date();
+  const resetToken = await PasswordResetToken.findOneAndUpdate(
+    { token_hash: hashToken(token), used_at: null, expires_at: { $gt: now } },
+    { $set: { used_at: now } },
+    { new: true }
+  );
+  return resetToken ? resetToken.user_id.toString() : null;
+};
@@ -0,0 +1,98 @@
+import { Response } from "express";
+
+export type PlanEventType =
+  | "task.created"
+  | "task.updated"
+  | "task.deleted"
+  | "task.reordered";
+
+export interface PlanEvent {
+  type: PlanEventType;
+  plan_id: string;
+  actor_id: string;
+  origin?: string; // client id of the tab that caused the change, so it can skip its own echo
+  // task.created: { task } or { tasks } for bulk; task.updated: { task };
+  // task.deleted: { task_id }; task.reordered: { task_ids }
+  data: Record<string, unknown>;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+interface Subscriber {
+  res: Response;
+  userId: string;
+  close: () => void;
+}
+
+// plan_id -> open Server-Sent Events connections
+const subscribers = new Map<string, Set<Subscriber>>();
+
+// Register an SSE response as a subscriber for a plan; returns an unsubscribe function
+export const subscribeToPlan = (planId: string, userId: string, res: Response) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // disable proxy buffering (nginx, Azure)
+  });
+  res.write(": connected\n\n");
+
+  let planSubscribers = subscribers.get(planId);
+  if (!planSubscribers) {
+    planSubscribers = new Set();
+    subscribers.set(planId, planSubscribers);
+  }
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  const subscriber: Subscriber = {
+    res,
+    userId,
+    close: () => {
+      clearInterval(heartbeat);
+      const current = subscribers.get(planId);
+      if (!current) return;
+      current.delete(subscriber);
+      if (current.size === 0) {
+        subscribers.delete(planId);
+      }
+    },
+  };
+  planSubscribers.add(subscriber);
+
+  return subscriber.close;
+};
+
+// End the open streams of a plan, e.g. when it is deleted, or only those of a user
+// who lost access to it. Clients reconnecting are refused a new ticket.
+export const closePlanSubscriptions = (planId: string, userId?: string) => {
+  const planSubscribers = subscribers.get(planId);
+  if (!planSubscribers) return;
+
+  Array.from(planSubscribers)
+    .filter(subscriber => !userId || subscriber.userId === userId)
+    .forEach(subscriber => {
+      subscriber.close();
+      subscriber.res.end();
+    });
+};
+
+// End a user's open streams in every plan, e.g. when their account is deleted
+export const closeUserSubscriptions = (userId: string) => {
+  Array.from(subscribers.keys()).forEach(planId => closePlanSubscriptions(planId, userId));
+};
+
+// Broadcast an event to everyone watching a plan
+export const publishPlanEvent = (event: PlanEvent) => {
+  const planSubscribers = subscribers.get(event.plan_id);
+  if (!planSubscribers || planSubscribers.size === 0) return;
+
+  const message = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+  planSubscribers.forEach(({ res }) => {
+    try {
+      res.write(message);
+    } catch (error) {
+      console.error("Publish plan event error:", error);
+    }
+  });
+};
@@ -0,0 +1,15 @@
+import { Types } from "mongoose";
+
+// A reference field holds an ObjectId until it is populated, then the referenced
+// document. Plans loaded through requirePlanAccess have owner_id populated, so
+// compare references through refId rather than calling toString() on them.
+
+export type Ref = Types.ObjectId | string | { _id: unknown };
+
+// The id a reference points to, as a string, whether or not it was populated
+export const refId = (ref: Ref): string =>
+  typeof ref === "object" && !(ref instanceof Types.ObjectId) ? String(ref._id) : String(ref);
+
+// The referenced document when the reference was populated, otherwise null
+export const populatedRef = <T extends object>(ref: Types.ObjectId | T): T | null =>
+  ref instanceof Types.ObjectId ? null : ref;
@@ -0,0 +1,136 @@
+import Plan from "../models/Plan";
+import Task from "../models/Task";
+import { fromDayNumber, toDayNumber } from "./dates";
+
+// Every new account gets its own sample plan to explore, with tasks spread around
+// today so the board, table and Gantt views all have something to show.
+
+interface SampleTask {
+  key: string;
+  title: string;
+  description: string;
+  status: "todo" | "in_progress" | "done";
+  priority: "low" | "medium" | "high" | "urgent";
+  start: number; // days from today
+  due: number;
+  progress_pct: number;
+  tags: string[];
+  estimate_hours?: number;
+  parent?: string;       // key of the parent task
+  depends_on?: string[]; // keys of dependency tasks
+}
+
+export const SAMPLE_PLAN_NAME = "Sample Plan";
+
+const SAMPLE_TASKS: SampleTask[] = [
+  {
+    key: "explore",
+    title: "Explore the sample plan",
+    description: "Switch between the Board, Table and Gantt views to see the same tasks in different ways.",
+    status: "done",
+    priority: "medium",
+    start: -3,
+    due: -2,
+    progress_pct: 100,
+    tags: ["getting-started"],
+    estimate_hours: 1,
+  },
+  {
+    key: "first-task",
+    title: "Create your first task",
+    description: "Add a task with a due date and drag it between columns on the board.",
+    status: "in_progress",
+    priority: "high",
+    start: -1,
+    due: 1,
+    progress_pct: 50,
+    tags: ["getting-started"],
+    estimate_hours: 2,
+    depends_on: ["explore"],
+  },
+  {
+    key: "subtasks",
+    title: "Break work into subtasks",
+    description: "Give a task a parent to build a hierarchy; progress rolls up to the parent.",
+    status: "todo",
+    priority: "medium",
+    start: 2,
+    due: 4,
+    progress_pct: 0,
+    tags: ["getting-started"],
+    depends_on: ["first-task"],
+  },
+  {
+    key: "subtask-a",
+    title: "Add a subtask",
+    description: "Open a task and set its parent.",
+    status: "todo",
+    priority: "low",
+    start: 2,
+    due: 3,
+    progress_pct: 0,
+    tags: ["getting-started"],
+    parent: "subtasks",
+  },
+  {
+    key: "subtask-b",
+    title: "Collapse the parent in the table",
+    description: "Use the arrow next to a parent task to hide its subtasks.",
+    status: "todo",
+    priority: "low",
+    start: 3,
+    due: 4,
+    progress_pct: 0,
+    tags: ["getting-started"],
+    parent: "subtasks",
+    depends_on: ["subtask-a"],
+  },
+  {
+    key: "invite",
+    title: "Invite your team",
+    description: "Open the plan settings to add members by email or send them an invitation.",
+    status: "todo",
+    priority: "medium",
+    start: 5,
+    due: 7,
+    progress_pct: 0,
+    tags: ["collaboration"],
+    depends_on: ["subtasks"],
+  },
+];
+
+export const createSamplePlan = async (userId: string) => {
+  const plan = await Plan.create({
+    name: SAMPLE_PLAN_NAME,
+    description: "A sample plan to try things out. Feel free to edit or delete it.",
+    owner_id: userId,
+    members: []
+  });
+
+  const today = toDayNumber(new Date().toISOString());
+  const ids = new Map<string, unknown>();
+
+  // Parents and dependencies come earlier in the list, so their ids are known in time
+  for (const [index, sample] of SAMPLE_TASKS.entries()) {
+    const task = await Task.create({
+      plan_id: plan._id,
+      title: sample.title,
+      description: sample.description,
+      status: sample.status,
+      priority: sample.priority,
+      start_date: fromDayNumber(today + sample.start),
+      due_date: fromDayNumber(today + sample.due),
+      progress_pct: sample.progress_pct,
+      tags: sample.tags,
+      estimate_hours: sample.estimate_hours,
+      parent_id: sample.parent ? ids.get(sample.parent) : undefined,
+      dependency_ids: (sample.depends_on || []).map(key => ids.get(key)),
+      order_index: index,
+      created_by: userId,
+      updated_by: userId
+    });
+    ids.set(sample.key, task._id);
+  }
+
+  return plan;
+};
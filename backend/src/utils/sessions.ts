@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import RefreshToken, { IRefreshToken } from "../models/RefreshToken";
+import { generateToken, hashToken } from "./tokens";
+
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Tabs share the refresh cookie, so two of them can refresh with the same token at
+// once. The one that loses the race is let through for this long after the rotation.
+export const ROTATION_GRACE_MS = 30 * 1000;
+
+export interface ClientInfo {
+  user_agent?: string;
+  ip?: string;
+}
+
+export interface SessionSummary {
+  _id: string; // family id
+  started_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  user_agent?: string;
+  ip?: string;
+  current: boolean;
+}
+
+export type RotationResult =
+  | { status: "rotated"; userId: string; token: string }
+  | { status: "grace"; userId: string } // rotated moments ago by a concurrent refresh; keep its new token
+  | { status: "reused"; userId: string } // an already rotated token came back: the family is revoked
+  | { status: "invalid" };
+
+// Issue a refresh token. Without a previous token this starts a new session (family).
+export const issueRefreshToken = async (
+  userId: unknown,
+  client: ClientInfo,
+  previous?: Pick<IRefreshToken, "family_id" | "session_started_at">
+) => {
+  const { token, token_hash } = generateToken();
+  const now = new Date();
+
+  await RefreshToken.create({
+    user_id: userId,
+    family_id: previous?.family_id ?? crypto.randomUUID(),
+    token_hash,
+    session_started_at: previous?.session_started_at ?? now,
+    user_agent: client.user_agent,
+    ip: client.ip,
+    expires_at: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return token;
+};
+
+export const revokeSessionFamily = async (familyId: string) => {
+  await RefreshToken.updateMany(
+    { family_id: familyId, revoked_at: null },
+    { $set: { revoked_at: new Date() } }
+  );
+};
+
+// Sign out every session of a user, optionally keeping one
+export const revokeUserSessions = async (userId: unknown, keepSessionId: string | null = null) => {
+  const filter: Record<string, unknown> = { user_id: userId, revoked_at: null };
+  if (keepSessionId) {
+    filter.family_id = { $ne: keepSessionId };
+  }
+  const families: string[] = await RefreshToken.distinct("family_id", {
+    ...filter,
+    used_at: null,
+    expires_at: { $gt: new Date() },
+  });
+  await RefreshToken.updateMany(filter, { $set: { revoked_at: new Date() } });
+  return families.length;
+};
+
+// Exchange a refresh token for a new one in the same family. Each token works once;
+// presenting a used or revoked token again means it was copied, so the whole family
+// is revoked and everyone holding it has to sign in again. Only a token rotated
+// within ROTATION_GRACE_MS is still accepted, without issuing another one.
+export const rotateRefreshToken = async (token: string, client: ClientInfo): Promise<RotationResult> => {
+  const token_hash = hashToken(token);
+  const now = new Date();
+
+  const current = await RefreshToken.findOneAndUpdate(
+    { token_hash, used_at: null, revoked_at: null, expires_at: { $gt: now } },
+    { $set: { used_at: now } },
+    { new: true }
+  );
+
+  if (!current) {
+    const known = await RefreshToken.findOne({ token_hash });
+    if (known?.used_at && !known.revoked_at && now.getTime() - known.used_at.getTime() < ROTATION_GRACE_MS) {
+      return { status: "grace", userId: known.user_id.toString() };
+    }
+    if (known && (known.used_at || known.revoked_at)) {
+      await revokeSessionFamily(known.family_id);
+      return { status: "reused", userId: known.user_id.toString() };
+    }
+    return { status: "invalid" };
+  }
+
+  const next = await issueRefreshToken(current.user_id, client, current);
+  return { status: "rotated", userId: current.user_id.toString(), token: next };
+};
+
+// The session a refresh token belongs to, if it is a token we issued
+export const findSessionId = async (token: string | undefined) => {
+  if (!token) return null;
+  const refreshToken = await RefreshToken.findOne({ token_hash: hashToken(token) }).select("family_id");
+  return refreshToken?.family_id ?? null;
+};
+
+// Active sessions: the newest unused, unrevoked token of each family
+export const listSessions = async (userId: unknown, currentSessionId: string | null): Promise<SessionSummary[]> => {
+  const tokens = await RefreshToken.find({
+    user_id: userId,
+    used_at: null,
+    revoked_at: null,
+    expires_at: { $gt: new Date() },
+  }).sort({ created_at: -1 });
+
+  return tokens.map(token => ({
+    _id: token.family_id,
+    started_at: token.session_started_at,
+    last_used_at: token.created_at,
+    expires_at: token.expires_at,
+    user_agent: token.user_agent,
+    ip: token.ip,
+    current: token.family_id === currentSessionId,
+  }));
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+// Each plan has its own ordered list of statuses. A status's category tells the
+// rest of the app how to treat tasks in it (not started, in progress, finished).
+
+export const STATUS_CATEGORIES = ["todo", "active", "done"] as const;
+export type StatusCategory = typeof STATUS_CATEGORIES[number];
+
+export interface PlanStatus {
+  key: string;
+  label: string;
+  color: string;
+  category: StatusCategory;
+}
+
+export const STATUS_KEY_PATTERN = /^[a-z0-9_]+$/;
+export const MAX_PLAN_STATUSES = 20;
+
+// The statuses every plan had before they were configurable; new plans start with these
+export const DEFAULT_PLAN_STATUSES: PlanStatus[] = [
+  { key: "todo", label: "To Do", color: "#6b7280", category: "todo" },
+  { key: "in_progress", label: "In Progress", color: "#3b82f6", category: "active" },
+  { key: "done", label: "Done", color: "#22c55e", category: "done" },
+];
+
+export const planStatusSchema = z.object({
+  key: z.string()
+    .min(1, "Status key is required")
+    .max(30, "Status key too long")
+    .regex(STATUS_KEY_PATTERN, "Status keys may only contain lowercase letters, digits and underscores"),
+  label: z.string().min(1, "Status label is required").max(50, "Status label too long"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex color like #3b82f6"),
+  category: z.enum(STATUS_CATEGORIES),
+});
+
+export const planStatusesSchema = z.array(planStatusSchema)
+  .min(1, "A plan needs at least one status")
+  .max(MAX_PLAN_STATUSES, `A plan can have at most ${MAX_PLAN_STATUSES} statuses`)
+  .refine(
+    statuses => new Set(statuses.map(status => status.key)).size === statuses.length,
+    { message: "Status keys must be unique" }
+  );
+
+// Plans saved before statuses were configurable have none stored
+export const getPlanStatuses = (plan: { statuses?: PlanStatus[] }): PlanStatus[] =>
+  plan.statuses && plan.statuses.length > 0 ? plan.statuses : DEFAULT_PLAN_STATUSES;
+
+// Status for tasks created without one: the first not-started status
+export const getDefaultStatus = (statuses: PlanStatus[]) =>
+  (statuses.find(status => status.category === "todo") || statuses[0]).key;
+
+// Error for the first of the given statuses that the plan doesn't define, or null
+export const findUnknownStatus = (statuses: PlanStatus[], keys: Array<string | undefined>) => {
+  const known = new Set(statuses.map(status => status.key));
+  const unknown = keys.find(key => key !== undefined && !known.has(key));
+  if (unknown === undefined) return null;
+  return {
+    error: `Unknown status "${unknown}". Valid statuses: ${statuses.map(status => status.key).join(", ")}`,
+  };
+};
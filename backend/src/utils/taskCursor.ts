@@ -0,0 +1,107 @@
+import { Types } from "mongoose";
+
+// Cursor pagination for GET /api/tasks. A cursor holds the sort values of the last task
+// on a page; the next page starts right after it, so pages stay consistent while tasks
+// are added or removed and deep pages don't get slower the way skip() does.
+
+// Sortable fields and the type their values have in the database
+export const TASK_SORT_FIELDS = {
+  order_index: "number",
+  title: "string",
+  status: "string",
+  priority: "string",
+  start_date: "string",
+  due_date: "string",
+  progress_pct: "number",
+  estimate_hours: "number",
+  created_at: "date",
+  updated_at: "date",
+} as const;
+
+export type TaskSortField = keyof typeof TASK_SORT_FIELDS;
+export type TaskSortKey = [field: string, direction: 1 | -1];
+
+export const MAX_TASK_PAGE_SIZE = 500;
+
+// Sort keys for a sort field and order, always ending with _id so ties have a fixed order
+export const getTaskSort = (sort: string, order: string): { keys: TaskSortKey[] } | { error: string } => {
+  if (!Object.prototype.hasOwnProperty.call(TASK_SORT_FIELDS, sort)) {
+    return { error: `Can't sort by "${sort}". Sort by one of: ${Object.keys(TASK_SORT_FIELDS).join(", ")}` };
+  }
+  const direction = order === "desc" ? -1 : 1;
+  // Board order: by status, then position within the status
+  const keys: TaskSortKey[] = sort === "order_index"
+    ? [["status", 1], ["order_index", direction]]
+    : [[sort, direction]];
+  keys.push(["_id", direction]);
+  return { keys };
+};
+
+export const encodeTaskCursor = (task: Record<string, unknown>, keys: TaskSortKey[]): string =>
+  Buffer.from(JSON.stringify(keys.map(([field]) => task[field] ?? null))).toString("base64url");
+
+const invalidCursor = { error: "Invalid cursor; start again without one" };
+
+// Sort values from a cursor, typed for querying
+export const decodeTaskCursor = (cursor: string, keys: TaskSortKey[]): { values: unknown[] } | { error: string } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    return invalidCursor;
+  }
+  if (!Array.isArray(raw) || raw.length !== keys.length) return invalidCursor;
+
+  const values: unknown[] = [];
+  for (let index = 0; index < keys.length; index++) {
+    const field = keys[index][0];
+    const value = raw[index];
+
+    if (field === "_id") {
+      if (typeof value !== "string" || !Types.ObjectId.isValid(value)) return invalidCursor;
+      values.push(new Types.ObjectId(value));
+      continue;
+    }
+    if (value === null) {
+      values.push(null);
+      continue;
+    }
+
+    const type = TASK_SORT_FIELDS[field as TaskSortField];
+    if (type === "date") {
+      if (typeof value !== "string" || Number.isNaN(Date.parse(value))) return invalidCursor;
+      values.push(new Date(value));
+    } else if (typeof value !== type) {
+      return invalidCursor;
+    } else {
+      values.push(value);
+    }
+  }
+  return { values };
+};
+
+// Condition for "sorts after" on one field. Missing values sort before everything
+// else, so they come first in ascending order and last in descending order (_id is never missing).
+const afterValue = (field: string, direction: 1 | -1, value: unknown): Record<string, unknown> | null => {
+  if (direction === 1) {
+    return value === null ? { [field]: { $ne: null } } : { [field]: { $gt: value } };
+  }
+  if (value === null) return null;
+  return field === "_id" ? { _id: { $lt: value } } : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+};
+
+// Tasks that come after the cursor position in the given sort order
+export const buildCursorCondition = (keys: TaskSortKey[], values: unknown[]): Record<string, unknown> => {
+  const alternatives: Record<string, unknown>[] = [];
+
+  keys.forEach(([field, direction], index) => {
+    const after = afterValue(field, direction, values[index]);
+    if (!after) return;
+    // Equal on every earlier key, after on this one
+    const equal = keys.slice(0, index).map(([earlier], earlierIndex) => ({ [earlier]: values[earlierIndex] }));
+    alternatives.push(equal.length > 0 ? { $and: [...equal, after] } : after);
+  });
+
+  // The last key is _id, which is never missing, so there is always an alternative
+  return { $or: alternatives };
+};
@@ -0,0 +1,97 @@
+import { Types } from "mongoose";
+import { isValidDate } from "./dates";
+
+// Date, assignment and dependency filters for GET /api/tasks.
+// Task dates are stored as YYYY-MM-DD strings (or "" when cleared), so they compare
+// correctly as strings as long as empty values are kept out of ranges.
+
+export const TASK_DATE_FILTERS = ["due_from", "due_to", "start_from", "start_to"] as const;
+export const TASK_FLAG_FILTERS = ["overdue", "unassigned", "has_dependencies", "blocked"] as const;
+
+export interface TaskFilterContext {
+  currentUserId: string;
+  today: string; // YYYY-MM-DD; tasks due before it are overdue
+  doneStatuses: string[]; // keys of the plan's statuses in the "done" category
+  openTaskIds?: unknown[]; // ids of the plan's tasks that aren't done, needed for "blocked"
+}
+
+// Whether the filters need the plan's open task ids (which cost a query)
+export const needsOpenTaskIds = (query: Record<string, unknown>) => query.blocked !== undefined;
+
+// Inclusive range on a date path; with only an upper bound, tasks without the date stay out
+const dateRange = (from: string | undefined, to: string | undefined) => ({
+  ...(from ? { $gte: from } : { $gt: "" }),
+  ...(to ? { $lte: to } : {}),
+});
+
+// Mongo conditions (to AND together) for the filters in a GET /api/tasks query
+export const buildTaskFilters = (
+  query: Record<string, unknown>,
+  context: TaskFilterContext
+): { conditions: Record<string, unknown>[] } | { error: string } => {
+  const conditions: Record<string, unknown>[] = [];
+  const dates: Partial<Record<typeof TASK_DATE_FILTERS[number], string>> = {};
+  const flags: Partial<Record<typeof TASK_FLAG_FILTERS[number], boolean>> = {};
+
+  for (const name of TASK_DATE_FILTERS) {
+    const value = query[name];
+    if (value === undefined || value === "") continue;
+    if (typeof value !== "string" || !isValidDate(value)) {
+      return { error: `${name} must be a date (YYYY-MM-DD)` };
+    }
+    dates[name] = value;
+  }
+
+  for (const name of TASK_FLAG_FILTERS) {
+    const value = query[name];
+    if (value === undefined || value === "") continue;
+    if (value !== "true" && value !== "false") {
+      return { error: `${name} must be true or false` };
+    }
+    flags[name] = value === "true";
+  }
+
+  if (dates.due_from && dates.due_to && dates.due_from > dates.due_to) {
+    return { error: "due_from must not be after due_to" };
+  }
+  if (dates.start_from && dates.start_to && dates.start_from > dates.start_to) {
+    return { error: "start_from must not be after start_to" };
+  }
+
+  if (dates.due_from || dates.due_to) {
+    conditions.push({ due_date: dateRange(dates.due_from, dates.due_to) });
+  }
+  if (dates.start_from || dates.start_to) {
+    conditions.push({ start_date: dateRange(dates.start_from, dates.start_to) });
+  }
+
+  // Overdue: due before today and not finished
+  if (flags.overdue !== undefined) {
+    const overdue = { due_date: { $gt: "", $lt: context.today }, status: { $nin: context.doneStatuses } };
+    conditions.push(flags.overdue ? overdue : { $nor: [overdue] });
+  }
+
+  if (flags.unassigned !== undefined) {
+    conditions.push({ "assignee_ids.0": { $exists: !flags.unassigned } });
+  }
+
+  if (flags.has_dependencies !== undefined) {
+    conditions.push({ "dependency_ids.0": { $exists: flags.has_dependencies } });
+  }
+
+  // Blocked: waiting on at least one dependency that isn't done
+  if (flags.blocked !== undefined) {
+    const openTaskIds = context.openTaskIds || [];
+    conditions.push({ dependency_ids: flags.blocked ? { $in: openTaskIds } : { $nin: openTaskIds } });
+  }
+
+  if (query.created_by !== undefined && query.created_by !== "") {
+    if (typeof query.created_by !== "string" ||
+      (query.created_by !== "me" && !Types.ObjectId.isValid(query.created_by))) {
+      return { error: "created_by must be a user id or \"me\"" };
+    }
+    conditions.push({ created_by: query.created_by === "me" ? context.currentUserId : query.created_by });
+  }
+
+  return { conditions };
+};
@@ -0,0 +1,259 @@
+import { isValidDate } from "./dates";
+
+// Search language for GET /api/tasks?q=..., e.g.
+//   status:in_progress assignee:me due<2026-11-01 tag:backend -tag:blocked "login bug"
+// Terms are ANDed together. A leading "-" negates a term, commas list alternatives
+// (status:todo,in_progress) and words or quoted phrases search title, description and tags.
+
+export const QUERY_FIELDS = ["status", "assignee", "tag", "priority", "due", "start", "created", "progress"] as const;
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export const QUERY_OPERATORS = [":", "<=", ">=", "<", ">"] as const;
+export type QueryOperator = typeof QUERY_OPERATORS[number];
+
+// Fields that can be compared with < <= > >=
+const COMPARABLE_FIELDS: QueryField[] = ["due", "start", "created", "progress"];
+const PRIORITIES = ["low", "medium", "high", "urgent"];
+
+export interface QueryTerm {
+  position: number; // index of the term in the query, for error messages
+  negated: boolean;
+  field?: QueryField; // missing for search text
+  operator?: QueryOperator;
+  value: string;
+  quoted: boolean;
+}
+
+export interface QueryError {
+  error: string;
+  position: number;
+}
+
+export interface QueryContext {
+  statuses: string[]; // the plan's status keys
+  members: Array<{ _id: unknown; name: string; email: string }>;
+  currentUserId: string;
+  today: string; // YYYY-MM-DD, what "today" means in date terms
+}
+
+const fail = (error: string, position: number): QueryError => ({ error, position });
+const WHOLE_QUOTES = "Quotes must surround a whole phrase or value";
+
+// Split a query into terms, or explain the first syntax error
+export const parseTaskQuery = (input: string): { terms: QueryTerm[] } | QueryError => {
+  const terms: QueryTerm[] = [];
+  let index = 0;
+
+  const readQuoted = (start: number): { value: string; end: number } | QueryError => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) return fail("Missing closing quote", start);
+    if (close + 1 < input.length && !/\s/.test(input[close + 1])) return fail(WHOLE_QUOTES, start);
+    return { value: input.slice(start + 1, close), end: close + 1 };
+  };
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const position = index;
+    const negated = input[index] === "-" && index + 1 < input.length && !/\s/.test(input[index + 1]);
+    if (negated) index++;
+
+    // "a phrase"
+    if (input[index] === '"') {
+      const quoted = readQuoted(index);
+      if ("error" in quoted) return quoted;
+      if (!quoted.value.trim()) return fail("Empty quotes", position);
+      terms.push({ position, negated, value: quoted.value, quoted: true });
+      index = quoted.end;
+      continue;
+    }
+
+    // field:value, field<value, ...
+    const fieldMatch = /^([a-zA-Z_]+)(<=|>=|:|<|>)/.exec(input.slice(index));
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      const operator = fieldMatch[2] as QueryOperator;
+      if (!(QUERY_FIELDS as readonly string[]).includes(name)) {
+        return fail(`Unknown field "${fieldMatch[1]}". Fields: ${QUERY_FIELDS.join(", ")}`, position);
+      }
+      const field = name as QueryField;
+      if (operator !== ":" && !COMPARABLE_FIELDS.includes(field)) {
+        return fail(`"${operator}" only works with ${COMPARABLE_FIELDS.join(", ")}`, position);
+      }
+
+      index += fieldMatch[0].length;
+      let value: string;
+      let quoted = false;
+      if (input[index] === '"') {
+        const read = readQuoted(index);
+        if ("error" in read) return read;
+        value = read.value;
+        quoted = true;
+        index = read.end;
+      } else {
+        const end = input.slice(index).search(/\s/);
+        value = end === -1 ? input.slice(index) : input.slice(index, index + end);
+        index += value.length;
+        if (value.includes('"')) return fail(WHOLE_QUOTES, position);
+      }
+      if (!value.trim()) return fail(`Missing value after "${fieldMatch[0]}"`, position);
+
+      terms.push({ position, negated, field, operator, value, quoted });
+      continue;
+    }
+
+    // A plain word
+    const end = input.slice(index).search(/\s/);
+    const word = end === -1 ? input.slice(index) : input.slice(index, index + end);
+    if (word.includes('"')) return fail(WHOLE_QUOTES, position);
+    terms.push({ position, negated, value: word, quoted: false });
+    index += word.length;
+  }
+
+  return { terms };
+};
+
+const nextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+};
+
+// Mongo comparison for one operator
+const compare = (operator: QueryOperator, value: unknown) => {
+  switch (operator) {
+    case "<": return { $lt: value };
+    case "<=": return { $lte: value };
+    case ">": return { $gt: value };
+    case ">=": return { $gte: value };
+    default: return value;
+  }
+};
+
+// Find the plan member a value names: "me", an email, a name or the part of an email before the @
+const findMember = (value: string, context: QueryContext): string | "ambiguous" | null => {
+  if (value.toLowerCase() === "me") return context.currentUserId;
+  const needle = value.toLowerCase();
+  const matchers = [
+    (member: QueryContext["members"][number]) => member.email.toLowerCase() === needle,
+    (member: QueryContext["members"][number]) => member.name.toLowerCase() === needle,
+    (member: QueryContext["members"][number]) => member.email.toLowerCase().split("@")[0] === needle,
+  ];
+  for (const matches of matchers) {
+    const found = context.members.filter(matches);
+    if (found.length === 1) return String(found[0]._id);
+    if (found.length > 1) return "ambiguous";
+  }
+  return null;
+};
+
+// Mongo condition for one field term (before negation)
+const buildCondition = (term: QueryTerm, context: QueryContext): Record<string, unknown> | QueryError => {
+  const { field, operator = ":", value, position } = term;
+  const values = value.split(",").map(item => item.trim()).filter(Boolean);
+  if (values.length === 0) return fail(`Missing value after "${field}${operator}"`, position);
+
+  switch (field) {
+    case "status": {
+      const unknown = values.find(item => !context.statuses.includes(item));
+      if (unknown) return fail(`Unknown status "${unknown}". Valid statuses: ${context.statuses.join(", ")}`, position);
+      return { status: { $in: values } };
+    }
+    case "priority": {
+      const unknown = values.find(item => !PRIORITIES.includes(item.toLowerCase()));
+      if (unknown) return fail(`Unknown priority "${unknown}". Valid priorities: ${PRIORITIES.join(", ")}`, position);
+      return { priority: { $in: values.map(item => item.toLowerCase()) } };
+    }
+    case "tag":
+      return { tags: { $in: values } };
+    case "assignee": {
+      const ids: string[] = [];
+      let includeUnassigned = false;
+      for (const item of values) {
+        if (item.toLowerCase() === "none") {
+          includeUnassigned = true;
+          continue;
+        }
+        const member = findMember(item, context);
+        if (member === null) return fail(`No plan member matches "${item}"`, position);
+        if (member === "ambiguous") return fail(`"${item}" matches more than one member; use their email`, position);
+        ids.push(member);
+      }
+      const unassigned = { "assignee_ids.0": { $exists: false } };
+      if (!includeUnassigned) return { assignee_ids: { $in: ids } };
+      return ids.length > 0 ? { $or: [{ assignee_ids: { $in: ids } }, unassigned] } : unassigned;
+    }
+    case "progress": {
+      if (values.length > 1) return fail("progress takes a single number", position);
+      const progress = Number(values[0]);
+      if (!Number.isFinite(progress) || progress < 0 || progress > 100) {
+        return fail(`progress needs a number from 0 to 100, not "${values[0]}"`, position);
+      }
+      return { progress_pct: compare(operator, progress) };
+    }
+    default: {
+      // due, start and created take a date, "today" or (with ":") "none"
+      if (values.length > 1) return fail(`${field} takes a single date`, position);
+      const path = field === "due" ? "due_date" : field === "start" ? "start_date" : "created_at";
+      const raw = values[0].toLowerCase();
+
+      if (raw === "none" && operator === ":" && field !== "created") {
+        return { [path]: { $in: [null, ""] } };
+      }
+      const date = raw === "today" ? context.today : raw;
+      if (!isValidDate(date)) return fail(`${field} needs a date like 2026-11-01 or "today", not "${values[0]}"`, position);
+
+      if (field === "created") {
+        // created_at is a timestamp, so a date covers the whole (UTC) day
+        const start = new Date(`${date}T00:00:00Z`);
+        const end = nextDay(date);
+        switch (operator) {
+          case "<": return { created_at: { $lt: start } };
+          case "<=": return { created_at: { $lt: end } };
+          case ">": return { created_at: { $gte: end } };
+          case ">=": return { created_at: { $gte: start } };
+          default: return { created_at: { $gte: start, $lt: end } };
+        }
+      }
+
+      // Dates are stored as YYYY-MM-DD strings; some tasks have "" for no date
+      const condition = compare(operator, date);
+      return { [path]: operator === "<" || operator === "<=" ? { ...(condition as object), $gt: "" } : condition };
+    }
+  }
+};
+
+// Turn parsed terms into Mongo conditions (to AND together) and a $text search string
+export const buildTaskQuery = (
+  terms: QueryTerm[],
+  context: QueryContext
+): { conditions: Record<string, unknown>[]; text?: string } | QueryError => {
+  const conditions: Record<string, unknown>[] = [];
+  const textParts: string[] = [];
+  let hasPositiveText = false;
+
+  for (const term of terms) {
+    if (!term.field) {
+      const text = term.quoted ? `"${term.value.replace(/"/g, "")}"` : term.value;
+      textParts.push(term.negated ? `-${text}` : text);
+      hasPositiveText = hasPositiveText || !term.negated;
+      continue;
+    }
+
+    const condition = buildCondition(term, context);
+    if ("error" in condition) return condition as QueryError;
+    conditions.push(term.negated ? { $nor: [condition] } : condition);
+  }
+
+  if (textParts.length > 0 && !hasPositiveText) {
+    return fail("Excluding words needs at least one word to search for", terms.find(term => !term.field)!.position);
+  }
+
+  return { conditions, text: textParts.length > 0 ? textParts.join(" ") : undefined };
+};
+
+// Whether parsed terms need the plan's members to be resolved
+export const usesMembers = (terms: QueryTerm[]) => terms.some(term => term.field === "assignee");
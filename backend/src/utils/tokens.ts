@@ -0,0 +1,12 @@
+import crypto from "crypto";
+
+// Opaque random tokens for links and cookies. Only the SHA-256 hash is stored, so a
+// database leak doesn't hand out usable tokens.
+
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const generateToken = () => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, token_hash: hashToken(token) };
+};
@@ -0,0 +1,248 @@
+import crypto from "crypto";
+import Webhook, { WebhookEventType } from "../models/Webhook";
+import WebhookDelivery, { IWebhookDelivery } from "../models/WebhookDelivery";
+
+// Outgoing webhooks. Route handlers queue a delivery per subscribed webhook; a background
+// dispatcher sends them, retrying failures with exponential backoff.
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30 * 1000;      // 30s, 1m, 2m, 4m, 8m between attempts
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const CLAIM_LEASE_MS = 60 * 1000;           // A claimed delivery is picked up again if the process dies mid-request
+const POLL_INTERVAL_MS = 5 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  plan_id: string;
+  actor_id?: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status?: number;
+  body?: string;
+  error?: string;
+  duration_ms: number;
+}
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+
+// The signature covers "<timestamp>.<body>", so receivers can reject stale or replayed requests
+export const signWebhookPayload = (secret: string, timestamp: string, body: string) =>
+  `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+export const verifyWebhookSignature = (secret: string, timestamp: string, body: string, signature: string) => {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Wait before the next attempt, given how many attempts have been made
+export const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+export const buildWebhookPayload = (event: WebhookEvent) => ({
+  id: crypto.randomUUID(),
+  type: event.type,
+  plan_id: event.plan_id,
+  actor_id: event.actor_id,
+  created_at: new Date().toISOString(),
+  data: event.data,
+});
+
+// POST a signed payload to a receiver. Never throws; network errors and timeouts are returned.
+export const sendWebhookRequest = async (
+  url: string,
+  secret: string,
+  deliveryId: string,
+  payload: { type: string }
+): Promise<WebhookResponse> => {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "pdzanning-webhooks/1.0",
+        "X-Pdzanning-Event": payload.type,
+        "X-Pdzanning-Delivery": deliveryId,
+        "X-Pdzanning-Timestamp": timestamp,
+        "X-Pdzanning-Signature": signWebhookPayload(secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await response.text().catch(() => "");
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      body: text.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      duration_ms: Date.now() - startedAt,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return {
+      ok: false,
+      error: timedOut ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : (error instanceof Error ? error.message : String(error)),
+      duration_ms: Date.now() - startedAt,
+    };
+  }
+};
+
+export type WebhookPayload = ReturnType<typeof buildWebhookPayload>;
+
+// Queue a delivery of a payload to one webhook
+export const queueWebhookDelivery = async (webhookId: unknown, payload: WebhookPayload) => {
+  const delivery = await WebhookDelivery.create({
+    webhook_id: webhookId,
+    plan_id: payload.plan_id,
+    event: payload.type,
+    payload,
+    next_attempt_at: new Date(),
+  });
+  wakeDispatcher();
+  return delivery;
+};
+
+// Queue an event for every active webhook of the plan that subscribes to it
+export const enqueueWebhookEvent = async (event: WebhookEvent) => {
+  const webhooks = await Webhook.find({
+    plan_id: event.plan_id,
+    active: true,
+    $or: [{ events: { $size: 0 } }, { events: event.type }],
+  }).select("_id");
+  if (webhooks.length === 0) return;
+
+  const now = new Date();
+  await WebhookDelivery.insertMany(webhooks.map(webhook => ({
+    webhook_id: webhook._id,
+    plan_id: event.plan_id,
+    event: event.type,
+    payload: buildWebhookPayload(event),
+    next_attempt_at: now,
+  })));
+  wakeDispatcher();
+};
+
+// For route handlers: queueing runs in the background and never fails the request
+export const triggerWebhooks = (event: WebhookEvent) => {
+  enqueueWebhookEvent(event).catch(error => {
+    console.error("Queue webhook event error:", error);
+  });
+};
+
+// Make one attempt at a claimed delivery and record the outcome
+export const attemptDelivery = async (delivery: IWebhookDelivery) => {
+  const webhook = await Webhook.findById(delivery.webhook_id).select("+secret");
+  const now = new Date();
+
+  if (!webhook || !webhook.active) {
+    delivery.status = "failed";
+    delivery.error = webhook ? "Webhook is disabled" : "Webhook was deleted";
+    delivery.next_attempt_at = undefined;
+    await delivery.save();
+    return delivery;
+  }
+
+  const result = await sendWebhookRequest(webhook.url, webhook.secret, delivery._id.toString(), delivery.payload as { type: string });
+
+  delivery.attempts += 1;
+  delivery.last_attempt_at = now;
+  delivery.response_status = result.status;
+  delivery.response_body = result.body;
+  delivery.error = result.error;
+  delivery.duration_ms = result.duration_ms;
+
+  if (result.ok) {
+    delivery.status = "succeeded";
+    delivery.next_attempt_at = undefined;
+  } else if (delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    delivery.status = "failed";
+    delivery.next_attempt_at = undefined;
+  } else {
+    delivery.next_attempt_at = new Date(now.getTime() + getRetryDelay(delivery.attempts));
+  }
+  await delivery.save();
+
+  await Webhook.updateOne(
+    { _id: webhook._id },
+    { $set: { last_delivery_at: now, last_delivery_status: result.ok ? "succeeded" : "failed" } }
+  );
+
+  return delivery;
+};
+
+// Claim the next due delivery by pushing its next attempt out by the lease, so
+// concurrent dispatchers (or a restart) don't send it twice in the meantime
+const claimDueDelivery = () => {
+  const now = new Date();
+  return WebhookDelivery.findOneAndUpdate(
+    { status: "pending", next_attempt_at: { $lte: now } },
+    { $set: { next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS) } },
+    { sort: { next_attempt_at: 1 }, new: true }
+  );
+};
+
+// Send every delivery that is due, one at a time; returns how many were attempted
+export const processDueDeliveries = async (limit: number = 50) => {
+  let attempted = 0;
+  while (attempted < limit) {
+    const delivery = await claimDueDelivery();
+    if (!delivery) break;
+    await attemptDelivery(delivery);
+    attempted++;
+  }
+  return attempted;
+};
+
+let dispatcherTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+let wakeRequested = false;
+
+const runDispatcher = async () => {
+  if (isProcessing) {
+    wakeRequested = true;
+    return;
+  }
+  isProcessing = true;
+  try {
+    do {
+      wakeRequested = false;
+      await processDueDeliveries();
+    } while (wakeRequested);
+  } catch (error) {
+    console.error("Webhook dispatcher error:", error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+// Newly queued deliveries go out right away instead of waiting for the next poll
+const wakeDispatcher = () => {
+  if (dispatcherTimer) {
+    setImmediate(runDispatcher);
+  }
+};
+
+// Poll for due deliveries (retries) in the background; call once the database is connected
+export const startWebhookDispatcher = (intervalMs: number = POLL_INTERVAL_MS) => {
+  if (dispatcherTimer) return;
+  dispatcherTimer = setInterval(runDispatcher, intervalMs);
+  dispatcherTimer.unref();
+  runDispatcher();
+};
+
+export const stopWebhookDispatcher = () => {
+  if (dispatcherTimer) {
+    clearInterval(dispatcherTimer);
+    dispatcherTimer = null;
+  }
+};
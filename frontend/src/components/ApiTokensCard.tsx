@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Check, Copy, KeySquare, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from '@/hooks/useApiTokens';
+import { formatDate } from '@/lib/utils';
+
+interface ApiTokensCardProps {
+  plans: Array<{ _id: string; name: string }>;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: 0 },
+];
+
+// Personal access tokens for scripts and CI, shown on the account page
+export function ApiTokensCard({ plans }: ApiTokensCardProps) {
+  const { data, isLoading, error } = useApiTokens();
+  const createMutation = useCreateApiToken();
+  const revokeMutation = useRevokeApiToken();
+
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<'read' | 'write'>('read');
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [allPlans, setAllPlans] = useState(true);
+  const [selectedPlanIds, setSelectedPlanIds] = useState<string[]>([]);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const tokens = data?.tokens || [];
+  const actionError = createMutation.error || revokeMutation.error;
+
+  const togglePlan = (planId: string) => {
+    setSelectedPlanIds(prev =>
+      prev.includes(planId) ? prev.filter(id => id !== planId) : [...prev, planId]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await createMutation.mutateAsync({
+        name: name.trim(),
+        scope,
+        plan_ids: allPlans ? [] : selectedPlanIds,
+        expires_at: expiryDays
+          ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+          : undefined,
+      });
+      setNewToken(result.token);
+      setCopied(false);
+      setName('');
+      setSelectedPlanIds([]);
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy token:', error);
+    }
+  };
+
+  const handleRevoke = (tokenId: string, tokenName: string) => {
+    if (!window.confirm(`Revoke "${tokenName}"? Scripts using it will stop working.`)) return;
+    revokeMutation.mutate(tokenId);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Use a personal access token to call the REST API from scripts and CI, sent as{' '}
+          <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">Authorization: Bearer &lt;token&gt;</code>.
+          Tokens act as you, within the plans and scope you choose.
+        </p>
+
+        {(error || actionError) && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-sm text-red-600">{(error || actionError)!.message}</p>
+          </div>
+        )}
+
+        {newToken && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-3 space-y-2">
+            <p className="text-sm text-green-700">
+              Copy your new token now. You won't be able to see it again.
+            </p>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 text-xs bg-white border border-green-200 rounded px-2 py-1 break-all">
+                {newToken}
+              </code>
+              <Button type="button" variant="outline" size="sm" onClick={handleCopy} title="Copy token">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="flex justify-end">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map(token => {
+              const isExpired = !!token.expires_at && new Date(token.expires_at) <= new Date();
+              return (
+                <div key={token._id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <KeySquare className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm flex items-center space-x-2">
+                        <span className="truncate">{token.name}</span>
+                        <Badge variant="outline">{token.scope === 'write' ? 'Read & write' : 'Read only'}</Badge>
+                        {isExpired && <Badge variant="outline">Expired</Badge>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        …{token.token_hint} ·{' '}
+                        {token.plan_ids.length > 0
+                          ? token.plan_ids.map(plan => plan.name).join(', ')
+                          : 'All plans'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Created {formatDate(token.created_at)}
+                        {' · '}
+                        {token.expires_at ? `${isExpired ? 'Expired' : 'Expires'} ${formatDate(token.expires_at)}` : 'Never expires'}
+                        {' · '}
+                        {token.last_used_at ? `Last used ${formatDate(token.last_used_at)}` : 'Never used'}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 flex-shrink-0"
+                    onClick={() => handleRevoke(token._id, token.name)}
+                    disabled={revokeMutation.isPending}
+                    title="Revoke token"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            {tokens.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No API tokens yet</p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3 border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-medium text-gray-900">New token</h4>
+
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. CI task sync"
+            maxLength={100}
+          />
+
+          <div className="flex flex-wrap gap-4">
+            <label className="text-sm text-gray-700 space-y-1">
+              <span className="block font-medium">Scope</span>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as 'read' | 'write')}
+                className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="read">Read only</option>
+                <option value="write">Read & write</option>
+              </select>
+            </label>
+            <label className="text-sm text-gray-700 space-y-1">
+              <span className="block font-medium">Expires</span>
+              <select
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(Number(e.target.value))}
+                className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allPlans}
+                onChange={(e) => setAllPlans(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>All my plans, including ones I join later</span>
+            </label>
+            {!allPlans && (
+              <div className="ml-6 space-y-1 max-h-40 overflow-y-auto">
+                {plans.map(plan => (
+                  <label key={plan._id} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedPlanIds.includes(plan._id)}
+                      onChange={() => togglePlan(plan._id)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>{plan.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              isLoading={createMutation.isPending}
+              disabled={!name.trim() || (!allPlans && selectedPlanIds.length === 0)}
+            >
+              Create Token
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
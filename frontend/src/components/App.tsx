@@ -1,5 +1,5 @@
 import React, { useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useSearchParams } from 'react-router-dom';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient.ts';
 import { useAuthStore } from '@/store/authStore';
@@ -7,9 +7,15 @@ import { Header } from '@/components/layout/Header';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { LoginForm } from '@/components/auth/LoginForm';
 import { RegisterForm } from '@/components/auth/RegisterForm';
+import { InvitationPage } from '@/components/auth/InvitationPage';
+import { ForgotPasswordForm } from '@/components/auth/ForgotPasswordForm';
+import { ResetPasswordForm } from '@/components/auth/ResetPasswordForm';
+import { ChangePasswordForm } from '@/components/auth/ChangePasswordForm';
+import { VerifyEmailPage } from '@/components/auth/VerifyEmailPage';
 import { Dashboard } from '@/components/Dashboard';
 import { Homepage } from '@/components/Homepage';
 import { PlanDetails } from '@/components/PlanDetails';
+import { ProfilePage } from '@/components/ProfilePage';
 import { useCurrentUser } from '@/hooks/useAuth';
 
 // Protected Route component
@@ -31,9 +37,10 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
-// Public Route component (redirect if authenticated)
+// Public Route component (redirect if authenticated, to ?redirect= when it's an app path)
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuthStore();
+  const [searchParams] = useSearchParams();
   
   if (isLoading) {
     return (
@@ -44,7 +51,9 @@ function PublicRoute({ children }: { children: React.ReactNode }) {
   }
   
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    const redirect = searchParams.get('redirect');
+    const target = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
+    return <Navigate to={target} replace />;
   }
   
   return <>{children}</>;
@@ -118,6 +127,40 @@ function App() {
               </PublicRoute>
             }
           />
+          <Route
+            path="/forgot-password"
+            element={
+              <PublicRoute>
+                <AuthLayout>
+                  <ForgotPasswordForm />
+                </AuthLayout>
+              </PublicRoute>
+            }
+          />
+          <Route
+            path="/reset-password"
+            element={
+              <AuthLayout>
+                <ResetPasswordForm />
+              </AuthLayout>
+            }
+          />
+          <Route
+            path="/verify-email"
+            element={
+              <AuthLayout>
+                <VerifyEmailPage />
+              </AuthLayout>
+            }
+          />
+          <Route
+            path="/invitations/:token"
+            element={
+              <AuthLayout>
+                <InvitationPage />
+              </AuthLayout>
+            }
+          />
           
           {/* Protected routes */}
           <Route
@@ -138,6 +181,24 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/account"
+            element={
+              <ProtectedRoute>
+                <ProfilePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/account/password"
+            element={
+              <ProtectedRoute>
+                <AuthLayout>
+                  <ChangePasswordForm />
+                </AuthLayout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/plans/:planId"
             element={
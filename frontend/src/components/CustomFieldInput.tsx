@@ -0,0 +1,128 @@
+import { CustomField, CustomFieldValue, PlanMemberUser } from '@/types';
+import { Input } from '@/components/ui/Input';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  members: PlanMemberUser[];
+  onChange: (value: CustomFieldValue | null) => void;
+}
+
+const selectClassName = 'block w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+// Editor for one custom field value; an emptied input reports null
+export function CustomFieldInput({ field, value, members, onChange }: CustomFieldInputProps) {
+  switch (field.type) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          step="any"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+    case 'single_select':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={selectClassName}
+        >
+          <option value="">None</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center space-x-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(e) => {
+                  const next = e.target.checked
+                    ? field.options.filter(item => item === option || selected.includes(item))
+                    : selected.filter(item => item !== option);
+                  onChange(next.length > 0 ? next : null);
+                }}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'user':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={selectClassName}
+        >
+          <option value="">Nobody</option>
+          {members.map(member => (
+            <option key={member._id} value={member._id}>{member.name}</option>
+          ))}
+        </select>
+      );
+    case 'checkbox':
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked ? true : null)}
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+      );
+    default:
+      return (
+        <Input
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={1000}
+        />
+      );
+  }
+}
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: Record<string, CustomFieldValue | null>;
+  members: PlanMemberUser[];
+  onChange: (values: Record<string, CustomFieldValue | null>) => void;
+}
+
+// One labelled input per custom field of the plan
+export function CustomFieldInputs({ fields, values, members, onChange }: CustomFieldInputsProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field._id}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {field.name}
+          </label>
+          <CustomFieldInput
+            field={field}
+            value={values[field._id]}
+            members={members}
+            onChange={(value) => onChange({ ...values, [field._id]: value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAppStore } from '@/store/appStore';
-import { useTasks } from '@/hooks/useTasks';
+import { useTaskListView } from '@/hooks/useTasks';
 import { Button } from '@/components/ui/Button';
 import { KanbanBoard } from '@/components/views/KanbanBoard';
 import { TableView } from '@/components/views/TableView';
@@ -11,7 +11,7 @@ import { useNavigate } from 'react-router-dom';
 import { apiClient } from '@/lib/api';
 
 export function Dashboard() {
-  const { activeView, selectedPlanId, filters, setSelectedPlanId } = useAppStore();
+  const { activeView, selectedPlanId, setSelectedPlanId } = useAppStore();
   const navigate = useNavigate();
   
   const [showTaskForm, setShowTaskForm] = useState(false);
@@ -40,7 +40,7 @@ export function Dashboard() {
     loadUserPlans();
   }, []); // Only run once on mount
 
-  const { data: tasksData, isLoading, error } = useTasks(selectedPlanId || '', filters);
+  const { tasks, total, paging, isLoading, error } = useTaskListView(selectedPlanId || '');
 
   const handleExportPlan = async () => {
     if (!selectedPlanId) return;
@@ -84,17 +84,15 @@ export function Dashboard() {
       );
     }
 
-    const tasks = tasksData?.data || [];
-
     switch (activeView) {
       case 'board':
-        return <KanbanBoard tasks={tasks} planId={selectedPlanId || ''} />;
+        return <KanbanBoard planId={selectedPlanId || ''} />;
       case 'table':
-        return <TableView tasks={tasks} planId={selectedPlanId || ''} />;
+        return <TableView tasks={tasks} planId={selectedPlanId || ''} paging={paging} />;
       case 'gantt':
-        return <GanttView tasks={tasks} planId={selectedPlanId || ''} />;
+        return <GanttView tasks={tasks} planId={selectedPlanId || ''} paging={paging} />;
       default:
-        return <KanbanBoard tasks={tasks} planId={selectedPlanId || ''} />;
+        return <KanbanBoard planId={selectedPlanId || ''} />;
     }
   };
 
@@ -152,7 +150,7 @@ export function Dashboard() {
               {currentPlan?.name || 'Plan'}
             </h2>
             <p className="text-gray-600">
-              {tasksData?.pagination.total || 0} tasks
+              {total} tasks
               {currentPlan && (
                 <span className="ml-2 text-sm text-gray-500 capitalize">
                   • Role: {currentPlan.role}
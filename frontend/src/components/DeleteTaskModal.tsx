@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { TaskDeleteStrategy } from '@/types';
+import { useTasks } from '@/hooks/useTasks';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { cn } from '@/lib/utils';
+import { Trash2, X, AlertTriangle } from 'lucide-react';
+
+interface DeleteTaskModalProps {
+  taskId: string;
+  taskTitle: string;
+  planId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (strategy: TaskDeleteStrategy) => void;
+  isDeleting?: boolean;
+  error?: string | null;
+}
+
+export function DeleteTaskModal({
+  taskId,
+  taskTitle,
+  planId,
+  isOpen,
+  onClose,
+  onConfirm,
+  isDeleting = false,
+  error
+}: DeleteTaskModalProps) {
+  const [strategy, setStrategy] = useState<Exclude<TaskDeleteStrategy, 'reject'>>('promote');
+  // Ask the server: views only have the pages loaded so far, which may miss subtasks
+  const { data: children, isLoading: isCountingSubtasks } = useTasks(planId, { parent_id: taskId, limit: 1 }, isOpen);
+  const subtaskCount = children?.pagination.total;
+  // Both strategies delete a task without subtasks, so they're offered whenever the count is unknown
+  const hasSubtasks = subtaskCount === undefined || subtaskCount > 0;
+
+  if (!isOpen) return null;
+
+  const options = [
+    {
+      value: 'promote' as const,
+      label: 'Keep subtasks',
+      description: 'Move the subtasks up one level, to this task\'s parent.',
+    },
+    {
+      value: 'cascade' as const,
+      label: 'Delete the subtasks too',
+      description: 'Delete this task and everything nested under it.',
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              <span>Delete Task</span>
+            </CardTitle>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              disabled={isDeleting}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Delete <strong>{taskTitle}</strong>? Its comments are deleted and other tasks stop depending on it. Its activity history is kept.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {hasSubtasks && !isCountingSubtasks && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">
+                {subtaskCount === undefined
+                  ? 'If this task has subtasks, what should happen to them?'
+                  : `This task has ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}. What should happen to ${subtaskCount === 1 ? 'it' : 'them'}?`}
+              </p>
+              {options.map((option) => (
+                <label
+                  key={option.value}
+                  className={cn(
+                    'flex items-start space-x-3 rounded-lg border p-3 cursor-pointer transition-colors',
+                    strategy === option.value ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name="delete-strategy"
+                    value={option.value}
+                    checked={strategy === option.value}
+                    onChange={() => setStrategy(option.value)}
+                    disabled={isDeleting}
+                    className="mt-1 text-red-600 focus:ring-red-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-sm text-gray-600">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <Button
+              onClick={onClose}
+              variant="outline"
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onConfirm(hasSubtasks ? strategy : 'reject')}
+              disabled={isDeleting || isCountingSubtasks}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {isDeleting ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Task
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
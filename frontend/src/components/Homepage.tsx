@@ -5,8 +5,9 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { ImportPlanModal } from '@/components/ImportPlanModal';
-import { FolderPlus, FolderOpen, LogOut, Upload } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { SessionsModal } from '@/components/SessionsModal';
+import { FolderPlus, FolderOpen, LogOut, Upload, MonitorSmartphone } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
 import { apiClient } from '@/lib/api';
 import { useLogout } from '@/hooks/useAuth';
 
@@ -18,6 +19,7 @@ export function Homepage() {
   
   const [showCreatePlanForm, setShowCreatePlanForm] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
   const [newPlanName, setNewPlanName] = useState('');
   const [newPlanDescription, setNewPlanDescription] = useState('');
   const [userPlans, setUserPlans] = useState<Array<{ _id: string; name: string; role: string }>>([]);
@@ -107,12 +109,27 @@ export function Homepage() {
           <div className="flex items-center space-x-4">
             {user && (
               <div className="flex items-center space-x-2">
-                <div className="h-8 w-8 rounded-full bg-primary-500 flex items-center justify-center">
-                  <span className="text-sm font-medium text-white">
-                    {user.name ? user.name[0].toUpperCase() : 'U'}
-                  </span>
-                </div>
-                <span className="text-sm font-medium text-gray-700 hidden sm:inline">{user.name}</span>
+                <Link to="/account" className="flex items-center space-x-2" title="Account">
+                  <div
+                    className="h-8 w-8 rounded-full bg-primary-500 flex items-center justify-center"
+                    style={user.avatar ? { backgroundColor: user.avatar } : undefined}
+                  >
+                    <span className="text-sm font-medium text-white">
+                      {user.name ? user.name[0].toUpperCase() : 'U'}
+                    </span>
+                  </div>
+                  <span className="text-sm font-medium text-gray-700 hidden sm:inline">{user.name}</span>
+                </Link>
+                <Button
+                  onClick={() => setShowSessions(true)}
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center space-x-2"
+                  title="Sessions"
+                >
+                  <MonitorSmartphone className="h-4 w-4" />
+                  <span className="hidden sm:inline">Sessions</span>
+                </Button>
                 <Button 
                   onClick={handleLogout} 
                   variant="ghost" 
@@ -247,6 +264,8 @@ export function Homepage() {
         onClose={() => setShowImportModal(false)}
         onSuccess={handleImportSuccess}
       />
+
+      <SessionsModal isOpen={showSessions} onClose={() => setShowSessions(false)} />
     </div>
   );
 }
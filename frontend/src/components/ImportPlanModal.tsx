@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { ExportPlan } from '@/types';
 import { apiClient } from '@/lib/api';
+import { getPlanStatuses } from '@/lib/statuses';
 import { Upload, FileText, Users, Calendar, CheckCircle, AlertCircle, X } from 'lucide-react';
 
 interface ImportPlanModalProps {
@@ -74,7 +75,9 @@ export function ImportPlanModal({ isOpen, onClose, onSuccess }: ImportPlanModalP
         plan: {
           name: editablePlan.name,
           description: editablePlan.description || undefined,
-          members: editablePlan.members
+          members: editablePlan.members,
+          statuses: planData.plan.statuses,
+          custom_fields: planData.plan.custom_fields
         },
         tasks: planData.tasks.map(task => ({
           title: task.title,
@@ -92,7 +95,8 @@ export function ImportPlanModal({ isOpen, onClose, onSuccess }: ImportPlanModalP
           order_index: task.order_index || 0,
           goal: task.goal || undefined,
           notes: task.notes || undefined,
-          deliverables: task.deliverables || undefined
+          deliverables: task.deliverables || undefined,
+          custom_fields: task.custom_fields
         })),
         export_metadata: {
           exported_at: new Date().toISOString(),
@@ -273,29 +277,28 @@ export function ImportPlanModal({ isOpen, onClose, onSuccess }: ImportPlanModalP
                   </div>
                 )}
 
+                <p className="text-xs text-gray-500">
+                  Task assignees who aren't listed as members and don't have an account yet are invited to the plan as viewers.
+                </p>
+
                 {/* Task Summary */}
                 <div>
                   <h5 className="text-sm font-medium text-gray-700 mb-2">Task Summary</h5>
                   <div className="grid grid-cols-3 gap-4 text-sm">
-                    <div className="text-center">
-                      <div className="text-lg font-medium text-gray-900">
-                        {planData.tasks.filter(t => t.status === 'todo').length}
-                      </div>
-                      <div className="text-gray-500">To Do</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-lg font-medium text-gray-900">
-                        {planData.tasks.filter(t => t.status === 'in_progress').length}
-                      </div>
-                      <div className="text-gray-500">In Progress</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-lg font-medium text-gray-900">
-                        {planData.tasks.filter(t => t.status === 'done').length}
+                    {getPlanStatuses(planData.plan).map(status => (
+                      <div key={status.key} className="text-center">
+                        <div className="text-lg font-medium text-gray-900">
+                          {planData.tasks.filter(t => t.status === status.key).length}
+                        </div>
+                        <div className="text-gray-500">{status.label}</div>
                       </div>
-                      <div className="text-gray-500">Done</div>
-                    </div>
+                    ))}
                   </div>
+                  {planData.plan.custom_fields && planData.plan.custom_fields.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Custom fields: {planData.plan.custom_fields.map(field => field.name).join(', ')}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { PlanMemberUser } from '@/types';
+import { cn, getAvatarInitials, getAvatarColor } from '@/lib/utils';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: PlanMemberUser[];
+  placeholder?: string;
+  rows?: number;
+  onSubmit?: () => void;
+}
+
+// Matches an in-progress "@query" right before the caret
+const MENTION_QUERY_REGEX = /(?:^|\s)@([^@\n]{0,30})$/;
+
+export function MentionTextarea({ value, onChange, members, placeholder, rows = 3, onSubmit }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : members
+        .filter(member => member.name.toLowerCase().includes(query.toLowerCase()))
+        .slice(0, 5);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY_REGEX);
+    setQuery(match ? match[1] : null);
+    setHighlightedIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const insertMention = (member: PlanMemberUser) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null) return;
+
+    const caret = textarea.selectionStart;
+    const start = caret - query.length - 1; // include the "@"
+    const mention = `@${member.name} `;
+    const newValue = value.slice(0, start) + mention + value.slice(caret);
+    onChange(newValue);
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      const position = start + mention.length;
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlightedIndex(index => (index + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlightedIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlightedIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        placeholder={placeholder}
+        rows={rows}
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg py-1">
+          {suggestions.map((member, index) => (
+            <li key={member._id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+                className={cn(
+                  'w-full flex items-center space-x-2 px-3 py-2 text-left text-sm',
+                  index === highlightedIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <div className={cn(
+                  'h-6 w-6 rounded-full flex items-center justify-center text-xs font-medium text-white',
+                  getAvatarColor(member.name)
+                )}>
+                  {getAvatarInitials(member.name)}
+                </div>
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{member.name}</div>
+                  <div className="text-xs text-gray-500 truncate">{member.email}</div>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { CustomField, CustomFieldType, Plan } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { useCreateCustomField, useDeleteCustomField, useUpdateCustomField } from '@/hooks/usePlans';
+import { CUSTOM_FIELD_TYPE_LABELS, isSelectField } from '@/lib/customFields';
+
+interface PlanCustomFieldsEditorProps {
+  plan: Plan;
+  canEdit: boolean;
+  onPlanUpdated: (updatedPlan: Plan) => void;
+}
+
+const inputClassName = 'text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+// Options are typed as a comma separated list
+const parseOptions = (text: string) =>
+  text.split(',').map(option => option.trim()).filter(Boolean);
+
+// The plan's custom task fields; owners can add, rename and remove them
+export function PlanCustomFieldsEditor({ plan, canEdit, onPlanUpdated }: PlanCustomFieldsEditorProps) {
+  const fields = plan.custom_fields || [];
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [optionsText, setOptionsText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editOptionsText, setEditOptionsText] = useState('');
+
+  const createMutation = useCreateCustomField();
+  const updateMutation = useUpdateCustomField();
+  const deleteMutation = useDeleteCustomField();
+  const actionError = createMutation.error || updateMutation.error || deleteMutation.error;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const field = await createMutation.mutateAsync({
+        planId: plan._id,
+        field: { name: name.trim(), type, options: isSelectField(type) ? parseOptions(optionsText) : [] },
+      });
+      onPlanUpdated({ ...plan, custom_fields: [...fields, field] });
+      setName('');
+      setOptionsText('');
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const startEditing = (field: CustomField) => {
+    setEditingId(field._id);
+    setEditName(field.name);
+    setEditOptionsText(field.options.join(', '));
+  };
+
+  const handleUpdate = async (field: CustomField) => {
+    const options = isSelectField(field.type) ? parseOptions(editOptionsText) : undefined;
+    const removedOptions = options ? field.options.filter(option => !options.includes(option)) : [];
+    if (removedOptions.length > 0 &&
+      !window.confirm(`Remove ${removedOptions.join(', ')}? Tasks using ${removedOptions.length === 1 ? 'it' : 'them'} will lose the value.`)) {
+      return;
+    }
+
+    try {
+      const updated = await updateMutation.mutateAsync({
+        planId: plan._id,
+        fieldId: field._id,
+        updates: { name: editName.trim(), options },
+      });
+      onPlanUpdated({ ...plan, custom_fields: fields.map(item => (item._id === updated._id ? updated : item)) });
+      setEditingId(null);
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (!window.confirm(`Delete the "${field.name}" field? Its values are removed from every task.`)) return;
+    try {
+      await deleteMutation.mutateAsync({ planId: plan._id, fieldId: field._id });
+      onPlanUpdated({ ...plan, custom_fields: fields.filter(item => item._id !== field._id) });
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">Custom Fields</h3>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <p className="text-sm text-red-600">{actionError.message}</p>
+        </div>
+      )}
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No custom fields yet.</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {fields.map(field => (
+            <div key={field._id} className="p-3 bg-gray-50 rounded-lg">
+              {editingId === field._id ? (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    maxLength={50}
+                    className={`${inputClassName} w-full`}
+                    aria-label="Field name"
+                  />
+                  {isSelectField(field.type) && (
+                    <input
+                      type="text"
+                      value={editOptionsText}
+                      onChange={(e) => setEditOptionsText(e.target.value)}
+                      placeholder="Options, separated by commas"
+                      className={`${inputClassName} w-full`}
+                      aria-label="Field options"
+                    />
+                  )}
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleUpdate(field)}
+                      isLoading={updateMutation.isPending}
+                      disabled={!editName.trim()}
+                    >
+                      Save
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-sm">{field.name}</span>
+                      <Badge variant="default">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</Badge>
+                    </div>
+                    {field.options.length > 0 && (
+                      <p className="text-xs text-gray-500 truncate">{field.options.join(', ')}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(field)} aria-label="Edit field">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => handleDelete(field)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Delete field"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Field name"
+              maxLength={50}
+              className={`${inputClassName} flex-1 min-w-0`}
+              aria-label="New field name"
+            />
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as CustomFieldType)}
+              className={inputClassName}
+              aria-label="New field type"
+            >
+              {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(fieldType => (
+                <option key={fieldType} value={fieldType}>{CUSTOM_FIELD_TYPE_LABELS[fieldType]}</option>
+              ))}
+            </select>
+          </div>
+          {isSelectField(type) && (
+            <input
+              type="text"
+              value={optionsText}
+              onChange={(e) => setOptionsText(e.target.value)}
+              placeholder="Options, separated by commas"
+              className={`${inputClassName} w-full`}
+              aria-label="New field options"
+            />
+          )}
+          <Button
+            type="submit"
+            variant="ghost"
+            size="sm"
+            isLoading={createMutation.isPending}
+            disabled={!name.trim() || (isSelectField(type) && parseOptions(optionsText).length === 0)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add field
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
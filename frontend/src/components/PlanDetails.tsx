@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAppStore } from '@/store/appStore';
 import { Button } from '@/components/ui/Button';
 import { KanbanBoard } from '@/components/views/KanbanBoard';
@@ -8,15 +8,22 @@ import { GanttView } from '@/components/views/GanttView';
 import { TaskForm } from '@/components/TaskForm';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { PlanSettingsModal } from '@/components/PlanSettingsModal';
+import { RescheduleSummary } from '@/components/RescheduleSummary';
 import { ArrowLeft, Plus, Settings, Edit3 } from 'lucide-react';
 import { apiClient } from '@/lib/api';
-import { useTasks } from '@/hooks/useTasks';
+import { useTaskListView } from '@/hooks/useTasks';
+import { usePlanEvents } from '@/hooks/usePlanEvents';
+import { useSavedViews } from '@/hooks/useSavedViews';
 import { Plan } from '@/types';
 
 export function PlanDetails() {
   const { planId } = useParams<{ planId: string }>();
   const navigate = useNavigate();
-  const { activeView, filters } = useAppStore();
+  const { activeView, setFilters, setRescheduledTasks, applySavedViewState } = useAppStore();
+  const [searchParams] = useSearchParams();
+  const savedViewId = searchParams.get('view');
+  const { data: savedViews } = useSavedViews(planId || '');
+  const appliedViewId = useRef<string | null>(null);
   
   const [plan, setPlan] = useState<Plan | null>(null);
   const [isLoadingPlan, setIsLoadingPlan] = useState(false);
@@ -48,8 +55,32 @@ export function PlanDetails() {
     loadPlan();
   }, [planId]);
 
+  // A summary from another plan's cascade doesn't belong here
+  useEffect(() => {
+    setRescheduledTasks([]);
+  }, [planId, setRescheduledTasks]);
+
+  // Custom fields belong to one plan, so their filters don't carry over
+  useEffect(() => {
+    setFilters({ cf: undefined });
+  }, [planId, setFilters]);
+
+  // Open the saved view named in the URL (e.g. a shared link) once the views have loaded.
+  // Later refetches leave the state alone so unsaved changes aren't lost.
+  useEffect(() => {
+    if (!savedViewId || !savedViews || appliedViewId.current === savedViewId) return;
+    const view = savedViews.find(item => item._id === savedViewId);
+    if (view) {
+      applySavedViewState(view);
+      appliedViewId.current = savedViewId;
+    }
+  }, [savedViewId, savedViews, applySavedViewState]);
+
   // Load tasks for this plan
-  const { data: tasksData, isLoading: isLoadingTasks, error } = useTasks(planId || '', filters);
+  const { tasks, total, paging, isLoading: isLoadingTasks, error } = useTaskListView(planId || '');
+
+  // Keep tasks in sync with teammates editing the same plan
+  usePlanEvents(planId || '');
 
   const handleBackToPlans = () => {
     navigate('/');
@@ -85,17 +116,15 @@ export function PlanDetails() {
       );
     }
 
-    const tasks = tasksData?.data || [];
-
     switch (activeView) {
       case 'board':
-        return <KanbanBoard tasks={tasks} planId={planId || ''} />;
+        return <KanbanBoard planId={planId || ''} />;
       case 'table':
-        return <TableView tasks={tasks} planId={planId || ''} />;
+        return <TableView tasks={tasks} planId={planId || ''} paging={paging} />;
       case 'gantt':
-        return <GanttView tasks={tasks} planId={planId || ''} />;
+        return <GanttView tasks={tasks} planId={planId || ''} paging={paging} />;
       default:
-        return <KanbanBoard tasks={tasks} planId={planId || ''} />;
+        return <KanbanBoard planId={planId || ''} />;
     }
   };
 
@@ -173,7 +202,7 @@ export function PlanDetails() {
 
       {/* Main Content with Sidebar */}
       <div className="flex h-[calc(100vh-73px)]">
-        <Sidebar />
+        <Sidebar planId={planId} />
         <main className="flex-1 overflow-auto min-h-0">
           <div className="p-4 sm:p-6">
             {/* Plan Header with Task Count */}
@@ -184,7 +213,7 @@ export function PlanDetails() {
                     {plan.name}
                   </h2>
                   <p className="text-gray-600">
-                    {tasksData?.pagination.total || 0} tasks
+                    {total} tasks
                   </p>
                 </div>
                 <Button
@@ -199,6 +228,7 @@ export function PlanDetails() {
 
             {/* Active View */}
             <div className="space-y-4">
+              <RescheduleSummary />
               {renderActiveView()}
             </div>
           </div>
@@ -5,8 +5,21 @@ import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { DeletePlanModal } from '@/components/DeletePlanModal';
-import { X, UserPlus, UserMinus, Trash2, Save } from 'lucide-react';
+import { PlanStatusesEditor } from '@/components/PlanStatusesEditor';
+import { PlanCustomFieldsEditor } from '@/components/PlanCustomFieldsEditor';
+import { X, UserPlus, UserMinus, Trash2, Save, Mail, LogOut, ArrowRightLeft } from 'lucide-react';
 import { apiClient } from '@/lib/api';
+import {
+  getPlanMemberUsers,
+  useAddPlanMember,
+  useRemovePlanMember,
+  useUpdatePlanMemberRole,
+  useTransferPlanOwnership,
+  useLeavePlan,
+} from '@/hooks/usePlans';
+import { useCreatePlanInvitation, usePlanInvitations, useRevokePlanInvitation } from '@/hooks/useInvitations';
+import { useAuthStore } from '@/store/authStore';
+import { cn, formatDate, getAvatarInitials, getAvatarColor, isValidEmail, refId } from '@/lib/utils';
 
 interface PlanSettingsModalProps {
   plan: Plan;
@@ -22,9 +35,15 @@ export function PlanSettingsModal({ plan, isOpen, onClose, onPlanUpdated }: Plan
     description: plan.description || '',
   });
   const [newMemberEmail, setNewMemberEmail] = useState('');
-  const [isAddingMember, setIsAddingMember] = useState(false);
+  const [newMemberRole, setNewMemberRole] = useState<'editor' | 'viewer'>('viewer');
+  const [memberError, setMemberError] = useState<string | null>(null);
+  const [unregisteredEmail, setUnregisteredEmail] = useState<string | null>(null);
+  const [inviteSentTo, setInviteSentTo] = useState<string | null>(null);
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [ownershipError, setOwnershipError] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -36,6 +55,35 @@ export function PlanSettingsModal({ plan, isOpen, onClose, onPlanUpdated }: Plan
     }
   }, [isOpen, plan]);
 
+  // Only reset member messages when the modal opens; the plan also changes after every member update
+  useEffect(() => {
+    if (isOpen) {
+      setMemberError(null);
+      setUnregisteredEmail(null);
+      setInviteSentTo(null);
+      setNewOwnerId('');
+      setOwnershipError(null);
+    }
+  }, [isOpen]);
+
+  const { user } = useAuthStore();
+  const addMemberMutation = useAddPlanMember();
+  const removeMemberMutation = useRemovePlanMember();
+  const updateRoleMutation = useUpdatePlanMemberRole();
+
+  const members = getPlanMemberUsers(plan);
+  const owner = members.find(member => member.role === 'owner');
+  const isOwner = !!user && owner?._id === user._id;
+
+  const { data: invitationsData } = usePlanInvitations(plan._id, isOpen && isOwner);
+  const createInvitationMutation = useCreatePlanInvitation();
+  const revokeInvitationMutation = useRevokePlanInvitation();
+  const invitations = invitationsData?.invitations || [];
+
+  const transferOwnershipMutation = useTransferPlanOwnership();
+  const leavePlanMutation = useLeavePlan();
+  const transferCandidates = members.filter(member => member.role !== 'owner');
+
   const handleSave = async () => {
     try {
       const updatedPlan = await apiClient.updatePlan(plan._id, formData);
@@ -46,27 +94,125 @@ export function PlanSettingsModal({ plan, isOpen, onClose, onPlanUpdated }: Plan
     }
   };
 
+  const handleToggleAutoSchedule = async () => {
+    try {
+      setIsSavingSchedule(true);
+      const updatedPlan = await apiClient.updatePlan(plan._id, { auto_schedule: !plan.auto_schedule });
+      onPlanUpdated(updatedPlan);
+    } catch (error) {
+      console.error('Failed to update scheduling:', error);
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
   const handleAddMember = async () => {
-    if (!newMemberEmail.trim()) return;
-    
+    const email = newMemberEmail.trim();
+    if (!email) return;
+    if (!isValidEmail(email)) {
+      setMemberError('Enter a valid email address');
+      return;
+    }
+
     try {
-      setIsAddingMember(true);
-      // Note: This would need to be implemented in the API
-      console.log('Adding member:', newMemberEmail);
+      setMemberError(null);
+      setUnregisteredEmail(null);
+      setInviteSentTo(null);
+      const updatedPlan = await addMemberMutation.mutateAsync({ planId: plan._id, email, role: newMemberRole });
+      onPlanUpdated(updatedPlan);
       setNewMemberEmail('');
     } catch (error) {
-      console.error('Failed to add member:', error);
-    } finally {
-      setIsAddingMember(false);
+      const message = error instanceof Error ? error.message : 'Failed to add member';
+      // People without an account can be invited by email instead
+      if (message.startsWith('No user found')) {
+        setUnregisteredEmail(email);
+      } else {
+        setMemberError(message);
+      }
+    }
+  };
+
+  const handleSendInvitation = async () => {
+    if (!unregisteredEmail) return;
+
+    try {
+      setMemberError(null);
+      await createInvitationMutation.mutateAsync({ planId: plan._id, email: unregisteredEmail, role: newMemberRole });
+      setInviteSentTo(unregisteredEmail);
+      setUnregisteredEmail(null);
+      setNewMemberEmail('');
+    } catch (error) {
+      setMemberError(error instanceof Error ? error.message : 'Failed to send invitation');
+    }
+  };
+
+  const handleRevokeInvitation = async (invitationId: string) => {
+    try {
+      setMemberError(null);
+      await revokeInvitationMutation.mutateAsync({ planId: plan._id, invitationId });
+    } catch (error) {
+      setMemberError(error instanceof Error ? error.message : 'Failed to revoke invitation');
     }
   };
 
-  const handleRemoveMember = async (memberId: string) => {
+  const handleRemoveMember = async (memberId: string, memberName: string) => {
+    if (!window.confirm(`Remove ${memberName} from this plan?`)) return;
+
+    try {
+      setMemberError(null);
+      const updatedPlan = await removeMemberMutation.mutateAsync({ planId: plan._id, userId: memberId });
+      onPlanUpdated(updatedPlan);
+    } catch (error) {
+      setMemberError(error instanceof Error ? error.message : 'Failed to remove member');
+    }
+  };
+
+  const handleChangeRole = async (memberId: string, role: 'editor' | 'viewer') => {
+    // Show the new role right away and roll back if the server rejects it
+    const previousPlan = plan;
+    onPlanUpdated({
+      ...plan,
+      members: plan.members.map(member =>
+        refId(member.user_id) === memberId ? { ...member, role } : member
+      ),
+    });
+
     try {
-      // Note: This would need to be implemented in the API
-      console.log('Removing member:', memberId);
+      setMemberError(null);
+      const updatedPlan = await updateRoleMutation.mutateAsync({ planId: plan._id, userId: memberId, role });
+      onPlanUpdated(updatedPlan);
+    } catch (error) {
+      onPlanUpdated(previousPlan);
+      setMemberError(error instanceof Error ? error.message : 'Failed to change role');
+    }
+  };
+
+  const handleTransferOwnership = async () => {
+    const newOwner = transferCandidates.find(member => member._id === newOwnerId);
+    if (!newOwner) return;
+    if (!window.confirm(`Make ${newOwner.name} the owner of "${plan.name}"? You will become an editor.`)) return;
+
+    try {
+      setOwnershipError(null);
+      const updatedPlan = await transferOwnershipMutation.mutateAsync({ planId: plan._id, userId: newOwner._id });
+      onPlanUpdated(updatedPlan);
+      setNewOwnerId('');
     } catch (error) {
-      console.error('Failed to remove member:', error);
+      setOwnershipError(error instanceof Error ? error.message : 'Failed to transfer ownership');
+    }
+  };
+
+  const handleLeavePlan = async () => {
+    if (!window.confirm(`Leave "${plan.name}"? You will lose access until someone adds you again.`)) return;
+
+    try {
+      setOwnershipError(null);
+      await leavePlanMutation.mutateAsync(plan._id);
+      onClose();
+      // Navigate back to homepage
+      window.location.href = '/';
+    } catch (error) {
+      setOwnershipError(error instanceof Error ? error.message : 'Failed to leave plan');
     }
   };
 
@@ -162,88 +308,251 @@ export function PlanSettingsModal({ plan, isOpen, onClose, onPlanUpdated }: Plan
               )}
             </div>
 
+            {/* Scheduling */}
+            <div>
+              <h3 className="text-lg font-medium mb-4">Scheduling</h3>
+              <label className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={!!plan.auto_schedule}
+                  onChange={handleToggleAutoSchedule}
+                  disabled={isSavingSchedule}
+                  className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">Auto-schedule dependent tasks</span>
+                  <span className="block text-sm text-gray-600">
+                    When a task's dates change, tasks that depend on it keep their duration and are pushed to start after it.
+                  </span>
+                </span>
+              </label>
+            </div>
+
+            {/* Statuses */}
+            <PlanStatusesEditor plan={plan} canEdit={isOwner} onPlanUpdated={onPlanUpdated} />
+
+            {/* Custom fields */}
+            <PlanCustomFieldsEditor plan={plan} canEdit={isOwner} onPlanUpdated={onPlanUpdated} />
+
             {/* Members */}
             <div>
               <h3 className="text-lg font-medium mb-4">Members</h3>
               
               {/* Add Member */}
-              <div className="flex space-x-2 mb-4">
-                <div className="flex-1">
-                  <Input
-                    placeholder="Enter email address"
-                    value={newMemberEmail}
-                    onChange={(e) => setNewMemberEmail(e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && handleAddMember()}
-                  />
+              {isOwner && (
+                <div className="flex space-x-2 mb-4">
+                  <div className="flex-1">
+                    <Input
+                      type="email"
+                      placeholder="Enter email address"
+                      value={newMemberEmail}
+                      onChange={(e) => setNewMemberEmail(e.target.value)}
+                      onKeyPress={(e) => e.key === 'Enter' && handleAddMember()}
+                    />
+                  </div>
+                  <select
+                    value={newMemberRole}
+                    onChange={(e) => setNewMemberRole(e.target.value as 'editor' | 'viewer')}
+                    className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="viewer">Viewer</option>
+                    <option value="editor">Editor</option>
+                  </select>
+                  <Button
+                    onClick={handleAddMember}
+                    disabled={!newMemberEmail.trim()}
+                    isLoading={addMemberMutation.isPending}
+                    size="sm"
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
                 </div>
-                <Button
-                  onClick={handleAddMember}
-                  disabled={!newMemberEmail.trim() || isAddingMember}
-                  size="sm"
-                >
-                  <UserPlus className="h-4 w-4 mr-2" />
-                  Add
-                </Button>
-              </div>
+              )}
 
-              {/* Members List */}
-              <div className="space-y-2">
-                {/* Owner */}
-                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <div className="h-8 w-8 rounded-full bg-primary-500 flex items-center justify-center">
-                      <span className="text-sm font-medium text-white">O</span>
-                    </div>
-                    <div>
-                      <p className="font-medium">Owner</p>
-                      <p className="text-sm text-gray-600">You</p>
-                    </div>
-                  </div>
-                  <Badge variant="default">Owner</Badge>
+              {memberError && (
+                <p className="text-sm text-red-600 mb-4">{memberError}</p>
+              )}
+
+              {unregisteredEmail && (
+                <div className="flex items-center justify-between p-3 mb-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-gray-700">
+                    {unregisteredEmail} doesn't have an account yet.
+                  </p>
+                  <Button
+                    onClick={handleSendInvitation}
+                    isLoading={createInvitationMutation.isPending}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <Mail className="h-4 w-4 mr-2" />
+                    Send invitation
+                  </Button>
                 </div>
+              )}
 
-                {/* Other Members */}
-                {plan.members.map((member) => (
-                  <div key={member.user_id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              {inviteSentTo && (
+                <p className="text-sm text-green-700 mb-4">Invitation sent to {inviteSentTo}.</p>
+              )}
+
+              {/* Members List */}
+              <div className="space-y-2">
+                {members.map((member) => (
+                  <div key={member._id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                     <div className="flex items-center space-x-2">
-                      <div className="h-8 w-8 rounded-full bg-gray-400 flex items-center justify-center">
-                        <span className="text-sm font-medium text-white">M</span>
+                      <div className={cn(
+                        'h-8 w-8 rounded-full flex items-center justify-center',
+                        getAvatarColor(member.name)
+                      )}>
+                        <span className="text-sm font-medium text-white">{getAvatarInitials(member.name)}</span>
                       </div>
                       <div>
-                        <p className="font-medium">Member</p>
-                        <p className="text-sm text-gray-600">user@example.com</p>
+                        <p className="font-medium">
+                          {member.name}
+                          {member._id === user?._id && <span className="ml-1 text-sm font-normal text-gray-500">(you)</span>}
+                        </p>
+                        <p className="text-sm text-gray-600">{member.email}</p>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Badge variant="outline" className="capitalize">{member.role}</Badge>
-                      <Button
-                        onClick={() => handleRemoveMember(member.user_id)}
-                        variant="ghost"
-                        size="sm"
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <UserMinus className="h-4 w-4" />
-                      </Button>
+                      {member.role === 'owner' ? (
+                        <Badge variant="default">Owner</Badge>
+                      ) : isOwner ? (
+                        <>
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleChangeRole(member._id, e.target.value as 'editor' | 'viewer')}
+                            className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                            aria-label={`Role for ${member.name}`}
+                          >
+                            <option value="viewer">Viewer</option>
+                            <option value="editor">Editor</option>
+                          </select>
+                          <Button
+                            onClick={() => handleRemoveMember(member._id, member.name)}
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                            disabled={removeMemberMutation.isPending}
+                            aria-label={`Remove ${member.name}`}
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
+
+              {/* Pending Invitations */}
+              {isOwner && invitations.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Pending invitations</h4>
+                  <div className="space-y-2">
+                    {invitations.map((invitation) => (
+                      <div key={invitation._id} className="flex items-center justify-between p-3 border border-dashed border-gray-300 rounded-lg">
+                        <div className="flex items-center space-x-2">
+                          <Mail className="h-4 w-4 text-gray-400" />
+                          <div>
+                            <p className="text-sm font-medium">{invitation.email}</p>
+                            <p className="text-xs text-gray-500">
+                              <span className="capitalize">{invitation.role}</span> · expires {formatDate(invitation.expires_at)}
+                            </p>
+                          </div>
+                        </div>
+                        <Button
+                          onClick={() => handleRevokeInvitation(invitation._id)}
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={revokeInvitationMutation.isPending}
+                          aria-label={`Revoke invitation for ${invitation.email}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Danger Zone */}
             <div className="border-t pt-6">
               <h3 className="text-lg font-medium text-red-600 mb-4">Danger Zone</h3>
-              <Button
-                onClick={() => setShowDeleteModal(true)}
-                variant="outline"
-                className="border-red-300 text-red-600 hover:bg-red-50"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete Plan
-              </Button>
-              <p className="text-sm text-gray-600 mt-2">
-                This action cannot be undone. All tasks and data will be permanently deleted.
-              </p>
+
+              {ownershipError && (
+                <p className="text-sm text-red-600 mb-4">{ownershipError}</p>
+              )}
+
+              {isOwner ? (
+                <div className="space-y-6">
+                  <div>
+                    <div className="flex space-x-2">
+                      <select
+                        value={newOwnerId}
+                        onChange={(e) => setNewOwnerId(e.target.value)}
+                        disabled={transferCandidates.length === 0}
+                        className="flex-1 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        aria-label="New owner"
+                      >
+                        <option value="">Select a member…</option>
+                        {transferCandidates.map(member => (
+                          <option key={member._id} value={member._id}>
+                            {member.name} ({member.email})
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        onClick={handleTransferOwnership}
+                        variant="outline"
+                        disabled={!newOwnerId}
+                        isLoading={transferOwnershipMutation.isPending}
+                      >
+                        <ArrowRightLeft className="h-4 w-4 mr-2" />
+                        Transfer Ownership
+                      </Button>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-2">
+                      {transferCandidates.length === 0
+                        ? 'Add a member before transferring ownership.'
+                        : 'The new owner must already be a member. You will stay on as an editor.'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <Button
+                      onClick={() => setShowDeleteModal(true)}
+                      variant="outline"
+                      className="border-red-300 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Plan
+                    </Button>
+                    <p className="text-sm text-gray-600 mt-2">
+                      This action cannot be undone. All tasks and data will be permanently deleted.
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <Button
+                    onClick={handleLeavePlan}
+                    variant="outline"
+                    className="border-red-300 text-red-600 hover:bg-red-50"
+                    isLoading={leavePlanMutation.isPending}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Leave Plan
+                  </Button>
+                  <p className="text-sm text-gray-600 mt-2">
+                    You will lose access to this plan until an owner adds you again.
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
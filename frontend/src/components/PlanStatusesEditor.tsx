@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { Plan, PlanStatus, StatusCategory } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { useUpdatePlanStatuses } from '@/hooks/usePlans';
+import { STATUS_CATEGORY_LABELS, getPlanStatuses, toStatusKey } from '@/lib/statuses';
+
+interface PlanStatusesEditorProps {
+  plan: Plan;
+  canEdit: boolean;
+  onPlanUpdated: (updatedPlan: Plan) => void;
+}
+
+// A status being edited; new ones get their key from the label when saved
+interface DraftStatus extends Omit<PlanStatus, 'key'> {
+  id: string;
+  key?: string;
+}
+
+const NEW_STATUS_COLOR = '#a855f7';
+
+const toDrafts = (statuses: PlanStatus[]): DraftStatus[] =>
+  statuses.map(status => ({ ...status, id: status.key }));
+
+// Keys of new statuses must not clash with each other or with any current key,
+// so a removed status re-added under the same name is still a removal
+function assignKeys(drafts: DraftStatus[], currentKeys: string[]): PlanStatus[] {
+  const used = new Set(currentKeys);
+  return drafts.map(draft => {
+    if (draft.key) return { key: draft.key, label: draft.label.trim(), color: draft.color, category: draft.category };
+
+    const base = toStatusKey(draft.label) || 'status';
+    let key = base;
+    for (let suffix = 2; used.has(key); suffix++) {
+      key = `${base.slice(0, 27)}_${suffix}`;
+    }
+    used.add(key);
+    return { key, label: draft.label.trim(), color: draft.color, category: draft.category };
+  });
+}
+
+// The plan's workflow statuses; owners can rename, recolor, reorder, add and remove them
+export function PlanStatusesEditor({ plan, canEdit, onPlanUpdated }: PlanStatusesEditorProps) {
+  const statuses = getPlanStatuses(plan);
+  const [isEditing, setIsEditing] = useState(false);
+  const [drafts, setDrafts] = useState<DraftStatus[]>(() => toDrafts(statuses));
+  const [remap, setRemap] = useState<Record<string, string>>({});
+  const [newCount, setNewCount] = useState(0);
+  const updateStatusesMutation = useUpdatePlanStatuses();
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDrafts(toDrafts(getPlanStatuses(plan)));
+      setRemap({});
+    }
+  }, [plan, isEditing]);
+
+  const removed = statuses.filter(status => !drafts.some(draft => draft.key === status.key));
+  const hasEmptyLabel = drafts.some(draft => !draft.label.trim());
+
+  // Tasks in a removed status move to the chosen status, or the first one of the same category
+  const getRemapTarget = (status: PlanStatus) => {
+    const chosen = remap[status.key];
+    if (chosen && drafts.some(draft => draft.id === chosen)) return chosen;
+    return (drafts.find(draft => draft.category === status.category) ?? drafts[0]).id;
+  };
+
+  const updateDraft = (id: string, changes: Partial<DraftStatus>) => {
+    setDrafts(prev => prev.map(draft => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const addDraft = () => {
+    setDrafts(prev => [...prev, { id: `new-${newCount}`, label: '', color: NEW_STATUS_COLOR, category: 'active' }]);
+    setNewCount(count => count + 1);
+  };
+
+  const handleSave = async () => {
+    const nextStatuses = assignKeys(drafts, statuses.map(status => status.key));
+    const keyById = new Map(drafts.map((draft, index) => [draft.id, nextStatuses[index].key]));
+
+    const remapKeys: Record<string, string> = {};
+    removed.forEach(status => {
+      remapKeys[status.key] = keyById.get(getRemapTarget(status))!;
+    });
+
+    try {
+      const updatedPlan = await updateStatusesMutation.mutateAsync({
+        planId: plan._id,
+        statuses: nextStatuses,
+        remap: remapKeys,
+      });
+      onPlanUpdated(updatedPlan);
+      setIsEditing(false);
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium">Statuses</h3>
+          {canEdit && (
+            <Button onClick={() => setIsEditing(true)} variant="outline" size="sm">
+              Edit
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {statuses.map(status => (
+            <StatusBadge key={status.key} status={status.key} statuses={statuses} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">Statuses</h3>
+
+      {updateStatusesMutation.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <p className="text-sm text-red-600">{updateStatusesMutation.error.message}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {drafts.map((draft, index) => (
+          <div key={draft.id} className="flex items-center space-x-2 p-2 bg-gray-50 rounded-lg">
+            <input
+              type="color"
+              value={draft.color}
+              onChange={(e) => updateDraft(draft.id, { color: e.target.value })}
+              className="h-8 w-10 cursor-pointer rounded border border-gray-300 flex-shrink-0"
+              aria-label="Status color"
+            />
+            <input
+              type="text"
+              value={draft.label}
+              onChange={(e) => updateDraft(draft.id, { label: e.target.value })}
+              placeholder="Status name"
+              maxLength={50}
+              className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            />
+            <select
+              value={draft.category}
+              onChange={(e) => updateDraft(draft.id, { category: e.target.value as StatusCategory })}
+              className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              aria-label="Status category"
+            >
+              {(Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                <option key={category} value={category}>{STATUS_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveDraft(index, -1)}
+              disabled={index === 0}
+              aria-label="Move up"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveDraft(index, 1)}
+              disabled={index === drafts.length - 1}
+              aria-label="Move down"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => setDrafts(prev => prev.filter(item => item.id !== draft.id))}
+              disabled={drafts.length === 1}
+              aria-label="Remove status"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={addDraft} className="mt-2" disabled={drafts.length >= 20}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add status
+      </Button>
+
+      {removed.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">Tasks in removed statuses</h4>
+          {removed.map(status => (
+            <label key={status.key} className="flex items-center justify-between text-sm text-gray-700">
+              <span>Move tasks in "{status.label}" to</span>
+              <select
+                value={getRemapTarget(status)}
+                onChange={(e) => setRemap(prev => ({ ...prev, [status.key]: e.target.value }))}
+                className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              >
+                {drafts.map(draft => (
+                  <option key={draft.id} value={draft.id}>{draft.label.trim() || 'Untitled status'}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-2 mt-4">
+        <Button
+          onClick={handleSave}
+          size="sm"
+          isLoading={updateStatusesMutation.isPending}
+          disabled={hasEmptyLabel}
+        >
+          Save Statuses
+        </Button>
+        <Button
+          onClick={() => {
+            updateStatusesMutation.reset();
+            setIsEditing(false);
+          }}
+          variant="outline"
+          size="sm"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, KeyRound, MonitorSmartphone } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { useCurrentUser, useDeleteAccount, useUpdateProfile } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { SessionsModal } from '@/components/SessionsModal';
+import { ApiTokensCard } from '@/components/ApiTokensCard';
+
+const DEFAULT_AVATAR = '#3b82f6';
+
+// <input type="color"> only takes #rrggbb; older avatars may be shorter
+function toColorInputValue(avatar?: string): string {
+  if (avatar && /^#[0-9a-fA-F]{6}$/.test(avatar)) return avatar.toLowerCase();
+  if (avatar && /^#[0-9a-fA-F]{3}$/.test(avatar)) {
+    return `#${avatar.slice(1).split('').map(c => c + c).join('')}`.toLowerCase();
+  }
+  return DEFAULT_AVATAR;
+}
+
+export function ProfilePage() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { data: currentUser } = useCurrentUser();
+  const profileMutation = useUpdateProfile();
+  const emailMutation = useUpdateProfile();
+  const deleteMutation = useDeleteAccount();
+
+  const [name, setName] = useState(user?.name || '');
+  const [avatar, setAvatar] = useState(toColorInputValue(user?.avatar));
+  const [email, setEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [deletePassword, setDeletePassword] = useState('');
+  const [showSessions, setShowSessions] = useState(false);
+
+  useEffect(() => {
+    setName(user?.name || '');
+    setAvatar(toColorInputValue(user?.avatar));
+  }, [user?.name, user?.avatar]);
+
+  if (!user) return null;
+
+  const ownedPlans = (currentUser?.plans || []).filter(plan => plan.role === 'owner');
+  const profileChanged = name.trim() !== user.name || avatar !== toColorInputValue(user.avatar);
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await profileMutation.mutateAsync({ name: name.trim(), avatar });
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await emailMutation.mutateAsync({ email: email.trim(), current_password: emailPassword });
+      setEmail('');
+      setEmailPassword('');
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const handleCancelEmailChange = () => {
+    emailMutation.mutate({ email: user.email });
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm('Delete your account? This cannot be undone.')) return;
+    try {
+      await deleteMutation.mutateAsync(deletePassword);
+      navigate('/login', { replace: true });
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-4 sm:px-6 py-4">
+        <div className="flex items-center space-x-4">
+          <Link to="/" className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to plans</span>
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">Account</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleProfileSubmit} className="space-y-4">
+              {profileMutation.error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-sm text-red-600">{profileMutation.error.message}</p>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-4">
+                <div
+                  className="h-12 w-12 rounded-full flex items-center justify-center flex-shrink-0"
+                  style={{ backgroundColor: avatar }}
+                >
+                  <span className="text-lg font-medium text-white">
+                    {name.trim() ? name.trim()[0].toUpperCase() : 'U'}
+                  </span>
+                </div>
+                <label className="text-sm text-gray-700 flex items-center space-x-2">
+                  <span>Avatar color</span>
+                  <input
+                    type="color"
+                    value={avatar}
+                    onChange={(e) => setAvatar(e.target.value)}
+                    className="h-8 w-12 cursor-pointer rounded border border-gray-300"
+                  />
+                </label>
+              </div>
+
+              <Input
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                maxLength={100}
+              />
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  isLoading={profileMutation.isPending}
+                  disabled={!name.trim() || !profileChanged}
+                >
+                  Save Profile
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleEmailSubmit} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                You sign in with <span className="font-medium text-gray-900">{user.email}</span>.
+              </p>
+
+              {user.pending_email && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 flex items-center justify-between">
+                  <p className="text-sm text-yellow-800">
+                    Waiting for confirmation from <span className="font-medium">{user.pending_email}</span>.
+                  </p>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleCancelEmailChange}
+                    disabled={emailMutation.isPending}
+                  >
+                    Cancel change
+                  </Button>
+                </div>
+              )}
+
+              {emailMutation.isSuccess && !emailMutation.isPending && (
+                <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                  <p className="text-sm text-green-700">{emailMutation.data.message}</p>
+                </div>
+              )}
+
+              {emailMutation.error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-sm text-red-600">{emailMutation.error.message}</p>
+                </div>
+              )}
+
+              <Input
+                label="New Email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Enter a new email address"
+                helperText="We'll send a confirmation link there. Your email changes once it's used."
+              />
+
+              <Input
+                label="Current Password"
+                type="password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                placeholder="Confirm with your password"
+              />
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  isLoading={emailMutation.isPending}
+                  disabled={!email.trim() || !emailPassword}
+                >
+                  Change Email
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Security</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => navigate('/account/password')} className="flex items-center space-x-2">
+              <KeyRound className="h-4 w-4" />
+              <span>Change password</span>
+            </Button>
+            <Button variant="outline" onClick={() => setShowSessions(true)} className="flex items-center space-x-2">
+              <MonitorSmartphone className="h-4 w-4" />
+              <span>Sessions</span>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <ApiTokensCard plans={currentUser?.plans || []} />
+
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="text-red-700">Delete Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleDelete} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                You'll be removed from every plan you're a member of and unassigned from their tasks. Your comments stay, without your name.
+              </p>
+
+              {ownedPlans.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 space-y-1">
+                  <p className="text-sm text-yellow-800">
+                    Transfer ownership of these plans or delete them first:
+                  </p>
+                  <ul className="list-disc list-inside text-sm">
+                    {ownedPlans.map(plan => (
+                      <li key={plan._id}>
+                        <Link
+                          to={`/plans/${plan._id}`}
+                          className="text-primary-600 hover:text-primary-700 font-medium"
+                        >
+                          {plan.name}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {deleteMutation.error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-sm text-red-600">{deleteMutation.error.message}</p>
+                </div>
+              )}
+
+              <Input
+                label="Password"
+                type="password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                placeholder="Confirm with your password"
+              />
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  variant="danger"
+                  isLoading={deleteMutation.isPending}
+                  disabled={!deletePassword || ownedPlans.length > 0}
+                >
+                  Delete Account
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+
+      <SessionsModal isOpen={showSessions} onClose={() => setShowSessions(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useAppStore } from '@/store/appStore';
+import { formatDateShort } from '@/lib/utils';
+import { CalendarClock, X } from 'lucide-react';
+
+function formatRange(start: string | null, due: string | null): string {
+  if (start && due) return `${formatDateShort(start)} – ${formatDateShort(due)}`;
+  if (due) return `due ${formatDateShort(due)}`;
+  return start ? `from ${formatDateShort(start)}` : '';
+}
+
+// Summary of dependent tasks pushed forward by the plan's auto-schedule mode
+export function RescheduleSummary() {
+  const { rescheduledTasks, setRescheduledTasks } = useAppStore();
+
+  if (rescheduledTasks.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          <CalendarClock className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-amber-900">
+              Auto-schedule moved {rescheduledTasks.length} dependent task{rescheduledTasks.length === 1 ? '' : 's'}
+            </p>
+            <ul className="mt-1 space-y-0.5 text-sm text-amber-800">
+              {rescheduledTasks.map((task) => (
+                <li key={task.task_id}>
+                  <span className="font-medium">{task.title}</span>
+                  {': '}
+                  <span className="line-through text-amber-600">
+                    {formatRange(task.previous_start_date, task.previous_due_date)}
+                  </span>
+                  {' → '}
+                  {formatRange(task.start_date, task.due_date)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <button
+          onClick={() => setRescheduledTasks([])}
+          className="text-amber-600 hover:text-amber-800 transition-colors"
+          aria-label="Dismiss"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useNavigate } from 'react-router-dom';
+import { X, Laptop, MonitorSmartphone } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { useRevokeOtherSessions, useRevokeSession, useSessions } from '@/hooks/useAuth';
+import { formatDate } from '@/lib/utils';
+
+interface SessionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// "Firefox on macOS" style label from a user agent string
+function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 40);
+}
+
+function formatDateTime(date: string): string {
+  return `${formatDate(date)}, ${new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+export function SessionsModal({ isOpen, onClose }: SessionsModalProps) {
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useSessions(isOpen);
+  const revokeSessionMutation = useRevokeSession();
+  const revokeOthersMutation = useRevokeOtherSessions();
+
+  if (!isOpen) return null;
+
+  const sessions = data?.sessions || [];
+  const hasOtherSessions = sessions.some(session => !session.current);
+  const actionError = revokeSessionMutation.error || revokeOthersMutation.error;
+
+  const handleRevoke = (sessionId: string, current: boolean) => {
+    if (current && !window.confirm('Sign out of this browser?')) return;
+    revokeSessionMutation.mutate({ sessionId, current });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Sessions</CardTitle>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Browsers and devices signed in to your account. A signed-out session loses access within 15 minutes, when its current login expires.
+          </p>
+
+          {(error || actionError) && (
+            <p className="text-sm text-red-600">{(error || actionError)!.message}</p>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map(session => (
+                <div key={session._id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    {session.current ? (
+                      <Laptop className="h-5 w-5 text-primary-600 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <MonitorSmartphone className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm flex items-center space-x-2">
+                        <span className="truncate">{describeUserAgent(session.user_agent)}</span>
+                        {session.current && <Badge variant="outline">This browser</Badge>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {session.ip && <>{session.ip} · </>}
+                        Signed in {formatDate(session.started_at)} · Last active {formatDateTime(session.last_used_at)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 flex-shrink-0"
+                    onClick={() => handleRevoke(session._id, session.current)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Sign out
+                  </Button>
+                </div>
+              ))}
+              {sessions.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No active sessions</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="ghost" onClick={() => navigate('/account/password')}>
+              Change password
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={!hasOtherSessions}
+              isLoading={revokeOthersMutation.isPending}
+            >
+              Sign out all other sessions
+            </Button>
+            <Button variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { PlanStatus, TaskActivity, TaskFieldChange } from '@/types';
+import { useTaskActivity } from '@/hooks/useTasks';
+import { usePlanStatuses } from '@/hooks/usePlans';
+import { cn, getAvatarInitials, getAvatarColor, getStatusLabel, getPriorityLabel } from '@/lib/utils';
+import { findStatus } from '@/lib/statuses';
+import { History } from 'lucide-react';
+
+interface TaskActivityTimelineProps {
+  taskId: string;
+  planId: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  assignee_ids: 'assignees',
+  start_date: 'start date',
+  due_date: 'due date',
+  progress_pct: 'progress',
+  parent_id: 'parent task',
+  dependency_ids: 'dependencies',
+  tags: 'tags',
+  estimate_hours: 'estimate',
+  order_index: 'position',
+  goal: 'goal',
+  notes: 'notes',
+  deliverables: 'deliverables',
+  custom_fields: 'custom fields',
+};
+
+// Fields whose values are long text or ids; only mention that they changed
+const summaryOnlyFields = ['description', 'notes', 'goal', 'deliverables', 'assignee_ids', 'dependency_ids', 'parent_id', 'custom_fields'];
+
+function formatValue(field: string, value: unknown, statuses: PlanStatus[]): string {
+  if (value === undefined || value === null || value === '') return 'none';
+  // Removed statuses are no longer in the plan; fall back to the key
+  if (field === 'status') return findStatus(statuses, String(value))?.label ?? getStatusLabel(String(value));
+  if (field === 'priority') return getPriorityLabel(String(value));
+  if (field === 'progress_pct') return `${value}%`;
+  if (field === 'estimate_hours') return `${value}h`;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+}
+
+function describeChange(change: TaskFieldChange, statuses: PlanStatus[]): string {
+  const label = fieldLabels[change.field] || change.field;
+  if (summaryOnlyFields.includes(change.field)) {
+    return `changed ${label}`;
+  }
+  return `changed ${label} from ${formatValue(change.field, change.before, statuses)} to ${formatValue(change.field, change.after, statuses)}`;
+}
+
+function describeActivity(entry: TaskActivity, statuses: PlanStatus[]): string[] {
+  switch (entry.action) {
+    case 'create':
+      return ['created this task'];
+    case 'delete':
+      return ['deleted this task'];
+    case 'reorder':
+      return ['moved this task within its column'];
+    case 'update':
+      return entry.changes.map(change => describeChange(change, statuses));
+    default:
+      return [];
+  }
+}
+
+function formatTimestamp(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function TaskActivityTimeline({ taskId, planId }: TaskActivityTimelineProps) {
+  const { data, isLoading, error } = useTaskActivity(taskId, planId);
+  const { statuses } = usePlanStatuses(planId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-red-500 text-sm text-center py-8">
+        Error loading activity: {error.message}
+      </div>
+    );
+  }
+
+  const activity = data?.data || [];
+
+  if (activity.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="mx-auto h-8 w-8 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-500">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+      {activity.map((entry) => {
+        const actorName = entry.actor_id?.name || 'Unknown user';
+        return (
+          <li key={entry._id} className="ml-6">
+            <span className={cn(
+              'absolute -left-3 h-6 w-6 rounded-full flex items-center justify-center text-xs font-medium text-white ring-4 ring-white',
+              getAvatarColor(actorName)
+            )}>
+              {getAvatarInitials(actorName)}
+            </span>
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm font-medium text-gray-900">{actorName}</span>
+              <time className="text-xs text-gray-500">{formatTimestamp(entry.created_at)}</time>
+            </div>
+            <ul className="mt-1 space-y-0.5">
+              {describeActivity(entry, statuses).map((line, index) => (
+                <li key={index} className="text-sm text-gray-600">
+                  {line}
+                </li>
+              ))}
+            </ul>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
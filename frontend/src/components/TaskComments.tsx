@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { Comment, PlanMemberUser } from '@/types';
+import { useComments, useCreateComment, useUpdateComment, useDeleteComment } from '@/hooks/useComments';
+import { usePlanMembers } from '@/hooks/usePlans';
+import { useAuthStore } from '@/store/authStore';
+import { MentionTextarea } from '@/components/MentionTextarea';
+import { Button } from '@/components/ui/Button';
+import { cn, getAvatarInitials, getAvatarColor } from '@/lib/utils';
+import { MessageSquare, Reply, Pencil, Trash2 } from 'lucide-react';
+
+interface TaskCommentsProps {
+  taskId: string;
+  planId: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Highlight resolved @mentions in a comment body
+function renderBody(comment: Comment): React.ReactNode {
+  const names = comment.mention_ids.map(user => user.name).filter(Boolean);
+  if (names.length === 0) return comment.body;
+
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join('|')}))`, 'gi');
+  return comment.body.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={index} className="font-medium text-primary-700 bg-primary-50 rounded px-0.5">
+        {part}
+      </span>
+    ) : (
+      part
+    )
+  );
+}
+
+function formatTimestamp(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+interface CommentComposerProps {
+  members: PlanMemberUser[];
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({ members, initialValue = '', placeholder, submitLabel, isSubmitting, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState(initialValue);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch (error) {
+      console.error('Failed to save comment:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={body}
+        onChange={setBody}
+        members={members}
+        placeholder={placeholder}
+        rows={2}
+        onSubmit={handleSubmit}
+      />
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleSubmit}
+          isLoading={isSubmitting}
+          disabled={!body.trim()}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TaskComments({ taskId, planId }: TaskCommentsProps) {
+  const { user } = useAuthStore();
+  const { data, isLoading, error } = useComments(taskId, planId);
+  const { members } = usePlanMembers(planId);
+  const createCommentMutation = useCreateComment();
+  const updateCommentMutation = useUpdateComment();
+  const deleteCommentMutation = useDeleteComment();
+
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const comments = data?.comments || [];
+  const topLevel = comments.filter(comment => !comment.parent_id);
+  const repliesByParent = comments.reduce((groups, comment) => {
+    if (comment.parent_id) {
+      groups[comment.parent_id] = groups[comment.parent_id] || [];
+      groups[comment.parent_id].push(comment);
+    }
+    return groups;
+  }, {} as Record<string, Comment[]>);
+
+  const handleCreate = async (body: string, parentId?: string) => {
+    await createCommentMutation.mutateAsync({ taskId, planId, data: { body, parent_id: parentId } });
+    setReplyingTo(null);
+  };
+
+  const handleUpdate = async (commentId: string, body: string) => {
+    await updateCommentMutation.mutateAsync({ taskId, planId, commentId, body });
+    setEditingId(null);
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await deleteCommentMutation.mutateAsync({ taskId, planId, commentId });
+    } catch (error) {
+      console.error('Failed to delete comment:', error);
+    }
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => {
+    const authorName = comment.author_id?.name || 'Unknown user';
+    const isAuthor = !!user && comment.author_id?._id === user._id;
+
+    return (
+      <div key={comment._id} className={cn('flex space-x-3', isReply && 'ml-9')}>
+        <div className={cn(
+          'h-6 w-6 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-medium text-white',
+          comment.is_deleted ? 'bg-gray-300' : getAvatarColor(authorName)
+        )}>
+          {comment.is_deleted ? '?' : getAvatarInitials(authorName)}
+        </div>
+        <div className="flex-1 min-w-0">
+          {comment.is_deleted ? (
+            <p className="text-sm italic text-gray-400">This comment was deleted</p>
+          ) : (
+            <>
+              <div className="flex items-baseline space-x-2">
+                <span className="text-sm font-medium text-gray-900">{authorName}</span>
+                <time className="text-xs text-gray-500">{formatTimestamp(comment.created_at)}</time>
+                {comment.edited_at && <span className="text-xs text-gray-400">(edited)</span>}
+              </div>
+              {editingId === comment._id ? (
+                <div className="mt-1">
+                  <CommentComposer
+                    members={members}
+                    initialValue={comment.body}
+                    placeholder="Edit comment"
+                    submitLabel="Save"
+                    isSubmitting={updateCommentMutation.isPending}
+                    onSubmit={(body) => handleUpdate(comment._id, body)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{renderBody(comment)}</p>
+              )}
+              {editingId !== comment._id && (
+                <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+                  {!isReply && (
+                    <button
+                      onClick={() => setReplyingTo(comment._id)}
+                      className="flex items-center space-x-1 hover:text-gray-700"
+                    >
+                      <Reply className="h-3 w-3" />
+                      <span>Reply</span>
+                    </button>
+                  )}
+                  {isAuthor && (
+                    <>
+                      <button
+                        onClick={() => setEditingId(comment._id)}
+                        className="flex items-center space-x-1 hover:text-gray-700"
+                      >
+                        <Pencil className="h-3 w-3" />
+                        <span>Edit</span>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(comment._id)}
+                        className="flex items-center space-x-1 hover:text-red-600"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        <span>Delete</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-red-500 text-sm text-center py-8">
+        Error loading comments: {error.message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {topLevel.length === 0 ? (
+        <div className="text-center py-6">
+          <MessageSquare className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No comments yet. Start the discussion below.</p>
+        </div>
+      ) : (
+        <div className="space-y-5">
+          {topLevel.map((comment) => (
+            <div key={comment._id} className="space-y-3">
+              {renderComment(comment, false)}
+              {(repliesByParent[comment._id] || []).map((reply) => renderComment(reply, true))}
+              {replyingTo === comment._id && (
+                <div className="ml-9">
+                  <CommentComposer
+                    members={members}
+                    placeholder="Write a reply... Use @ to mention someone"
+                    submitLabel="Reply"
+                    isSubmitting={createCommentMutation.isPending}
+                    onSubmit={(body) => handleCreate(body, comment._id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t pt-4">
+        <CommentComposer
+          members={members}
+          placeholder="Write a comment... Use @ to mention someone"
+          submitLabel="Comment"
+          isSubmitting={createCommentMutation.isPending && !replyingTo}
+          onSubmit={(body) => handleCreate(body)}
+        />
+      </div>
+    </div>
+  );
+}
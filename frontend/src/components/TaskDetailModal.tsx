@@ -1,12 +1,19 @@
 import { useState } from 'react';
-import { TaskWithDetails } from '@/types';
-import { useUpdateTask } from '@/hooks/useTasks';
+import { CustomFieldValue, TaskWithDetails, TaskDeleteStrategy } from '@/types';
+import { useUpdateTask, useDeleteTask } from '@/hooks/useTasks';
+import { usePlanCustomFields, usePlanMembers, usePlanStatuses } from '@/hooks/usePlans';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
+import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { cn, formatDate, getAvatarInitials, getAvatarColor } from '@/lib/utils';
-import { X, Save, Calendar, Tag, Clock, FileText } from 'lucide-react';
+import { TaskActivityTimeline } from '@/components/TaskActivityTimeline';
+import { TaskComments } from '@/components/TaskComments';
+import { DeleteTaskModal } from '@/components/DeleteTaskModal';
+import { CustomFieldInputs } from '@/components/CustomFieldInput';
+import { formatCustomFieldValue, getChangedCustomFieldValues } from '@/lib/customFields';
+import { X, Save, Calendar, Tag, Clock, FileText, History, MessageSquare, Trash2 } from 'lucide-react';
 
 interface TaskDetailModalProps {
   task: TaskWithDetails;
@@ -18,6 +25,7 @@ interface TaskDetailModalProps {
 
 export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }: TaskDetailModalProps) {
   const [isEditing, setIsEditing] = useState(!!startInEdit);
+  const [activeTab, setActiveTab] = useState<'details' | 'comments' | 'activity'>('details');
   const [formData, setFormData] = useState({
     title: task.title,
     description: task.description || '',
@@ -31,10 +39,17 @@ export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }:
     goal: task.goal || '',
     notes: task.notes || '',
     deliverables: task.deliverables || '',
+    custom_fields: (task.custom_fields || {}) as Record<string, CustomFieldValue | null>,
   });
   const [newTag, setNewTag] = useState('');
+  const { statuses } = usePlanStatuses(planId);
+  const { customFields } = usePlanCustomFields(planId);
+  const { members } = usePlanMembers(planId);
   
   const updateTaskMutation = useUpdateTask();
+  const deleteTaskMutation = useDeleteTask();
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
   
   // Get existing tasks to show top assignees and tags
   // const { data: tasksData } = useTasks(planId, {}); // Don't fetch if not needed
@@ -46,7 +61,11 @@ export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }:
       await updateTaskMutation.mutateAsync({
         taskId: task._id,
         planId,
-        updates: formData
+        updates: {
+          ...formData,
+          // Only send changed values so a concurrent edit of another field isn't overwritten
+          custom_fields: getChangedCustomFieldValues(task.custom_fields, formData.custom_fields),
+        }
       });
       setIsEditing(false);
       onSave(); // Refresh the parent component
@@ -55,6 +74,17 @@ export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }:
     }
   };
 
+  const handleDelete = async (strategy: TaskDeleteStrategy) => {
+    try {
+      setDeleteError(null);
+      await deleteTaskMutation.mutateAsync({ taskId: task._id, planId, strategy });
+      setShowDeleteModal(false);
+      onClose();
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete task');
+    }
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
       setFormData(prev => ({
@@ -72,12 +102,6 @@ export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }:
     }));
   };
 
-  const statusOptions = [
-    { value: 'todo', label: 'To Do', color: 'bg-gray-100 text-gray-800' },
-    { value: 'in_progress', label: 'In Progress', color: 'bg-blue-100 text-blue-800' },
-    { value: 'done', label: 'Done', color: 'bg-green-100 text-green-800' },
-  ];
-
   const priorityOptions = [
     { value: 'low', label: 'Low', color: 'bg-green-100 text-green-800' },
     { value: 'medium', label: 'Medium', color: 'bg-yellow-100 text-yellow-800' },
@@ -114,12 +138,22 @@ export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }:
                     </Button>
                   </>
                 ) : (
-                  <Button
-                    onClick={() => setIsEditing(true)}
-                    variant="outline"
-                  >
-                    Edit
-                  </Button>
+                  <>
+                    <Button
+                      onClick={() => setIsEditing(true)}
+                      variant="outline"
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      onClick={() => setShowDeleteModal(true)}
+                      variant="outline"
+                      className="border-red-300 text-red-600 hover:bg-red-50"
+                      aria-label="Delete task"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
                 )}
                 <button
                   onClick={onClose}
@@ -132,365 +166,443 @@ export function TaskDetailModal({ task, planId, startInEdit, onClose, onSave }:
           </CardHeader>
           
           <CardContent className="space-y-6">
-            {/* Title */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Title
-              </label>
-              {isEditing ? (
-                <Input
-                  value={formData.title}
-                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-                  placeholder="Enter task title"
-                />
-              ) : (
-                <h3 className="text-lg font-medium text-gray-900">{task.title}</h3>
-              )}
-            </div>
-
-            {/* Description */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Description
-              </label>
-              {isEditing ? (
-                <textarea
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="Enter task description"
-                  rows={4}
-                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
-                />
-              ) : (
-                <p className="text-gray-700 whitespace-pre-wrap">
-                  {task.description || 'No description provided'}
-                </p>
-              )}
-            </div>
-
-            {/* Goal */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Goal
-              </label>
-              {isEditing ? (
-                <Input
-                  value={formData.goal}
-                  onChange={(e) => setFormData(prev => ({ ...prev, goal: e.target.value }))}
-                  placeholder="What is the goal of this task?"
-                />
-              ) : (
-                <p className="text-gray-700">
-                  {task.goal || 'No goal specified'}
-                </p>
-              )}
-            </div>
-
-            {/* Notes */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Notes
-              </label>
-              {isEditing ? (
-                <textarea
-                  value={formData.notes}
-                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
-                  placeholder="Additional notes or context"
-                  rows={3}
-                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
-                />
-              ) : (
-                <p className="text-gray-700 whitespace-pre-wrap">
-                  {task.notes || 'No notes provided'}
-                </p>
-              )}
-            </div>
-
-            {/* Deliverables */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Deliverables
-              </label>
-              {isEditing ? (
-                <Input
-                  value={formData.deliverables}
-                  onChange={(e) => setFormData(prev => ({ ...prev, deliverables: e.target.value }))}
-                  placeholder="What should be delivered?"
-                />
-              ) : (
-                <p className="text-gray-700">
-                  {task.deliverables || 'No deliverables specified'}
-                </p>
-              )}
+            {/* Tabs */}
+            <div className="flex space-x-4 border-b border-gray-200">
+              {[
+                { id: 'details', label: 'Details', icon: FileText },
+                { id: 'comments', label: 'Comments', icon: MessageSquare },
+                { id: 'activity', label: 'Activity', icon: History },
+              ].map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id as 'details' | 'comments' | 'activity')}
+                  className={cn(
+                    'flex items-center space-x-1 pb-2 -mb-px text-sm font-medium border-b-2 transition-colors',
+                    activeTab === tab.id
+                      ? 'border-primary-600 text-primary-700'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  )}
+                >
+                  <tab.icon className="h-4 w-4" />
+                  <span>{tab.label}</span>
+                </button>
+              ))}
             </div>
 
-            {/* Status and Priority */}
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Status
-                </label>
-                {isEditing ? (
-                  <div className="space-y-2">
-                    {statusOptions.map((status) => (
-                      <label key={status.value} className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          name="status"
-                          value={status.value}
-                          checked={formData.status === status.value}
-                          onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as any }))}
-                          className="text-primary-600 focus:ring-primary-500"
-                        />
-                        <Badge variant="status" value={status.value}>
-                          {status.label}
-                        </Badge>
-                      </label>
-                    ))}
-                  </div>
-                ) : (
-                  <Badge variant="status" value={task.status} />
-                )}
-              </div>
+            {activeTab === 'comments' && (
+              <TaskComments taskId={task._id} planId={planId} />
+            )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Priority
-                </label>
-                {isEditing ? (
-                  <div className="space-y-2">
-                    {priorityOptions.map((priority) => (
-                      <label key={priority.value} className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          name="priority"
-                          value={priority.value}
-                          checked={formData.priority === priority.value}
-                          onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value as any }))}
-                          className="text-primary-600 focus:ring-primary-500"
-                        />
-                        <Badge variant="priority" value={priority.value}>
-                          {priority.label}
-                        </Badge>
-                      </label>
-                    ))}
-                  </div>
-                ) : (
-                  task.priority && <Badge variant="priority" value={task.priority} />
-                )}
-              </div>
-            </div>
+            {activeTab === 'activity' && (
+              <TaskActivityTimeline taskId={task._id} planId={planId} />
+            )}
 
-            {/* Dates */}
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Start Date
-                </label>
-                {isEditing ? (
-                  <div className="relative">
-                    <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            {activeTab === 'details' && (
+              <>
+                {/* Title */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Title
+                  </label>
+                  {isEditing ? (
                     <Input
-                      type="date"
-                      value={formData.start_date}
-                      onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
-                      className="pl-10"
+                      value={formData.title}
+                      onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                      placeholder="Enter task title"
                     />
-                  </div>
-                ) : (
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="h-4 w-4 text-gray-400" />
-                    <span className="text-gray-700">
-                      {task.start_date ? formatDate(task.start_date) : 'Not set'}
-                    </span>
-                  </div>
-                )}
-              </div>
+                  ) : (
+                    <h3 className="text-lg font-medium text-gray-900">{task.title}</h3>
+                  )}
+                </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Due Date
-                </label>
-                {isEditing ? (
-                  <div className="relative">
-                    <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                {/* Description */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  {isEditing ? (
+                    <textarea
+                      value={formData.description}
+                      onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                      placeholder="Enter task description"
+                      rows={4}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    />
+                  ) : (
+                    <p className="text-gray-700 whitespace-pre-wrap">
+                      {task.description || 'No description provided'}
+                    </p>
+                  )}
+                </div>
+
+                {/* Goal */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Goal
+                  </label>
+                  {isEditing ? (
                     <Input
-                      type="date"
-                      value={formData.due_date}
-                      onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
-                      className="pl-10"
+                      value={formData.goal}
+                      onChange={(e) => setFormData(prev => ({ ...prev, goal: e.target.value }))}
+                      placeholder="What is the goal of this task?"
                     />
-                  </div>
-                ) : (
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="h-4 w-4 text-gray-400" />
-                    <span className="text-gray-700">
-                      {task.due_date ? formatDate(task.due_date) : 'Not set'}
-                    </span>
-                  </div>
-                )}
-              </div>
-            </div>
+                  ) : (
+                    <p className="text-gray-700">
+                      {task.goal || 'No goal specified'}
+                    </p>
+                  )}
+                </div>
 
-            {/* Progress and Estimate */}
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Progress ({formData.progress_pct}%)
-                </label>
-                {isEditing ? (
-                  <input
-                    type="range"
-                    min="0"
-                    max="100"
-                    value={formData.progress_pct}
-                    onChange={(e) => setFormData(prev => ({ ...prev, progress_pct: parseInt(e.target.value) }))}
-                    className="w-full"
-                  />
-                ) : (
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-primary-600 h-2 rounded-full transition-all"
-                      style={{ width: `${task.progress_pct || 0}%` }}
+                {/* Notes */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes
+                  </label>
+                  {isEditing ? (
+                    <textarea
+                      value={formData.notes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                      placeholder="Additional notes or context"
+                      rows={3}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                     />
-                  </div>
-                )}
-              </div>
+                  ) : (
+                    <p className="text-gray-700 whitespace-pre-wrap">
+                      {task.notes || 'No notes provided'}
+                    </p>
+                  )}
+                </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Estimate (hours)
-                </label>
-                {isEditing ? (
-                  <div className="relative">
-                    <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                {/* Deliverables */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Deliverables
+                  </label>
+                  {isEditing ? (
                     <Input
-                      type="number"
-                      min="0"
-                      step="0.5"
-                      value={formData.estimate_hours}
-                      onChange={(e) => setFormData(prev => ({ ...prev, estimate_hours: parseFloat(e.target.value) || 0 }))}
-                      className="pl-10"
+                      value={formData.deliverables}
+                      onChange={(e) => setFormData(prev => ({ ...prev, deliverables: e.target.value }))}
+                      placeholder="What should be delivered?"
                     />
+                  ) : (
+                    <p className="text-gray-700">
+                      {task.deliverables || 'No deliverables specified'}
+                    </p>
+                  )}
+                </div>
+
+                {/* Status and Priority */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Status
+                    </label>
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        {statuses.map((status) => (
+                          <label key={status.key} className="flex items-center space-x-2">
+                            <input
+                              type="radio"
+                              name="status"
+                              value={status.key}
+                              checked={formData.status === status.key}
+                              onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value }))}
+                              className="text-primary-600 focus:ring-primary-500"
+                            />
+                            <StatusBadge status={status.key} statuses={statuses} />
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <StatusBadge status={task.status} statuses={statuses} />
+                    )}
                   </div>
-                ) : (
-                  <div className="flex items-center space-x-2">
-                    <Clock className="h-4 w-4 text-gray-400" />
-                    <span className="text-gray-700">
-                      {task.estimate_hours || 0} hours
-                    </span>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Priority
+                    </label>
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        {priorityOptions.map((priority) => (
+                          <label key={priority.value} className="flex items-center space-x-2">
+                            <input
+                              type="radio"
+                              name="priority"
+                              value={priority.value}
+                              checked={formData.priority === priority.value}
+                              onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value as any }))}
+                              className="text-primary-600 focus:ring-primary-500"
+                            />
+                            <Badge variant="priority" value={priority.value}>
+                              {priority.label}
+                            </Badge>
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      task.priority && <Badge variant="priority" value={task.priority} />
+                    )}
                   </div>
-                )}
-              </div>
-            </div>
+                </div>
 
-            {/* Assignees */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Assignees
-              </label>
-              {task.assignee_ids && task.assignee_ids.length > 0 ? (
-                <div className="flex flex-wrap gap-2">
-                  {task.assignee_ids.map((assignee) => (
-                    <div
-                      key={assignee._id}
-                      className="flex items-center space-x-2 bg-gray-100 rounded-full px-3 py-1"
-                    >
-                      <div className={cn(
-                        'h-6 w-6 rounded-full flex items-center justify-center text-xs font-medium text-white',
-                        getAvatarColor(assignee.name)
-                      )}>
-                        {getAvatarInitials(assignee.name)}
+                {/* Dates */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Start Date
+                    </label>
+                    {isEditing ? (
+                      <div className="relative">
+                        <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          type="date"
+                          value={formData.start_date}
+                          onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                          className="pl-10"
+                        />
                       </div>
-                      <span className="text-sm font-medium">{assignee.name}</span>
-                    </div>
-                  ))}
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="h-4 w-4 text-gray-400" />
+                        <span className="text-gray-700">
+                          {task.start_date ? formatDate(task.start_date) : 'Not set'}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Due Date
+                    </label>
+                    {isEditing ? (
+                      <div className="relative">
+                        <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          type="date"
+                          value={formData.due_date}
+                          onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
+                          className="pl-10"
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="h-4 w-4 text-gray-400" />
+                        <span className="text-gray-700">
+                          {task.due_date ? formatDate(task.due_date) : 'Not set'}
+                        </span>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              ) : (
-                <p className="text-gray-500 text-sm">No assignees</p>
-              )}
-            </div>
 
-            {/* Tags */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Tags
-              </label>
-              {isEditing ? (
-                <div className="space-y-2">
-                  <div className="flex space-x-2">
-                    <div className="relative flex-1">
-                      <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                      <Input
-                        value={newTag}
-                        onChange={(e) => setNewTag(e.target.value)}
-                        onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddTag())}
-                        placeholder="Add a tag"
-                        className="pl-10"
+                {/* Progress and Estimate */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Progress ({formData.progress_pct}%)
+                    </label>
+                    {isEditing ? (
+                      <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={formData.progress_pct}
+                        onChange={(e) => setFormData(prev => ({ ...prev, progress_pct: parseInt(e.target.value) }))}
+                        className="w-full"
                       />
-                    </div>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={handleAddTag}
-                      disabled={!newTag.trim()}
-                    >
-                      Add
-                    </Button>
+                    ) : (
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary-600 h-2 rounded-full transition-all"
+                          style={{ width: `${task.progress_pct || 0}%` }}
+                        />
+                      </div>
+                    )}
                   </div>
-                  
-                  {formData.tags.length > 0 && (
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Estimate (hours)
+                    </label>
+                    {isEditing ? (
+                      <div className="relative">
+                        <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={formData.estimate_hours}
+                          onChange={(e) => setFormData(prev => ({ ...prev, estimate_hours: parseFloat(e.target.value) || 0 }))}
+                          className="pl-10"
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <Clock className="h-4 w-4 text-gray-400" />
+                        <span className="text-gray-700">
+                          {task.estimate_hours || 0} hours
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Assignees */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Assignees
+                  </label>
+                  {task.assignee_ids && task.assignee_ids.length > 0 ? (
                     <div className="flex flex-wrap gap-2">
-                      {formData.tags.map((tag) => (
-                        <span
-                          key={tag}
-                          className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-primary-100 text-primary-800"
+                      {task.assignee_ids.map((assignee) => (
+                        <div
+                          key={assignee._id}
+                          className="flex items-center space-x-2 bg-gray-100 rounded-full px-3 py-1"
                         >
-                          {tag}
-                          <button
-                            type="button"
-                            onClick={() => handleRemoveTag(tag)}
-                            className="ml-1 hover:text-primary-600"
-                          >
-                            <X className="h-3 w-3" />
-                          </button>
-                        </span>
+                          <div className={cn(
+                            'h-6 w-6 rounded-full flex items-center justify-center text-xs font-medium text-white',
+                            getAvatarColor(assignee.name)
+                          )}>
+                            {getAvatarInitials(assignee.name)}
+                          </div>
+                          <span className="text-sm font-medium">{assignee.name}</span>
+                        </div>
                       ))}
                     </div>
-                  )}
-                </div>
-              ) : (
-                <div className="flex flex-wrap gap-2">
-                  {task.tags && task.tags.length > 0 ? (
-                    task.tags.map((tag) => (
-                      <span
-                        key={tag}
-                        className="inline-block px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
-                      >
-                        {tag}
-                      </span>
-                    ))
                   ) : (
-                    <p className="text-gray-500 text-sm">No tags</p>
+                    <p className="text-gray-500 text-sm">No assignees</p>
                   )}
                 </div>
-              )}
-            </div>
 
-            {/* Metadata */}
-            <div className="border-t pt-4">
-              <div className="grid grid-cols-2 gap-4 text-sm text-gray-500">
+                {/* Tags */}
                 <div>
-                  <span className="font-medium">Created:</span> {formatDate(task.created_at)}
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tags
+                  </label>
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <div className="flex space-x-2">
+                        <div className="relative flex-1">
+                          <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                          <Input
+                            value={newTag}
+                            onChange={(e) => setNewTag(e.target.value)}
+                            onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddTag())}
+                            placeholder="Add a tag"
+                            className="pl-10"
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handleAddTag}
+                          disabled={!newTag.trim()}
+                        >
+                          Add
+                        </Button>
+                      </div>
+                  
+                      {formData.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {formData.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-primary-100 text-primary-800"
+                            >
+                              {tag}
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveTag(tag)}
+                                className="ml-1 hover:text-primary-600"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {task.tags && task.tags.length > 0 ? (
+                        task.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="inline-block px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
+                          >
+                            {tag}
+                          </span>
+                        ))
+                      ) : (
+                        <p className="text-gray-500 text-sm">No tags</p>
+                      )}
+                    </div>
+                  )}
                 </div>
-                <div>
-                  <span className="font-medium">Last Updated:</span> {formatDate(task.updated_at)}
+
+                {/* Custom fields */}
+                {customFields.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Custom Fields
+                    </label>
+                    {isEditing ? (
+                      <CustomFieldInputs
+                        fields={customFields}
+                        values={formData.custom_fields}
+                        members={members}
+                        onChange={(values) => setFormData(prev => ({ ...prev, custom_fields: values }))}
+                      />
+                    ) : (
+                      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                        {customFields.map(field => (
+                          <div key={field._id}>
+                            <dt className="text-gray-500">{field.name}</dt>
+                            <dd className="text-gray-900">
+                              {formatCustomFieldValue(field, task.custom_fields?.[field._id], members) || (
+                                <span className="text-gray-400">-</span>
+                              )}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </div>
+                )}
+
+                {/* Metadata */}
+                <div className="border-t pt-4">
+                  <div className="grid grid-cols-2 gap-4 text-sm text-gray-500">
+                    <div>
+                      <span className="font-medium">Created:</span> {formatDate(task.created_at)}
+                    </div>
+                    <div>
+                      <span className="font-medium">Last Updated:</span> {formatDate(task.updated_at)}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
+
+      {/* Delete Confirmation Modal */}
+      <DeleteTaskModal
+        taskId={task._id}
+        taskTitle={task.title}
+        planId={planId}
+        isOpen={showDeleteModal}
+        onClose={() => {
+          setShowDeleteModal(false);
+          setDeleteError(null);
+        }}
+        onConfirm={handleDelete}
+        isDeleting={deleteTaskMutation.isPending}
+        error={deleteError}
+      />
     </div>
   );
 }
@@ -1,12 +1,16 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { TaskFormData } from '@/types';
 import { useCreateTask, useTasks } from '@/hooks/useTasks';
+import { usePlanCustomFields, usePlanMembers, usePlanStatuses } from '@/hooks/usePlans';
 import { useTopAssignees, useTopTags } from '@/hooks/useTopItems';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { findStatus, getDefaultStatus } from '@/lib/statuses';
 import { Dropdown } from '@/components/ui/Dropdown';
+import { CustomFieldInputs } from '@/components/CustomFieldInput';
 import { X, Plus, Calendar, Users, Tag, Clock } from 'lucide-react';
 
 interface TaskFormProps {
@@ -17,10 +21,13 @@ interface TaskFormProps {
 }
 
 export function TaskForm({ planId, onClose, onSuccess, initialData }: TaskFormProps) {
+  const { statuses } = usePlanStatuses(planId);
+  const { customFields } = usePlanCustomFields(planId);
+  const { members } = usePlanMembers(planId);
   const [formData, setFormData] = useState<TaskFormData>({
     title: '',
     description: '',
-    status: 'todo',
+    status: getDefaultStatus(statuses),
     priority: 'medium',
     start_date: '',
     due_date: '',
@@ -30,9 +37,17 @@ export function TaskForm({ planId, onClose, onSuccess, initialData }: TaskFormPr
     goal: '',
     notes: '',
     deliverables: '',
+    custom_fields: {},
     ...initialData,
   });
   
+  // The plan may load after the form opens, with statuses other than the defaults
+  useEffect(() => {
+    if (!findStatus(statuses, formData.status)) {
+      setFormData(prev => ({ ...prev, status: getDefaultStatus(statuses) }));
+    }
+  }, [statuses, formData.status]);
+
   const [newTag, setNewTag] = useState('');
   const [newAssignee, setNewAssignee] = useState('');
   const createTaskMutation = useCreateTask();
@@ -94,12 +109,6 @@ export function TaskForm({ planId, onClose, onSuccess, initialData }: TaskFormPr
     { value: 'urgent', label: 'Urgent', color: 'bg-red-100 text-red-800' },
   ];
 
-  const statusOptions = [
-    { value: 'todo', label: 'To Do', color: 'bg-gray-100 text-gray-800' },
-    { value: 'in_progress', label: 'In Progress', color: 'bg-blue-100 text-blue-800' },
-    { value: 'done', label: 'Done', color: 'bg-green-100 text-green-800' },
-  ];
-
   return (
     <Card className="max-w-2xl mx-auto m-4">
       <CardHeader>
@@ -176,19 +185,17 @@ export function TaskForm({ planId, onClose, onSuccess, initialData }: TaskFormPr
                 Status
               </label>
               <div className="space-y-2">
-                {statusOptions.map((status) => (
-                  <label key={status.value} className="flex items-center space-x-2">
+                {statuses.map((status) => (
+                  <label key={status.key} className="flex items-center space-x-2">
                     <input
                       type="radio"
                       name="status"
-                      value={status.value}
-                      checked={formData.status === status.value}
-                      onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as any }))}
+                      value={status.key}
+                      checked={formData.status === status.key}
+                      onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value }))}
                       className="text-primary-600 focus:ring-primary-500"
                     />
-                    <Badge variant="status" value={status.value}>
-                      {status.label}
-                    </Badge>
+                    <StatusBadge status={status.key} statuses={statuses} />
                   </label>
                 ))}
               </div>
@@ -409,6 +416,18 @@ export function TaskForm({ planId, onClose, onSuccess, initialData }: TaskFormPr
             )}
           </div>
 
+          {customFields.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900">Custom Fields</h3>
+              <CustomFieldInputs
+                fields={customFields}
+                values={formData.custom_fields || {}}
+                members={members}
+                onChange={(values) => setFormData(prev => ({ ...prev, custom_fields: values }))}
+              />
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
             <Button
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useChangePassword } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Link } from 'react-router-dom';
+
+export function ChangePasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const changePasswordMutation = useChangePassword();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      return;
+    }
+
+    try {
+      await changePasswordMutation.mutateAsync({ currentPassword, newPassword });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const passwordMismatch = newPassword && confirmPassword && newPassword !== confirmPassword;
+  const revokedSessions = changePasswordMutation.data?.revoked_sessions ?? 0;
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center">Change Password</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {changePasswordMutation.isSuccess && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-sm text-green-700">
+                Password changed.{' '}
+                {revokedSessions > 0
+                  ? `${revokedSessions} other ${revokedSessions === 1 ? 'session was' : 'sessions were'} signed out.`
+                  : 'You stay signed in here.'}
+              </p>
+            </div>
+          )}
+
+          {changePasswordMutation.error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-600">{changePasswordMutation.error.message}</p>
+            </div>
+          )}
+
+          <Input
+            label="Current Password"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+            placeholder="Enter your current password"
+          />
+
+          <Input
+            label="New Password"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            required
+            placeholder="Enter a new password"
+            helperText="Password must be at least 8 characters. Your other sessions will be signed out."
+          />
+
+          <Input
+            label="Confirm New Password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            placeholder="Confirm your new password"
+            error={passwordMismatch ? "Passwords do not match" : undefined}
+          />
+
+          <Button
+            type="submit"
+            className="w-full"
+            isLoading={changePasswordMutation.isPending}
+            disabled={!currentPassword || newPassword.length < 8 || !!passwordMismatch}
+          >
+            Change Password
+          </Button>
+
+          <div className="text-center">
+            <Link
+              to="/account"
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+            >
+              Back to your account
+            </Link>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useForgotPassword } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Link } from 'react-router-dom';
+
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState('');
+
+  const forgotPasswordMutation = useForgotPassword();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await forgotPasswordMutation.mutateAsync(email);
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center">Reset Password</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {forgotPasswordMutation.isSuccess ? (
+          <div className="space-y-4">
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-sm text-green-700">
+                If an account exists for {email}, we've sent a link to reset your password. It expires in an hour.
+              </p>
+            </div>
+            <div className="text-center">
+              <Link
+                to="/login"
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {forgotPasswordMutation.error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-600">{forgotPasswordMutation.error.message}</p>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600">
+              Enter the email you signed up with and we'll send you a link to choose a new password.
+            </p>
+
+            <Input
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="Enter your email"
+            />
+
+            <Button
+              type="submit"
+              className="w-full"
+              isLoading={forgotPasswordMutation.isPending}
+              disabled={!email}
+            >
+              Send Reset Link
+            </Button>
+
+            <div className="text-center">
+              <p className="text-sm text-gray-600">
+                Remembered it?{' '}
+                <Link
+                  to="/login"
+                  className="text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  Sign in
+                </Link>
+              </p>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { MailOpen } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { useAuthStore } from '@/store/authStore';
+import { useAcceptInvitation, useDeclineInvitation, useInvitation } from '@/hooks/useInvitations';
+
+// Landing page for the link in an invitation email
+export function InvitationPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, isAuthenticated } = useAuthStore();
+  const { data: invitation, isLoading, error } = useInvitation(token);
+  const acceptMutation = useAcceptInvitation();
+  const declineMutation = useDeclineInvitation();
+
+  const handleAccept = async () => {
+    try {
+      const plan = await acceptMutation.mutateAsync(token);
+      navigate(`/plans/${plan._id}`);
+    } catch (error) {
+      // Shown below from the mutation state
+    }
+  };
+
+  const handleDecline = async () => {
+    try {
+      await declineMutation.mutateAsync(token);
+    } catch (error) {
+      // Shown below from the mutation state
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const actionError = acceptMutation.error || declineMutation.error;
+  const unusableReason = error instanceof Error ? error.message : invitation?.error;
+  const isOtherAccount = isAuthenticated && !!user && !!invitation &&
+    user.email.toLowerCase() !== invitation.email.toLowerCase();
+  const redirect = encodeURIComponent(`/invitations/${token}`);
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center">Plan Invitation</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {unusableReason || !invitation ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-gray-600">{unusableReason || 'Invitation not found'}</p>
+            <Link to="/" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+              Go to pdzanning
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-start space-x-3">
+              <MailOpen className="h-5 w-5 text-primary-600 mt-0.5" />
+              <p className="text-sm text-gray-700">
+                <span className="font-medium">{invitation.invited_by?.name || 'Someone'}</span> invited{' '}
+                <span className="font-medium">{invitation.email}</span> to join{' '}
+                <span className="font-medium">{invitation.plan.name}</span> as{' '}
+                {invitation.role === 'editor' ? 'an editor' : 'a viewer'}.
+              </p>
+            </div>
+
+            {actionError && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-600">{actionError.message}</p>
+              </div>
+            )}
+
+            {declineMutation.isSuccess ? (
+              <p className="text-sm text-gray-600 text-center">You declined this invitation.</p>
+            ) : isAuthenticated ? (
+              isOtherAccount ? (
+                <p className="text-sm text-gray-600">
+                  You are signed in as {user!.email}. Sign in with {invitation.email} to accept this invitation.
+                </p>
+              ) : (
+                <div className="flex space-x-2">
+                  <Button className="flex-1" onClick={handleAccept} isLoading={acceptMutation.isPending}>
+                    Accept
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    variant="outline"
+                    onClick={handleDecline}
+                    isLoading={declineMutation.isPending}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              )
+            ) : (
+              <div className="space-y-3">
+                {invitation.has_account ? (
+                  <Button className="w-full" onClick={() => navigate(`/login?redirect=${redirect}`)}>
+                    Sign in to accept
+                  </Button>
+                ) : (
+                  <Button className="w-full" onClick={() => navigate(`/register?invite=${encodeURIComponent(token)}`)}>
+                    Create account to accept
+                  </Button>
+                )}
+                <Button
+                  className="w-full"
+                  variant="outline"
+                  onClick={handleDecline}
+                  isLoading={declineMutation.isPending}
+                >
+                  Decline
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
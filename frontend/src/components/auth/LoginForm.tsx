@@ -52,7 +52,16 @@ export function LoginForm() {
             required
             placeholder="Enter your password"
           />
-          
+
+          <div className="text-right -mt-2">
+            <Link
+              to="/forgot-password"
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+            >
+              Forgot password?
+            </Link>
+          </div>
+
           <Button
             type="submit"
             className="w-full"
@@ -1,20 +1,33 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useRegister } from '@/hooks/useAuth';
+import { useInvitation } from '@/hooks/useInvitations';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { useAuthStore } from '@/store/authStore';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 
 export function RegisterForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
   const { error } = useAuthStore();
   
   const registerMutation = useRegister();
 
+  // Signing up from an invitation link claims the invited email
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite') || undefined;
+  const { data: invitation } = useInvitation(inviteToken || '');
+
+  useEffect(() => {
+    if (invitation && !invitation.error) {
+      setEmail(invitation.email);
+    }
+  }, [invitation]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -23,7 +36,7 @@ export function RegisterForm() {
     }
     
     try {
-      await registerMutation.mutateAsync({ email, password, name });
+      setNotice(await registerMutation.mutateAsync({ email, password, name, invite_token: inviteToken }));
     } catch (error) {
       // Error is handled by the store
     }
@@ -38,6 +51,20 @@ export function RegisterForm() {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {invitation && !invitation.error && (
+            <div className="bg-primary-50 border border-primary-200 rounded-md p-3">
+              <p className="text-sm text-primary-700">
+                You'll join <span className="font-medium">{invitation.plan.name}</span> after creating your account.
+              </p>
+            </div>
+          )}
+
+          {notice && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-sm text-green-700">{notice}</p>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-md p-3">
               <p className="text-sm text-red-600">{error}</p>
@@ -60,6 +87,7 @@ export function RegisterForm() {
             onChange={(e) => setEmail(e.target.value)}
             required
             placeholder="Enter your email"
+            disabled={!!invitation && !invitation.error}
           />
           
           <Input
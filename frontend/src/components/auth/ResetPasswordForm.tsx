@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useResetPassword } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Link, useSearchParams } from 'react-router-dom';
+
+// Landing page for the link in a password reset email
+export function ResetPasswordForm() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const resetPasswordMutation = useResetPassword();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      return;
+    }
+
+    try {
+      await resetPasswordMutation.mutateAsync({ token, password });
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const passwordMismatch = password && confirmPassword && password !== confirmPassword;
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center">Choose a New Password</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {resetPasswordMutation.isSuccess ? (
+          <div className="space-y-4">
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-sm text-green-700">
+                Your password has been reset and you've been signed out everywhere.
+              </p>
+            </div>
+            <div className="text-center">
+              <Link
+                to="/login"
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                Sign in with your new password
+              </Link>
+            </div>
+          </div>
+        ) : !token ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-gray-600">This reset link is missing its token.</p>
+            <Link
+              to="/forgot-password"
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+            >
+              Request a new link
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {resetPasswordMutation.error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-600">{resetPasswordMutation.error.message}</p>
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  Request a new link
+                </Link>
+              </div>
+            )}
+
+            <Input
+              label="New Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              placeholder="Enter a new password"
+              helperText="Password must be at least 8 characters"
+            />
+
+            <Input
+              label="Confirm Password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              placeholder="Confirm your new password"
+              error={passwordMismatch ? "Passwords do not match" : undefined}
+            />
+
+            <Button
+              type="submit"
+              className="w-full"
+              isLoading={resetPasswordMutation.isPending}
+              disabled={password.length < 8 || !!passwordMismatch}
+            >
+              Reset Password
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
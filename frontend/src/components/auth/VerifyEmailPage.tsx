@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { useAuthStore } from '@/store/authStore';
+import { useVerifyEmail } from '@/hooks/useAuth';
+
+// Landing page for the link sent to a new email address
+export function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { isAuthenticated } = useAuthStore();
+  const verifyEmailMutation = useVerifyEmail();
+  const submitted = useRef(false);
+
+  // Tokens are single-use, so only submit once even if the effect runs twice
+  useEffect(() => {
+    if (token && !submitted.current) {
+      submitted.current = true;
+      verifyEmailMutation.mutate(token);
+    }
+  }, [token, verifyEmailMutation]);
+
+  const continueLink = isAuthenticated ? (
+    <Link to="/account" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+      Go to your account
+    </Link>
+  ) : (
+    <Link to="/login" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+      Sign in
+    </Link>
+  );
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center">Confirm Email</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!token ? (
+          <p className="text-sm text-gray-600 text-center">This confirmation link is missing its token.</p>
+        ) : verifyEmailMutation.isSuccess ? (
+          <div className="space-y-4 text-center">
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-sm text-green-700">
+                Your email is now {verifyEmailMutation.data.email}. Use it to sign in from now on.
+              </p>
+            </div>
+            {continueLink}
+          </div>
+        ) : verifyEmailMutation.error ? (
+          <div className="space-y-4 text-center">
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-600">{verifyEmailMutation.error.message}</p>
+            </div>
+            {continueLink}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,18 @@
-import { useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
 import { useAppStore } from '@/store/appStore';
 import { Button } from '@/components/ui/Button';
 import { useLogout } from '@/hooks/useAuth';
-import { Download, Upload, LogOut, FolderOpen, Menu } from 'lucide-react';
+import { SessionsModal } from '@/components/SessionsModal';
+import { Download, Upload, LogOut, FolderOpen, Menu, MonitorSmartphone } from 'lucide-react';
 
 export function Header() {
   const { user } = useAuthStore();
   const { selectedPlanId, sidebarOpen, setSidebarOpen, setSelectedPlanId } = useAppStore();
   const logoutMutation = useLogout();
   const navigate = useNavigate();
+  const [showSessions, setShowSessions] = useState(false);
 
   const handleLogout = async () => {
     await logoutMutation.mutateAsync();
@@ -86,8 +89,11 @@ export function Header() {
           )}
 
           <div className="flex items-center space-x-2">
-            <div className="flex items-center space-x-2">
-              <div className="h-8 w-8 rounded-full bg-primary-500 flex items-center justify-center">
+            <Link to="/account" className="flex items-center space-x-2" title="Account">
+              <div
+                className="h-8 w-8 rounded-full bg-primary-500 flex items-center justify-center"
+                style={user?.avatar ? { backgroundColor: user.avatar } : undefined}
+              >
                 <span className="text-sm font-medium text-white">
                   {user?.name?.charAt(0).toUpperCase()}
                 </span>
@@ -95,8 +101,19 @@ export function Header() {
               <span className="text-sm font-medium text-gray-700">
                 {user?.name}
               </span>
-            </div>
+            </Link>
             
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSessions(true)}
+              className="flex items-center space-x-1"
+              title="Sessions"
+            >
+              <MonitorSmartphone className="h-4 w-4" />
+              <span className="hidden sm:inline">Sessions</span>
+            </Button>
+
             <Button
               variant="ghost"
               size="sm"
@@ -109,6 +126,8 @@ export function Header() {
           </div>
         </div>
       </div>
+
+      <SessionsModal isOpen={showSessions} onClose={() => setShowSessions(false)} />
     </header>
   );
 }
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Lock, Plus, Trash2, Users } from 'lucide-react';
+import { SavedView } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAppStore } from '@/store/appStore';
+import { useAuthStore } from '@/store/authStore';
+import { usePlanMembers } from '@/hooks/usePlans';
+import { useCreateSavedView, useDeleteSavedView, useSavedViews, useUpdateSavedView } from '@/hooks/useSavedViews';
+import { getCurrentViewState, isSameViewState } from '@/lib/savedViews';
+
+interface SavedViewSwitcherProps {
+  planId: string;
+}
+
+// Saved views of a plan. The active one is the ?view= URL parameter, so links to it can be shared.
+export function SavedViewSwitcher({ planId }: SavedViewSwitcherProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const appState = useAppStore();
+  const { applySavedViewState, clearFilters } = appState;
+  const { user } = useAuthStore();
+  const { members } = usePlanMembers(planId);
+  const { data: views = [] } = useSavedViews(planId);
+  const createMutation = useCreateSavedView();
+  const updateMutation = useUpdateSavedView();
+  const deleteMutation = useDeleteSavedView();
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+
+  const activeViewId = searchParams.get('view');
+  const activeView = views.find(view => view._id === activeViewId);
+  const currentState = getCurrentViewState(appState);
+  const isModified = !!activeView && !isSameViewState(activeView, currentState);
+  const isOwner = members.some(member => member.role === 'owner' && member._id === user?._id);
+  const canManage = (view: SavedView) =>
+    view.created_by?._id === user?._id || (view.scope === 'shared' && isOwner);
+  const actionError = createMutation.error || updateMutation.error || deleteMutation.error;
+
+  const setActiveViewId = (viewId: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (viewId) next.set('view', viewId);
+      else next.delete('view');
+      return next;
+    });
+  };
+
+  const handleSelect = (view: SavedView) => {
+    applySavedViewState(view);
+    setActiveViewId(view._id);
+  };
+
+  const handleClear = () => {
+    clearFilters();
+    setActiveViewId(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const view = await createMutation.mutateAsync({
+        planId,
+        view: { ...currentState, name: name.trim(), scope: shared ? 'shared' : 'personal' },
+      });
+      setActiveViewId(view._id);
+      setIsSaving(false);
+      setName('');
+      setShared(false);
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const handleUpdate = async (view: SavedView) => {
+    try {
+      await updateMutation.mutateAsync({ planId, viewId: view._id, updates: currentState });
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!window.confirm(`Delete the "${view.name}" view?`)) return;
+    try {
+      await deleteMutation.mutateAsync({ planId, viewId: view._id });
+      if (view._id === activeViewId) setActiveViewId(null);
+    } catch (error) {
+      // Error is shown from the mutation state
+    }
+  };
+
+  const itemClassName = (isActive: boolean) =>
+    `flex-1 min-w-0 text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+      isActive ? 'bg-primary-100 text-primary-700' : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-3">Saved Views</h3>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-2">
+          <p className="text-sm text-red-600">{actionError.message}</p>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <button onClick={handleClear} className={`w-full ${itemClassName(!activeViewId)}`}>
+          All tasks
+        </button>
+        {views.map(view => (
+          <div key={view._id} className="flex items-center">
+            <button
+              onClick={() => handleSelect(view)}
+              className={itemClassName(view._id === activeViewId)}
+              title={view.scope === 'shared' ? `Shared by ${view.created_by?.name ?? 'a former member'}` : 'Only visible to you'}
+            >
+              <div className="flex items-center space-x-2">
+                {view.scope === 'shared'
+                  ? <Users className="h-3 w-3 flex-shrink-0" />
+                  : <Lock className="h-3 w-3 flex-shrink-0" />}
+                <span className="truncate">{view.name}</span>
+                {view._id === activeViewId && isModified && (
+                  <span className="text-xs font-normal text-gray-500">(edited)</span>
+                )}
+              </div>
+            </button>
+            {canManage(view) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => handleDelete(view)}
+                aria-label={`Delete view ${view.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {activeView && isModified && canManage(activeView) && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-2"
+          onClick={() => handleUpdate(activeView)}
+          isLoading={updateMutation.isPending}
+        >
+          Save changes to "{activeView.name}"
+        </Button>
+      )}
+
+      {isSaving ? (
+        <form onSubmit={handleCreate} className="mt-2 space-y-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="View name"
+            maxLength={60}
+            autoFocus
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Share with everyone in the plan</span>
+          </label>
+          <div className="flex space-x-2">
+            <Button type="submit" size="sm" isLoading={createMutation.isPending} disabled={!name.trim()}>
+              Save
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsSaving(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="ghost" size="sm" className="mt-2" onClick={() => setIsSaving(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Save current view
+        </Button>
+      )}
+    </div>
+  );
+}
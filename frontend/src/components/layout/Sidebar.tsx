@@ -1,10 +1,17 @@
-import React from 'react';
 import { useAppStore } from '@/store/appStore';
 import { Button } from '@/components/ui/Button';
-import { Input } from '@/components/ui/Input';
-import { Search } from 'lucide-react';
+import { usePlanCustomFields, usePlanMembers, usePlanStatuses } from '@/hooks/usePlans';
+import { CustomField, TaskFilters, TaskGrouping } from '@/types';
+import { SavedViewSwitcher } from '@/components/layout/SavedViewSwitcher';
+import { TaskSearchInput } from '@/components/layout/TaskSearchInput';
+import { TASK_GROUPING_LABELS } from '@/lib/taskGroups';
+import { getSavedViewFilters } from '@/lib/savedViews';
 
-export function Sidebar() {
+interface SidebarProps {
+  planId?: string; // the open plan, whose statuses and custom fields are offered as filters
+}
+
+export function Sidebar({ planId }: SidebarProps) {
   const { 
     sidebarOpen, 
     setSidebarOpen,
@@ -12,12 +19,17 @@ export function Sidebar() {
     setFilters, 
     clearFilters,
     activeView,
-    setActiveView 
+    setActiveView,
+    groupBy,
+    setGroupBy
   } = useAppStore();
-
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setFilters({ q: e.target.value });
-  };
+  const { statuses } = usePlanStatuses(planId || '');
+  const { customFields } = usePlanCustomFields(planId || '');
+  const { members } = usePlanMembers(planId || '');
+  // Fields with a short list of values to pick from
+  const filterableFields = customFields.filter(field =>
+    field.type === 'single_select' || field.type === 'multi_select' || field.type === 'checkbox' || field.type === 'user'
+  );
 
   const handleStatusFilter = (status: string) => {
     const currentStatus = Array.isArray(filters.status) ? filters.status : 
@@ -41,12 +53,45 @@ export function Sidebar() {
     setFilters({ priority: newPriority.length > 0 ? newPriority : undefined });
   };
 
-  const statusOptions = [
-    { value: 'todo', label: 'To Do', color: 'bg-gray-100 text-gray-800' },
-    { value: 'in_progress', label: 'In Progress', color: 'bg-blue-100 text-blue-800' },
-    { value: 'done', label: 'Done', color: 'bg-green-100 text-green-800' },
+  const getCustomFieldFilter = (fieldId: string): string[] => {
+    const value = filters.cf?.[fieldId];
+    return Array.isArray(value) ? value : value ? [value] : [];
+  };
+
+  // Checkbox fields filter on one value; the others match any of the selected values
+  const handleCustomFieldFilter = (field: CustomField, value: string) => {
+    const current = getCustomFieldFilter(field._id);
+    const next = current.includes(value)
+      ? current.filter(v => v !== value)
+      : field.type === 'checkbox' ? [value] : [...current, value];
+
+    const { [field._id]: _removed, ...others } = filters.cf || {};
+    const cf = next.length > 0 ? { ...others, [field._id]: next } : others;
+    setFilters({ cf: Object.keys(cf).length > 0 ? cf : undefined });
+  };
+
+  const getCustomFieldFilterOptions = (field: CustomField) => {
+    if (field.type === 'checkbox') return [{ value: 'true', label: 'Checked' }, { value: 'false', label: 'Not checked' }];
+    if (field.type === 'user') return [{ value: 'me', label: 'Me' }];
+    return field.options.map(option => ({ value: option, label: option }));
+  };
+
+  const flagOptions: Array<{ key: 'overdue' | 'unassigned' | 'has_dependencies' | 'blocked'; label: string }> = [
+    { key: 'overdue', label: 'Overdue' },
+    { key: 'unassigned', label: 'Unassigned' },
+    { key: 'has_dependencies', label: 'Has dependencies' },
+    { key: 'blocked', label: 'Blocked by open dependencies' },
   ];
 
+  const dateRanges: Array<{ label: string; from: 'due_from' | 'start_from'; to: 'due_to' | 'start_to' }> = [
+    { label: 'Due', from: 'due_from', to: 'due_to' },
+    { label: 'Start', from: 'start_from', to: 'start_to' },
+  ];
+
+  const handleDateFilter = (key: keyof TaskFilters, value: string) => {
+    setFilters({ [key]: value || undefined });
+  };
+
   const priorityOptions = [
     { value: 'low', label: 'Low', color: 'bg-green-100 text-green-800' },
     { value: 'medium', label: 'Medium', color: 'bg-yellow-100 text-yellow-800' },
@@ -91,33 +136,44 @@ export function Sidebar() {
           </div>
         </div>
 
+        {/* Table grouping */}
+        {activeView === 'table' && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">Group by</h3>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as TaskGrouping)}
+              className="w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            >
+              {(Object.keys(TASK_GROUPING_LABELS) as TaskGrouping[]).map(grouping => (
+                <option key={grouping} value={grouping}>{TASK_GROUPING_LABELS[grouping]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Saved Views */}
+        {planId && <SavedViewSwitcher planId={planId} />}
+
         {/* Search */}
         <div>
           <h3 className="text-sm font-medium text-gray-900 mb-3">Search</h3>
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-            <Input
-              placeholder="Search tasks..."
-              value={filters.q || ''}
-              onChange={handleSearchChange}
-              className="pl-10"
-            />
-          </div>
+          <TaskSearchInput planId={planId} />
         </div>
 
         {/* Status Filter */}
         <div>
           <h3 className="text-sm font-medium text-gray-900 mb-3">Status</h3>
           <div className="space-y-2">
-            {statusOptions.map((status) => {
+            {statuses.map((status) => {
               const isSelected = Array.isArray(filters.status) 
-                ? filters.status.includes(status.value)
-                : filters.status === status.value;
+                ? filters.status.includes(status.key)
+                : filters.status === status.key;
               
               return (
                 <button
-                  key={status.value}
-                  onClick={() => handleStatusFilter(status.value)}
+                  key={status.key}
+                  onClick={() => handleStatusFilter(status.key)}
                   className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
                     isSelected
                       ? 'bg-primary-100 text-primary-700'
@@ -125,7 +181,7 @@ export function Sidebar() {
                   }`}
                 >
                   <div className="flex items-center space-x-2">
-                    <div className={`h-2 w-2 rounded-full ${status.color.split(' ')[0]}`} />
+                    <div className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
                     <span>{status.label}</span>
                   </div>
                 </button>
@@ -163,8 +219,103 @@ export function Sidebar() {
           </div>
         </div>
 
+        {/* Custom Field Filters */}
+        {filterableFields.map((field) => (
+          <div key={field._id}>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">{field.name}</h3>
+            <div className="space-y-2">
+              {getCustomFieldFilterOptions(field).map((option) => {
+                const isSelected = getCustomFieldFilter(field._id).includes(option.value);
+
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => handleCustomFieldFilter(field, option.value)}
+                    className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                      isSelected
+                        ? 'bg-primary-100 text-primary-700'
+                        : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {/* Flag Filters */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Show only</h3>
+          <div className="space-y-2">
+            {flagOptions.map((option) => (
+              <button
+                key={option.key}
+                onClick={() => setFilters({ [option.key]: filters[option.key] ? undefined : true })}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                  filters[option.key]
+                    ? 'bg-primary-100 text-primary-700'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Date Filters */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Dates</h3>
+          <div className="space-y-3">
+            {dateRanges.map((range) => (
+              <div key={range.label}>
+                <label className="block text-xs font-medium text-gray-600 mb-1">{range.label}</label>
+                <div className="flex items-center space-x-1">
+                  <input
+                    type="date"
+                    value={filters[range.from] || ''}
+                    max={filters[range.to] || undefined}
+                    onChange={(e) => handleDateFilter(range.from, e.target.value)}
+                    className="min-w-0 flex-1 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    aria-label={`${range.label} from`}
+                  />
+                  <span className="text-gray-400 text-xs">to</span>
+                  <input
+                    type="date"
+                    value={filters[range.to] || ''}
+                    min={filters[range.from] || undefined}
+                    onChange={(e) => handleDateFilter(range.to, e.target.value)}
+                    className="min-w-0 flex-1 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    aria-label={`${range.label} to`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Creator Filter */}
+        {planId && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">Created by</h3>
+            <select
+              value={filters.created_by || ''}
+              onChange={(e) => setFilters({ created_by: e.target.value || undefined })}
+              className="w-full text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">Anyone</option>
+              <option value="me">Me</option>
+              {members.map(member => (
+                <option key={member._id} value={member._id}>{member.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Clear Filters */}
-        {(filters.q || filters.status || filters.priority) && (
+        {Object.keys(getSavedViewFilters(filters)).length > 0 && (
           <div>
             <Button
               variant="outline"
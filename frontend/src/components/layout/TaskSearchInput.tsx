@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { useAppStore } from '@/store/appStore';
+import { usePlanMembers, usePlanStatuses } from '@/hooks/usePlans';
+import { usePlanTags } from '@/hooks/useTasks';
+import { cn } from '@/lib/utils';
+import {
+  QueryTokenKind,
+  QuerySuggestion,
+  applyTaskQuerySuggestion,
+  getTaskQueryError,
+  getTaskQuerySuggestions,
+  tokenizeTaskQuery,
+} from '@/lib/taskQuery';
+
+interface TaskSearchInputProps {
+  planId?: string;
+}
+
+const TOKEN_CLASS_NAMES: Record<QueryTokenKind, string> = {
+  negation: 'text-red-600',
+  field: 'text-primary-600',
+  operator: 'text-gray-400',
+  value: 'text-green-700',
+  text: 'text-gray-900',
+};
+
+// Search box for the task query language. The query is highlighted as it is typed and
+// only becomes the search filter once it is valid, so a half-typed term doesn't fail the task list.
+export function TaskSearchInput({ planId = '' }: TaskSearchInputProps) {
+  const { filters, setFilters } = useAppStore();
+  const { statuses } = usePlanStatuses(planId);
+  const { members } = usePlanMembers(planId);
+  const { data: tags = [] } = usePlanTags(planId);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const [draft, setDraft] = useState(filters.q || '');
+  const [caret, setCaret] = useState<number | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  // Saved views and "Clear Filters" change the query from outside
+  useEffect(() => {
+    setDraft(filters.q || '');
+  }, [filters.q]);
+
+  const context = useMemo(
+    () => ({ statuses: statuses.map(status => status.key), members }),
+    [statuses, members]
+  );
+  const tokens = useMemo(() => tokenizeTaskQuery(draft, context), [draft, context]);
+  const queryError = useMemo(() => getTaskQueryError(draft, context), [draft, context]);
+  const suggestions = caret === null ? [] : getTaskQuerySuggestions(draft, caret, { ...context, tags });
+
+  const update = (value: string, nextCaret: number | null) => {
+    setDraft(value);
+    setCaret(nextCaret);
+    setHighlightedIndex(0);
+    if (!getTaskQueryError(value, context)) {
+      setFilters({ q: value });
+    }
+  };
+
+  const syncScroll = () => {
+    if (highlightRef.current && inputRef.current) {
+      highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    update(e.target.value, e.target.selectionStart);
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const next = applyTaskQuerySuggestion(draft, suggestion);
+    update(next.value, next.caret);
+
+    requestAnimationFrame(() => {
+      const input = inputRef.current;
+      if (!input) return;
+      input.focus();
+      input.setSelectionRange(next.caret, next.caret);
+      syncScroll();
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlightedIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCaret(null);
+    }
+  };
+
+  // Caret moves without typing (clicks, arrow keys) change what is being completed
+  const handleSelect = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    const position = e.currentTarget.selectionStart;
+    if (caret !== null && position !== caret) {
+      setCaret(position);
+      setHighlightedIndex(0);
+    }
+    syncScroll();
+  };
+
+  const renderHighlighted = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    tokens.forEach((token, index) => {
+      if (token.start > position) parts.push(draft.slice(position, token.start));
+      parts.push(
+        <span
+          key={index}
+          className={cn(
+            TOKEN_CLASS_NAMES[token.kind],
+            token.error && 'underline decoration-wavy decoration-red-500'
+          )}
+        >
+          {draft.slice(token.start, token.end)}
+        </span>
+      );
+      position = token.end;
+    });
+    if (position < draft.length) parts.push(draft.slice(position));
+    return parts;
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 z-10" />
+        <div
+          ref={highlightRef}
+          aria-hidden="true"
+          className="absolute inset-0 flex items-center pl-10 pr-3 border border-transparent text-sm whitespace-pre overflow-hidden pointer-events-none"
+        >
+          {renderHighlighted()}
+        </div>
+        <input
+          ref={inputRef}
+          value={draft}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          onScroll={syncScroll}
+          onFocus={(e) => setCaret(e.target.selectionStart)}
+          onBlur={() => setTimeout(() => setCaret(null), 150)}
+          placeholder="Search, e.g. status:todo assignee:me"
+          spellCheck={false}
+          autoComplete="off"
+          aria-label="Search tasks"
+          aria-invalid={!!queryError}
+          className={cn(
+            'input pl-10 bg-transparent text-transparent caret-gray-900 placeholder:text-gray-400',
+            queryError && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+          )}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg py-1">
+            {suggestions.map((suggestion, index) => (
+              <li key={`${suggestion.label}-${suggestion.insert}`}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                  className={cn(
+                    'w-full px-3 py-1.5 text-left text-sm',
+                    index === highlightedIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                  )}
+                >
+                  <div className="font-medium truncate">{suggestion.label}</div>
+                  {suggestion.description && (
+                    <div className="text-xs text-gray-500 truncate">{suggestion.description}</div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {queryError && suggestions.length === 0 && (
+        <p className="mt-1 text-xs text-red-600">{queryError.error}</p>
+      )}
+    </div>
+  );
+}
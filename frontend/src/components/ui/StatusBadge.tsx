@@ -0,0 +1,25 @@
+import { PlanStatus } from '@/types';
+import { Badge } from '@/components/ui/Badge';
+import { findStatus, getStatusStyle } from '@/lib/statuses';
+
+interface StatusBadgeProps {
+  status: string;
+  statuses: PlanStatus[];
+  className?: string;
+}
+
+// A task's status in the plan's color; unknown keys show as plain gray badges
+export function StatusBadge({ status, statuses, className }: StatusBadgeProps) {
+  const match = findStatus(statuses, status);
+
+  return (
+    <Badge
+      variant="status"
+      value={status}
+      className={className}
+      style={match ? getStatusStyle(match.color) : undefined}
+    >
+      {match?.label ?? status}
+    </Badge>
+  );
+}
@@ -1,17 +1,25 @@
-import { useState, useMemo } from 'react';
-import { TaskWithDetails } from '@/types';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { TaskListPaging, TaskWithDetails } from '@/types';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
-import { cn } from '@/lib/utils';
-import { ChevronLeft, ChevronRight, Calendar, FileImage, FileText, FileSpreadsheet } from 'lucide-react';
+import { cn, formatDateShort } from '@/lib/utils';
+import { BarDrag, DAYS_PER_STEP, DragMode, GANTT_TASK_LIMIT, GanttZoom, ROW_HEIGHT, applyDrag, getArrowPath, isDependencyViolation } from '@/lib/gantt';
+import { buildTaskTree, flattenTaskTree, getTaskRollup } from '@/lib/taskTree';
+import { useAppStore } from '@/store/appStore';
+import { useCriticalPath, useUpdateTask } from '@/hooks/useTasks';
+import { usePlanStatuses } from '@/hooks/usePlans';
+import { useLoadMoreNearEnd, useVirtualRows } from '@/hooks/useVirtualRows';
+import { LoadMoreStatus } from '@/components/views/LoadMoreStatus';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { findStatus, isDoneStatus } from '@/lib/statuses';
+import { ChevronLeft, ChevronRight, ChevronDown, Calendar, FileImage, FileText, FileSpreadsheet, Route, GitBranch, X } from 'lucide-react';
 
 interface GanttViewProps {
   tasks: TaskWithDetails[];
   planId: string;
+  paging?: TaskListPaging; // when the plan's tasks load a page at a time
 }
 
-type GanttZoom = 'day' | 'week' | 'month';
-
 interface GanttTask {
   id: string;
   title: string;
@@ -22,26 +30,81 @@ interface GanttTask {
   priority?: string;
   dependencies: string[];
   level: number; // For hierarchical display
+  hasChildren: boolean; // drawn as a summary bar spanning its subtasks
+}
+
+const TASK_COLUMN_WIDTH = 320; // matches the w-80 task column
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
 }
 
-export function GanttView({ tasks }: GanttViewProps) {
-  const [zoom, setZoom] = useState<GanttZoom>('week');
+interface DependencyArrow {
+  id: string;
+  path: string;
+  isViolation: boolean;
+  firstRow: number; // rows the arrow spans
+  lastRow: number;
+}
+
+export function GanttView({ tasks, planId, paging }: GanttViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
+  const { ganttState, setGanttZoom: setZoom, toggleCriticalPath, toggleDependencies } = useAppStore();
+  const zoom = ganttState.zoom; // kept in the store so saved views can restore it
+  const [drag, setDrag] = useState<BarDrag | null>(null);
+  const [rescheduleError, setRescheduleError] = useState<string | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const { mutate: updateTask } = useUpdateTask();
+  const { statuses } = usePlanStatuses(planId);
+
+  // Earliest/latest start and slack per task, from the server so dependencies on tasks
+  // that haven't loaded yet still count; only the highlighting is optional
+  const { data: criticalPath } = useCriticalPath(planId);
+  const scheduleById = useMemo(
+    () => new Map((criticalPath?.schedule ?? []).map(schedule => [schedule.task_id, schedule])),
+    [criticalPath]
+  );
+
+  // Convert tasks to Gantt format, parents first with their subtasks below
+  const taskTree = useMemo(() => buildTaskTree(tasks), [tasks]);
 
-  // Convert tasks to Gantt format
   const ganttTasks = useMemo(() => {
-    return tasks.map((task) => ({
-      id: task._id,
-      title: task.title,
-      startDate: task.start_date ? new Date(task.start_date) : null,
-      endDate: task.due_date ? new Date(task.due_date) : null,
-      progress: task.progress_pct || 0,
-      status: task.status,
-      priority: task.priority,
-      dependencies: task.dependency_ids || [],
-      level: 0, // TODO: Calculate hierarchy levels
-    }));
-  }, [tasks]);
+    return flattenTaskTree(taskTree).map((node) => {
+      const { task } = node;
+      const rollup = node.children.length > 0
+        ? getTaskRollup(node, status => isDoneStatus(statuses, status))
+        : null;
+      const start = rollup?.startDate ?? task.start_date;
+      const end = rollup?.dueDate ?? task.due_date;
+
+      return {
+        id: task._id,
+        title: task.title,
+        startDate: start ? new Date(start) : null,
+        endDate: end ? new Date(end) : null,
+        progress: rollup ? rollup.progress : task.progress_pct || 0,
+        status: task.status,
+        priority: task.priority,
+        dependencies: task.dependency_ids || [],
+        level: node.depth,
+        hasChildren: !!rollup,
+      };
+    });
+  }, [taskTree, statuses]);
+
+  const visibleIds = useMemo(
+    () => new Set(flattenTaskTree(taskTree, collapsedIds).map(node => node.task._id)),
+    [taskTree, collapsedIds]
+  );
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
 
   // Calculate date range for the timeline
   const { startDate, endDate, timeline } = useMemo(() => {
@@ -63,8 +126,15 @@ export function GanttView({ tasks }: GanttViewProps) {
       };
     }
 
-    const minDate = new Date(Math.min(...allDates.map(d => d.getTime())));
-    const maxDate = new Date(Math.max(...allDates.map(d => d.getTime())));
+    // A loop rather than Math.min(...dates), which runs out of stack on large plans
+    let minTime = allDates[0].getTime();
+    let maxTime = minTime;
+    allDates.forEach(date => {
+      minTime = Math.min(minTime, date.getTime());
+      maxTime = Math.max(maxTime, date.getTime());
+    });
+    const minDate = new Date(minTime);
+    const maxDate = new Date(maxTime);
     
     // Add some padding
     minDate.setDate(minDate.getDate() - 7);
@@ -120,6 +190,114 @@ export function GanttView({ tasks }: GanttViewProps) {
     };
   }
 
+  const containerWidth = timeline.length * (zoom === 'day' ? 60 : zoom === 'week' ? 100 : 120);
+  const pixelsPerDay = containerWidth / Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)));
+
+  // Rows currently displayed, with the bar being dragged at its preview position
+  const displayTasks = useMemo(() => {
+    const visible = ganttTasks.filter(task => visibleIds.has(task.id));
+    if (!drag) return visible;
+    return visible.map(task => task.id === drag.taskId ? applyDrag(task, drag, zoom) : task);
+  }, [ganttTasks, visibleIds, drag, zoom]);
+
+  // Only rows near the visible part of the chart are rendered, but the Gantt isn't
+  // paginated: summary bars, rollups, the timeline range and arrows need every task, so
+  // pages keep loading until the whole plan is in, up to GANTT_TASK_LIMIT tasks.
+  const getRowKey = useCallback((index: number) => displayTasks[index].id, [displayTasks]);
+  const { scrollRef, start, end, paddingTop, paddingBottom } = useVirtualRows({
+    count: displayTasks.length,
+    getKey: getRowKey,
+    estimateSize: ROW_HEIGHT,
+  });
+  const reachedLimit = !!paging?.hasMore && tasks.length >= GANTT_TASK_LIMIT;
+  useLoadMoreNearEnd(reachedLimit ? undefined : paging, displayTasks.length, displayTasks.length);
+
+  const startDrag = (event: React.PointerEvent, task: GanttTask, mode: DragMode) => {
+    // Summary bars follow their subtasks, so only leaf tasks can be dragged
+    if (event.button !== 0 || task.hasChildren || !task.startDate || !task.endDate) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setRescheduleError(null);
+    setDrag({ taskId: task.id, mode, originX: event.clientX, steps: 0 });
+  };
+
+  // Track the pointer while a bar is being dragged; dropping persists the new dates
+  useEffect(() => {
+    if (!drag) return;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const steps = Math.round((event.clientX - drag.originX) / (pixelsPerDay * DAYS_PER_STEP[zoom]));
+      if (steps !== drag.steps) {
+        setDrag({ ...drag, steps });
+      }
+    };
+
+    const handlePointerUp = () => {
+      setDrag(null);
+      const task = ganttTasks.find(t => t.id === drag.taskId);
+      if (!task || drag.steps === 0) return;
+
+      const moved = applyDrag(task, drag, zoom);
+      updateTask(
+        {
+          taskId: task.id,
+          planId,
+          updates: { start_date: toISODate(moved.startDate!), due_date: toISODate(moved.endDate!) },
+        },
+        {
+          // The bar snaps back when the optimistic update is rolled back; say why
+          onError: (error) => setRescheduleError(
+            `Couldn't reschedule "${task.title}": ${error instanceof Error ? error.message : 'please try again'}`
+          ),
+        }
+      );
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [drag, ganttTasks, pixelsPerDay, zoom, planId, updateTask]);
+
+  // Connectors between dated bars, recomputed whenever the layout changes
+  const dependencyArrows = useMemo(() => {
+    if (!ganttState.showDependencies) return [];
+
+    const rows = new Map(displayTasks.map((task, index) => [task.id, { task, index }]));
+    const arrows: DependencyArrow[] = [];
+
+    displayTasks.forEach((task, index) => {
+      if (!task.startDate || !task.endDate) return;
+      const successor = getTaskDimensions(task, containerWidth);
+
+      task.dependencies.forEach(dependencyId => {
+        const predecessorRow = rows.get(dependencyId);
+        if (!predecessorRow?.task.startDate || !predecessorRow.task.endDate) return;
+        const predecessor = getTaskDimensions(predecessorRow.task, containerWidth);
+
+        arrows.push({
+          id: `${dependencyId}-${task.id}`,
+          path: getArrowPath(predecessor.left + predecessor.width, predecessorRow.index, successor.left, index),
+          isViolation: isDependencyViolation(predecessorRow.task.endDate, task.startDate!),
+          firstRow: Math.min(predecessorRow.index, index),
+          lastRow: Math.max(predecessorRow.index, index),
+        });
+      });
+    });
+
+    return arrows;
+  }, [displayTasks, containerWidth, ganttState.showDependencies, startDate, endDate]);
+
+  const renderedArrows = dependencyArrows.filter(arrow => arrow.lastRow >= start && arrow.firstRow < end);
+
   const navigateTimeline = (direction: 'left' | 'right') => {
     const newDate = new Date(currentDate);
     const daysToMove = zoom === 'day' ? 7 : zoom === 'week' ? 14 : 30;
@@ -242,7 +420,7 @@ export function GanttView({ tasks }: GanttViewProps) {
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h3 className="text-lg font-medium text-gray-900">
-              Gantt Chart ({tasks.length} tasks)
+              Gantt Chart ({paging && paging.total > tasks.length ? `${tasks.length} of ${paging.total}` : tasks.length} tasks)
             </h3>
             
             <div className="flex items-center space-x-2">
@@ -271,6 +449,33 @@ export function GanttView({ tasks }: GanttViewProps) {
                 Month
               </Button>
             </div>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={toggleDependencies}
+              className={cn(
+                'flex items-center space-x-1',
+                ganttState.showDependencies && 'bg-primary-100 text-primary-700'
+              )}
+              title="Show finish-to-start dependency arrows"
+            >
+              <GitBranch className="h-4 w-4" />
+              <span>Dependencies</span>
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={toggleCriticalPath}
+              className={cn(
+                'flex items-center space-x-1',
+                ganttState.showCriticalPath && 'bg-red-50 text-red-700 border-red-300'
+              )}
+              title="Highlight the chain of tasks with no slack"
+            >
+              <Route className="h-4 w-4" />
+              <span>Critical path</span>
+            </Button>
           </div>
           
           <div className="flex items-center space-x-2">
@@ -324,11 +529,33 @@ export function GanttView({ tasks }: GanttViewProps) {
         </div>
       </div>
 
+      {rescheduleError && (
+        <div className="flex items-start justify-between gap-3 bg-red-50 border-b border-red-200 px-6 py-3" role="alert">
+          <p className="text-sm text-red-600">{rescheduleError}</p>
+          <button
+            type="button"
+            onClick={() => setRescheduleError(null)}
+            className="text-red-400 hover:text-red-600"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {reachedLimit && (
+        <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+          Showing the first {tasks.length} of {paging!.total} tasks: the Gantt chart loads at most{' '}
+          {GANTT_TASK_LIMIT} tasks. Summary bars and the timeline only cover these tasks; filter the plan
+          to chart the rest.
+        </div>
+      )}
+
       {/* Gantt Chart */}
-      <div className="overflow-x-auto">
+      <div ref={scrollRef} className="overflow-auto max-h-[70vh]">
         <div className="min-w-full" style={{ minWidth: `${timeline.length * (zoom === 'day' ? 60 : zoom === 'week' ? 100 : 120) + 320}px` }}>
           {/* Timeline Header */}
-          <div className="flex border-b border-gray-200">
+          <div className="flex border-b border-gray-200 sticky top-0 z-30 bg-gray-50">
             <div className="w-80 flex-shrink-0 border-r border-gray-200 bg-gray-50 px-4 py-3">
               <span className="text-sm font-medium text-gray-900">Task</span>
             </div>
@@ -350,22 +577,42 @@ export function GanttView({ tasks }: GanttViewProps) {
           </div>
 
           {/* Task Rows */}
-          <div className="divide-y divide-gray-200">
-            {ganttTasks.map((task) => {
-              const containerWidth = timeline.length * (zoom === 'day' ? 60 : zoom === 'week' ? 100 : 120);
+          <div className="relative divide-y divide-gray-200">
+            {paddingTop > 0 && <div aria-hidden="true" style={{ height: `${paddingTop}px` }} />}
+            {displayTasks.slice(start, end).map((task) => {
               const dimensions = getTaskDimensions(task, containerWidth);
+              const schedule = scheduleById.get(task.id);
+              const isCritical = ganttState.showCriticalPath && !!schedule?.is_critical;
+              const statusColor = findStatus(statuses, task.status)?.color;
               
               return (
-                <div key={task.id} className="flex min-h-12">
+                <div key={task.id} className="flex" style={{ height: `${ROW_HEIGHT}px` }}>
                   {/* Task Info */}
                   <div className="w-80 flex-shrink-0 border-r border-gray-200 px-4 py-3 bg-white">
-                    <div className="flex items-center space-x-2">
+                    <div className="flex items-center space-x-2" style={{ paddingLeft: `${task.level * 16}px` }}>
+                      <div className="w-4 flex-shrink-0">
+                        {task.hasChildren && (
+                          <button
+                            onClick={() => toggleCollapsed(task.id)}
+                            className="text-gray-400 hover:text-gray-600 transition-colors"
+                            aria-label={collapsedIds.has(task.id) ? 'Expand subtasks' : 'Collapse subtasks'}
+                          >
+                            {collapsedIds.has(task.id)
+                              ? <ChevronRight className="h-4 w-4" />
+                              : <ChevronDown className="h-4 w-4" />}
+                          </button>
+                        )}
+                      </div>
                       <div className="flex-1 min-w-0">
-                        <div className="text-sm font-medium text-gray-900 truncate">
+                        <div className={cn(
+                          'text-sm truncate',
+                          task.hasChildren ? 'font-semibold' : 'font-medium',
+                          isCritical ? 'text-red-700' : 'text-gray-900'
+                        )}>
                           {task.title}
                         </div>
                         <div className="flex items-center space-x-2 mt-1">
-                          <Badge variant="status" value={task.status} />
+                          <StatusBadge status={task.status} statuses={statuses} />
                           {task.priority && (
                             <Badge variant="priority" value={task.priority} />
                           )}
@@ -384,20 +631,53 @@ export function GanttView({ tasks }: GanttViewProps) {
                         }}
                       />
                       
+                      {/* Summary Bar */}
+                      {task.hasChildren && task.startDate && task.endDate && (
+                        <div
+                          className="absolute top-1/2 -translate-y-1/2 h-3"
+                          style={{
+                            left: `${dimensions.left}px`,
+                            width: `${dimensions.width}px`,
+                          }}
+                          title={`${task.title}: ${formatDateShort(task.startDate)} – ${formatDateShort(task.endDate)} (${task.progress}% complete)`}
+                        >
+                          <div className={cn('absolute inset-x-0 top-0 h-2 rounded-sm', isCritical ? 'bg-red-700' : 'bg-gray-700')} />
+                          <div
+                            className="absolute left-0 top-0 h-2 rounded-sm bg-primary-400"
+                            style={{ width: `${task.progress}%` }}
+                          />
+                          <div className={cn('absolute left-0 top-0 h-3 w-1.5 rounded-b-sm', isCritical ? 'bg-red-700' : 'bg-gray-700')} />
+                          <div className={cn('absolute right-0 top-0 h-3 w-1.5 rounded-b-sm', isCritical ? 'bg-red-700' : 'bg-gray-700')} />
+                        </div>
+                      )}
+
                       {/* Task Bar */}
-                      {task.startDate && task.endDate && (
+                      {!task.hasChildren && task.startDate && task.endDate && (
                         <div
+                          onPointerDown={(event) => startDrag(event, task, 'move')}
                           className={cn(
-                            'absolute top-2 bottom-2 rounded-sm border flex items-center justify-center text-xs font-medium text-white',
-                            task.status === 'done' ? 'bg-green-500 border-green-600' :
-                            task.status === 'in_progress' ? 'bg-blue-500 border-blue-600' :
-                            'bg-gray-400 border-gray-500'
+                            'group absolute top-2 bottom-2 rounded-sm border flex items-center justify-center text-xs font-medium text-white select-none touch-none',
+                            drag?.taskId === task.id ? 'cursor-grabbing opacity-90 shadow-md' : 'cursor-grab',
+                            !statusColor && 'bg-gray-400 border-gray-500',
+                            isCritical && 'ring-2 ring-red-500 ring-offset-1'
                           )}
                           style={{
                             left: `${dimensions.left}px`,
                             width: `${dimensions.width}px`,
+                            backgroundColor: statusColor,
+                            borderColor: statusColor,
                           }}
                         >
+                          {/* Resize Handles */}
+                          <div
+                            onPointerDown={(event) => startDrag(event, task, 'start')}
+                            className="absolute left-0 top-0 bottom-0 w-1.5 z-20 cursor-ew-resize hover:bg-black hover:bg-opacity-20"
+                          />
+                          <div
+                            onPointerDown={(event) => startDrag(event, task, 'end')}
+                            className="absolute right-0 top-0 bottom-0 w-1.5 z-20 cursor-ew-resize hover:bg-black hover:bg-opacity-20"
+                          />
+
                           {/* Progress Bar */}
                           {task.progress > 0 && (
                             <div
@@ -409,9 +689,29 @@ export function GanttView({ tasks }: GanttViewProps) {
                           {/* Task Label */}
                           {dimensions.width > 80 && (
                             <span className="relative z-10 truncate px-2">
-                              {task.progress > 0 ? `${task.progress}%` : task.title}
+                              {drag?.taskId === task.id
+                                ? `${formatDateShort(task.startDate)} – ${formatDateShort(task.endDate)}`
+                                : task.progress > 0 ? `${task.progress}%` : task.title}
                             </span>
                           )}
+
+                          {/* Schedule Tooltip */}
+                          {schedule && !drag && (
+                            <div className="pointer-events-none absolute left-0 top-full mt-1 z-20 hidden group-hover:block w-56 rounded-md bg-gray-900 px-3 py-2 text-left text-xs font-normal text-white shadow-lg">
+                              <div className="font-medium truncate">{task.title}</div>
+                              <div className="mt-1 text-gray-300">
+                                Earliest start: {formatDateShort(schedule.earliest_start)}
+                              </div>
+                              <div className="text-gray-300">
+                                Latest start: {formatDateShort(schedule.latest_start)}
+                              </div>
+                              <div className={schedule.is_critical ? 'text-red-300' : 'text-gray-300'}>
+                                {schedule.is_critical
+                                  ? 'Critical: no slack'
+                                  : `Slack: ${schedule.slack_days} day${schedule.slack_days === 1 ? '' : 's'}`}
+                              </div>
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
@@ -419,10 +719,42 @@ export function GanttView({ tasks }: GanttViewProps) {
                 </div>
               );
             })}
+            {paddingBottom > 0 && <div aria-hidden="true" style={{ height: `${paddingBottom}px` }} />}
+
+            {/* Dependency Arrows */}
+            {renderedArrows.length > 0 && (
+              <svg
+                className="absolute top-0 pointer-events-none overflow-visible"
+                style={{ left: `${TASK_COLUMN_WIDTH}px` }}
+                width={containerWidth}
+                height={displayTasks.length * ROW_HEIGHT}
+              >
+                <defs>
+                  <marker id="gantt-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" className="fill-gray-500" />
+                  </marker>
+                  <marker id="gantt-arrow-violation" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" className="fill-red-500" />
+                  </marker>
+                </defs>
+                {renderedArrows.map((arrow) => (
+                  <path
+                    key={arrow.id}
+                    d={arrow.path}
+                    fill="none"
+                    strokeWidth={arrow.isViolation ? 2 : 1.5}
+                    className={arrow.isViolation ? 'stroke-red-500' : 'stroke-gray-500'}
+                    markerEnd={`url(#${arrow.isViolation ? 'gantt-arrow-violation' : 'gantt-arrow'})`}
+                  />
+                ))}
+              </svg>
+            )}
           </div>
         </div>
       </div>
 
+      {paging && !reachedLimit && <LoadMoreStatus paging={paging} loaded={tasks.length} />}
+
       {tasks.length === 0 && (
         <div className="text-center py-12">
           <Calendar className="mx-auto h-12 w-12 text-gray-400" />
@@ -20,25 +20,36 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { TaskWithDetails } from '@/types';
-import { useReorderTasks, useUpdateTask } from '@/hooks/useTasks';
+import { PlanStatus, TaskFilters, TaskListPaging, TaskWithDetails } from '@/types';
+import { useInfiniteTasks, useReorderTasks, useUpdateTask } from '@/hooks/useTasks';
+import { useLoadMoreNearEnd, useVirtualRows } from '@/hooks/useVirtualRows';
+import { usePlanStatuses } from '@/hooks/usePlans';
 import { TaskDetailModal } from '@/components/TaskDetailModal';
 import { Badge } from '@/components/ui/Badge';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { LoadMoreStatus } from '@/components/views/LoadMoreStatus';
+import { useAppStore } from '@/store/appStore';
 import { cn, formatDateShort, isOverdue } from '@/lib/utils';
-import { Calendar, Users, GripVertical, Target, FileText, CheckSquare } from 'lucide-react';
-import { useState } from 'react';
+import { getStatusCategory, isDoneStatus } from '@/lib/statuses';
+import { flattenTaskPages } from '@/lib/taskPages';
+import { buildTaskTree, getTaskRollup, indexTaskTree, TaskTreeNode } from '@/lib/taskTree';
+import { Calendar, Users, GripVertical, Target, FileText, CheckSquare, ListTree, CornerDownRight } from 'lucide-react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 
 interface KanbanBoardProps {
-  tasks: TaskWithDetails[];
   planId: string;
 }
 
+type TaskTreeIndex = Map<string, TaskTreeNode<TaskWithDetails>>;
+
 interface TaskCardProps {
   task: TaskWithDetails;
+  treeIndex: TaskTreeIndex;
+  statuses: PlanStatus[];
   onClick: () => void;
 }
 
-function TaskCard({ task, onClick }: TaskCardProps) {
+function TaskCard({ task, treeIndex, statuses, onClick }: TaskCardProps) {
   const {
     attributes,
     listeners,
@@ -50,10 +61,11 @@ function TaskCard({ task, onClick }: TaskCardProps) {
 
   // Determine card background color based on task properties
   const getCardBackgroundColor = () => {
-    if (task.status === 'done') return 'bg-green-50 border-green-200';
-    if (task.status === 'in_progress') return 'bg-yellow-50 border-yellow-200';
+    const category = getStatusCategory(statuses, task.status);
+    if (category === 'done') return 'bg-green-50 border-green-200';
+    if (category === 'active') return 'bg-yellow-50 border-yellow-200';
     
-    // For todo tasks
+    // For not started tasks
     if (task.priority === 'urgent') return 'bg-red-50 border-red-200';
     
     // Check if start date has passed
@@ -86,6 +98,14 @@ function TaskCard({ task, onClick }: TaskCardProps) {
 
   const isTaskOverdue = task.due_date && isOverdue(task.due_date);
 
+  // Parents show their subtasks' rolled-up progress; subtasks name their parent
+  const node = treeIndex.get(task._id);
+  const rollup = node && node.children.length > 0
+    ? getTaskRollup(node, status => isDoneStatus(statuses, status))
+    : null;
+  const parentTitle = task.parent_id ? treeIndex.get(task.parent_id)?.task.title : undefined;
+  const progress = rollup ? rollup.progress : task.progress_pct;
+
   return (
     <div
       ref={setNodeRef}
@@ -119,10 +139,28 @@ function TaskCard({ task, onClick }: TaskCardProps) {
             {task.priority && (
               <Badge variant="priority" value={task.priority} />
             )}
-            <Badge variant="status" value={task.status} />
+            <StatusBadge status={task.status} statuses={statuses} />
           </div>
         </div>
 
+        {/* Parent */}
+        {parentTitle && (
+          <div className="flex items-center space-x-1 text-xs text-gray-500">
+            <CornerDownRight className="h-3 w-3" />
+            <span className="line-clamp-1">{parentTitle}</span>
+          </div>
+        )}
+
+        {/* Subtasks */}
+        {rollup && (
+          <div className="flex items-center space-x-1 text-xs text-gray-600">
+            <ListTree className="h-3 w-3" />
+            <span>
+              {rollup.descendantCount} subtask{rollup.descendantCount === 1 ? '' : 's'} · {rollup.doneCount} done
+            </span>
+          </div>
+        )}
+
         {/* Goal */}
         {task.goal && (
           <div className="flex items-center space-x-1 text-xs text-gray-600">
@@ -168,16 +206,16 @@ function TaskCard({ task, onClick }: TaskCardProps) {
         )}
 
         {/* Progress */}
-        {task.progress_pct !== undefined && (
+        {progress !== undefined && (
           <div className="space-y-1">
             <div className="flex justify-between text-xs text-gray-600">
-              <span>Progress</span>
-              <span>{task.progress_pct}%</span>
+              <span>{rollup ? 'Progress (from subtasks)' : 'Progress'}</span>
+              <span>{progress}%</span>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2">
               <div
                 className="bg-primary-600 h-2 rounded-full transition-all"
-                style={{ width: `${task.progress_pct}%` }}
+                style={{ width: `${progress}%` }}
               />
             </div>
           </div>
@@ -223,20 +261,65 @@ function TaskCard({ task, onClick }: TaskCardProps) {
 }
 
 interface ColumnProps {
-  id: string;
-  title: string;
-  tasks: TaskWithDetails[];
+  status: PlanStatus;
+  filters: TaskFilters;
+  enabled: boolean; // false when the status filter leaves this column out
+  treeIndex: TaskTreeIndex;
+  statuses: PlanStatus[];
   planId: string;
+  onTasksLoaded: (statusKey: string, tasks: TaskWithDetails[]) => void;
   onTaskClick: (task: TaskWithDetails, startEdit?: boolean) => void;
 }
 
-function Column({ id, title, tasks, onTaskClick }: ColumnProps) {
-  const taskIds = tasks.map(task => task._id);
+const columnId = (statusKey: string) => `${statusKey}-column`;
+
+// Each column loads its own status a page at a time and renders only the cards in view,
+// so a long column neither holds up the others nor slows the board down
+function Column({ status, filters, enabled, treeIndex, statuses, planId, onTasksLoaded, onTaskClick }: ColumnProps) {
+  const id = columnId(status.key);
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+    fetchNextPage,
+  } = useInfiniteTasks(planId, { ...filters, status: status.key }, enabled);
+  // A task moved to another column leaves right away rather than when the refetch lands
+  const tasks = useMemo(
+    () => flattenTaskPages(data).filter(task => task.status === status.key),
+    [data, status.key]
+  );
+
+  useEffect(() => {
+    onTasksLoaded(status.key, tasks);
+  }, [status.key, tasks, onTasksLoaded]);
+
+  const paging: TaskListPaging = {
+    total: data?.pages[0]?.pagination.total ?? 0,
+    hasMore: hasNextPage,
+    isLoadingMore: isFetchingNextPage,
+    loadMoreFailed: isFetchNextPageError,
+    onLoadMore: () => { fetchNextPage(); },
+  };
+
+  const getCardKey = useCallback((index: number) => tasks[index]._id, [tasks]);
+  const { scrollRef, start, end, paddingTop, paddingBottom, measureRef } = useVirtualRows({
+    count: tasks.length,
+    getKey: getCardKey,
+    estimateSize: 200,
+    overscan: 4,
+  });
+  useLoadMoreNearEnd(paging, end, tasks.length, 10);
+
+  const renderedTasks = tasks.slice(start, end);
+  const taskIds = renderedTasks.map(task => task._id);
   const { setNodeRef: setDroppableRef, isOver } = useDroppable({ 
     id,
     data: {
       type: 'column',
-      status: id.replace('-column', '')
+      status: status.key
     }
   });
 
@@ -245,38 +328,60 @@ function Column({ id, title, tasks, onTaskClick }: ColumnProps) {
       ref={setDroppableRef}
       data-column-id={id}
       className={cn(
-        "rounded-lg p-4 min-h-[600px] transition-colors border-2 border-dashed",
+        "rounded-lg p-4 min-h-[600px] min-w-[280px] flex-1 transition-colors border-2 border-dashed",
         isOver ? "bg-blue-50 border-blue-300" : "bg-gray-50 border-gray-200"
       )}
     >
       <div className="flex items-center justify-between mb-4">
-        <h3 className="font-medium text-gray-900">{title}</h3>
+        <h3 className="font-medium text-gray-900 flex items-center space-x-2">
+          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: status.color }} />
+          <span>{status.label}</span>
+        </h3>
         <span className="text-sm text-gray-500 bg-white px-2 py-1 rounded-full">
-          {tasks.length}
+          {enabled ? paging.total : 0}
         </span>
       </div>
       
       <SortableContext items={taskIds} strategy={verticalListSortingStrategy}>
-        <div className="space-y-3 min-h-[200px]">
-          {tasks.map((task) => (
-            <TaskCard 
-              key={task._id} 
-              task={task} 
-              onClick={() => onTaskClick(task)}
-            />
+        <div ref={scrollRef} className="max-h-[70vh] min-h-[200px] overflow-y-auto -mx-1 px-1">
+          {paddingTop > 0 && <div aria-hidden="true" style={{ height: `${paddingTop}px` }} />}
+          {renderedTasks.map((task) => (
+            <div key={task._id} ref={measureRef(task._id)} className="pb-3">
+              <TaskCard 
+                task={task} 
+                treeIndex={treeIndex}
+                statuses={statuses}
+                onClick={() => onTaskClick(task)}
+              />
+            </div>
           ))}
-          {tasks.length === 0 && (
+          {paddingBottom > 0 && <div aria-hidden="true" style={{ height: `${paddingBottom}px` }} />}
+          {enabled && isLoading && (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+          {error && !data && (
+            <div className="text-center py-8 text-red-500 text-sm">
+              Error loading tasks: {error.message}
+            </div>
+          )}
+          {!isLoading && !error && tasks.length === 0 && (
             <div className="text-center py-8 text-gray-400 text-sm">
               Drop tasks here
             </div>
           )}
         </div>
       </SortableContext>
+      <LoadMoreStatus paging={paging} loaded={tasks.length} />
     </div>
   );
 }
 
-export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
+export function KanbanBoard({ planId }: KanbanBoardProps) {
+  const { statuses } = usePlanStatuses(planId);
+  const { filters } = useAppStore();
+  const [tasksByStatus, setTasksByStatus] = useState<Record<string, TaskWithDetails[]>>({});
   const reorderMutation = useReorderTasks();
   const updateTaskMutation = useUpdateTask();
   const [selectedTask, setSelectedTask] = useState<TaskWithDetails | null>(null);
@@ -294,12 +399,21 @@ export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
     })
   );
 
-  // Group tasks by status
-  const tasksByStatus = {
-    todo: tasks.filter(task => task.status === 'todo'),
-    in_progress: tasks.filter(task => task.status === 'in_progress'),
-    done: tasks.filter(task => task.status === 'done'),
-  };
+  // Columns report the tasks they have loaded so far
+  const handleTasksLoaded = useCallback((statusKey: string, loaded: TaskWithDetails[]) => {
+    setTasksByStatus(prev => prev[statusKey] === loaded ? prev : { ...prev, [statusKey]: loaded });
+  }, []);
+  const tasks = useMemo(
+    () => statuses.flatMap(status => tasksByStatus[status.key] || []),
+    [statuses, tasksByStatus]
+  );
+
+  // A status filter narrows the board to those columns
+  const statusFilter = filters.status ? ([] as string[]).concat(filters.status) : [];
+
+  // Parent/child links across all loaded tasks
+  const treeIndex = useMemo(() => indexTaskTree(buildTaskTree(tasks)), [tasks]);
+
 
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
@@ -331,13 +445,12 @@ export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
     console.log('Drag ended:', { activeId, overId, activeTask: activeTask.title });
 
     // Check if dropped onto a column droppable
-    const isOverColumn = overId === 'todo-column' || overId === 'in_progress-column' || overId === 'done-column';
+    const overStatus = statuses.find(status => columnId(status.key) === overId);
+    const isOverColumn = !!overStatus;
     let newStatus = activeTask.status;
     
-    if (isOverColumn) {
-      if (overId === 'todo-column') newStatus = 'todo';
-      if (overId === 'in_progress-column') newStatus = 'in_progress';
-      if (overId === 'done-column') newStatus = 'done';
+    if (overStatus) {
+      newStatus = overStatus.key;
       
       console.log('Dropped on column:', overId, 'New status:', newStatus);
     }
@@ -360,11 +473,13 @@ export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
     if (!isOverColumn) {
       // Find which list we're in based on current (unchanged) status
       const currentStatus = activeTask.status;
-      const list = tasksByStatus[currentStatus as keyof typeof tasksByStatus];
+      const list = tasksByStatus[currentStatus] || [];
       const activeIndex = list.findIndex(task => task._id === activeId);
       const overIndex = list.findIndex(task => task._id === overId);
 
       if (activeIndex !== -1 && overIndex !== -1 && activeIndex !== overIndex) {
+        // Only the loaded part of the column is renumbered. It is the top of the column,
+        // so tasks further down that haven't loaded yet stay below it.
         const newTasks = arrayMove(list, activeIndex, overIndex);
         const taskIds = newTasks.map(task => task._id);
 
@@ -379,11 +494,12 @@ export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
 
     // If dropped over column but same status (no change), allow reorder within that column using over id placeholder
     if (isOverColumn && newStatus === activeTask.status) {
-      const activeIndex = tasksByStatus[newStatus].findIndex(task => task._id === activeId);
+      const list = tasksByStatus[newStatus] || [];
+      const activeIndex = list.findIndex(task => task._id === activeId);
       const overIndex = activeIndex; // keep order if no precise target; could enhance with mouse position later
 
       if (activeIndex !== overIndex) {
-        const newTasks = arrayMove(tasksByStatus[newStatus], activeIndex, overIndex);
+        const newTasks = arrayMove(list, activeIndex, overIndex);
         const taskIds = newTasks.map(task => task._id);
 
         try {
@@ -402,28 +518,20 @@ export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <Column
-          id="todo-column"
-          title="To Do"
-          tasks={tasksByStatus.todo}
-          planId={planId}
-          onTaskClick={(task, startEdit) => { setSelectedTask(task); setOpenInEdit(!!startEdit); }}
-        />
-        <Column
-          id="in_progress-column"
-          title="In Progress"
-          tasks={tasksByStatus.in_progress}
-          planId={planId}
-          onTaskClick={(task, startEdit) => { setSelectedTask(task); setOpenInEdit(!!startEdit); }}
-        />
-        <Column
-          id="done-column"
-          title="Done"
-          tasks={tasksByStatus.done}
-          planId={planId}
-          onTaskClick={(task, startEdit) => { setSelectedTask(task); setOpenInEdit(!!startEdit); }}
-        />
+      <div className="flex gap-6 overflow-x-auto pb-2">
+        {statuses.map(status => (
+          <Column
+            key={status.key}
+            status={status}
+            filters={filters}
+            enabled={statusFilter.length === 0 || statusFilter.includes(status.key)}
+            treeIndex={treeIndex}
+            statuses={statuses}
+            planId={planId}
+            onTasksLoaded={handleTasksLoaded}
+            onTaskClick={(task, startEdit) => { setSelectedTask(task); setOpenInEdit(!!startEdit); }}
+          />
+        ))}
       </div>
 
       {/* Task Detail Modal */}
@@ -446,6 +554,8 @@ export function KanbanBoard({ tasks, planId }: KanbanBoardProps) {
           <div className="opacity-90 rotate-3 transform">
             <TaskCard 
               task={activeTask} 
+              treeIndex={treeIndex}
+              statuses={statuses}
               onClick={() => {}} // No-op during drag
             />
           </div>
@@ -0,0 +1,31 @@
+import { TaskListPaging } from '@/types';
+import { Button } from '@/components/ui/Button';
+
+interface LoadMoreStatusProps {
+  paging: TaskListPaging;
+  loaded: number;
+}
+
+// Footer for a list that loads more tasks as it scrolls
+export function LoadMoreStatus({ paging, loaded }: LoadMoreStatusProps) {
+  if (paging.loadMoreFailed) {
+    return (
+      <div className="flex items-center justify-center space-x-2 py-3 text-sm text-red-600">
+        <span>Couldn't load more tasks.</span>
+        <Button size="sm" variant="outline" onClick={paging.onLoadMore}>
+          Retry
+        </Button>
+      </div>
+    );
+  }
+  if (!paging.hasMore) return null;
+
+  return (
+    <div className="flex items-center justify-center py-3 text-sm text-gray-500">
+      {paging.isLoadingMore && (
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600 mr-2"></div>
+      )}
+      Showing {loaded} of {paging.total} tasks
+    </div>
+  );
+}
@@ -1,32 +1,68 @@
-import React, { useState } from 'react';
-import { TaskWithDetails } from '@/types';
+import React, { useCallback, useMemo, useState } from 'react';
+import { TaskListPaging, TaskWithDetails } from '@/types';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { usePlanCustomFields, usePlanMembers, usePlanStatuses } from '@/hooks/usePlans';
+import { isDoneStatus } from '@/lib/statuses';
+import { compareCustomFieldValues, formatCustomFieldValue } from '@/lib/customFields';
+import { TaskGroup, groupTasks } from '@/lib/taskGroups';
+import { useAppStore } from '@/store/appStore';
 import { cn, formatDate, formatDateShort, isOverdue, getAvatarInitials, getAvatarColor } from '@/lib/utils';
-import { ChevronUp, ChevronDown, Calendar, MoreHorizontal } from 'lucide-react';
+import { buildTaskTree, flattenTaskTree, getTaskRollup, TaskTreeNode } from '@/lib/taskTree';
+import { useLoadMoreNearEnd, useVirtualRows } from '@/hooks/useVirtualRows';
+import { LoadMoreStatus } from '@/components/views/LoadMoreStatus';
+import { isServerTaskSort } from '@/lib/taskPages';
+import { ChevronUp, ChevronDown, ChevronRight, Calendar, MoreHorizontal } from 'lucide-react';
 
 interface TableViewProps {
   tasks: TaskWithDetails[];
   planId: string;
+  paging?: TaskListPaging; // when more tasks load as the table scrolls
 }
 
-type SortField = 'title' | 'status' | 'priority' | 'due_date' | 'progress_pct' | 'created_at';
-type SortDirection = 'asc' | 'desc';
+// Custom field columns sort as `cf:<field id>`
+type SortField = 'title' | 'status' | 'priority' | 'due_date' | 'progress_pct' | 'created_at' | `cf:${string}`;
 
-export function TableView({ tasks }: TableViewProps) {
-  const [sortField, setSortField] = useState<SortField>('created_at');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+// Group headings and task rows, in display order
+type TableRow =
+  | { kind: 'group'; key: string; group: TaskGroup }
+  | { kind: 'task'; key: string; node: TaskTreeNode<TaskWithDetails> };
+
+export function TableView({ tasks, planId, paging }: TableViewProps) {
+  const { statuses } = usePlanStatuses(planId);
+  const { customFields } = usePlanCustomFields(planId);
+  const { members } = usePlanMembers(planId);
+  // Sort and grouping live in the store so saved views can restore them
+  const { tableSort, setTableSort, groupBy } = useAppStore();
+  const sortField = tableSort.field as SortField;
+  const sortDirection = tableSort.order;
   const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  // Columns the server can't sort by would only sort the loaded pages, so they can't be
+  // sorted until the whole list is in; a saved sort on one waits until then
+  const canSortBy = (field: SortField) => isServerTaskSort(field) || !paging?.hasMore;
+  const isSortApplied = canSortBy(sortField);
 
   const handleSort = (field: SortField) => {
+    if (!canSortBy(field)) return;
     if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      setTableSort({ field, order: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      setTableSort({ field, order: 'asc' });
     }
   };
 
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
   const handleSelectTask = (taskId: string) => {
     setSelectedTasks(prev => 
       prev.includes(taskId) 
@@ -43,12 +79,30 @@ export function TableView({ tasks }: TableViewProps) {
     );
   };
 
-  const sortedTasks = [...tasks].sort((a, b) => {
-    let aValue: any = a[sortField];
-    let bValue: any = b[sortField];
+  const sortCustomField = sortField.startsWith('cf:')
+    ? customFields.find(field => `cf:${field._id}` === sortField)
+    : undefined;
+
+  const sortedTasks = useMemo(() => !isSortApplied ? tasks : [...tasks].sort((a, b) => {
+    if (sortCustomField) {
+      const result = compareCustomFieldValues(
+        sortCustomField,
+        a.custom_fields?.[sortCustomField._id],
+        b.custom_fields?.[sortCustomField._id],
+        members
+      );
+      return sortDirection === 'asc' ? result : -result;
+    }
+
+    let aValue: any = a[sortField as keyof TaskWithDetails];
+    let bValue: any = b[sortField as keyof TaskWithDetails];
 
     // Handle different data types
-    if (sortField === 'due_date' || sortField === 'created_at') {
+    if (sortField === 'status') {
+      // Workflow order rather than alphabetical
+      aValue = statuses.findIndex(status => status.key === a.status);
+      bValue = statuses.findIndex(status => status.key === b.status);
+    } else if (sortField === 'due_date' || sortField === 'created_at') {
       aValue = new Date(aValue || 0);
       bValue = new Date(bValue || 0);
     } else if (typeof aValue === 'string') {
@@ -59,15 +113,39 @@ export function TableView({ tasks }: TableViewProps) {
     if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
     if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
     return 0;
+  }), [tasks, isSortApplied, sortField, sortDirection, sortCustomField, statuses, members]);
+
+  // Subtasks sit under their parent within each group; the sort applies among siblings
+  const rows = useMemo(() => {
+    const result: TableRow[] = [];
+    groupTasks(sortedTasks, groupBy, statuses).forEach(group => {
+      if (groupBy !== 'none') result.push({ kind: 'group', key: `group-${group.key}`, group });
+      flattenTaskTree(buildTaskTree(group.tasks), collapsedIds).forEach(node => {
+        result.push({ kind: 'task', key: `${group.key}-${node.task._id}`, node });
+      });
+    });
+    return result;
+  }, [sortedTasks, groupBy, statuses, collapsedIds]);
+  const columnCount = 8 + customFields.length;
+
+  // Only rows near the visible part of the table are rendered
+  const getRowKey = useCallback((index: number) => rows[index].key, [rows]);
+  const { scrollRef, start, end, paddingTop, paddingBottom, measureRef } = useVirtualRows({
+    count: rows.length,
+    getKey: getRowKey,
+    estimateSize: 73,
   });
+  useLoadMoreNearEnd(paging, end, rows.length);
 
   const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
     <button
       onClick={() => handleSort(field)}
-      className="flex items-center space-x-1 hover:text-gray-900 transition-colors"
+      disabled={!canSortBy(field)}
+      title={canSortBy(field) ? undefined : 'Sorting by this column needs every task: scroll to the end of the table to load the rest'}
+      className="flex items-center space-x-1 hover:text-gray-900 transition-colors disabled:cursor-not-allowed disabled:hover:text-gray-500"
     >
       <span>{children}</span>
-      {sortField === field && (
+      {sortField === field && isSortApplied && (
         sortDirection === 'asc' ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />
       )}
     </button>
@@ -79,7 +157,7 @@ export function TableView({ tasks }: TableViewProps) {
       <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-medium text-gray-900">
-            Tasks ({tasks.length})
+            Tasks ({paging && paging.total > tasks.length ? `${tasks.length} of ${paging.total}` : tasks.length})
           </h3>
           {selectedTasks.length > 0 && (
             <div className="flex items-center space-x-2">
@@ -95,9 +173,9 @@ export function TableView({ tasks }: TableViewProps) {
       </div>
 
       {/* Table */}
-      <div className="overflow-x-auto">
+      <div ref={scrollRef} className="overflow-auto max-h-[70vh]">
         <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
+          <thead className="bg-gray-50 sticky top-0 z-10">
             <tr>
               <th className="px-6 py-3 text-left">
                 <input
@@ -125,6 +203,11 @@ export function TableView({ tasks }: TableViewProps) {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 <SortButton field="progress_pct">Progress</SortButton>
               </th>
+              {customFields.map(field => (
+                <th key={field._id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <SortButton field={`cf:${field._id}`}>{field.name}</SortButton>
+                </th>
+              ))}
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 <SortButton field="created_at">Created</SortButton>
               </th>
@@ -134,135 +217,187 @@ export function TableView({ tasks }: TableViewProps) {
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {sortedTasks.map((task) => (
-              <tr
-                key={task._id}
-                className={cn(
-                  'hover:bg-gray-50 transition-colors',
-                  selectedTasks.includes(task._id) && 'bg-primary-50'
-                )}
-              >
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <input
-                    type="checkbox"
-                    checked={selectedTasks.includes(task._id)}
-                    onChange={() => handleSelectTask(task._id)}
-                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-                  />
-                </td>
-                <td className="px-6 py-4">
-                  <div className="space-y-1">
-                    <div className="text-sm font-medium text-gray-900">
-                      {task.title}
-                    </div>
-                    {task.description && (
-                      <div className="text-sm text-gray-500 line-clamp-1">
-                        {task.description}
-                      </div>
-                    )}
-                    {task.tags && task.tags.length > 0 && (
-                      <div className="flex flex-wrap gap-1">
-                        {task.tags.slice(0, 2).map((tag) => (
-                          <span
-                            key={tag}
-                            className="inline-block px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
+            {paddingTop > 0 && <tr aria-hidden="true" style={{ height: paddingTop }} />}
+            {rows.slice(start, end).map((row) => {
+              if (row.kind === 'group') {
+                return (
+                  <tr key={row.key} ref={measureRef(row.key)} className="bg-gray-50">
+                    <td colSpan={columnCount} className="px-6 py-2 text-sm font-medium text-gray-700">
+                      {row.group.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{row.group.tasks.length}</span>
+                    </td>
+                  </tr>
+                );
+              }
+
+              const { node } = row;
+              const { task, depth } = node;
+              const rollup = node.children.length > 0
+                ? getTaskRollup(node, status => isDoneStatus(statuses, status))
+                : null;
+              const progress = rollup ? rollup.progress : task.progress_pct;
+
+              return (
+                <tr
+                  key={row.key}
+                  ref={measureRef(row.key)}
+                  className={cn(
+                    'hover:bg-gray-50 transition-colors',
+                    selectedTasks.includes(task._id) && 'bg-primary-50'
+                  )}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={selectedTasks.includes(task._id)}
+                      onChange={() => handleSelectTask(task._id)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-start" style={{ paddingLeft: `${depth * 20}px` }}>
+                      <div className="w-5 flex-shrink-0 pt-0.5">
+                        {rollup && (
+                          <button
+                            onClick={() => toggleCollapsed(task._id)}
+                            className="text-gray-400 hover:text-gray-600 transition-colors"
+                            aria-label={collapsedIds.has(task._id) ? 'Expand subtasks' : 'Collapse subtasks'}
                           >
-                            {tag}
-                          </span>
-                        ))}
-                        {task.tags.length > 2 && (
-                          <span className="text-xs text-gray-500">
-                            +{task.tags.length - 2}
-                          </span>
+                            {collapsedIds.has(task._id)
+                              ? <ChevronRight className="h-4 w-4" />
+                              : <ChevronDown className="h-4 w-4" />}
+                          </button>
                         )}
                       </div>
-                    )}
-                  </div>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <Badge variant="status" value={task.status} />
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {task.priority && (
-                    <Badge variant="priority" value={task.priority} />
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {task.assignee_ids && task.assignee_ids.length > 0 ? (
-                    <div className="flex items-center space-x-2">
-                      <div className="flex -space-x-2">
-                        {task.assignee_ids.slice(0, 3).map((assignee) => (
-                          <div
-                            key={assignee._id}
-                            className={cn(
-                              'h-6 w-6 rounded-full flex items-center justify-center text-xs font-medium text-white border-2 border-white',
-                              getAvatarColor(assignee.name)
-                            )}
-                            title={assignee.name}
-                          >
-                            {getAvatarInitials(assignee.name)}
+                      <div className="space-y-1">
+                        <div className="text-sm font-medium text-gray-900">
+                          {task.title}
+                          {rollup && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">
+                              {rollup.doneCount}/{rollup.descendantCount} subtasks done
+                            </span>
+                          )}
+                        </div>
+                        {task.description && (
+                          <div className="text-sm text-gray-500 line-clamp-1">
+                            {task.description}
                           </div>
-                        ))}
-                        {task.assignee_ids.length > 3 && (
-                          <div className="h-6 w-6 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600 border-2 border-white">
-                            +{task.assignee_ids.length - 3}
+                        )}
+                        {task.tags && task.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {task.tags.slice(0, 2).map((tag) => (
+                              <span
+                                key={tag}
+                                className="inline-block px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
+                              >
+                                {tag}
+                              </span>
+                            ))}
+                            {task.tags.length > 2 && (
+                              <span className="text-xs text-gray-500">
+                                +{task.tags.length - 2}
+                              </span>
+                            )}
                           </div>
                         )}
                       </div>
                     </div>
-                  ) : (
-                    <span className="text-gray-400 text-sm">Unassigned</span>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {task.due_date ? (
-                    <div className={cn(
-                      'flex items-center space-x-1 text-sm',
-                      isOverdue(task.due_date) ? 'text-red-600' : 'text-gray-900'
-                    )}>
-                      <Calendar className="h-4 w-4" />
-                      <span>{formatDateShort(task.due_date)}</span>
-                      {isOverdue(task.due_date) && (
-                        <span className="text-xs text-red-500">
-                          (Overdue)
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <StatusBadge status={task.status} statuses={statuses} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {task.priority && (
+                      <Badge variant="priority" value={task.priority} />
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {task.assignee_ids && task.assignee_ids.length > 0 ? (
+                      <div className="flex items-center space-x-2">
+                        <div className="flex -space-x-2">
+                          {task.assignee_ids.slice(0, 3).map((assignee) => (
+                            <div
+                              key={assignee._id}
+                              className={cn(
+                                'h-6 w-6 rounded-full flex items-center justify-center text-xs font-medium text-white border-2 border-white',
+                                getAvatarColor(assignee.name)
+                              )}
+                              title={assignee.name}
+                            >
+                              {getAvatarInitials(assignee.name)}
+                            </div>
+                          ))}
+                          {task.assignee_ids.length > 3 && (
+                            <div className="h-6 w-6 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600 border-2 border-white">
+                              +{task.assignee_ids.length - 3}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-gray-400 text-sm">Unassigned</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {task.due_date ? (
+                      <div className={cn(
+                        'flex items-center space-x-1 text-sm',
+                        isOverdue(task.due_date) ? 'text-red-600' : 'text-gray-900'
+                      )}>
+                        <Calendar className="h-4 w-4" />
+                        <span>{formatDateShort(task.due_date)}</span>
+                        {isOverdue(task.due_date) && (
+                          <span className="text-xs text-red-500">
+                            (Overdue)
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-gray-400 text-sm">No due date</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {progress !== undefined ? (
+                      <div className="flex items-center space-x-2" title={rollup ? 'Rolled up from subtasks' : undefined}>
+                        <div className="w-16 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-primary-600 h-2 rounded-full transition-all"
+                            style={{ width: `${progress}%` }}
+                          />
+                        </div>
+                        <span className="text-sm text-gray-600 w-8">
+                          {progress}%
                         </span>
-                      )}
-                    </div>
-                  ) : (
-                    <span className="text-gray-400 text-sm">No due date</span>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  {task.progress_pct !== undefined ? (
-                    <div className="flex items-center space-x-2">
-                      <div className="w-16 bg-gray-200 rounded-full h-2">
-                        <div
-                          className="bg-primary-600 h-2 rounded-full transition-all"
-                          style={{ width: `${task.progress_pct}%` }}
-                        />
                       </div>
-                      <span className="text-sm text-gray-600 w-8">
-                        {task.progress_pct}%
-                      </span>
-                    </div>
-                  ) : (
-                    <span className="text-gray-400 text-sm">-</span>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {formatDate(task.created_at)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                  <button className="text-gray-400 hover:text-gray-600 transition-colors">
-                    <MoreHorizontal className="h-4 w-4" />
-                  </button>
-                </td>
-              </tr>
-            ))}
+                    ) : (
+                      <span className="text-gray-400 text-sm">-</span>
+                    )}
+                  </td>
+                  {customFields.map(field => (
+                    <td key={field._id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCustomFieldValue(field, task.custom_fields?.[field._id], members) || (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(task.created_at)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button className="text-gray-400 hover:text-gray-600 transition-colors">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {paddingBottom > 0 && <tr aria-hidden="true" style={{ height: paddingBottom }} />}
           </tbody>
         </table>
       </div>
 
+      {paging && <LoadMoreStatus paging={paging} loaded={tasks.length} />}
+
       {tasks.length === 0 && (
         <div className="text-center py-12">
           <p className="text-gray-500">No tasks found</p>
@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { ApiTokenFormData } from '@/types';
+
+// Query keys
+export const apiTokenKeys = {
+  all: ['apiTokens'] as const,
+};
+
+// Personal access tokens of the current user
+export function useApiTokens() {
+  return useQuery({
+    queryKey: apiTokenKeys.all,
+    queryFn: () => apiClient.getApiTokens(),
+  });
+}
+
+// Create a token; the response holds the secret, which can't be fetched again
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ApiTokenFormData) => apiClient.createApiToken(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiTokenKeys.all });
+    },
+  });
+}
+
+// Revoke a token
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tokenId: string) => apiClient.revokeApiToken(tokenId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiTokenKeys.all });
+    },
+  });
+}
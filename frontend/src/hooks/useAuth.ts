@@ -1,11 +1,12 @@
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuthStore } from '@/store/authStore';
 import { apiClient } from '@/lib/api';
-import { LoginCredentials, RegisterCredentials } from '@/types';
+import { LoginCredentials, ProfileUpdate, RegisterCredentials } from '@/types';
 
 // Auth query keys
 export const authKeys = {
   me: ['auth', 'me'] as const,
+  sessions: ['auth', 'sessions'] as const,
 };
 
 // Get current user
@@ -32,7 +33,7 @@ export function useRegister() {
   
   return useMutation({
     mutationFn: (credentials: RegisterCredentials) => 
-      register(credentials.email, credentials.password, credentials.name),
+      register(credentials.email, credentials.password, credentials.name, credentials.invite_token),
   });
 }
 
@@ -54,3 +55,113 @@ export function useRefreshToken() {
   });
 }
 
+// Signed-in sessions of the current user
+export function useSessions(enabled: boolean = true) {
+  return useQuery({
+    queryKey: authKeys.sessions,
+    queryFn: () => apiClient.getSessions(),
+    enabled,
+  });
+}
+
+// Sign out one session; signing out the current one logs out here too
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+  const { logout } = useAuthStore();
+
+  return useMutation({
+    mutationFn: ({ sessionId }: { sessionId: string; current: boolean }) => apiClient.revokeSession(sessionId),
+    onSuccess: async (_result, { current }) => {
+      if (current) {
+        await logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: authKeys.sessions });
+    },
+  });
+}
+
+// Sign out every other session
+export function useRevokeOtherSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => apiClient.revokeOtherSessions(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.sessions });
+    },
+  });
+}
+
+// Email a password reset link
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: (email: string) => apiClient.forgotPassword(email),
+  });
+}
+
+// Set a new password with the emailed token
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: ({ token, password }: { token: string; password: string }) =>
+      apiClient.resetPassword(token, password),
+  });
+}
+
+// Change the password; other sessions are signed out
+export function useChangePassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ currentPassword, newPassword }: { currentPassword: string; newPassword: string }) =>
+      apiClient.changePassword(currentPassword, newPassword),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.sessions });
+    },
+  });
+}
+
+// Update name, avatar or email of the current user
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+  const { setUser } = useAuthStore();
+
+  return useMutation({
+    mutationFn: (updates: ProfileUpdate) => apiClient.updateProfile(updates),
+    onSuccess: ({ user }) => {
+      setUser({ ...useAuthStore.getState().user, ...user });
+      queryClient.invalidateQueries({ queryKey: authKeys.me });
+    },
+  });
+}
+
+// Confirm an email change with the emailed token
+export function useVerifyEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) => apiClient.verifyEmail(token),
+    onSuccess: ({ email }) => {
+      const { user, setUser } = useAuthStore.getState();
+      // The link may have been opened while signed in as someone else
+      if (user?.pending_email === email) {
+        setUser({ ...user, email, pending_email: undefined });
+      }
+      queryClient.invalidateQueries({ queryKey: authKeys.me });
+    },
+  });
+}
+
+// Delete the account; this browser is signed out afterwards
+export function useDeleteAccount() {
+  const queryClient = useQueryClient();
+  const { setUser } = useAuthStore();
+
+  return useMutation({
+    mutationFn: (password: string) => apiClient.deleteAccount(password),
+    onSuccess: () => {
+      setUser(null);
+      queryClient.clear();
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { CommentFormData } from '@/types';
+
+// Query keys
+export const commentKeys = {
+  all: ['comments'] as const,
+  list: (taskId: string) => [...commentKeys.all, 'list', taskId] as const,
+};
+
+// Get comments for a task
+export function useComments(taskId: string, planId: string) {
+  return useQuery({
+    queryKey: commentKeys.list(taskId),
+    queryFn: () => apiClient.getComments(taskId, planId),
+    enabled: !!taskId && !!planId,
+  });
+}
+
+// Create comment
+export function useCreateComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, planId, data }: { taskId: string; planId: string; data: CommentFormData }) =>
+      apiClient.createComment(taskId, planId, data),
+    onSuccess: (_comment, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    },
+  });
+}
+
+// Update comment
+export function useUpdateComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, planId, commentId, body }: { taskId: string; planId: string; commentId: string; body: string }) =>
+      apiClient.updateComment(taskId, planId, commentId, body),
+    onSuccess: (_comment, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    },
+  });
+}
+
+// Delete comment
+export function useDeleteComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, planId, commentId }: { taskId: string; planId: string; commentId: string }) =>
+      apiClient.deleteComment(taskId, planId, commentId),
+    onSuccess: (_data, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(taskId) });
+    },
+  });
+}
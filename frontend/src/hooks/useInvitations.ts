@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { planKeys } from '@/hooks/usePlans';
+
+// Query keys
+export const invitationKeys = {
+  all: ['invitations'] as const,
+  plan: (planId: string) => [...invitationKeys.all, 'plan', planId] as const,
+  token: (token: string) => [...invitationKeys.all, 'token', token] as const,
+};
+
+// Open invitations for a plan (owner only)
+export function usePlanInvitations(planId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: invitationKeys.plan(planId),
+    queryFn: () => apiClient.getPlanInvitations(planId),
+    enabled: !!planId && enabled,
+  });
+}
+
+// Invite someone by email
+export function useCreatePlanInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, email, role }: { planId: string; email: string; role: 'editor' | 'viewer' }) =>
+      apiClient.createPlanInvitation(planId, email, role),
+    onSuccess: (_invitation, { planId }) => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.plan(planId) });
+    },
+  });
+}
+
+// Revoke an open invitation
+export function useRevokePlanInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, invitationId }: { planId: string; invitationId: string }) =>
+      apiClient.revokePlanInvitation(planId, invitationId),
+    onSuccess: (_result, { planId }) => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.plan(planId) });
+    },
+  });
+}
+
+// Look up an invitation from its emailed token
+export function useInvitation(token: string) {
+  return useQuery({
+    queryKey: invitationKeys.token(token),
+    queryFn: () => apiClient.getInvitation(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+// Accept an invitation as the signed-in user
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) => apiClient.acceptInvitation(token),
+    onSuccess: (plan, token) => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.token(token) });
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(plan._id) });
+    },
+  });
+}
+
+// Decline an invitation
+export function useDeclineInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) => apiClient.declineInvitation(token),
+    onSuccess: (_result, token) => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.token(token) });
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ApiError, apiClient } from '@/lib/api';
+import { taskKeys } from '@/hooks/useTasks';
+import { CachedTaskList, mapCachedTasks } from '@/lib/taskPages';
+import { PlanEvent, PlanEventType, TaskWithDetails } from '@/types';
+
+const EVENT_TYPES: PlanEventType[] = ['task.created', 'task.updated', 'task.deleted', 'task.reordered'];
+const RECONNECT_DELAY_MS = 3000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+// Wait before the given reconnect attempt (0-based): doubles each time, up to a minute
+export function getReconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_DELAY_MS * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+}
+
+// Subscribe to live task changes for a plan and keep the react-query cache in sync
+export function usePlanEvents(planId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!planId || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+    let attempt = 0;
+
+    const updateLists = (updater: (tasks: TaskWithDetails[]) => TaskWithDetails[]) => {
+      queryClient.setQueriesData<CachedTaskList>(
+        { queryKey: taskKeys.planLists(planId) },
+        (old) => mapCachedTasks(old, updater)
+      );
+      // Mark stale so filtered/sorted lists reconcile with the server on next use
+      queryClient.invalidateQueries({ queryKey: taskKeys.planLists(planId), refetchType: 'none' });
+    };
+
+    const handleEvent = (message: MessageEvent) => {
+      let event: PlanEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (error) {
+        console.error('Invalid plan event:', error);
+        return;
+      }
+
+      // Our own mutations already update the cache
+      if (event.origin === apiClient.clientId) return;
+
+      switch (event.type) {
+        case 'task.updated': {
+          const updated = event.data.task;
+          if (updated) {
+            updateLists(tasks => tasks.map(task => task._id === updated._id ? updated : task));
+            queryClient.setQueryData(taskKeys.detail(updated._id), updated);
+          }
+          break;
+        }
+        case 'task.deleted': {
+          const deletedId = event.data.task_id;
+          if (deletedId) {
+            updateLists(tasks => tasks.filter(task => task._id !== deletedId));
+          }
+          break;
+        }
+        case 'task.created':
+        case 'task.reordered':
+          // Position depends on server-side filters and ordering, so refetch
+          queryClient.invalidateQueries({ queryKey: taskKeys.planLists(planId) });
+          break;
+      }
+
+      queryClient.invalidateQueries({ queryKey: taskKeys.criticalPath(planId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activities() });
+    };
+
+    const scheduleReconnect = () => {
+      if (closed) return;
+      reconnectTimer = setTimeout(() => {
+        // Catch up on anything missed while disconnected
+        queryClient.invalidateQueries({ queryKey: taskKeys.planLists(planId) });
+        queryClient.invalidateQueries({ queryKey: taskKeys.criticalPath(planId) });
+        connect();
+      }, getReconnectDelay(attempt++));
+    };
+
+    const connect = async () => {
+      let ticket: string;
+      try {
+        ticket = await apiClient.getPlanEventsTicket(planId);
+      } catch (error) {
+        // Removed from the plan, or the plan is gone: stop listening. Anything else
+        // (offline, server restarting, session expired) is retried.
+        if (error instanceof ApiError && (error.status === 403 || error.status === 404)) return;
+        scheduleReconnect();
+        return;
+      }
+      if (closed) return;
+
+      source = new EventSource(apiClient.getPlanEventsUrl(planId, ticket));
+      EVENT_TYPES.forEach(type => source!.addEventListener(type, handleEvent as EventListener));
+
+      source.onopen = () => {
+        attempt = 0;
+      };
+
+      source.onerror = () => {
+        // Dropped, or ended by the server; tickets expire within a minute, so
+        // reconnect with a fresh one
+        source?.close();
+        scheduleReconnect();
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [planId, queryClient]);
+}
@@ -0,0 +1,169 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { CustomField, Plan, PlanMemberUser, PlanStatus } from '@/types';
+import { populatedRef } from '@/lib/utils';
+import { getPlanStatuses } from '@/lib/statuses';
+import { taskKeys } from '@/hooks/useTasks';
+
+// Query keys
+export const planKeys = {
+  all: ['plans'] as const,
+  detail: (id: string) => [...planKeys.all, 'detail', id] as const,
+};
+
+// Get plan details (owner and members are populated with name/email)
+export function usePlan(planId: string) {
+  return useQuery({
+    queryKey: planKeys.detail(planId),
+    queryFn: () => apiClient.getPlan(planId),
+    enabled: !!planId,
+  });
+}
+
+// Owner plus members of a plan whose owner_id/members.user_id are populated
+export function getPlanMemberUsers(plan: Pick<Plan, 'owner_id' | 'members'>): PlanMemberUser[] {
+  const members: PlanMemberUser[] = [];
+  const owner = populatedRef(plan.owner_id);
+  if (owner) {
+    members.push({ _id: owner._id, name: owner.name, email: owner.email, role: 'owner' });
+  }
+  plan.members.forEach(member => {
+    const user = populatedRef(member.user_id);
+    if (user) {
+      members.push({ _id: user._id, name: user.name, email: user.email, role: member.role });
+    }
+  });
+  return members;
+}
+
+// Owner plus members of a plan, e.g. for @mention autocomplete
+export function usePlanMembers(planId: string) {
+  const { data: plan, ...rest } = usePlan(planId);
+  const members = plan ? getPlanMemberUsers(plan) : [];
+
+  return { members, ...rest };
+}
+
+// The plan's ordered statuses (the defaults until the plan has loaded)
+export function usePlanStatuses(planId: string) {
+  const { data: plan, ...rest } = usePlan(planId);
+  const statuses = getPlanStatuses(plan);
+
+  return { statuses, ...rest };
+}
+
+// The plan's custom fields, in the order they were added
+export function usePlanCustomFields(planId: string) {
+  const { data: plan, ...rest } = usePlan(planId);
+  const customFields: CustomField[] = plan?.custom_fields ?? [];
+
+  return { customFields, ...rest };
+}
+
+// Add a member by email
+export function useAddPlanMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, email, role }: { planId: string; email: string; role: 'editor' | 'viewer' }) =>
+      apiClient.addPlanMember(planId, email, role),
+    onSuccess: (plan: Plan) => {
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(plan._id) });
+    },
+  });
+}
+
+// Remove a member
+export function useRemovePlanMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, userId }: { planId: string; userId: string }) =>
+      apiClient.removePlanMember(planId, userId),
+    onSuccess: (plan: Plan) => {
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(plan._id) });
+    },
+  });
+}
+
+// Change a member's role
+export function useUpdatePlanMemberRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, userId, role }: { planId: string; userId: string; role: 'editor' | 'viewer' }) =>
+      apiClient.updatePlanMemberRole(planId, userId, role),
+    onSuccess: (plan: Plan) => {
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(plan._id) });
+    },
+  });
+}
+
+// Hand the plan to another member; the current owner becomes an editor
+export function useTransferPlanOwnership() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, userId }: { planId: string; userId: string }) =>
+      apiClient.transferPlanOwnership(planId, userId),
+    onSuccess: (plan: Plan) => {
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(plan._id) });
+    },
+  });
+}
+
+// Replace the plan's statuses; remapped tasks change status, so task lists are refetched
+export function useUpdatePlanStatuses() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, statuses, remap }: { planId: string; statuses: PlanStatus[]; remap?: Record<string, string> }) =>
+      apiClient.updatePlanStatuses(planId, statuses, remap),
+    onSuccess: (plan: Plan) => {
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(plan._id) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.planLists(plan._id) });
+    },
+  });
+}
+
+// Custom field changes can clear task values, so task lists are refetched too
+function useCustomFieldMutation<TVariables extends { planId: string }, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (_result, { planId }) => {
+      queryClient.invalidateQueries({ queryKey: planKeys.detail(planId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.planLists(planId) });
+    },
+  });
+}
+
+export function useCreateCustomField() {
+  return useCustomFieldMutation(({ planId, field }: { planId: string; field: Omit<CustomField, '_id'> }) =>
+    apiClient.createCustomField(planId, field));
+}
+
+export function useUpdateCustomField() {
+  return useCustomFieldMutation(({ planId, fieldId, updates }: { planId: string; fieldId: string; updates: { name?: string; options?: string[] } }) =>
+    apiClient.updateCustomField(planId, fieldId, updates));
+}
+
+export function useDeleteCustomField() {
+  return useCustomFieldMutation(({ planId, fieldId }: { planId: string; fieldId: string }) =>
+    apiClient.deleteCustomField(planId, fieldId));
+}
+
+// Leave a plan as a non-owner member
+export function useLeavePlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (planId: string) => apiClient.leavePlan(planId),
+    onSuccess: (_result, planId) => {
+      queryClient.removeQueries({ queryKey: planKeys.detail(planId) });
+    },
+  });
+}
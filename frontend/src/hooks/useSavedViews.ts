@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+import { SavedViewFormData } from '@/types';
+
+// Query keys
+export const savedViewKeys = {
+  all: ['savedViews'] as const,
+  plan: (planId: string) => [...savedViewKeys.all, planId] as const,
+};
+
+// The plan's shared views plus the current user's personal ones
+export function useSavedViews(planId: string) {
+  return useQuery({
+    queryKey: savedViewKeys.plan(planId),
+    queryFn: () => apiClient.getSavedViews(planId),
+    enabled: !!planId,
+  });
+}
+
+export function useCreateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, view }: { planId: string; view: SavedViewFormData }) =>
+      apiClient.createSavedView(planId, view),
+    onSuccess: (_view, { planId }) => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.plan(planId) });
+    },
+  });
+}
+
+export function useUpdateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, viewId, updates }: { planId: string; viewId: string; updates: SavedViewFormData }) =>
+      apiClient.updateSavedView(planId, viewId, updates),
+    onSuccess: (_view, { planId }) => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.plan(planId) });
+    },
+  });
+}
+
+export function useDeleteSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ planId, viewId }: { planId: string; viewId: string }) =>
+      apiClient.deleteSavedView(planId, viewId),
+    onSuccess: (_result, { planId }) => {
+      queryClient.invalidateQueries({ queryKey: savedViewKeys.plan(planId) });
+    },
+  });
+}
@@ -1,20 +1,115 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMemo, useRef } from 'react';
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api';
-import { TaskFilters, TaskFormData } from '@/types';
+import { useAppStore } from '@/store/appStore';
+import { CachedTaskList, flattenTaskPages, getServerTaskSort, mapCachedTasks } from '@/lib/taskPages';
+import { TaskDeleteStrategy, TaskFilters, TaskListPaging, TaskFormData, TaskUpdateResponse, TaskWithDetails } from '@/types';
 
 // Query keys
 export const taskKeys = {
   all: ['tasks'] as const,
   lists: () => [...taskKeys.all, 'list'] as const,
-  list: (planId: string, filters: TaskFilters) => [...taskKeys.lists(), planId, filters] as const,
+  planLists: (planId: string) => [...taskKeys.lists(), planId] as const,
+  list: (planId: string, filters: TaskFilters) => [...taskKeys.planLists(planId), filters] as const,
+  infiniteList: (planId: string, filters: TaskFilters) => [...taskKeys.planLists(planId), 'infinite', filters] as const,
   detail: (id: string) => [...taskKeys.all, 'detail', id] as const,
+  activities: () => [...taskKeys.all, 'activity'] as const,
+  activity: (id: string) => [...taskKeys.activities(), 'task', id] as const,
+  planActivity: (planId: string) => [...taskKeys.activities(), 'plan', planId] as const,
+  planTags: (planId: string) => [...taskKeys.all, 'tags', planId] as const,
+  criticalPaths: () => [...taskKeys.all, 'critical-path'] as const,
+  criticalPath: (planId: string) => [...taskKeys.criticalPaths(), planId] as const,
 };
 
+// Tasks per request when loading a list page by page
+export const TASK_PAGE_SIZE = 500;
+
 // Get tasks
-export function useTasks(planId: string, filters: TaskFilters = {}) {
+export function useTasks(planId: string, filters: TaskFilters = {}, enabled: boolean = true) {
   return useQuery({
     queryKey: taskKeys.list(planId, filters),
     queryFn: () => apiClient.getTasks(planId, filters),
+    enabled: !!planId && enabled,
+  });
+}
+
+// Get tasks a page at a time, each page continuing from the previous one's cursor
+export function useInfiniteTasks(planId: string, filters: TaskFilters = {}, enabled: boolean = true) {
+  const { page: _page, cursor: _cursor, ...listFilters } = { ...filters, limit: TASK_PAGE_SIZE };
+  return useInfiniteQuery({
+    queryKey: taskKeys.infiniteList(planId, listFilters),
+    queryFn: ({ pageParam }) => apiClient.getTasks(planId, { ...listFilters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.pagination.next_cursor ?? undefined,
+    enabled: !!planId && enabled,
+  });
+}
+
+// Tasks for the active view of a plan. The table and Gantt load the list a page at a time;
+// the board loads each status column on its own, so only its total is fetched here.
+export function useTaskListView(planId: string) {
+  const { activeView, filters, tableSort } = useAppStore();
+  const isBoard = activeView === 'board';
+  const list = useInfiniteTasks(
+    planId,
+    activeView === 'table' ? { ...filters, ...getServerTaskSort(tableSort) } : filters,
+    !isBoard
+  );
+  const count = useTasks(planId, { ...filters, page: 1, limit: 1 }, isBoard);
+  const tasks = useMemo(() => flattenTaskPages(list.data), [list.data]);
+
+  const total = (isBoard ? count.data?.pagination.total : list.data?.pages[0]?.pagination.total) ?? 0;
+  const { hasNextPage, isFetchingNextPage, isFetchNextPageError, fetchNextPage } = list;
+  const paging: TaskListPaging = {
+    total,
+    hasMore: hasNextPage,
+    isLoadingMore: isFetchingNextPage,
+    loadMoreFailed: isFetchNextPageError,
+    onLoadMore: () => { fetchNextPage(); },
+  };
+
+  return {
+    tasks,
+    total,
+    paging,
+    isLoading: !isBoard && list.isLoading,
+    // A page that fails after others loaded is reported through paging instead
+    error: isBoard || list.data ? null : list.error,
+  };
+}
+
+// Get activity history for a task
+export function useTaskActivity(taskId: string, planId: string) {
+  return useQuery({
+    queryKey: taskKeys.activity(taskId),
+    queryFn: () => apiClient.getTaskActivity(taskId, planId),
+    enabled: !!taskId && !!planId,
+  });
+}
+
+// Get activity history for a plan
+export function usePlanActivity(planId: string) {
+  return useQuery({
+    queryKey: taskKeys.planActivity(planId),
+    queryFn: () => apiClient.getPlanActivity(planId),
+    enabled: !!planId,
+  });
+}
+
+// Tags used in a plan, e.g. for search autocomplete
+export function usePlanTags(planId: string) {
+  return useQuery({
+    queryKey: taskKeys.planTags(planId),
+    queryFn: () => apiClient.getPlanTags(planId),
+    enabled: !!planId,
+  });
+}
+
+// Earliest/latest start and slack per task over the whole plan, not just the loaded pages
+export function useCriticalPath(planId: string) {
+  return useQuery({
+    queryKey: taskKeys.criticalPath(planId),
+    queryFn: () => apiClient.getCriticalPath(planId),
     enabled: !!planId,
   });
 }
@@ -29,14 +124,17 @@ export function useCreateTask() {
     onSuccess: () => {
       // Invalidate and refetch tasks for this plan
       queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.criticalPaths() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activities() });
     },
   });
 }
 
-// Update task
+// Update task. Resolves to null when an identical update was already in flight and
+// this one was dropped.
 export function useUpdateTask() {
   const queryClient = useQueryClient();
-  const inFlight = new Set<string>();
+  const inFlight = useRef(new Set<string>()).current;
   
   return useMutation({
     mutationFn: ({ 
@@ -47,26 +145,49 @@ export function useUpdateTask() {
       taskId: string; 
       planId: string; 
       updates: Partial<TaskFormData> 
-    }) => {
+    }): Promise<TaskUpdateResponse | null> => {
       const key = `${taskId}:${JSON.stringify(updates)}`;
       if (inFlight.has(key)) {
         // Drop duplicate rapid calls
-        return Promise.resolve({} as any);
+        return Promise.resolve(null);
       }
       inFlight.add(key);
       return apiClient.updateTask(taskId, planId, updates)
         .finally(() => inFlight.delete(key));
     },
+    onMutate: async ({ taskId, planId, updates }) => {
+      // Apply the change to cached lists right away; keep the previous data for rollback
+      await queryClient.cancelQueries({ queryKey: taskKeys.planLists(planId) });
+      const previousLists = queryClient.getQueriesData<CachedTaskList>({
+        queryKey: taskKeys.planLists(planId),
+      });
+      queryClient.setQueriesData<CachedTaskList>(
+        { queryKey: taskKeys.planLists(planId) },
+        (old) => mapCachedTasks(old, tasks =>
+          tasks.map(task => task._id === taskId ? { ...task, ...updates } as TaskWithDetails : task)
+        )
+      );
+      return { previousLists };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previousLists.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
     onSuccess: (updatedTask) => {
+      // The original request updates the cache
+      if (!updatedTask) return;
+
       // Update the specific task in cache
-      if ((updatedTask as any)?._id) {
-        queryClient.setQueryData(
-          taskKeys.detail((updatedTask as any)._id), 
-          updatedTask
-        );
+      queryClient.setQueryData(taskKeys.detail(updatedTask._id), updatedTask);
+      // Let the plan view summarize dependent tasks moved by auto-schedule
+      if (updatedTask.rescheduled_tasks?.length) {
+        useAppStore.getState().setRescheduledTasks(updatedTask.rescheduled_tasks);
       }
       // Invalidate lists to refetch
       queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.criticalPaths() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activities() });
     },
   });
 }
@@ -76,11 +197,13 @@ export function useDeleteTask() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ taskId, planId }: { taskId: string; planId: string }) =>
-      apiClient.deleteTask(taskId, planId),
+    mutationFn: ({ taskId, planId, strategy }: { taskId: string; planId: string; strategy?: TaskDeleteStrategy }) =>
+      apiClient.deleteTask(taskId, planId, strategy),
     onSuccess: () => {
       // Invalidate and refetch tasks for this plan
       queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.criticalPaths() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activities() });
     },
   });
 }
@@ -95,6 +218,7 @@ export function useReorderTasks() {
     onSuccess: () => {
       // Invalidate and refetch tasks for this plan
       queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activities() });
     },
   });
 }
@@ -109,6 +233,8 @@ export function useBulkCreateTasks() {
     onSuccess: () => {
       // Invalidate and refetch tasks for this plan
       queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.criticalPaths() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activities() });
     },
   });
 }
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getRowOffsets, getVisibleRange } from '@/lib/virtualRows';
+import { TaskListPaging } from '@/types';
+
+interface VirtualRowsOptions {
+  count: number;
+  getKey: (index: number) => string;
+  estimateSize: number; // height used for rows that haven't been measured
+  overscan?: number;
+}
+
+// Render only the rows of a long list that are in or near view. Attach `scrollRef` to the
+// scrolling element, render rows[start, end) between spacers of paddingTop and paddingBottom,
+// and attach measureRef(key) to rows whose height varies.
+export function useVirtualRows<E extends HTMLElement = HTMLDivElement>({
+  count,
+  getKey,
+  estimateSize,
+  overscan = 8,
+}: VirtualRowsOptions) {
+  const [element, setElement] = useState<E | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  // Measured row heights by key; a new map each time one changes
+  const [sizes, setSizes] = useState<ReadonlyMap<string, number>>(() => new Map());
+
+  useEffect(() => {
+    if (!element) return;
+    const update = () => setViewport({ scrollTop: element.scrollTop, height: element.clientHeight });
+    update();
+    element.addEventListener('scroll', update, { passive: true });
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update);
+    observer?.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer?.disconnect();
+    };
+  }, [element]);
+
+  const keys = useMemo(() => Array.from({ length: count }, (_, index) => getKey(index)), [count, getKey]);
+  const offsets = useMemo(
+    () => getRowOffsets(keys.map(key => sizes.get(key) ?? estimateSize)),
+    [keys, estimateSize, sizes]
+  );
+  const { start, end } = getVisibleRange(offsets, viewport.scrollTop, viewport.height, overscan);
+
+  const measureRef = useCallback((key: string) => (node: HTMLElement | null) => {
+    if (!node) return;
+    const height = node.getBoundingClientRect().height;
+    if (height > 0) {
+      setSizes(current => current.get(key) === height ? current : new Map(current).set(key, height));
+    }
+  }, []);
+
+  return {
+    scrollRef: setElement,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    measureRef,
+  };
+}
+
+// Load the next page of a list once the rendered rows come within `threshold` rows of its end
+export function useLoadMoreNearEnd(paging: TaskListPaging | undefined, end: number, count: number, threshold: number = 20) {
+  const shouldLoad = !!paging && paging.hasMore && !paging.isLoadingMore && !paging.loadMoreFailed &&
+    end >= count - threshold;
+
+  // The latest onLoadMore, kept out of the effect below so only a change to shouldLoad starts
+  // a request and one that's in flight isn't restarted
+  const onLoadMore = useRef(paging?.onLoadMore);
+  useEffect(() => {
+    onLoadMore.current = paging?.onLoadMore;
+  });
+
+  useEffect(() => {
+    if (shouldLoad) onLoadMore.current?.();
+  }, [shouldLoad]);
+}
@@ -8,7 +8,24 @@ import {
   PaginatedResponse,
   ExportPlan,
   TaskFormData,
-  Plan
+  Plan,
+  TaskActivity,
+  Comment,
+  CommentFormData,
+  DependencyGraph,
+  CriticalPath,
+  TaskUpdateResponse,
+  TaskDeleteStrategy,
+  PlanInvitation,
+  InvitationPreview,
+  ProfileUpdate,
+  ApiToken,
+  ApiTokenFormData,
+  AuthSession,
+  PlanStatus,
+  CustomField,
+  SavedView,
+  SavedViewFormData
 } from '@/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 
@@ -16,8 +33,24 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ||
     ? 'https://pdzanning-be-fag9g6fxakd6f3aw.canadacentral-01.azurewebsites.net/api'
     : '/api');
 
+// A failed API request; status tells permission errors apart from outages
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Auth endpoints answer 401 for bad credentials, so they never trigger a token refresh
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
 class ApiClient {
   private accessToken: string | null = null;
+  // Identifies this tab so realtime events caused by our own requests can be ignored
+  readonly clientId: string = Math.random().toString(36).slice(2) + Date.now().toString(36);
+  // In-flight refresh shared by every request that hit an expired access token
+  private refreshPromise: Promise<{ accessToken: string }> | null = null;
+  private sessionExpiredHandler: (() => void) | null = null;
 
   constructor() {
     // Get token from localStorage on initialization
@@ -33,18 +66,21 @@ class ApiClient {
     const isIdempotent = method === 'GET';
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      'X-Client-Id': this.clientId,
       ...(options.headers as Record<string, string> || {}),
     };
 
-    if (this.accessToken) {
-      headers.Authorization = `Bearer ${this.accessToken}`;
-    }
-
     // Simple retry for transient 429/5xx on idempotent requests only
     const maxRetries = isIdempotent ? 2 : 0;
     let attempt = 0;
+    let canRefresh = !NO_REFRESH_ENDPOINTS.includes(endpoint);
     // eslint-disable-next-line no-constant-condition
     while (true) {
+      const tokenUsed = this.accessToken;
+      if (tokenUsed) {
+        headers.Authorization = `Bearer ${tokenUsed}`;
+      }
+
       const response = await fetch(url, {
         ...options,
         headers,
@@ -55,6 +91,22 @@ class ApiClient {
         return response.json();
       }
 
+      // Expired access token: refresh once, then replay the request with the new token
+      if (canRefresh && await this.isExpiredTokenResponse(response)) {
+        canRefresh = false;
+        // Another request may have refreshed while this one was in flight
+        if (this.accessToken && this.accessToken !== tokenUsed) {
+          continue;
+        }
+        try {
+          await this.refreshToken();
+        } catch (error) {
+          this.sessionExpiredHandler?.();
+          throw new Error('Your session has expired. Please sign in again.');
+        }
+        continue;
+      }
+
       // If 429 and Retry-After provided, wait
       if (attempt < maxRetries && (response.status === 429 || response.status >= 500)) {
         attempt++;
@@ -65,10 +117,23 @@ class ApiClient {
       }
 
       const error = await response.json().catch(() => ({ error: 'Network error' }));
-      throw new Error(error.error || `HTTP ${response.status}`);
+      throw new ApiError(error.error || `HTTP ${response.status}`, response.status);
     }
   }
 
+  // 401, or 403 from the auth middleware (other 403s are permission errors)
+  private async isExpiredTokenResponse(response: Response): Promise<boolean> {
+    if (response.status === 401) return true;
+    if (response.status !== 403) return false;
+    const body = await response.clone().json().catch(() => null);
+    return body?.code === 'invalid_token';
+  }
+
+  // Called when a refresh fails and the user has to sign in again
+  setSessionExpiredHandler(handler: (() => void) | null) {
+    this.sessionExpiredHandler = handler;
+  }
+
   setAccessToken(token: string | null) {
     this.accessToken = token;
     if (token) {
@@ -78,13 +143,31 @@ class ApiClient {
     }
   }
 
+  // Short-lived ticket for opening the plan's event stream. Fetched like any other
+  // request, so an expired access token is refreshed first.
+  async getPlanEventsTicket(planId: string): Promise<string> {
+    const { ticket } = await this.request<{ ticket: string }>(`/plans/${planId}/events/ticket`, {
+      method: 'POST',
+    });
+    return ticket;
+  }
+
+  // URL for the plan's Server-Sent Events stream (EventSource cannot send headers)
+  getPlanEventsUrl(planId: string, ticket: string): string {
+    return `${API_BASE_URL}/plans/${planId}/events?${new URLSearchParams({ ticket })}`;
+  }
+
   // Auth methods
-  async register(credentials: RegisterCredentials): Promise<AuthResponse> {
-    const response = await this.request<AuthResponse>('/auth/register', {
+  // Resolves to a message instead of a session when the email can't be registered
+  // without confirming it first
+  async register(credentials: RegisterCredentials): Promise<AuthResponse | { message: string }> {
+    const response = await this.request<AuthResponse | { message: string }>('/auth/register', {
       method: 'POST',
       body: JSON.stringify(credentials),
     });
-    this.setAccessToken(response.accessToken);
+    if ('accessToken' in response) {
+      this.setAccessToken(response.accessToken);
+    }
     return response;
   }
 
@@ -97,25 +180,118 @@ class ApiClient {
     return response;
   }
 
+  // Single-flight: concurrent callers share one refresh, since each refresh
+  // rotates the refresh token cookie and a second one would look like token reuse
   async refreshToken(): Promise<{ accessToken: string }> {
-    const response = await this.request<{ accessToken: string }>('/auth/refresh', {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.request<{ accessToken: string }>('/auth/refresh', {
+        method: 'POST',
+      })
+        .then(response => {
+          this.setAccessToken(response.accessToken);
+          return response;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.request('/auth/logout', {
+        method: 'POST',
+      });
+    } finally {
+      this.setAccessToken(null);
+    }
+  }
+
+  // Password methods
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/password/forgot', {
       method: 'POST',
+      body: JSON.stringify({ email }),
     });
-    this.setAccessToken(response.accessToken);
-    return response;
   }
 
-  async logout(): Promise<void> {
-    await this.request('/auth/logout', {
+  async resetPassword(token: string, password: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/password/reset', {
       method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<{ message: string; revoked_sessions: number }> {
+    return this.request<{ message: string; revoked_sessions: number }>('/auth/password/change', {
+      method: 'POST',
+      body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
     });
-    this.setAccessToken(null);
   }
 
   async getCurrentUser(): Promise<{ user: User; plans: Array<{ _id: string; name: string; role: string }> }> {
     return this.request<{ user: User; plans: Array<{ _id: string; name: string; role: string }> }>('/auth/me');
   }
 
+  // Profile methods
+  async updateProfile(updates: ProfileUpdate): Promise<{ message: string; user: User }> {
+    return this.request<{ message: string; user: User }>('/auth/me', {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async verifyEmail(token: string): Promise<{ message: string; email: string }> {
+    return this.request<{ message: string; email: string }>('/auth/email/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async deleteAccount(password: string): Promise<void> {
+    await this.request('/auth/me', {
+      method: 'DELETE',
+      body: JSON.stringify({ password }),
+    });
+    this.setAccessToken(null);
+  }
+
+  // Session methods
+  async getSessions(): Promise<{ sessions: AuthSession[] }> {
+    return this.request<{ sessions: AuthSession[] }>('/auth/sessions');
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.request(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async revokeOtherSessions(): Promise<{ revoked: number }> {
+    return this.request<{ revoked: number }>('/auth/sessions', {
+      method: 'DELETE',
+    });
+  }
+
+  // API token methods
+  async getApiTokens(): Promise<{ tokens: ApiToken[] }> {
+    return this.request<{ tokens: ApiToken[] }>('/tokens');
+  }
+
+  async createApiToken(data: ApiTokenFormData): Promise<{ token: string; api_token: ApiToken }> {
+    return this.request<{ token: string; api_token: ApiToken }>('/tokens', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokeApiToken(tokenId: string): Promise<void> {
+    await this.request(`/tokens/${tokenId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Plan methods
   async getPlans(): Promise<{ plans: Array<{ _id: string; name: string; description?: string; owner_id: string; members: any[]; task_count?: number }> }> {
     return this.request<{ plans: Array<{ _id: string; name: string; description?: string; owner_id: string; members: any[]; task_count?: number }> }>('/plans');
@@ -128,29 +304,163 @@ class ApiClient {
     });
   }
 
-  async getPlan(planId: string): Promise<{ _id: string; name: string; description?: string; owner_id: string; members: any[]; task_count: number }> {
-    return this.request<{ _id: string; name: string; description?: string; owner_id: string; members: any[]; task_count: number }>(`/plans/${planId}`);
+  async getPlan(planId: string): Promise<{ _id: string; name: string; description?: string; owner_id: string; members: any[]; statuses?: PlanStatus[]; custom_fields?: CustomField[]; task_count: number }> {
+    return this.request<{ _id: string; name: string; description?: string; owner_id: string; members: any[]; statuses?: PlanStatus[]; custom_fields?: CustomField[]; task_count: number }>(`/plans/${planId}`);
   }
 
-  async updatePlan(planId: string, updates: { name?: string; description?: string }): Promise<Plan> {
+  async updatePlan(planId: string, updates: { name?: string; description?: string; auto_schedule?: boolean }): Promise<Plan> {
     return this.request<Plan>(`/plans/${planId}`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
     });
   }
 
+  // Replace the plan's statuses; remap moves tasks out of removed statuses ({ removed_key: new_key })
+  async updatePlanStatuses(planId: string, statuses: PlanStatus[], remap: Record<string, string> = {}): Promise<Plan> {
+    return this.request<Plan>(`/plans/${planId}/statuses`, {
+      method: 'PUT',
+      body: JSON.stringify({ statuses, remap }),
+    });
+  }
+
+  // Custom field methods (owner only)
+  async createCustomField(planId: string, field: Omit<CustomField, '_id'>): Promise<CustomField> {
+    const response = await this.request<{ custom_field: CustomField }>(`/plans/${planId}/custom-fields`, {
+      method: 'POST',
+      body: JSON.stringify(field),
+    });
+    return response.custom_field;
+  }
+
+  // Rename a field or change its options; tasks lose values of removed options
+  async updateCustomField(planId: string, fieldId: string, updates: { name?: string; options?: string[] }): Promise<CustomField> {
+    const response = await this.request<{ custom_field: CustomField }>(`/plans/${planId}/custom-fields/${fieldId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+    return response.custom_field;
+  }
+
+  async deleteCustomField(planId: string, fieldId: string): Promise<void> {
+    await this.request<{ message: string }>(`/plans/${planId}/custom-fields/${fieldId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Saved view methods; lists the plan's shared views and the user's personal ones
+  async getSavedViews(planId: string): Promise<SavedView[]> {
+    const response = await this.request<{ views: SavedView[] }>(`/plans/${planId}/views`);
+    return response.views;
+  }
+
+  async createSavedView(planId: string, view: SavedViewFormData): Promise<SavedView> {
+    const response = await this.request<{ view: SavedView }>(`/plans/${planId}/views`, {
+      method: 'POST',
+      body: JSON.stringify(view),
+    });
+    return response.view;
+  }
+
+  async updateSavedView(planId: string, viewId: string, updates: SavedViewFormData): Promise<SavedView> {
+    const response = await this.request<{ view: SavedView }>(`/plans/${planId}/views/${viewId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+    return response.view;
+  }
+
+  async deleteSavedView(planId: string, viewId: string): Promise<void> {
+    await this.request<{ message: string }>(`/plans/${planId}/views/${viewId}`, {
+      method: 'DELETE',
+    });
+  }
+
   async deletePlan(planId: string): Promise<void> {
     return this.request<void>(`/plans/${planId}`, {
       method: 'DELETE',
     });
   }
 
+  // Plan member methods (owner only); each returns the plan with populated members
+  async addPlanMember(planId: string, email: string, role: 'editor' | 'viewer'): Promise<Plan> {
+    return this.request<Plan>(`/plans/${planId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async removePlanMember(planId: string, userId: string): Promise<Plan> {
+    return this.request<Plan>(`/plans/${planId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async updatePlanMemberRole(planId: string, userId: string, role: 'editor' | 'viewer'): Promise<Plan> {
+    return this.request<Plan>(`/plans/${planId}/members/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async transferPlanOwnership(planId: string, userId: string): Promise<Plan> {
+    return this.request<Plan>(`/plans/${planId}/transfer-ownership`, {
+      method: 'POST',
+      body: JSON.stringify({ user_id: userId }),
+    });
+  }
+
+  async leavePlan(planId: string): Promise<void> {
+    await this.request(`/plans/${planId}/leave`, {
+      method: 'POST',
+    });
+  }
+
+  // Invitation methods
+  async getPlanInvitations(planId: string): Promise<{ invitations: PlanInvitation[] }> {
+    return this.request<{ invitations: PlanInvitation[] }>(`/plans/${planId}/invitations`);
+  }
+
+  async createPlanInvitation(planId: string, email: string, role: 'editor' | 'viewer'): Promise<PlanInvitation> {
+    return this.request<PlanInvitation>(`/plans/${planId}/invitations`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async revokePlanInvitation(planId: string, invitationId: string): Promise<void> {
+    await this.request(`/plans/${planId}/invitations/${invitationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getInvitation(token: string): Promise<InvitationPreview> {
+    return this.request<InvitationPreview>(`/invitations/${encodeURIComponent(token)}`);
+  }
+
+  async acceptInvitation(token: string): Promise<Plan> {
+    return this.request<Plan>(`/invitations/${encodeURIComponent(token)}/accept`, {
+      method: 'POST',
+    });
+  }
+
+  async declineInvitation(token: string): Promise<void> {
+    await this.request(`/invitations/${encodeURIComponent(token)}/decline`, {
+      method: 'POST',
+    });
+  }
+
   // Task methods
   async getTasks(planId: string, filters: TaskFilters = {}): Promise<PaginatedResponse<TaskWithDetails>> {
     const params = new URLSearchParams();
     params.append('plan_id', planId);
     
-    Object.entries(filters).forEach(([key, value]) => {
+    const { cf, ...rest } = filters;
+    // Custom field filters are sent as cf[<field id>]=value
+    Object.entries(cf || {}).forEach(([fieldId, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(v => params.append(`cf[${fieldId}]`, v));
+    });
+
+    Object.entries(rest).forEach(([key, value]) => {
       if (value !== undefined && value !== null && value !== '') {
         if (Array.isArray(value)) {
           value.forEach(v => params.append(key, v));
@@ -177,15 +487,15 @@ class ApiClient {
     });
   }
 
-  async updateTask(taskId: string, planId: string, updates: Partial<TaskFormData>): Promise<TaskWithDetails> {
-    return this.request<TaskWithDetails>(`/tasks/${taskId}?plan_id=${planId}`, {
+  async updateTask(taskId: string, planId: string, updates: Partial<TaskFormData>): Promise<TaskUpdateResponse> {
+    return this.request<TaskUpdateResponse>(`/tasks/${taskId}?plan_id=${planId}`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
     });
   }
 
-  async deleteTask(taskId: string, planId: string): Promise<void> {
-    await this.request(`/tasks/${taskId}?plan_id=${planId}`, {
+  async deleteTask(taskId: string, planId: string, strategy: TaskDeleteStrategy = 'reject'): Promise<void> {
+    await this.request(`/tasks/${taskId}?plan_id=${planId}&strategy=${strategy}`, {
       method: 'DELETE',
     });
   }
@@ -210,13 +520,72 @@ class ApiClient {
     });
   }
 
+  // Activity methods
+  async getTaskActivity(taskId: string, planId: string, page: number = 1): Promise<PaginatedResponse<TaskActivity>> {
+    const response = await this.request<{ activity: TaskActivity[]; pagination: any }>(
+      `/tasks/${taskId}/activity?plan_id=${planId}&page=${page}`
+    );
+    return {
+      data: response.activity,
+      pagination: response.pagination,
+    };
+  }
+
+  async getPlanTags(planId: string): Promise<string[]> {
+    const response = await this.request<{ tags: string[] }>(`/plans/${planId}/tags`);
+    return response.tags;
+  }
+
+  async getPlanActivity(planId: string, page: number = 1): Promise<PaginatedResponse<TaskActivity>> {
+    const response = await this.request<{ activity: TaskActivity[]; pagination: any }>(
+      `/plans/${planId}/activity?page=${page}`
+    );
+    return {
+      data: response.activity,
+      pagination: response.pagination,
+    };
+  }
+
+  async getDependencyGraph(planId: string): Promise<DependencyGraph> {
+    return this.request<DependencyGraph>(`/plans/${planId}/dependency-graph`);
+  }
+
+  async getCriticalPath(planId: string): Promise<CriticalPath> {
+    return this.request<CriticalPath>(`/plans/${planId}/critical-path`);
+  }
+
+  // Comment methods
+  async getComments(taskId: string, planId: string): Promise<{ comments: Comment[] }> {
+    return this.request<{ comments: Comment[] }>(`/tasks/${taskId}/comments?plan_id=${planId}`);
+  }
+
+  async createComment(taskId: string, planId: string, data: CommentFormData): Promise<Comment> {
+    return this.request<Comment>(`/tasks/${taskId}/comments?plan_id=${planId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateComment(taskId: string, planId: string, commentId: string, body: string): Promise<Comment> {
+    return this.request<Comment>(`/tasks/${taskId}/comments/${commentId}?plan_id=${planId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async deleteComment(taskId: string, planId: string, commentId: string): Promise<void> {
+    await this.request(`/tasks/${taskId}/comments/${commentId}?plan_id=${planId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Export/Import methods
   async exportPlan(planId: string): Promise<ExportPlan> {
     return this.request<ExportPlan>(`/plans/${planId}/export`);
   }
 
-  async importPlan(planData: ExportPlan): Promise<{ plan: any; tasks_created: number; message: string }> {
-    return this.request<{ plan: any; tasks_created: number; message: string }>('/plans/import', {
+  async importPlan(planData: ExportPlan): Promise<{ plan: any; tasks_created: number; invited: string[]; message: string }> {
+    return this.request<{ plan: any; tasks_created: number; invited: string[]; message: string }>('/plans/import', {
       method: 'POST',
       body: JSON.stringify({ plan_data: planData }),
     });
@@ -0,0 +1,81 @@
+import { CustomField, CustomFieldType, CustomFieldValue, PlanMemberUser } from '@/types';
+import { formatDate } from '@/lib/utils';
+
+// Plans define their own task fields; values are stored on tasks keyed by field id
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  single_select: 'Single select',
+  multi_select: 'Multi select',
+  user: 'Person',
+  checkbox: 'Checkbox',
+};
+
+export function isSelectField(type: CustomFieldType): boolean {
+  return type === 'single_select' || type === 'multi_select';
+}
+
+export function isEmptyCustomFieldValue(value: CustomFieldValue | null | undefined): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Display text for a value; user fields show the member's name
+export function formatCustomFieldValue(
+  field: CustomField,
+  value: CustomFieldValue | null | undefined,
+  members: PlanMemberUser[] = []
+): string {
+  if (isEmptyCustomFieldValue(value)) return '';
+
+  switch (field.type) {
+    case 'date':
+      // Parse as a local date so the day doesn't shift with the timezone
+      return formatDate(new Date(`${value}T00:00:00`));
+    case 'multi_select':
+      return (value as string[]).join(', ');
+    case 'user':
+      return members.find(member => member._id === value)?.name ?? 'Former member';
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+}
+
+// Order for sorting by a field: empty values last, numbers numerically, the rest by display text
+export function compareCustomFieldValues(
+  field: CustomField,
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined,
+  members: PlanMemberUser[] = []
+): number {
+  const aEmpty = isEmptyCustomFieldValue(a);
+  const bEmpty = isEmptyCustomFieldValue(b);
+  if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+
+  if (field.type === 'number') return (a as number) - (b as number);
+  if (field.type === 'date') return String(a).localeCompare(String(b));
+  if (field.type === 'checkbox') return Number(b) - Number(a);
+  if (field.type === 'single_select') return field.options.indexOf(a as string) - field.options.indexOf(b as string);
+
+  return formatCustomFieldValue(field, a, members).toLowerCase()
+    .localeCompare(formatCustomFieldValue(field, b, members).toLowerCase());
+}
+
+// Values a form changed compared to the task's current ones; cleared values are sent as null
+export function getChangedCustomFieldValues(
+  current: Record<string, CustomFieldValue> = {},
+  next: Record<string, CustomFieldValue | null> = {}
+): Record<string, CustomFieldValue | null> {
+  const changes: Record<string, CustomFieldValue | null> = {};
+  Object.entries(next).forEach(([fieldId, value]) => {
+    const normalized = isEmptyCustomFieldValue(value) ? null : value;
+    const before = isEmptyCustomFieldValue(current[fieldId]) ? null : current[fieldId];
+    if (JSON.stringify(normalized) !== JSON.stringify(before)) {
+      changes[fieldId] = normalized;
+    }
+  });
+  return changes;
+}
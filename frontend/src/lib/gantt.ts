@@ -0,0 +1,77 @@
+export type GanttZoom = 'day' | 'week' | 'month';
+
+// Layout of the Gantt chart's rows and dependency arrows, in pixels
+export const ROW_HEIGHT = 68;
+const BAR_INSET = 8; // top-2 / bottom-2 on task bars
+const ARROW_GAP = 8;
+
+// Most tasks the chart loads; past this, the plan has to be filtered to chart the rest
+export const GANTT_TASK_LIMIT = 2000;
+
+// Finish-to-start connector from the end of one bar to the start of another,
+// detouring between rows when the successor starts left of the predecessor's end
+export function getArrowPath(fromX: number, fromRow: number, toX: number, toRow: number): string {
+  const fromY = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+  const toY = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+  const exitX = fromX + ARROW_GAP;
+
+  if (toX - ARROW_GAP >= exitX) {
+    return `M ${fromX} ${fromY} H ${exitX} V ${toY} H ${toX}`;
+  }
+
+  const detourY = toRow > fromRow
+    ? toRow * ROW_HEIGHT + BAR_INSET / 2
+    : (toRow + 1) * ROW_HEIGHT - BAR_INSET / 2;
+  return `M ${fromX} ${fromY} H ${exitX} V ${detourY} H ${toX - ARROW_GAP} V ${toY} H ${toX}`;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Due dates are inclusive, as on the server: a successor may start the day after its
+// predecessor is due at the earliest, which is where auto-schedule would move it
+export function isDependencyViolation(predecessorEnd: Date, successorStart: Date): boolean {
+  const toDay = (date: Date) => Math.floor(date.getTime() / MS_PER_DAY);
+  return toDay(successorStart) <= toDay(predecessorEnd);
+}
+
+// A bar's dates; null until the task is scheduled
+interface DatedBar {
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+export type DragMode = 'move' | 'start' | 'end';
+
+export interface BarDrag {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  steps: number; // whole zoom units moved so far
+}
+
+export const DAYS_PER_STEP: Record<GanttZoom, number> = { day: 1, week: 7, month: 30 };
+
+// Move a date by whole zoom units: days, weeks or calendar months
+export function shiftDate(date: Date, steps: number, zoom: GanttZoom): Date {
+  const shifted = new Date(date);
+  if (zoom === 'month') {
+    shifted.setUTCMonth(shifted.getUTCMonth() + steps);
+  } else {
+    shifted.setUTCDate(shifted.getUTCDate() + steps * DAYS_PER_STEP[zoom]);
+  }
+  return shifted;
+}
+
+// Dates a bar would have if the current drag were dropped
+export function applyDrag<T extends DatedBar>(task: T, drag: BarDrag, zoom: GanttZoom): T {
+  if (!task.startDate || !task.endDate || drag.steps === 0) return task;
+
+  let start = drag.mode === 'end' ? task.startDate : shiftDate(task.startDate, drag.steps, zoom);
+  let end = drag.mode === 'start' ? task.endDate : shiftDate(task.endDate, drag.steps, zoom);
+  // Resizing can shrink a bar down to a single day but never invert it
+  if (start > end) {
+    if (drag.mode === 'start') start = new Date(end);
+    else end = new Date(start);
+  }
+  return { ...task, startDate: start, endDate: end };
+}
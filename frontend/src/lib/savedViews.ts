@@ -0,0 +1,55 @@
+import { GanttState, SavedViewFilters, SavedViewState, TaskFilters, TaskGrouping, TaskSort, TaskViewType } from '@/types';
+
+// Saved views store the parts of the app state that decide what a plan shows
+
+const SAVED_FILTER_KEYS: Array<keyof SavedViewFilters> = [
+  'q', 'status', 'assignee', 'tag', 'priority', 'cf',
+  'due_from', 'due_to', 'start_from', 'start_to', 'overdue', 'unassigned', 'has_dependencies', 'blocked', 'created_by',
+];
+
+// Filters that take one value or a list
+const LIST_FILTER_KEYS: string[] = ['status', 'assignee', 'tag', 'priority'];
+
+const isEmptyFilter = (value: unknown) =>
+  value === undefined || value === null || value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+// The filters worth saving; paging and server-side sort are left out
+export function getSavedViewFilters(filters: TaskFilters): SavedViewFilters {
+  const saved: SavedViewFilters = {};
+  SAVED_FILTER_KEYS.forEach(key => {
+    if (!isEmptyFilter(filters[key])) {
+      (saved as Record<string, unknown>)[key] = filters[key];
+    }
+  });
+  return saved;
+}
+
+export function getCurrentViewState(state: {
+  activeView: TaskViewType;
+  filters: TaskFilters;
+  tableSort: TaskSort;
+  groupBy: TaskGrouping;
+  ganttState: Pick<GanttState, 'zoom'>;
+}): SavedViewState {
+  return {
+    view_type: state.activeView,
+    filters: getSavedViewFilters(state.filters),
+    sort: state.tableSort,
+    group_by: state.groupBy,
+    gantt_zoom: state.ganttState.zoom,
+  };
+}
+
+// Whether the current state still matches a saved view; a single filter value equals a one-item list
+export function isSameViewState(a: SavedViewState, b: SavedViewState): boolean {
+  const normalize = (state: SavedViewState) => {
+    const filters: Record<string, unknown> = {};
+    Object.entries(getSavedViewFilters(state.filters)).forEach(([key, value]) => {
+      filters[key] = LIST_FILTER_KEYS.includes(key) && !Array.isArray(value) ? [value] : value;
+    });
+    return JSON.stringify([state.view_type, filters, state.sort.field, state.sort.order, state.group_by, state.gantt_zoom]);
+  };
+  return normalize(a) === normalize(b);
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+import { PlanStatus, StatusCategory } from '@/types';
+
+// Each plan defines its own ordered statuses; the category says whether a status
+// means not started, in progress or finished.
+
+export const DEFAULT_PLAN_STATUSES: PlanStatus[] = [
+  { key: 'todo', label: 'To Do', color: '#6b7280', category: 'todo' },
+  { key: 'in_progress', label: 'In Progress', color: '#3b82f6', category: 'active' },
+  { key: 'done', label: 'Done', color: '#22c55e', category: 'done' },
+];
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  todo: 'Not started',
+  active: 'In progress',
+  done: 'Done',
+};
+
+// Plans loaded before statuses were configurable have none
+export function getPlanStatuses(plan?: { statuses?: PlanStatus[] } | null): PlanStatus[] {
+  return plan?.statuses && plan.statuses.length > 0 ? plan.statuses : DEFAULT_PLAN_STATUSES;
+}
+
+export function findStatus(statuses: PlanStatus[], key: string): PlanStatus | undefined {
+  return statuses.find(status => status.key === key);
+}
+
+// Unknown keys (e.g. a status removed while a task was open) count as not started
+export function getStatusCategory(statuses: PlanStatus[], key: string): StatusCategory {
+  return findStatus(statuses, key)?.category ?? 'todo';
+}
+
+export function isDoneStatus(statuses: PlanStatus[], key: string): boolean {
+  return getStatusCategory(statuses, key) === 'done';
+}
+
+// Status for new tasks: the first not-started status
+export function getDefaultStatus(statuses: PlanStatus[]): string {
+  return (statuses.find(status => status.category === 'todo') || statuses[0]).key;
+}
+
+// Turn a label into a status key, e.g. "In Review" -> "in_review"
+export function toStatusKey(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 30);
+}
+
+// Tinted background and border from a status color, for badges and column headers
+export function getStatusStyle(color: string): React.CSSProperties {
+  return {
+    color,
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}4d`,
+  };
+}
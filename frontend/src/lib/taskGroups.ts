@@ -0,0 +1,56 @@
+import { PlanStatus, TaskGrouping, TaskWithDetails } from '@/types';
+
+export interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: TaskWithDetails[];
+}
+
+export const TASK_GROUPING_LABELS: Record<TaskGrouping, string> = {
+  none: 'None',
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+};
+
+const PRIORITY_GROUPS = [
+  { key: 'urgent', label: 'Urgent' },
+  { key: 'high', label: 'High' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'low', label: 'Low' },
+];
+
+// Split tasks into groups, keeping their order within each group. Groups come in
+// workflow or priority order; a task with several assignees is listed under each.
+// Empty groups are left out.
+export function groupTasks(tasks: TaskWithDetails[], groupBy: TaskGrouping, statuses: PlanStatus[]): TaskGroup[] {
+  if (groupBy === 'none') return [{ key: 'all', label: 'All tasks', tasks }];
+
+  const groups = new Map<string, TaskGroup>();
+  const addTo = (key: string, label: string, task: TaskWithDetails) => {
+    if (!groups.has(key)) groups.set(key, { key, label, tasks: [] });
+    groups.get(key)!.tasks.push(task);
+  };
+
+  if (groupBy === 'status') {
+    statuses.forEach(status => groups.set(status.key, { key: status.key, label: status.label, tasks: [] }));
+    tasks.forEach(task => addTo(task.status, task.status, task));
+  } else if (groupBy === 'priority') {
+    PRIORITY_GROUPS.forEach(group => groups.set(group.key, { ...group, tasks: [] }));
+    tasks.forEach(task => addTo(task.priority || 'none', 'No priority', task));
+  } else {
+    tasks.forEach(task => {
+      if (!task.assignee_ids || task.assignee_ids.length === 0) {
+        addTo('unassigned', 'Unassigned', task);
+      } else {
+        task.assignee_ids.forEach(assignee => addTo(assignee._id, assignee.name, task));
+      }
+    });
+    // People by name, with unassigned tasks last
+    return Array.from(groups.values()).sort((a, b) =>
+      Number(a.key === 'unassigned') - Number(b.key === 'unassigned') || a.label.localeCompare(b.label)
+    );
+  }
+
+  return Array.from(groups.values()).filter(group => group.tasks.length > 0);
+}
@@ -0,0 +1,44 @@
+import { InfiniteData } from '@tanstack/react-query';
+import { PaginatedResponse, TaskFilters, TaskSort, TaskWithDetails } from '@/types';
+
+// Task lists are cached either as a single page (useTasks) or as pages loaded one
+// cursor at a time (useInfiniteTasks). Cache updates go through here so both stay in sync.
+
+export type TaskPage = PaginatedResponse<TaskWithDetails>;
+export type CachedTaskList = TaskPage | InfiniteData<TaskPage, string | undefined>;
+
+const isInfinite = (data: CachedTaskList): data is InfiniteData<TaskPage, string | undefined> =>
+  'pages' in data && Array.isArray(data.pages);
+
+// Apply an update to every page of a cached task list
+export function mapCachedTasks<T extends CachedTaskList | undefined>(
+  data: T,
+  updater: (tasks: TaskWithDetails[]) => TaskWithDetails[]
+): T {
+  if (!data) return data;
+  if (isInfinite(data)) {
+    return { ...data, pages: data.pages.map(page => ({ ...page, data: updater(page.data) })) } as T;
+  }
+  return { ...data, data: updater(data.data) } as T;
+}
+
+// All tasks loaded so far, in page order
+export function flattenTaskPages(data: { pages: TaskPage[] } | undefined): TaskWithDetails[] {
+  return data ? data.pages.flatMap(page => page.data) : [];
+}
+
+// Table sorts the server can apply too (see TASK_SORT_FIELDS in the backend), so pages
+// arrive in the order the table shows them
+const SERVER_SORT_FIELDS = ['title', 'priority', 'due_date', 'progress_pct', 'created_at'];
+
+// Whether the server can sort by a table column. Status follows the plan's workflow
+// order and custom fields aren't sortable on the server, so those can only sort a
+// list that's fully loaded.
+export function isServerTaskSort(field: string): boolean {
+  return SERVER_SORT_FIELDS.includes(field);
+}
+
+// The sort to request pages in for a table sort
+export function getServerTaskSort(sort: TaskSort): Pick<TaskFilters, 'sort' | 'order'> {
+  return isServerTaskSort(sort.field) ? { sort: sort.field, order: sort.order } : {};
+}
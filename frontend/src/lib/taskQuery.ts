@@ -0,0 +1,318 @@
+import { PlanMemberUser } from '@/types';
+
+// Client side of the task search language (see backend utils/taskQuery), e.g.
+//   status:in_progress assignee:me due<2026-11-01 tag:backend -tag:blocked "login bug"
+// The search box uses it to highlight queries, catch mistakes before they reach the
+// server and suggest fields and values.
+
+export const QUERY_FIELDS = ['status', 'assignee', 'tag', 'priority', 'due', 'start', 'created', 'progress'] as const;
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export const QUERY_FIELD_DESCRIPTIONS: Record<QueryField, string> = {
+  status: 'Status key',
+  assignee: 'me, none, or a member',
+  tag: 'Tag',
+  priority: 'low, medium, high or urgent',
+  due: 'Due date, e.g. due<2026-11-01',
+  start: 'Start date',
+  created: 'Creation date',
+  progress: 'Percent done, e.g. progress>=50',
+};
+
+const COMPARABLE_FIELDS: QueryField[] = ['due', 'start', 'created', 'progress'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WHOLE_QUOTES = 'Quotes must surround a whole phrase or value';
+
+export type QueryTokenKind = 'negation' | 'field' | 'operator' | 'value' | 'text';
+
+export interface QueryToken {
+  kind: QueryTokenKind;
+  start: number;
+  end: number;
+  error?: string;
+}
+
+export interface QueryContext {
+  statuses: string[]; // the plan's status keys
+  members: PlanMemberUser[];
+}
+
+// A real calendar date, like the server checks: Date.parse would roll 2026-02-30 over
+const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Members a value could name: an email, a name or the part of an email before the @
+const findMembers = (value: string, members: PlanMemberUser[]) => {
+  const needle = value.toLowerCase();
+  const matchers = [
+    (member: PlanMemberUser) => member.email.toLowerCase() === needle,
+    (member: PlanMemberUser) => member.name.toLowerCase() === needle,
+    (member: PlanMemberUser) => member.email.toLowerCase().split('@')[0] === needle,
+  ];
+  for (const matches of matchers) {
+    const found = members.filter(matches);
+    if (found.length > 0) return found;
+  }
+  return [];
+};
+
+// Why a field value would be rejected by the server, if it would be
+const getValueError = (field: QueryField, operator: string, value: string, context?: QueryContext): string | undefined => {
+  const values = value.split(',').map(item => item.trim()).filter(Boolean);
+  if (values.length === 0) return `Missing value after "${field}${operator}"`;
+
+  switch (field) {
+    case 'status': {
+      const unknown = context && values.find(item => !context.statuses.includes(item));
+      return unknown ? `Unknown status "${unknown}"` : undefined;
+    }
+    case 'priority': {
+      const unknown = values.find(item => !PRIORITIES.includes(item.toLowerCase()));
+      return unknown ? `Unknown priority "${unknown}"` : undefined;
+    }
+    case 'tag':
+      return undefined;
+    case 'assignee': {
+      if (!context) return undefined;
+      for (const item of values) {
+        if (['me', 'none'].includes(item.toLowerCase())) continue;
+        const found = findMembers(item, context.members);
+        if (found.length === 0) return `No plan member matches "${item}"`;
+        if (found.length > 1) return `"${item}" matches more than one member; use their email`;
+      }
+      return undefined;
+    }
+    case 'progress': {
+      const progress = Number(value);
+      return values.length > 1 || !Number.isFinite(progress) || progress < 0 || progress > 100
+        ? 'progress needs a number from 0 to 100'
+        : undefined;
+    }
+    default: {
+      if (values.length > 1) return `${field} takes a single date`;
+      const raw = values[0].toLowerCase();
+      if (raw === 'none' && operator === ':' && field !== 'created') return undefined;
+      return raw === 'today' || isValidDate(raw) ? undefined : `${field} needs a date like 2026-11-01 or "today"`;
+    }
+  }
+};
+
+// Split a query into highlightable pieces. Never fails: problems are attached to the
+// token they belong to. Whitespace between tokens is left out.
+export function tokenizeTaskQuery(input: string, context?: QueryContext): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  // End of a quoted string starting at `start`, or an error
+  const readQuoted = (start: number): { end: number; error?: string } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) return { end: input.length, error: 'Missing closing quote' };
+    const rest = input.slice(close + 1).search(/\s/);
+    if (rest !== 0 && close + 1 < input.length) {
+      return { end: rest === -1 ? input.length : close + 1 + rest, error: WHOLE_QUOTES };
+    }
+    return { end: close + 1 };
+  };
+
+  const readWord = (start: number) => {
+    const end = input.slice(start).search(/\s/);
+    return end === -1 ? input.length : start + end;
+  };
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    if (input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      tokens.push({ kind: 'negation', start: index, end: index + 1 });
+      index++;
+    }
+
+    // "a phrase"
+    if (input[index] === '"') {
+      const quoted = readQuoted(index);
+      const error = quoted.error ?? (input.slice(index + 1, quoted.end - 1).trim() ? undefined : 'Empty quotes');
+      tokens.push({ kind: 'text', start: index, end: quoted.end, error });
+      index = quoted.end;
+      continue;
+    }
+
+    // field:value, field<value, ...
+    const fieldMatch = /^([a-zA-Z_]+)(<=|>=|:|<|>)/.exec(input.slice(index));
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      const operator = fieldMatch[2];
+      const operatorStart = index + fieldMatch[1].length;
+      const valueStart = index + fieldMatch[0].length;
+      const isField = (QUERY_FIELDS as readonly string[]).includes(name);
+
+      tokens.push({
+        kind: 'field',
+        start: index,
+        end: operatorStart,
+        error: isField ? undefined : `Unknown field "${fieldMatch[1]}". Fields: ${QUERY_FIELDS.join(', ')}`,
+      });
+      tokens.push({
+        kind: 'operator',
+        start: operatorStart,
+        end: valueStart,
+        error: isField && operator !== ':' && !COMPARABLE_FIELDS.includes(name as QueryField)
+          ? `"${operator}" only works with ${COMPARABLE_FIELDS.join(', ')}`
+          : undefined,
+      });
+
+      const quoted = input[valueStart] === '"' ? readQuoted(valueStart) : null;
+      const end = quoted ? quoted.end : readWord(valueStart);
+      const raw = input.slice(valueStart, end);
+      const value = quoted && !quoted.error ? raw.slice(1, -1) : raw;
+      let error = quoted?.error;
+      if (!error && !quoted && raw.includes('"')) error = WHOLE_QUOTES;
+      if (!error && isField) error = getValueError(name as QueryField, operator, value, context);
+
+      if (end > valueStart) {
+        tokens.push({ kind: 'value', start: valueStart, end, error });
+      } else if (error && !tokens[tokens.length - 1].error) {
+        tokens[tokens.length - 1].error = error;
+      }
+      index = end;
+      continue;
+    }
+
+    // A plain word
+    const end = readWord(index);
+    tokens.push({
+      kind: 'text',
+      start: index,
+      end,
+      error: input.slice(index, end).includes('"') ? WHOLE_QUOTES : undefined,
+    });
+    index = end;
+  }
+
+  // Excluded words only narrow down a search, so there must be something to search for
+  const textTokens = tokens.filter(token => token.kind === 'text');
+  const isNegated = (token: QueryToken) =>
+    tokens.some(other => other.kind === 'negation' && other.end === token.start);
+  if (textTokens.length > 0 && textTokens.every(isNegated) && !textTokens[0].error) {
+    textTokens[0].error = 'Excluding words needs at least one word to search for';
+  }
+
+  return tokens;
+}
+
+// The first problem in a query, or null when the server will accept it
+export function getTaskQueryError(input: string, context?: QueryContext): { error: string; position: number } | null {
+  const token = tokenizeTaskQuery(input, context).find(item => item.error);
+  return token ? { error: token.error!, position: token.start } : null;
+}
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  insert: string;
+  start: number; // range of the query the suggestion replaces
+  end: number;
+}
+
+const quote = (value: string) => (/[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+// Fields, or values of the field being typed, that complete the word at the caret
+export function getTaskQuerySuggestions(
+  input: string,
+  caret: number,
+  context: QueryContext & { tags: string[] },
+  limit: number = 8
+): QuerySuggestion[] {
+  const before = input.slice(0, caret);
+  if (/(^|\s)-?[a-zA-Z_]*[:<>=]*"[^"]*$/.test(before)) return []; // inside quotes
+  const wordStart = before.search(/\S*$/);
+  const wordEnd = caret + (input.slice(caret).search(/\s|$/));
+  let word = input.slice(wordStart, caret);
+  let start = wordStart;
+  if (word.startsWith('-')) {
+    word = word.slice(1);
+    start++;
+  }
+
+  const fieldMatch = /^([a-zA-Z_]+)(<=|>=|:|<|>)(.*)$/.exec(word);
+  if (!fieldMatch) {
+    if (!word || !/^[a-zA-Z_]+$/.test(word)) return [];
+    return QUERY_FIELDS
+      .filter(field => field.startsWith(word.toLowerCase()) && field !== word.toLowerCase())
+      .slice(0, limit)
+      .map(field => ({
+        label: `${field}:`,
+        description: QUERY_FIELD_DESCRIPTIONS[field],
+        insert: `${field}:`,
+        start,
+        end: wordEnd,
+      }));
+  }
+
+  const field = fieldMatch[1].toLowerCase() as QueryField;
+  const operator = fieldMatch[2];
+  const valueText = fieldMatch[3];
+  const partial = valueText.slice(valueText.lastIndexOf(',') + 1).toLowerCase();
+  const valueStart = caret - partial.length;
+  const isList = valueText.includes(',');
+
+  let options: Array<{ label: string; description?: string; value: string }> = [];
+  switch (field) {
+    case 'status':
+      options = context.statuses.map(status => ({ label: status, value: status }));
+      break;
+    case 'priority':
+      options = PRIORITIES.map(priority => ({ label: priority, value: priority }));
+      break;
+    case 'tag':
+      options = context.tags.map(tag => ({ label: tag, value: tag }));
+      break;
+    case 'assignee':
+      options = [
+        { label: 'me', description: 'Tasks assigned to you', value: 'me' },
+        { label: 'none', description: 'Unassigned tasks', value: 'none' },
+        ...context.members.map(member => ({ label: member.name, description: member.email, value: member.email })),
+      ];
+      break;
+    case 'due':
+    case 'start':
+    case 'created':
+      options = [{ label: 'today', value: 'today' }];
+      if (operator === ':' && field !== 'created') options.push({ label: 'none', description: `No ${field} date`, value: 'none' });
+      break;
+    default:
+      options = [];
+  }
+
+  // Values in a comma list can't be quoted. Values starting with what was typed come first.
+  const addSpace = wordEnd === input.length;
+  const startsWithPartial = (option: { label: string; value: string }) =>
+    option.label.toLowerCase().startsWith(partial) || option.value.toLowerCase().startsWith(partial);
+  return options
+    .filter(option =>
+      (option.label.toLowerCase().includes(partial) || option.value.toLowerCase().includes(partial)) &&
+      option.value.toLowerCase() !== partial &&
+      !(isList && /[\s,"]/.test(option.value))
+    )
+    .sort((a, b) => Number(startsWithPartial(b)) - Number(startsWithPartial(a)))
+    .slice(0, limit)
+    .map(option => ({
+      label: option.label,
+      description: option.description,
+      insert: `${quote(option.value)}${addSpace ? ' ' : ''}`,
+      start: valueStart,
+      end: wordEnd,
+    }));
+}
+
+// The query with a suggestion applied, and where the caret goes
+export function applyTaskQuerySuggestion(input: string, suggestion: QuerySuggestion) {
+  const value = input.slice(0, suggestion.start) + suggestion.insert + input.slice(suggestion.end);
+  return { value, caret: suggestion.start + suggestion.insert.length };
+}
@@ -0,0 +1,128 @@
+import { Task } from '@/types';
+
+// Parent/child hierarchy built from parent_id, shared by the Board, Table and Gantt views.
+
+type TreeTask = Pick<Task, '_id' | 'parent_id' | 'status' | 'progress_pct' | 'start_date' | 'due_date'>;
+
+export interface TaskTreeNode<T extends TreeTask> {
+  task: T;
+  depth: number;
+  children: TaskTreeNode<T>[];
+}
+
+export interface TaskRollup {
+  childCount: number;      // direct children
+  descendantCount: number; // whole subtree, excluding the task itself
+  doneCount: number;       // finished descendants
+  progress: number;        // 0-100, averaged over leaf descendants
+  startDate?: string;      // earliest descendant start
+  dueDate?: string;        // latest descendant due date
+}
+
+// Build the forest of tasks. Siblings keep their input order, so sort before building.
+// Tasks whose parent isn't in the list (filtered out, or a broken reference) become roots.
+export function buildTaskTree<T extends TreeTask>(tasks: T[]): TaskTreeNode<T>[] {
+  const nodes = new Map<string, TaskTreeNode<T>>(
+    tasks.map(task => [task._id, { task, depth: 0, children: [] }])
+  );
+
+  // Walking up parent_id must end at a root; a loop is treated as a root too
+  const hasAncestorLoop = (task: T): boolean => {
+    const seen = new Set<string>([task._id]);
+    let parentId = task.parent_id;
+    while (parentId && nodes.has(parentId)) {
+      if (seen.has(parentId)) return true;
+      seen.add(parentId);
+      parentId = nodes.get(parentId)!.task.parent_id;
+    }
+    return false;
+  };
+
+  const roots: TaskTreeNode<T>[] = [];
+  tasks.forEach(task => {
+    const node = nodes.get(task._id)!;
+    const parent = task.parent_id ? nodes.get(task.parent_id) : undefined;
+    if (parent && !hasAncestorLoop(task)) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const setDepth = (node: TaskTreeNode<T>, depth: number) => {
+    node.depth = depth;
+    node.children.forEach(child => setDepth(child, depth + 1));
+  };
+  roots.forEach(root => setDepth(root, 0));
+
+  return roots;
+}
+
+// Depth-first list of the rows to display, skipping the children of collapsed tasks
+export function flattenTaskTree<T extends TreeTask>(
+  roots: TaskTreeNode<T>[],
+  collapsedIds: Set<string> = new Set()
+): TaskTreeNode<T>[] {
+  const rows: TaskTreeNode<T>[] = [];
+  const visit = (node: TaskTreeNode<T>) => {
+    rows.push(node);
+    if (!collapsedIds.has(node.task._id)) {
+      node.children.forEach(visit);
+    }
+  };
+  roots.forEach(visit);
+  return rows;
+}
+
+// Child counts, rolled-up progress and the date span of a task's subtree.
+// isDone tells which statuses count as finished (the plan's "done" category).
+export function getTaskRollup<T extends TreeTask>(
+  node: TaskTreeNode<T>,
+  isDone: (status: string) => boolean = status => status === 'done'
+): TaskRollup {
+  const rollup: TaskRollup = {
+    childCount: node.children.length,
+    descendantCount: 0,
+    doneCount: 0,
+    progress: isDone(node.task.status) ? 100 : node.task.progress_pct || 0,
+  };
+  if (node.children.length === 0) return rollup;
+
+  let leafCount = 0;
+  let leafProgress = 0;
+
+  const visit = (child: TaskTreeNode<T>) => {
+    const { task } = child;
+    rollup.descendantCount++;
+    if (isDone(task.status)) rollup.doneCount++;
+
+    if (task.start_date && (!rollup.startDate || task.start_date < rollup.startDate)) {
+      rollup.startDate = task.start_date;
+    }
+    if (task.due_date && (!rollup.dueDate || task.due_date > rollup.dueDate)) {
+      rollup.dueDate = task.due_date;
+    }
+
+    if (child.children.length === 0) {
+      leafCount++;
+      leafProgress += isDone(task.status) ? 100 : task.progress_pct || 0;
+    } else {
+      child.children.forEach(visit);
+    }
+  };
+  node.children.forEach(visit);
+
+  rollup.progress = Math.round(leafProgress / leafCount);
+  return rollup;
+}
+
+// Index every node of the forest by task id
+export function indexTaskTree<T extends TreeTask>(roots: TaskTreeNode<T>[]): Map<string, TaskTreeNode<T>> {
+  const index = new Map<string, TaskTreeNode<T>>();
+  const visit = (node: TaskTreeNode<T>) => {
+    index.set(node.task._id, node);
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return index;
+}
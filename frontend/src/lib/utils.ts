@@ -1,9 +1,20 @@
 import { clsx, type ClassValue } from 'clsx';
+import type { UserRef } from '@/types';
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
 }
 
+// The id of a user reference, whether or not the API populated it
+export function refId(ref: UserRef): string {
+  return typeof ref === 'string' ? ref : ref._id;
+}
+
+// The populated user of a reference, otherwise null
+export function populatedRef(ref: UserRef | null | undefined): Exclude<UserRef, string> | null {
+  return ref && typeof ref === 'object' ? ref : null;
+}
+
 // Date utilities
 export function formatDate(date: string | Date): string {
   const d = typeof date === 'string' ? new Date(date) : date;
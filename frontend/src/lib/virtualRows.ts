@@ -0,0 +1,41 @@
+// Windowing math for long lists: only rows near the visible part of a scroll container
+// are rendered, with spacers standing in for the rest.
+
+// Offset of each row from the top, plus the total height as the last entry
+export function getRowOffsets(sizes: number[]): number[] {
+  const offsets = new Array<number>(sizes.length + 1);
+  offsets[0] = 0;
+  for (let index = 0; index < sizes.length; index++) {
+    offsets[index + 1] = offsets[index] + sizes[index];
+  }
+  return offsets;
+}
+
+// Index of the row containing a vertical position
+const findRow = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+// Rows [start, end) to render for a viewport, with `overscan` extra rows on each side
+export function getVisibleRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number
+): { start: number; end: number } {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const first = findRow(offsets, Math.max(0, scrollTop));
+  const last = findRow(offsets, Math.max(0, scrollTop + viewportHeight - 1));
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan),
+  };
+}
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { TaskFilters, GanttState } from '@/types';
+import { TaskFilters, GanttState, RescheduledTask, SavedViewState, TaskGrouping, TaskSort } from '@/types';
 
 interface AppState {
   // View state
@@ -9,12 +9,19 @@ interface AppState {
   // Filters
   filters: TaskFilters;
   
+  // Table sort and grouping
+  tableSort: TaskSort;
+  groupBy: TaskGrouping;
+  
   // Selection
   selectedTasks: string[];
   
   // Gantt specific state
   ganttState: GanttState;
   
+  // Tasks moved by the last auto-schedule cascade, shown as a summary
+  rescheduledTasks: RescheduledTask[];
+  
   // UI state
   sidebarOpen: boolean;
   isLoading: boolean;
@@ -29,6 +36,13 @@ interface AppActions {
   setFilters: (filters: Partial<TaskFilters>) => void;
   clearFilters: () => void;
   
+  // Table actions
+  setTableSort: (sort: TaskSort) => void;
+  setGroupBy: (groupBy: TaskGrouping) => void;
+  
+  // Restore the view type, filters, sort, grouping and zoom of a saved view
+  applySavedViewState: (state: SavedViewState) => void;
+  
   // Selection actions
   selectTask: (taskId: string) => void;
   deselectTask: (taskId: string) => void;
@@ -41,6 +55,9 @@ interface AppActions {
   toggleDependencies: () => void;
   toggleCriticalPath: () => void;
   
+  // Auto-schedule actions
+  setRescheduledTasks: (tasks: RescheduledTask[]) => void;
+  
   // UI actions
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
@@ -56,6 +73,8 @@ const defaultFilters: TaskFilters = {
   order: 'asc',
 };
 
+const defaultTableSort: TaskSort = { field: 'created_at', order: 'desc' };
+
 const defaultGanttState: GanttState = {
   zoom: 'week',
   startDate: new Date(),
@@ -69,8 +88,11 @@ export const useAppStore = create<AppStore>((set) => ({
   activeView: 'board',
   selectedPlanId: null,
   filters: defaultFilters,
+  tableSort: defaultTableSort,
+  groupBy: 'none',
   selectedTasks: [],
   ganttState: defaultGanttState,
+  rescheduledTasks: [],
   sidebarOpen: true,
   isLoading: false,
 
@@ -85,6 +107,18 @@ export const useAppStore = create<AppStore>((set) => ({
   
   clearFilters: () => set({ filters: defaultFilters }),
   
+  setTableSort: (sort) => set({ tableSort: sort }),
+  
+  setGroupBy: (groupBy) => set({ groupBy }),
+  
+  applySavedViewState: (view) => set((state) => ({
+    activeView: view.view_type,
+    filters: { ...defaultFilters, ...view.filters },
+    tableSort: view.sort ?? defaultTableSort,
+    groupBy: view.group_by ?? 'none',
+    ganttState: { ...state.ganttState, zoom: view.gantt_zoom ?? state.ganttState.zoom },
+  })),
+  
   selectTask: (taskId) => set((state) => ({
     selectedTasks: [...state.selectedTasks, taskId]
   })),
@@ -119,6 +153,8 @@ export const useAppStore = create<AppStore>((set) => ({
     }
   })),
   
+  setRescheduledTasks: (tasks) => set({ rescheduledTasks: tasks }),
+  
   toggleSidebar: () => set((state) => ({
     sidebarOpen: !state.sidebarOpen
   })),
@@ -12,7 +12,7 @@ interface AuthState {
 
 interface AuthActions {
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, name: string) => Promise<void>;
+  register: (email: string, password: string, name: string, inviteToken?: string) => Promise<string | null>; // message when no account was signed in
   logout: () => Promise<void>;
   refreshToken: () => Promise<void>;
   getCurrentUser: () => Promise<void>;
@@ -50,15 +50,20 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
-      register: async (email: string, password: string, name: string) => {
+      register: async (email: string, password: string, name: string, inviteToken?: string) => {
         set({ isLoading: true, error: null });
         try {
-          const response = await apiClient.register({ email, password, name });
+          const response = await apiClient.register({ email, password, name, invite_token: inviteToken });
+          if (!('accessToken' in response)) {
+            set({ isLoading: false });
+            return response.message;
+          }
           set({ 
             user: response.user, 
             isAuthenticated: true, 
             isLoading: false 
           });
+          return null;
         } catch (error) {
           set({ 
             error: error instanceof Error ? error.message : 'Registration failed',
@@ -127,3 +132,9 @@ export const useAuthStore = create<AuthStore>()(
   )
 );
 
+// Sign out locally once the API client can no longer refresh the session
+apiClient.setSessionExpiredHandler(() => {
+  if (useAuthStore.getState().isAuthenticated) {
+    useAuthStore.getState().logout();
+  }
+});
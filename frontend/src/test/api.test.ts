@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { apiClient } from '@/lib/api';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('ApiClient token refresh', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let onSessionExpired: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    apiClient.setAccessToken('expired-token');
+    onSessionExpired = vi.fn();
+    apiClient.setSessionExpiredHandler(onSessionExpired);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    apiClient.setSessionExpiredHandler(null);
+    apiClient.setAccessToken(null);
+  });
+
+  it('should share one refresh between concurrent requests and replay them', async () => {
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/auth/refresh')) {
+        return jsonResponse(200, { accessToken: 'fresh-token' });
+      }
+      const auth = (init.headers as Record<string, string>).Authorization;
+      if (auth !== 'Bearer fresh-token') {
+        return jsonResponse(403, { error: 'Invalid or expired token', code: 'invalid_token' });
+      }
+      return jsonResponse(200, { plans: [] });
+    });
+
+    const results = await Promise.all([apiClient.getPlans(), apiClient.getPlans(), apiClient.getSessions()]);
+
+    expect(results[0]).toEqual({ plans: [] });
+    const refreshCalls = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/auth/refresh'));
+    expect(refreshCalls).toHaveLength(1);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('should report an expired session when the refresh fails', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/auth/refresh')) {
+        return jsonResponse(401, { error: 'Invalid refresh token' });
+      }
+      return jsonResponse(401, { error: 'Access token required' });
+    });
+
+    await expect(apiClient.getPlans()).rejects.toThrow('Your session has expired');
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not refresh on permission errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(403, { error: 'Requires owner access or higher' }));
+
+    await expect(apiClient.deletePlan('plan-1')).rejects.toThrow('Requires owner access or higher');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+});
+
+describe('ApiClient event stream', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    apiClient.setAccessToken('expired-token');
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    apiClient.setAccessToken(null);
+  });
+
+  it('should refresh an expired token before fetching a stream ticket', async () => {
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/auth/refresh')) {
+        return jsonResponse(200, { accessToken: 'fresh-token' });
+      }
+      const auth = (init.headers as Record<string, string>).Authorization;
+      if (auth !== 'Bearer fresh-token') {
+        return jsonResponse(403, { error: 'Invalid or expired token', code: 'invalid_token' });
+      }
+      return jsonResponse(200, { ticket: 'stream-ticket' });
+    });
+
+    const ticket = await apiClient.getPlanEventsTicket('plan-1');
+
+    expect(ticket).toBe('stream-ticket');
+    expect(apiClient.getPlanEventsUrl('plan-1', ticket)).toBe('/api/plans/plan-1/events?ticket=stream-ticket');
+    expect(apiClient.getPlanEventsUrl('plan-1', ticket)).not.toContain('fresh-token');
+  });
+
+  it('should report the status of a refused ticket', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(403, { error: 'No access to this plan' }));
+
+    await expect(apiClient.getPlanEventsTicket('plan-1')).rejects.toMatchObject({ status: 403 });
+  });
+});
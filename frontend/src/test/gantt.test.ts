@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { BarDrag, ROW_HEIGHT, applyDrag, getArrowPath, isDependencyViolation, shiftDate } from '@/lib/gantt';
+
+describe('Gantt dependency arrows', () => {
+  const middle = (row: number) => row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  it('should run straight down to a successor that starts later', () => {
+    expect(getArrowPath(100, 0, 200, 2)).toBe(`M 100 ${middle(0)} H 108 V ${middle(2)} H 200`);
+  });
+
+  it('should point up to a successor in an earlier row', () => {
+    expect(getArrowPath(100, 3, 200, 1)).toBe(`M 100 ${middle(3)} H 108 V ${middle(1)} H 200`);
+  });
+
+  it('should detour between rows when the successor starts before the predecessor ends', () => {
+    // Down: along the top edge of the successor's row, then back left
+    expect(getArrowPath(200, 0, 150, 2)).toBe(`M 200 ${middle(0)} H 208 V ${2 * ROW_HEIGHT + 4} H 142 V ${middle(2)} H 150`);
+    // Up: along the bottom edge of the successor's row
+    expect(getArrowPath(200, 2, 150, 0)).toBe(`M 200 ${middle(2)} H 208 V ${ROW_HEIGHT - 4} H 142 V ${middle(0)} H 150`);
+  });
+
+  it('should flag a successor that starts on or before the day its predecessor is due', () => {
+    const due = new Date('2026-03-10');
+
+    expect(isDependencyViolation(due, new Date('2026-03-09'))).toBe(true);
+    expect(isDependencyViolation(due, new Date('2026-03-10'))).toBe(true);
+    expect(isDependencyViolation(due, new Date('2026-03-11'))).toBe(false);
+  });
+});
+
+describe('Gantt bar dragging', () => {
+  const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+  const bar = { id: 'task-1', startDate: day('2026-03-10'), endDate: day('2026-03-14') };
+  const drag = (mode: BarDrag['mode'], steps: number): BarDrag => ({ taskId: 'task-1', mode, originX: 0, steps });
+
+  it('should shift dates by whole zoom units', () => {
+    expect(shiftDate(day('2026-03-10'), 2, 'day')).toEqual(day('2026-03-12'));
+    expect(shiftDate(day('2026-03-10'), -1, 'week')).toEqual(day('2026-03-03'));
+    expect(shiftDate(day('2026-03-10'), 1, 'month')).toEqual(day('2026-04-10'));
+  });
+
+  it('should move both dates when dragging the bar', () => {
+    expect(applyDrag(bar, drag('move', 3), 'day')).toEqual({ ...bar, startDate: day('2026-03-13'), endDate: day('2026-03-17') });
+  });
+
+  it('should move one date when resizing an edge', () => {
+    expect(applyDrag(bar, drag('start', -1), 'week')).toEqual({ ...bar, startDate: day('2026-03-03') });
+    expect(applyDrag(bar, drag('end', 2), 'day')).toEqual({ ...bar, endDate: day('2026-03-16') });
+  });
+
+  it('should never invert a bar', () => {
+    expect(applyDrag(bar, drag('start', 10), 'day')).toEqual({ ...bar, startDate: day('2026-03-14') });
+    expect(applyDrag(bar, drag('end', -10), 'day')).toEqual({ ...bar, endDate: day('2026-03-10') });
+  });
+
+  it('should leave unscheduled bars alone', () => {
+    const unscheduled = { ...bar, startDate: null };
+    expect(applyDrag(unscheduled, drag('move', 3), 'day')).toBe(unscheduled);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { getCurrentViewState, isSameViewState } from '@/lib/savedViews';
+import { groupTasks } from '@/lib/taskGroups';
+import { DEFAULT_PLAN_STATUSES } from '@/lib/statuses';
+import { SavedViewState, TaskWithDetails, User } from '@/types';
+
+const person = (_id: string, name: string): User => ({
+  _id,
+  name,
+  email: `${_id}@example.com`,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+const task = (overrides: Partial<TaskWithDetails> & { _id: string }) => ({
+  status: 'todo',
+  ...overrides,
+}) as TaskWithDetails;
+
+describe('Saved views', () => {
+  const saved: SavedViewState = {
+    view_type: 'table',
+    filters: { status: ['todo'], priority: ['urgent', 'high'] },
+    sort: { field: 'due_date', order: 'asc' },
+    group_by: 'priority',
+    gantt_zoom: 'week',
+  };
+
+  it('should save only the filters that are set', () => {
+    const state = getCurrentViewState({
+      activeView: 'table',
+      filters: { page: 1, limit: 50, q: '', status: 'todo', priority: ['urgent', 'high'], tag: [] },
+      tableSort: { field: 'due_date', order: 'asc' },
+      groupBy: 'priority',
+      ganttState: { zoom: 'week' },
+    });
+
+    expect(state.filters).toEqual({ status: 'todo', priority: ['urgent', 'high'] });
+    expect(isSameViewState(saved, state)).toBe(true);
+  });
+
+  it('should notice changes to any part of the view', () => {
+    expect(isSameViewState(saved, { ...saved, view_type: 'board' })).toBe(false);
+    expect(isSameViewState(saved, { ...saved, filters: { status: ['done'] } })).toBe(false);
+    expect(isSameViewState(saved, { ...saved, sort: { field: 'due_date', order: 'desc' } })).toBe(false);
+    expect(isSameViewState(saved, { ...saved, gantt_zoom: 'month' })).toBe(false);
+  });
+
+  it('should save date, flag and creator filters', () => {
+    const state = getCurrentViewState({
+      activeView: 'board',
+      filters: { due_from: '2026-10-01', due_to: '', overdue: true, blocked: undefined, created_by: 'me' },
+      tableSort: saved.sort,
+      groupBy: 'none',
+      ganttState: { zoom: 'week' },
+    });
+
+    expect(state.filters).toEqual({ due_from: '2026-10-01', overdue: true, created_by: 'me' });
+    expect(isSameViewState(state, { ...state, filters: { ...state.filters, overdue: undefined } })).toBe(false);
+  });
+});
+
+describe('Task groups', () => {
+  const ada = person('ada', 'Ada');
+  const bob = person('bob', 'Bob');
+  const tasks = [
+    task({ _id: 'a', status: 'done', priority: 'low', assignee_ids: [bob, ada] }),
+    task({ _id: 'b', status: 'todo', priority: 'urgent', assignee_ids: [] }),
+    task({ _id: 'c', status: 'todo', assignee_ids: [ada] }),
+  ];
+  const ids = (groups: ReturnType<typeof groupTasks>) =>
+    groups.map(group => [group.label, group.tasks.map(item => item._id)]);
+
+  it('should group by status in workflow order and skip empty statuses', () => {
+    expect(ids(groupTasks(tasks, 'status', DEFAULT_PLAN_STATUSES))).toEqual([
+      ['To Do', ['b', 'c']],
+      ['Done', ['a']],
+    ]);
+  });
+
+  it('should group by priority, with tasks without one last', () => {
+    expect(ids(groupTasks(tasks, 'priority', DEFAULT_PLAN_STATUSES))).toEqual([
+      ['Urgent', ['b']],
+      ['Low', ['a']],
+      ['No priority', ['c']],
+    ]);
+  });
+
+  it('should list a task under each of its assignees', () => {
+    expect(ids(groupTasks(tasks, 'assignee', DEFAULT_PLAN_STATUSES))).toEqual([
+      ['Ada', ['a', 'c']],
+      ['Bob', ['a']],
+      ['Unassigned', ['b']],
+    ]);
+  });
+});
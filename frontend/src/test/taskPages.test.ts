@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { flattenTaskPages, getServerTaskSort, isServerTaskSort, mapCachedTasks, TaskPage } from '@/lib/taskPages';
+import { getRowOffsets, getVisibleRange } from '@/lib/virtualRows';
+import { TaskWithDetails } from '@/types';
+
+const page = (ids: string[], nextCursor: string | null = null): TaskPage => ({
+  data: ids.map(id => ({ _id: id, title: id }) as TaskWithDetails),
+  pagination: { page: 1, limit: 2, total: 3, pages: 2, next_cursor: nextCursor },
+});
+
+const rename = (tasks: TaskWithDetails[]) => tasks.map(task => ({ ...task, title: `${task.title}!` }));
+
+describe('Task pages', () => {
+  it('should update a single cached page', () => {
+    const updated = mapCachedTasks(page(['a', 'b']), rename);
+
+    expect(updated.data.map(task => task.title)).toEqual(['a!', 'b!']);
+    expect(updated.pagination.total).toBe(3);
+  });
+
+  it('should update every page of an infinite list', () => {
+    const cached = { pages: [page(['a', 'b'], 'next'), page(['c'])], pageParams: [undefined, 'next'] };
+    const updated = mapCachedTasks(cached, rename);
+
+    expect(flattenTaskPages(updated).map(task => task.title)).toEqual(['a!', 'b!', 'c!']);
+    expect(updated.pageParams).toEqual([undefined, 'next']);
+  });
+
+  it('should leave missing cache entries alone', () => {
+    expect(mapCachedTasks(undefined, rename)).toBeUndefined();
+    expect(flattenTaskPages(undefined)).toEqual([]);
+  });
+
+  it('should only ask the server for sorts it can apply', () => {
+    expect(getServerTaskSort({ field: 'due_date', order: 'desc' })).toEqual({ sort: 'due_date', order: 'desc' });
+    expect(getServerTaskSort({ field: 'status', order: 'asc' })).toEqual({});
+    expect(getServerTaskSort({ field: 'cf:abc', order: 'asc' })).toEqual({});
+  });
+
+  it('should only sort by status and custom fields in the browser', () => {
+    expect(isServerTaskSort('title')).toBe(true);
+    expect(isServerTaskSort('status')).toBe(false);
+    expect(isServerTaskSort('cf:abc')).toBe(false);
+  });
+});
+
+describe('Virtual rows', () => {
+  const offsets = getRowOffsets([10, 20, 30, 40, 50]);
+
+  it('should sum row heights into offsets', () => {
+    expect(offsets).toEqual([0, 10, 30, 60, 100, 150]);
+  });
+
+  it('should render the rows in view plus overscan', () => {
+    expect(getVisibleRange(offsets, 0, 25, 0)).toEqual({ start: 0, end: 2 });
+    expect(getVisibleRange(offsets, 35, 30, 0)).toEqual({ start: 2, end: 4 });
+    expect(getVisibleRange(offsets, 35, 30, 1)).toEqual({ start: 1, end: 5 });
+  });
+
+  it('should stay within the list when scrolled past either end', () => {
+    expect(getVisibleRange(offsets, 500, 100, 2)).toEqual({ start: 2, end: 5 });
+    expect(getVisibleRange(offsets, -20, 10, 2)).toEqual({ start: 0, end: 3 });
+    expect(getVisibleRange([0], 0, 100, 2)).toEqual({ start: 0, end: 0 });
+  });
+});
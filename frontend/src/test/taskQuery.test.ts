@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTaskQuerySuggestion,
+  getTaskQueryError,
+  getTaskQuerySuggestions,
+  tokenizeTaskQuery,
+} from '@/lib/taskQuery';
+import { PlanMemberUser } from '@/types';
+
+const members: PlanMemberUser[] = [
+  { _id: 'user-1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'owner' },
+  { _id: 'user-2', name: 'Alan Turing', email: 'alan@example.com', role: 'editor' },
+];
+const context = { statuses: ['todo', 'in_progress', 'done'], members };
+
+describe('Task query language', () => {
+  it('should split a query into highlightable tokens', () => {
+    const input = '-tag:blocked due<2026-11-01 "login bug"';
+    const tokens = tokenizeTaskQuery(input, context);
+    expect(tokens.map(token => [token.kind, input.slice(token.start, token.end)])).toEqual([
+      ['negation', '-'],
+      ['field', 'tag'],
+      ['operator', ':'],
+      ['value', 'blocked'],
+      ['field', 'due'],
+      ['operator', '<'],
+      ['value', '2026-11-01'],
+      ['text', '"login bug"'],
+    ]);
+    expect(tokens.every(token => !token.error)).toBe(true);
+  });
+
+  it('should report the first problem with its position', () => {
+    expect(getTaskQueryError('status:todo assignee:me "login bug"', context)).toBeNull();
+    expect(getTaskQueryError('tag:ui owner:me', context)).toEqual({
+      error: 'Unknown field "owner". Fields: status, assignee, tag, priority, due, start, created, progress',
+      position: 7,
+    });
+    expect(getTaskQueryError('status:', context)).toEqual({ error: 'Missing value after "status:"', position: 6 });
+    expect(getTaskQueryError('status:archived', context)?.error).toBe('Unknown status "archived"');
+    expect(getTaskQueryError('tag>ui', context)?.error).toBe('">" only works with due, start, created, progress');
+    expect(getTaskQueryError('"login bug', context)?.error).toBe('Missing closing quote');
+    expect(getTaskQueryError('assignee:grace', context)?.error).toBe('No plan member matches "grace"');
+    expect(getTaskQueryError('due<tomorrow', context)?.error).toBe('due needs a date like 2026-11-01 or "today"');
+    expect(getTaskQueryError('due<2026-02-30', context)?.error).toBe('due needs a date like 2026-11-01 or "today"');
+    expect(getTaskQueryError('-crash', context)?.error).toBe('Excluding words needs at least one word to search for');
+  });
+
+  it('should suggest fields for a partly typed word', () => {
+    const suggestions = getTaskQuerySuggestions('login st', 8, { ...context, tags: [] });
+    expect(suggestions.map(suggestion => suggestion.label)).toEqual(['status:', 'start:']);
+    expect(applyTaskQuerySuggestion('login st', suggestions[0])).toEqual({ value: 'login status:', caret: 13 });
+  });
+
+  it('should suggest values of the field being typed', () => {
+    const tags = ['backend', 'needs review'];
+    expect(getTaskQuerySuggestions('status:in', 9, { ...context, tags }).map(s => s.label)).toEqual(['in_progress']);
+    expect(getTaskQuerySuggestions('-tag:', 5, { ...context, tags }).map(s => s.insert)).toEqual(['backend ', '"needs review" ']);
+    expect(getTaskQuerySuggestions('tag:ui,', 7, { ...context, tags }).map(s => s.insert)).toEqual(['backend ']);
+    expect(getTaskQuerySuggestions('assignee:ad', 11, { ...context, tags }).map(s => s.insert))
+      .toEqual(['ada@example.com ']);
+    expect(getTaskQuerySuggestions('due<', 4, { ...context, tags }).map(s => s.label)).toEqual(['today']);
+    expect(getTaskQuerySuggestions('"login st', 9, { ...context, tags })).toEqual([]);
+  });
+
+  it('should complete the value under the caret in the middle of a query', () => {
+    const input = 'status:do tag:ui';
+    const [suggestion] = getTaskQuerySuggestions(input, 9, { ...context, tags: [] });
+    expect(applyTaskQuerySuggestion(input, suggestion)).toEqual({ value: 'status:done tag:ui', caret: 11 });
+  });
+});
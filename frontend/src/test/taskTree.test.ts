@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaskTree, flattenTaskTree, getTaskRollup } from '@/lib/taskTree';
+import { Task } from '@/types';
+
+const task = (overrides: Partial<Task> & { _id: string }) => ({
+  status: 'todo' as Task['status'],
+  progress_pct: 0,
+  ...overrides,
+});
+
+describe('Task tree', () => {
+  const tasks = [
+    task({ _id: 'release', start_date: '2026-03-01', due_date: '2026-03-01' }),
+    task({ _id: 'build', parent_id: 'release', start_date: '2026-03-02', due_date: '2026-03-05', progress_pct: 50 }),
+    task({ _id: 'api', parent_id: 'build', status: 'done', due_date: '2026-03-04' }),
+    task({ _id: 'docs', parent_id: 'release', start_date: '2026-03-06', due_date: '2026-03-09' }),
+    task({ _id: 'orphan', parent_id: 'missing' }),
+  ];
+
+  it('should nest subtasks under their parent and keep sibling order', () => {
+    const rows = flattenTaskTree(buildTaskTree(tasks));
+
+    expect(rows.map(row => [row.task._id, row.depth])).toEqual([
+      ['release', 0],
+      ['build', 1],
+      ['api', 2],
+      ['docs', 1],
+      ['orphan', 0],
+    ]);
+  });
+
+  it('should hide the subtasks of collapsed tasks', () => {
+    const rows = flattenTaskTree(buildTaskTree(tasks), new Set(['build']));
+
+    expect(rows.map(row => row.task._id)).toEqual(['release', 'build', 'docs', 'orphan']);
+  });
+
+  it('should roll up counts, progress and dates from subtasks', () => {
+    const [release] = buildTaskTree(tasks);
+    const rollup = getTaskRollup(release);
+
+    expect(rollup.childCount).toBe(2);
+    expect(rollup.descendantCount).toBe(3);
+    expect(rollup.doneCount).toBe(1);
+    expect(rollup.progress).toBe(50); // leaves: api (done) and docs (0%)
+    expect(rollup.startDate).toBe('2026-03-02');
+    expect(rollup.dueDate).toBe('2026-03-09');
+  });
+
+  it('should count custom done statuses as finished', () => {
+    const [release] = buildTaskTree([
+      task({ _id: 'release' }),
+      task({ _id: 'shipped', parent_id: 'release', status: 'shipped' }),
+      task({ _id: 'review', parent_id: 'release', status: 'in_review', progress_pct: 40 }),
+    ]);
+    const rollup = getTaskRollup(release, status => status === 'shipped');
+
+    expect(rollup.doneCount).toBe(1);
+    expect(rollup.progress).toBe(70);
+  });
+
+  it('should treat a parent loop as roots instead of hanging', () => {
+    const rows = flattenTaskTree(buildTaskTree([
+      task({ _id: 'a', parent_id: 'b' }),
+      task({ _id: 'b', parent_id: 'a' }),
+    ]));
+
+    expect(rows.map(row => row.task._id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,8 @@
+import { describe, it, expect } from 'vitest';
+import { getReconnectDelay } from '@/hooks/usePlanEvents';
+
+describe('Event stream reconnects', () => {
+  it('should back off exponentially up to a minute', () => {
+    expect([0, 1, 2, 3, 4, 5, 10].map(getReconnectDelay)).toEqual([3000, 6000, 12000, 24000, 48000, 60000, 60000]);
+  });
+});
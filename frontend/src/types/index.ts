@@ -2,33 +2,101 @@
 export interface User {
   _id: string;
   email: string;
+  pending_email?: string; // requested new email, waiting for confirmation
   name: string;
   avatar?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface ProfileUpdate {
+  name?: string;
+  avatar?: string;
+  email?: string;
+  current_password?: string; // required to change the email
+}
+
+// A user reference; the API populates it with the user's name and email on plan details
+export type UserRef = string | Pick<User, '_id' | 'name' | 'email'>;
+
 export interface Plan {
   _id: string;
   name: string;
   description?: string;
-  owner_id: string;
+  owner_id: UserRef;
   members: Array<{
-    user_id: string;
+    user_id: UserRef;
     role: 'editor' | 'viewer';
     joined_at: string;
   }>;
+  statuses?: PlanStatus[]; // ordered workflow; a task's status is one of these keys
+  custom_fields?: CustomField[];
+  auto_schedule?: boolean; // push dependent tasks forward when a predecessor's dates change
   created_at: string;
   updated_at: string;
 }
 
+// Workflow statuses, configured per plan
+export type StatusCategory = 'todo' | 'active' | 'done';
+
+export interface PlanStatus {
+  key: string;
+  label: string;
+  color: string; // hex, e.g. #3b82f6
+  category: StatusCategory;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'single_select' | 'multi_select' | 'user' | 'checkbox';
+
+// Plan-defined task field; tasks store values keyed by the field's _id
+export interface CustomField {
+  _id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // choices of select fields
+}
+
+// date: YYYY-MM-DD, user: user id, multi_select: option list
+export type CustomFieldValue = string | number | boolean | string[];
+
+export interface PlanMemberUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: 'owner' | 'editor' | 'viewer';
+}
+
+// Invitation types
+export interface PlanInvitation {
+  _id: string;
+  plan_id: string;
+  email: string;
+  role: 'editor' | 'viewer';
+  invited_by: Pick<User, '_id' | 'name' | 'email'> | null; // null once the inviter deleted their account
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  expires_at: string;
+  created_at: string;
+}
+
+// What the emailed invitation link shows before it is accepted
+export interface InvitationPreview {
+  email: string;
+  role: 'editor' | 'viewer';
+  status: PlanInvitation['status'];
+  expires_at: string;
+  plan: { _id: string; name: string };
+  invited_by: Pick<User, '_id' | 'name' | 'email'> | null;
+  has_account: boolean;
+  error: string | null; // why the invitation can no longer be used
+}
+
 // Task types
 export interface Task {
   _id: string;
   plan_id: string;
   title: string;
   description?: string;
-  status: 'todo' | 'in_progress' | 'done';
+  status: string; // key of one of the plan's statuses
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   assignee_ids?: string[];
   start_date?: string; // ISO date string (YYYY-MM-DD)
@@ -42,6 +110,7 @@ export interface Task {
   goal?: string;
   notes?: string;
   deliverables?: string;
+  custom_fields?: Record<string, CustomFieldValue>; // field id -> value
   created_by: string;
   updated_by: string;
   created_at: string;
@@ -55,6 +124,112 @@ export interface TaskWithDetails extends Omit<Task, 'assignee_ids' | 'created_by
   updated_by: User;
 }
 
+// Task activity types
+export type TaskActivityAction = 'create' | 'update' | 'delete' | 'reorder';
+
+export interface TaskFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TaskActivity {
+  _id: string;
+  plan_id: string;
+  task_id: string;
+  task_title: string;
+  action: TaskActivityAction;
+  changes: TaskFieldChange[];
+  actor_id: User;
+  created_at: string;
+}
+
+// Comment types
+export interface Comment {
+  _id: string;
+  plan_id: string;
+  task_id: string;
+  parent_id?: string;
+  author_id: User;
+  body: string;
+  mention_ids: Array<Pick<User, '_id' | 'name' | 'email'>>;
+  is_deleted: boolean;
+  edited_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommentFormData {
+  body: string;
+  parent_id?: string;
+}
+
+// Realtime plan event types (Server-Sent Events)
+export type PlanEventType = 'task.created' | 'task.updated' | 'task.deleted' | 'task.reordered';
+
+export interface PlanEvent {
+  type: PlanEventType;
+  plan_id: string;
+  actor_id: string;
+  origin?: string;
+  data: {
+    task?: TaskWithDetails;
+    tasks?: TaskWithDetails[];
+    task_id?: string;
+    task_ids?: string[];
+  };
+}
+
+// What happens to subtasks when their parent is deleted
+export type TaskDeleteStrategy = 'reject' | 'cascade' | 'promote';
+
+// A dependent task moved by auto-schedule after its predecessor's dates changed
+export interface RescheduledTask {
+  task_id: string;
+  title: string;
+  previous_start_date: string | null;
+  previous_due_date: string | null;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export type TaskUpdateResponse = TaskWithDetails & {
+  rescheduled_tasks?: RescheduledTask[]; // only present when the plan has auto_schedule on
+};
+
+// Dependency graph
+export type DependencyGraphNode = Pick<
+  Task,
+  '_id' | 'title' | 'status' | 'priority' | 'start_date' | 'due_date' | 'progress_pct' |
+  'estimate_hours' | 'parent_id' | 'dependency_ids' | 'order_index'
+>;
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: { from: string; to: string }[]; // from = dependency, to = dependent task
+  topological_order: string[];
+  cycle: string[] | null;
+}
+
+// Critical path, computed by the server over all of a plan's tasks
+export interface TaskSchedule {
+  task_id: string;
+  duration_days: number;
+  earliest_start: string; // YYYY-MM-DD
+  earliest_finish: string;
+  latest_start: string;
+  latest_finish: string;
+  slack_days: number;
+  is_critical: boolean;
+}
+
+export interface CriticalPath {
+  project_start: string | null;
+  project_finish: string | null;
+  critical_path: string[]; // critical task ids, predecessors first
+  schedule: TaskSchedule[];
+}
+
 // API response types
 export interface ApiResponse<T> {
   data?: T;
@@ -69,15 +244,55 @@ export interface PaginatedResponse<T> {
     limit: number;
     total: number;
     pages: number;
+    next_cursor?: string | null; // continues the list after this page; null on the last page
   };
 }
 
+// Paging state a view needs to load more of a task list as it scrolls
+export interface TaskListPaging {
+  total: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreFailed: boolean;
+  onLoadMore: () => void;
+}
+
 // Auth types
 export interface AuthResponse {
   user: User;
   accessToken: string;
 }
 
+// A signed-in browser or device, i.e. one refresh token family
+export interface AuthSession {
+  _id: string;
+  started_at: string;
+  last_used_at: string;
+  expires_at: string;
+  user_agent?: string;
+  ip?: string;
+  current: boolean; // the session making the request
+}
+
+// Personal access token for scripts; the secret itself is only returned on creation
+export interface ApiToken {
+  _id: string;
+  name: string;
+  token_hint: string; // last characters of the token
+  scope: 'read' | 'write';
+  plan_ids: Array<{ _id: string; name: string }>; // empty means all plans
+  expires_at?: string;
+  last_used_at?: string;
+  created_at: string;
+}
+
+export interface ApiTokenFormData {
+  name: string;
+  scope: 'read' | 'write';
+  plan_ids?: string[];
+  expires_at?: string;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -87,6 +302,7 @@ export interface RegisterCredentials {
   email: string;
   password: string;
   name: string;
+  invite_token?: string; // required to claim an account created for an invited email
 }
 
 // Task filter types
@@ -97,7 +313,18 @@ export interface TaskFilters {
   tag?: string | string[];
   priority?: string | string[];
   parent_id?: string | 'null';
+  cf?: Record<string, string | string[]>; // custom field id -> value(s); "me" for user fields
+  due_from?: string; // YYYY-MM-DD, inclusive
+  due_to?: string;
+  start_from?: string;
+  start_to?: string;
+  overdue?: boolean; // due before today and not done
+  unassigned?: boolean;
+  has_dependencies?: boolean;
+  blocked?: boolean; // waiting on a dependency that isn't done
+  created_by?: string; // user id or "me"
   page?: number;
+  cursor?: string; // pagination.next_cursor of the previous page, instead of page
   limit?: number;
   sort?: string;
   order?: 'asc' | 'desc';
@@ -113,11 +340,13 @@ export interface ExportPlan {
       email: string;
       role: 'editor' | 'viewer';
     }>;
+    statuses?: PlanStatus[]; // missing in exports made before custom statuses
+    custom_fields?: Array<Omit<CustomField, '_id'>>;
   };
   tasks: Array<{
     title: string;
     description?: string;
-    status: 'todo' | 'in_progress' | 'done';
+    status: string;
     priority?: 'low' | 'medium' | 'high' | 'urgent';
     assignees: Array<{
       name: string;
@@ -134,6 +363,7 @@ export interface ExportPlan {
     goal?: string;
     notes?: string;
     deliverables?: string;
+    custom_fields?: Record<string, CustomFieldValue>; // field name -> value; user fields hold emails
   }>;
   export_metadata: {
     exported_at: string;
@@ -161,11 +391,46 @@ export interface GanttState {
   showCriticalPath: boolean;
 }
 
+// Saved view types
+export type TaskViewType = 'board' | 'table' | 'gantt';
+export type TaskGrouping = 'none' | 'status' | 'priority' | 'assignee';
+
+export interface TaskSort {
+  field: string; // task field, or cf:<custom field id>
+  order: 'asc' | 'desc';
+}
+
+export type SavedViewFilters = Omit<TaskFilters, 'parent_id' | 'page' | 'limit' | 'sort' | 'order'>;
+
+// Everything a saved view restores
+export interface SavedViewState {
+  view_type: TaskViewType;
+  filters: SavedViewFilters;
+  sort: TaskSort;
+  group_by: TaskGrouping;
+  gantt_zoom: GanttState['zoom'];
+}
+
+export interface SavedView extends SavedViewState {
+  _id: string;
+  plan_id: string;
+  name: string;
+  scope: 'personal' | 'shared'; // personal views are only visible to their creator
+  created_by: Pick<User, '_id' | 'name' | 'email'> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewFormData extends Partial<SavedViewState> {
+  name?: string;
+  scope?: SavedView['scope'];
+}
+
 // Form types
 export interface TaskFormData {
   title: string;
   description?: string;
-  status: 'todo' | 'in_progress' | 'done';
+  status: string; // key of one of the plan's statuses
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   assignee_ids?: string[];
   start_date?: string;
@@ -178,6 +443,7 @@ export interface TaskFormData {
   goal?: string;
   notes?: string;
   deliverables?: string;
+  custom_fields?: Record<string, CustomFieldValue | null>; // null clears a value
 }
 
 // Drag and drop types